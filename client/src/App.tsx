@@ -9,6 +9,8 @@ import StaffPage from "@/pages/staff-page";
 import SwapRequestsPage from "@/pages/swap-requests-page";
 import AvailabilityPage from "@/pages/availability-page";
 import SettingsPage from "@/pages/settings-page";
+import PreferencesPage from "@/pages/preferences-page";
+import ReportsPage from "@/pages/reports-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
@@ -22,6 +24,8 @@ function Router() {
       <Route path="/staff" component={StaffPage} />
       <Route path="/swap-requests" component={SwapRequestsPage} />
       <Route path="/availability" component={AvailabilityPage} />
+      <Route path="/preferences" component={PreferencesPage} />
+      <Route path="/reports" component={ReportsPage} />
       <Route path="/settings" component={SettingsPage} />
       <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
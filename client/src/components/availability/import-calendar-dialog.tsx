@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/format-date";
+import { PublicStaffWithUser } from "@shared/schema";
+
+interface AvailabilityImportEntry {
+  date: string;
+  reason: string;
+}
+
+interface AvailabilityImportResponse {
+  entries: AvailabilityImportEntry[];
+  skipped: AvailabilityImportEntry[];
+  ignored: number;
+}
+
+// Send the file to the import endpoint; a dry run returns the plan without writing it
+async function postCalendar(staffId: string, file: File, dryRun: boolean): Promise<AvailabilityImportResponse> {
+  const params = new URLSearchParams({
+    dryRun: String(dryRun),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  const res = await fetch(`/api/staff/${staffId}/availability/import?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/calendar" },
+    body: await file.text(),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(typeof body?.error === "string" ? body.error : "Failed to import the calendar");
+  }
+  return res.json();
+}
+
+// Upload an .ics file of leave or exams, review the days it would mark unavailable, then confirm
+export function ImportCalendarDialog({ staff }: { staff: PublicStaffWithUser[] }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const ownStaff = staff.find(s => s.userId === user?.id);
+  const [isOpen, setIsOpen] = useState(false);
+  const [staffId, setStaffId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<AvailabilityImportResponse | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Staff can only import into their own availability
+  const selectableStaff = user?.role === "admin" ? staff : staff.filter(s => s.id === ownStaff?.id);
+  const selectedStaffId = staffId || (ownStaff ? String(ownStaff.id) : "");
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!file || !selectedStaffId) return;
+    setIsWorking(true);
+    try {
+      const result = await postCalendar(selectedStaffId, file, dryRun);
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: "Calendar imported",
+        description: `${result.entries.length} day(s) marked unavailable.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error importing calendar",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Import from Calendar</DialogTitle>
+          <DialogDescription>
+            Mark days as unavailable from the events in an .ics file. Days that already have an
+            availability entry are left as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Staff Member</Label>
+            <Select
+              value={selectedStaffId}
+              onValueChange={value => {
+                setStaffId(value);
+                setPreview(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a staff member" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectableStaff.map(member => (
+                  <SelectItem key={member.id} value={member.id.toString()}>
+                    {member.user.firstName} {member.user.lastName} ({member.role})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-calendar-file">Calendar File</Label>
+            <Input
+              id="import-calendar-file"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={e => {
+                setFile(e.target.files?.[0] ?? null);
+                setPreview(null);
+              }}
+            />
+          </div>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-700">
+              {preview.entries.length} day(s) will be marked unavailable
+              {preview.skipped.length > 0 && `, ${preview.skipped.length} skipped as already covered`}
+              {preview.ignored > 0 && `, ${preview.ignored} recurring or cancelled event(s) ignored`}.
+            </p>
+            {preview.entries.length > 0 && (
+              <div className="border rounded-md max-h-[280px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.entries.map(entry => (
+                      <TableRow key={entry.date}>
+                        <TableCell className="whitespace-nowrap">{formatDate(entry.date, "EEE, MMM d, yyyy")}</TableCell>
+                        <TableCell>{entry.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={isWorking}>
+                Back
+              </Button>
+              <Button onClick={() => run(false)} disabled={isWorking || preview.entries.length === 0}>
+                {isWorking ? "Importing..." : `Import ${preview.entries.length} Day(s)`}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => run(true)} disabled={isWorking || !file || !selectedStaffId}>
+              {isWorking ? "Reading..." : "Preview"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,13 +11,13 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/lib/format-date";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { SwapRequestWithDetails } from "@shared/schema";
+import { PublicSwapRequestWithDetails } from "@shared/schema";
 
 export function SwapRequestsTable() {
   const { toast } = useToast();
   
   // Fetch pending swap requests
-  const { data: swapRequests, isLoading } = useQuery<SwapRequestWithDetails[]>({
+  const { data: swapRequests, isLoading } = useQuery<PublicSwapRequestWithDetails[]>({
     queryKey: ["/api/swap-requests"],
     queryFn: async () => {
       const res = await fetch("/api/swap-requests", { credentials: "include" });
@@ -1,6 +1,6 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { ChevronLeft, ChevronRight, AlertTriangle, Plus, Trash2 } from "lucide-react";
+import { ChevronLeft, ChevronRight, AlertTriangle, Plus, Trash2, Lock, Unlock } from "lucide-react";
 import { 
   Card, 
   CardHeader, 
@@ -23,11 +23,36 @@ import {
   getWeekdayName
 } from "@/lib/format-date";
 import { useToast } from "@/hooks/use-toast";
-import { ScheduleWithDetails, InsertSchedule, StaffWithUser } from "@shared/schema";
+import {
+  PublicScheduleWithDetails,
+  InsertSchedule,
+  PublicStaffWithUser,
+  Schedule,
+  SchedulePeriod,
+  ScheduleVersion
+} from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { generateSchedule, ScheduleConflict } from "@/lib/enhanced-scheduling-algorithm";
+import {
+  ScheduleConflict,
+  SchedulingStrategyInfo,
+  DEFAULT_STRATEGY,
+  OptimizationOptions,
+  OptimizationReport,
+  StaffSatisfaction
+} from "@shared/scheduling";
 import { ConflictViewer } from "@/components/schedule/conflict-viewer";
 import { ScheduleEditor } from "@/components/schedule/schedule-editor";
+import { PublishPeriodButton } from "@/components/schedule/publish-period-button";
+import { SchedulePeriodStatusBadge } from "@/components/schedule/schedule-period-status-badge";
+import { UndoRedoControls } from "@/components/schedule/undo-redo-controls";
+import {
+  ScheduleDiffPanel,
+  ScheduleDiffResponse,
+  CHANGE_CELL_CLASSES,
+  describeAssignment,
+  describeScheduleChange
+} from "@/components/schedule/schedule-diff-panel";
+import { useAuth } from "@/hooks/use-auth";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -43,8 +68,8 @@ import {
 function findScheduleForStaffOnDate(
   staffId: number, 
   date: string, 
-  schedules: ScheduleWithDetails[]
-): ScheduleWithDetails | undefined {
+  schedules: PublicScheduleWithDetails[]
+): PublicScheduleWithDetails | undefined {
   return schedules.find(
     schedule => schedule.staffId === staffId && schedule.date === date
   );
@@ -58,6 +83,7 @@ export function WeeklySchedule({
   scheduleView = "weekly",
 }: WeeklyScheduleProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [activeView, setActiveView] = useState<"weekly" | "daily" | "monthly">(scheduleView);
   
@@ -68,7 +94,7 @@ export function WeeklySchedule({
   const { 
     data: schedules, 
     isLoading: isLoadingSchedules 
-  } = useQuery<ScheduleWithDetails[]>({
+  } = useQuery<PublicScheduleWithDetails[]>({
     queryKey: ["/api/schedule", { startDate, endDate }],
     queryFn: async ({ queryKey }) => {
       const [_, params] = queryKey as [string, { startDate: string; endDate: string }];
@@ -136,6 +162,40 @@ export function WeeklySchedule({
     }
   });
   
+  // Admins edit the draft; the period covering the week says whether it has been published
+  const { data: periods = [] } = useQuery<SchedulePeriod[]>({
+    queryKey: ["/api/schedule-periods"],
+  });
+  const weekPeriod = periods.find(p => p.startDate <= endDate && p.endDate >= startDate);
+  
+  // Published versions of the week's period, to compare the grid against
+  const { data: versions = [] } = useQuery<ScheduleVersion[]>({
+    queryKey: [`/api/schedule-periods/${weekPeriod?.id}/versions`],
+    enabled: !!weekPeriod,
+  });
+  const [compareVersionId, setCompareVersionId] = useState<number | null>(null);
+  const compareVersion = versions.find(v => v.id === compareVersionId);
+  
+  // The grid shows the draft to admins and the published schedule to everyone else
+  const { data: scheduleDiff } = useQuery<ScheduleDiffResponse>({
+    queryKey: ["/api/schedule", "diff", { startDate, endDate, from: compareVersion?.id }],
+    queryFn: async () => {
+      const to = user?.role === "admin" ? "draft" : "published";
+      const res = await fetch(
+        `/api/schedule/diff?from=${compareVersion?.id}&to=${to}&startDate=${startDate}&endDate=${endDate}`,
+        { credentials: "include" }
+      );
+      if (!res.ok) throw new Error("Failed to compare schedules");
+      return res.json();
+    },
+    enabled: !!compareVersion,
+  });
+  const changesByCell = new Map(
+    (compareVersion ? scheduleDiff?.staff ?? [] : [])
+      .flatMap(({ changes }) => changes)
+      .map(change => [`${change.staffId}|${change.date}`, change])
+  );
+  
   const isLoading = isLoadingSchedules || isLoadingStaff || isLoadingShiftTypes || isLoadingDutyTypes;
   
   // Navigate to previous week
@@ -179,27 +239,27 @@ export function WeeklySchedule({
   };
   
   // Get class for shift cell based on duty and shift type
-  const getCellClasses = (schedule?: ScheduleWithDetails) => {
+  const getCellClasses = (schedule?: PublicScheduleWithDetails) => {
     if (!schedule) return "p-2 rounded bg-slate-100";
     
     let classes = "p-2 rounded ";
     
     // Add duty type class
-    if (schedule.dutyType.name === "Pre-Duty") {
+    if (schedule.dutyType.category === "pre_duty") {
       classes += "bg-slate-200 border-l-[3px] border-slate-400 ";
-    } else if (schedule.dutyType.name === "Duty") {
+    } else if (schedule.dutyType.category === "duty") {
       classes += "bg-indigo-100 border-l-[3px] border-indigo-500 ";
-    } else if (schedule.dutyType.name === "Post-Duty") {
+    } else if (schedule.dutyType.category === "post_duty") {
       classes += "bg-red-100 border-l-[3px] border-red-500 ";
     }
     
     // Add shift type class if applicable
     if (schedule.shiftType) {
-      if (schedule.shiftType.name === "Day Shift") {
+      if (schedule.shiftType.category === "day") {
         classes += "border-t-[3px] border-green-500";
-      } else if (schedule.shiftType.name === "Evening Shift") {
+      } else if (schedule.shiftType.category === "evening") {
         classes += "border-t-[3px] border-amber-500";
-      } else if (schedule.shiftType.name === "Night Shift") {
+      } else if (schedule.shiftType.category === "night") {
         classes += "border-t-[3px] border-indigo-700";
       }
     }
@@ -208,85 +268,90 @@ export function WeeklySchedule({
   };
   
   // State for conflict management and visualization
-  const [scheduleConflicts, setScheduleConflicts] = useState<ReturnType<typeof generateSchedule>['conflicts']>([]);
+  const [scheduleConflicts, setScheduleConflicts] = useState<ScheduleConflict[]>([]);
   const [isShowingConflicts, setIsShowingConflicts] = useState(false);
   const [isGeneratingSchedule, setIsGeneratingSchedule] = useState(false);
   const [isClearingShifts, setIsClearingShifts] = useState(false);
   
   // State for schedule editing
   const [isEditingSchedule, setIsEditingSchedule] = useState(false);
-  const [selectedSchedule, setSelectedSchedule] = useState<ScheduleWithDetails | undefined>(undefined);
+  const [selectedSchedule, setSelectedSchedule] = useState<PublicScheduleWithDetails | undefined>(undefined);
   const [selectedStaffId, setSelectedStaffId] = useState<number | null>(null);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
 
+  // Fetch the scheduling strategies the generator offers
+  const { data: strategies } = useQuery<SchedulingStrategyInfo[]>({
+    queryKey: ["/api/schedule/strategies"],
+  });
+  const [selectedStrategy, setSelectedStrategy] = useState(DEFAULT_STRATEGY);
+  // Last optimization run, replayed when a schedule with conflicts is accepted
+  const [lastOptimization, setLastOptimization] = useState<OptimizationReport | null>(null);
+
+  // Ask the server to generate and save the schedule for the current week
+  const requestScheduleGeneration = async (allowConflicts: boolean, optimization?: OptimizationOptions) => {
+    const response = await apiRequest("POST", "/api/schedule/generate", {
+      startDate,
+      endDate,
+      strategy: selectedStrategy,
+      optimization,
+      options: { allowConflicts },
+    });
+    return response.json() as Promise<{
+      schedules: Schedule[];
+      conflicts: ScheduleConflict[];
+      optimization?: OptimizationReport;
+      satisfaction: StaffSatisfaction[];
+      persisted: boolean;
+    }>;
+  };
+
+  const describeOptimization = (report?: OptimizationReport) =>
+    report ? ` Optimization score ${report.before.total} → ${report.after.total}.` : "";
+
+  const describeSatisfaction = (satisfaction: StaffSatisfaction[]) => {
+    if (satisfaction.length === 0) return "";
+    const average = Math.round(satisfaction.reduce((sum, s) => sum + s.score, 0) / satisfaction.length);
+    return ` Preference satisfaction ${average}%.`;
+  };
+  
   // Function to handle schedule generation with enhanced conflict detection
   const handleGenerateSchedule = async () => {
-    if (!staff || !shiftTypes || !dutyTypes || !availabilities) {
-      toast({
-        title: "Error",
-        description: "Missing required data to generate schedule",
-        variant: "destructive"
-      });
-      return;
-    }
-    
     try {
       setIsGeneratingSchedule(true);
       
-      // Generate new schedule using enhanced algorithm with conflict detection
-      const { schedules: newSchedules, conflicts } = generateSchedule({
-        staff,
-        shiftTypes,
-        dutyTypes,
-        availabilities: availabilities || [],
-        startDate,
-        endDate,
-        existingSchedules: schedules || []
-      });
+      const { conflicts, persisted, optimization, satisfaction } = await requestScheduleGeneration(false);
       
       // Store conflicts for visualization
       setScheduleConflicts(conflicts);
+      setLastOptimization(optimization ?? null);
       
-      // If there are critical (error severity) conflicts, show them before saving
-      const criticalConflicts = conflicts.filter(c => c.severity === "error");
-      if (criticalConflicts.length > 0) {
+      // Critical (error severity) conflicts block saving until reviewed
+      if (!persisted) {
         setIsShowingConflicts(true);
         
+        const criticalConflicts = conflicts.filter(c => c.severity === "error");
         toast({
           title: "Schedule has conflicts",
           description: `${criticalConflicts.length} critical conflicts detected. Review before saving.`,
           variant: "default"
         });
-        
-        setIsGeneratingSchedule(false);
         return;
       }
       
-      // Save the generated schedule
-      const response = await apiRequest("POST", "/api/schedule/batch", newSchedules);
+      // Invalidate the schedules query to refetch the data
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
       
-      if (response.ok) {
-        // Invalidate the schedules query to refetch the data
-        queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
-        
-        // If there are non-critical conflicts, still show them but notify of successful save
-        if (conflicts.length > 0) {
-          setIsShowingConflicts(true);
-          toast({
-            title: "Schedule generated with warnings",
-            description: `Schedule saved with ${conflicts.length} non-critical warnings.`,
-          });
-        } else {
-          toast({
-            title: "Success",
-            description: "Schedule has been generated successfully without conflicts",
-          });
-        }
+      // If there are non-critical conflicts, still show them but notify of successful save
+      if (conflicts.length > 0) {
+        setIsShowingConflicts(true);
+        toast({
+          title: "Schedule generated with warnings",
+          description: `Schedule saved with ${conflicts.length} non-critical warnings.${describeOptimization(optimization)}${describeSatisfaction(satisfaction)}`,
+        });
       } else {
         toast({
-          title: "Error",
-          description: "Failed to save the generated schedule",
-          variant: "destructive"
+          title: "Success",
+          description: `Schedule has been generated successfully without conflicts.${describeOptimization(optimization)}${describeSatisfaction(satisfaction)}`,
         });
       }
     } catch (error) {
@@ -303,38 +368,26 @@ export function WeeklySchedule({
   
   // Handle acceptance of schedules with warnings
   const handleAcceptSchedule = async () => {
-    // Save the generated schedule with warnings
+    // Regenerate and save even though there are conflicts
     try {
-      const { schedules: newSchedules } = generateSchedule({
-        staff,
-        shiftTypes,
-        dutyTypes,
-        availabilities: availabilities || [],
-        startDate,
-        endDate,
-        existingSchedules: schedules || []
-      });
+      // Replay the same search so the saved schedule is the one that was reviewed
+      const { conflicts } = await requestScheduleGeneration(true, lastOptimization ? {
+        seed: lastOptimization.seed,
+        maxIterations: lastOptimization.iterations,
+        timeBudgetMs: 10000,
+      } : undefined);
+      setScheduleConflicts(conflicts);
       
-      const response = await apiRequest("POST", "/api/schedule/batch", newSchedules);
+      // Invalidate the schedules query to refetch the data
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
       
-      if (response.ok) {
-        // Invalidate the schedules query to refetch the data
-        queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
-        
-        toast({
-          title: "Success",
-          description: "Schedule has been generated and saved with warnings",
-        });
-        
-        // Close the conflict viewer
-        setIsShowingConflicts(false);
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to save the generated schedule",
-          variant: "destructive"
-        });
-      }
+      toast({
+        title: "Success",
+        description: "Schedule has been generated and saved with warnings",
+      });
+      
+      // Close the conflict viewer
+      setIsShowingConflicts(false);
     } catch (error) {
       console.error("Error saving schedule:", error);
       toast({
@@ -355,9 +408,12 @@ export function WeeklySchedule({
       );
       
       if (response.ok) {
+        const { keptLocked } = await response.json() as { deleted: number; keptLocked: number };
         toast({
           title: "Success",
-          description: "All shifts for the current week have been cleared.",
+          description: keptLocked > 0
+            ? `Shifts for the current week have been cleared, except ${keptLocked} locked. Press Ctrl+Z to undo.`
+            : "All shifts for the current week have been cleared. Press Ctrl+Z to undo.",
         });
         queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
         setScheduleConflicts([]); // Clear any displayed conflicts
@@ -381,7 +437,7 @@ export function WeeklySchedule({
   };
   
   // Handle opening the schedule editor
-  const handleEditSchedule = (staffId: number, date: string, schedule?: ScheduleWithDetails) => {
+  const handleEditSchedule = (staffId: number, date: string, schedule?: PublicScheduleWithDetails) => {
     setSelectedStaffId(staffId);
     setSelectedDate(date);
     setSelectedSchedule(schedule);
@@ -399,6 +455,7 @@ export function WeeklySchedule({
         shiftTypeId: scheduleData.shiftTypeId === "none" || scheduleData.shiftTypeId === "" ? null : parseInt(scheduleData.shiftTypeId),
         dutyTypeId: parseInt(scheduleData.dutyTypeId),
         unit: scheduleData.unit || null,
+        locked: !!scheduleData.locked,
       };
       
       let response;
@@ -407,11 +464,11 @@ export function WeeklySchedule({
         response = await apiRequest(
           "PATCH", 
           `/api/schedule/${selectedSchedule.id}`, 
-          scheduleToSave
+          { ...scheduleToSave, reason: scheduleData.notes }
         );
       } else {
         // Create new schedule
-        response = await apiRequest("POST", "/api/schedule", scheduleToSave);
+        response = await apiRequest("POST", "/api/schedule", { ...scheduleToSave, reason: scheduleData.notes });
       }
       
       if (response.ok) {
@@ -441,6 +498,21 @@ export function WeeklySchedule({
     }
   };
   
+  // Pin or unpin a schedule so regeneration leaves it alone
+  const handleToggleLock = async (schedule: PublicScheduleWithDetails) => {
+    try {
+      await apiRequest("PATCH", `/api/schedule/${schedule.id}`, { locked: !schedule.locked });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+    } catch (error) {
+      console.error("Error updating schedule lock:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update the schedule lock",
+        variant: "destructive"
+      });
+    }
+  };
+  
   // Handle schedule deletion
   const handleDeleteSchedule = async (scheduleId: number) => {
     try {
@@ -530,6 +602,7 @@ export function WeeklySchedule({
               <ChevronRight className="h-5 w-5" />
             </Button>
             <div className="border-l border-slate-200 mx-2 hidden md:block"></div>
+            {user?.role === "admin" && <UndoRedoControls />}
             <Select value={activeView} onValueChange={handleViewChange}>
               <SelectTrigger className="w-[110px]">
                 <SelectValue />
@@ -540,6 +613,42 @@ export function WeeklySchedule({
                 <SelectItem value="monthly">Monthly</SelectItem>
               </SelectContent>
             </Select>
+            <Select value={selectedStrategy} onValueChange={setSelectedStrategy}>
+              <SelectTrigger className="w-[130px] hidden md:flex" title="Scheduling strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(strategies ?? []).map(strategy => (
+                  <SelectItem key={strategy.name} value={strategy.name}>
+                    {strategy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {user?.role === "admin" && weekPeriod && (
+              <div className="hidden md:flex items-center gap-2" title={weekPeriod.name}>
+                <SchedulePeriodStatusBadge status={weekPeriod.status} />
+                <PublishPeriodButton period={weekPeriod} className="flex items-center" />
+              </div>
+            )}
+            {versions.length > 0 && (
+              <Select
+                value={compareVersion ? compareVersion.id.toString() : "none"}
+                onValueChange={value => setCompareVersionId(value === "none" ? null : parseInt(value))}
+              >
+                <SelectTrigger className="w-[170px] hidden md:flex" title="Highlight changes since a published version">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No comparison</SelectItem>
+                  {versions.map(version => (
+                    <SelectItem key={version.id} value={version.id.toString()}>
+                      Since version {version.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <Button
               variant="default"
               size="sm"
@@ -566,8 +675,9 @@ export function WeeklySchedule({
                 <AlertDialogHeader>
                   <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete all 
-                    schedule assignments for the week of {formatDateForDisplay(new Date(startDate))} - {formatDateForDisplay(new Date(endDate))}.
+                    This will delete all schedule assignments for the week of{" "}
+                    {formatDateForDisplay(new Date(startDate))} - {formatDateForDisplay(new Date(endDate))}.
+                    You can bring them back with Undo.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -595,6 +705,17 @@ export function WeeklySchedule({
         
         <ScheduleLegend />
         
+        {compareVersion && scheduleDiff && (
+          <ScheduleDiffPanel
+            diff={scheduleDiff}
+            label={`version ${compareVersion.version}`}
+            staffList={staff ?? []}
+            shiftTypes={shiftTypes ?? []}
+            dutyTypes={dutyTypes ?? []}
+            onClose={() => setCompareVersionId(null)}
+          />
+        )}
+        
         <CardContent className="p-0">
           <div className="overflow-x-auto max-h-[calc(100vh-350px)] responsive-table-wrapper">
             <table className="min-w-full border-collapse">
@@ -636,7 +757,7 @@ export function WeeklySchedule({
                     </tr>
                   ))
                 ) : (
-                  staff?.map((staffMember: StaffWithUser) => {
+                  staff?.map((staffMember: PublicStaffWithUser) => {
                     const staffSchedules = schedules?.filter(
                       (s) => s.staffId === staffMember.id
                     ) || [];
@@ -664,12 +785,18 @@ export function WeeklySchedule({
                             c => c.staffId === staffMember.id && c.date === day.date
                           );
                           
+                          // Check if this cell changed since the compared version
+                          const change = changesByCell.get(`${staffMember.id}|${day.date}`);
+                          
                           let cellClass = getCellClasses(schedule);
                           if (conflict) {
                             cellClass += conflict.severity === "error" 
                               ? " conflict-error conflict-error-pulse" 
                               : " conflict-warning conflict-warning-pulse";
                           }
+                          if (change) {
+                            cellClass += ` ${CHANGE_CELL_CLASSES[change.type]}`;
+                          }
                           
                           return (
                             <td key={day.date} className="py-2 px-1 text-sm text-slate-900">
@@ -677,7 +804,20 @@ export function WeeklySchedule({
                                 className="has-tooltip cursor-pointer"
                                 onClick={() => handleEditSchedule(staffMember.id, day.date, schedule)}
                               >
-                                <div className={`${cellClass} schedule-cell`}>
+                                <div className={`${cellClass} schedule-cell relative group`}>
+                                  {schedule && (
+                                    <button
+                                      type="button"
+                                      className={`absolute top-1 right-1 ${schedule.locked ? "text-slate-700" : "text-slate-400 opacity-0 group-hover:opacity-100"}`}
+                                      title={schedule.locked ? "Locked: kept when regenerating. Click to unlock." : "Lock this assignment"}
+                                      onClick={e => {
+                                        e.stopPropagation();
+                                        handleToggleLock(schedule);
+                                      }}
+                                    >
+                                      {schedule.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                                    </button>
+                                  )}
                                   {schedule?.shiftType ? (
                                     <>
                                       <p className="text-xs font-medium">{schedule.shiftType.name}</p>
@@ -685,6 +825,13 @@ export function WeeklySchedule({
                                         {schedule.shiftType.startTime} - {schedule.shiftType.endTime}
                                       </p>
                                     </>
+                                  ) : change?.type === "removed" && change.before ? (
+                                    <>
+                                      <p className="text-xs font-medium">Removed</p>
+                                      <p className="text-xs line-through text-slate-500">
+                                        {describeAssignment(change.before, shiftTypes ?? [], dutyTypes ?? [])}
+                                      </p>
+                                    </>
                                   ) : (
                                     <>
                                       <p className="text-xs font-medium">Off</p>
@@ -693,6 +840,12 @@ export function WeeklySchedule({
                                   )}
                                 </div>
                                 <div className="tooltip rounded shadow-lg p-2 bg-black bg-opacity-80 text-white text-xs -mt-14 ml-8 w-48">
+                                  {change && compareVersion && (
+                                    <div className="border-b border-gray-600 mb-1 pb-1 text-sky-300">
+                                      <p className="font-medium">Since version {compareVersion.version}:</p>
+                                      <p>{describeScheduleChange(change, shiftTypes ?? [], dutyTypes ?? [])}</p>
+                                    </div>
+                                  )}
                                   {conflict ? (
                                     <div className="text-xs">
                                       <div className={conflict.severity === "error" ? "text-red-300" : "text-amber-300"}>
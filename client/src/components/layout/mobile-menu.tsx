@@ -37,6 +37,11 @@ export function MobileMenu({ onLogout }: MobileMenuProps) {
       href: "/availability",
       icon: "clock",
     },
+    {
+      title: "My Preferences",
+      href: "/preferences",
+      icon: "sliders",
+    },
     {
       title: "Swap Requests",
       href: "/swap-requests",
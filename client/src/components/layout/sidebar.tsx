@@ -8,6 +8,7 @@ import {
   RefreshCw, 
   FileBarChart, 
   Settings, 
+  SlidersHorizontal,
   LogOut
 } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -40,6 +41,11 @@ export function Sidebar() {
       href: "/availability",
       icon: <Clock className="h-5 w-5" />,
     },
+    {
+      title: "My Preferences",
+      href: "/preferences",
+      icon: <SlidersHorizontal className="h-5 w-5" />,
+    },
     {
       title: "Swap Requests",
       href: "/swap-requests",
@@ -80,7 +86,7 @@ export function Sidebar() {
       
       <nav className="flex-1 py-4">
         <div className="px-3 mb-2 text-xs font-semibold text-slate-500 uppercase">Main</div>
-        {navItems.slice(0, 4).map((item) => (
+        {navItems.slice(0, 5).map((item) => (
           <Link key={item.href} href={item.href}>
             <a className={cn(
               "flex items-center gap-3 px-3 py-2 mx-2 rounded-md",
@@ -95,7 +101,7 @@ export function Sidebar() {
         ))}
         
         <div className="px-3 mb-2 mt-6 text-xs font-semibold text-slate-500 uppercase">Management</div>
-        {navItems.slice(4).map((item) => (
+        {navItems.slice(5).map((item) => (
           <Link key={item.href} href={item.href}>
             <a className={cn(
               "flex items-center gap-3 px-3 py-2 mx-2 rounded-md",
@@ -26,7 +26,7 @@ import {
   User,
   CheckCircle2
 } from "lucide-react";
-import { ScheduleConflict, ConflictType } from "@/lib/enhanced-scheduling-algorithm";
+import { ScheduleConflict, ConflictType } from "@shared/scheduling";
 import { formatDate } from "@/lib/format-date";
 
 interface ConflictViewerProps {
@@ -34,13 +34,15 @@ interface ConflictViewerProps {
   isOpen: boolean;
   onClose: () => void;
   onAcceptAnyway: () => void;
+  acceptLabel?: string;
 }
 
 export function ConflictViewer({ 
   conflicts, 
   isOpen, 
   onClose,
-  onAcceptAnyway
+  onAcceptAnyway,
+  acceptLabel = "Accept and Save"
 }: ConflictViewerProps) {
   const errorConflicts = conflicts.filter(c => c.severity === "error");
   const warningConflicts = conflicts.filter(c => c.severity === "warning");
@@ -52,6 +54,8 @@ export function ConflictViewer({
         return "Consecutive Shifts";
       case ConflictType.EXCEEDS_WEEKLY_HOURS:
         return "Exceeds Weekly Hours";
+      case ConflictType.EXCEEDS_WEEKLY_SHIFTS:
+        return "Exceeds Weekly Shifts";
       case ConflictType.REST_PERIOD_VIOLATION:
         return "Rest Period Violation";
       case ConflictType.UNAVAILABLE_STAFF:
@@ -60,6 +64,16 @@ export function ConflictViewer({
         return "Existing Assignment";
       case ConflictType.SPECIALIZATION_MISMATCH:
         return "Specialization Mismatch";
+      case ConflictType.NIGHT_SHIFT_LIMIT:
+        return "Night Shift Limit";
+      case ConflictType.INSUFFICIENT_DAYS_OFF:
+        return "Insufficient Days Off";
+      case ConflictType.UNDERSTAFFED:
+        return "Understaffed";
+      case ConflictType.SKILL_MIX_VIOLATION:
+        return "Skill Mix";
+      case ConflictType.ROTATION_DEVIATION:
+        return "Rotation Deviation";
       default:
         return "Unknown";
     }
@@ -122,7 +136,7 @@ export function ConflictViewer({
                   <TableCell>{getConflictTypeName(conflict.type)}</TableCell>
                   <TableCell className="flex items-center gap-2">
                     <User className="h-4 w-4 text-slate-400" />
-                    {conflict.staffName}
+                    {conflict.staffName ?? "Whole shift"}
                   </TableCell>
                   <TableCell className="flex items-center gap-2">
                     <Calendar className="h-4 w-4 text-slate-400" />
@@ -167,7 +181,7 @@ export function ConflictViewer({
                 variant="default" 
                 onClick={onAcceptAnyway}
               >
-                Accept and Save
+                {acceptLabel}
               </Button>
             )}
           </div>
@@ -0,0 +1,182 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { getWeekDateRange } from "@/lib/format-date";
+
+// "pdf" is the printable roster, which always lays out staff by date
+type ExportFormat = "csv" | "xlsx" | "pdf";
+type ExportLayout = "assignments" | "matrix";
+type PdfOrientation = "landscape" | "portrait";
+
+// Save a response body under the filename the server gave it
+async function saveDownload(res: Response, fallbackName: string) {
+  const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Download a range of the schedule for payroll or unit boards
+export function ExportScheduleDialog() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const week = getWeekDateRange(new Date());
+  const [isOpen, setIsOpen] = useState(false);
+  const [startDate, setStartDate] = useState(week.startDate);
+  const [endDate, setEndDate] = useState(week.endDate);
+  const [unit, setUnit] = useState("");
+  const [layout, setLayout] = useState<ExportLayout>("matrix");
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [orientation, setOrientation] = useState<PdfOrientation>("landscape");
+  const [view, setView] = useState<"draft" | "published">("draft");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const isValidRange = !!startDate && !!endDate && startDate <= endDate;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const params = format === "pdf"
+        ? new URLSearchParams({ startDate, endDate, orientation, view })
+        : new URLSearchParams({ startDate, endDate, format, layout, view });
+      if (unit.trim()) params.set("unit", unit.trim());
+      const url = format === "pdf" ? `/api/schedule/roster.pdf?${params}` : `/api/schedule/export?${params}`;
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(typeof body?.error === "string" ? body.error : "Failed to export the schedule");
+      }
+      await saveDownload(res, `schedule.${format}`);
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error exporting schedule",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Export Schedule</DialogTitle>
+          <DialogDescription>
+            Download a spreadsheet of the schedule, or a roster ready to print
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-start">Start Date</Label>
+            <Input id="export-start" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-end">End Date</Label>
+            <Input id="export-end" type="date" value={endDate} onChange={e => setEndDate(e.target.value)} />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="export-unit">Unit</Label>
+            <Input id="export-unit" placeholder="All units" value={unit} onChange={e => setUnit(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={value => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="pdf">PDF roster</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {format === "pdf" ? (
+            <div className="space-y-2">
+              <Label>Orientation</Label>
+              <Select value={orientation} onValueChange={value => setOrientation(value as PdfOrientation)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="landscape">Landscape (two weeks per page)</SelectItem>
+                  <SelectItem value="portrait">Portrait (one week per page)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Layout</Label>
+              <Select value={layout} onValueChange={value => setLayout(value as ExportLayout)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="matrix">Staff by date</SelectItem>
+                  <SelectItem value="assignments">One row per assignment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {user?.role === "admin" && (
+            <div className="space-y-2 col-span-2">
+              <Label>Schedule</Label>
+              <Select value={view} onValueChange={value => setView(value as "draft" | "published")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="published">Published</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        {!isValidRange && (
+          <p className="text-sm text-red-600">Choose a start date on or before the end date.</p>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={!isValidRange || isExporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? "Exporting..." : "Download"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
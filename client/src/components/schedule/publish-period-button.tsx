@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SchedulePeriod, ScheduleVersion } from "@shared/schema";
+import { ScheduleConflict } from "@shared/scheduling";
+import { ConflictViewer } from "./conflict-viewer";
+
+interface PublishPeriodButtonProps {
+  period: SchedulePeriod;
+  size?: "sm" | "default";
+  className?: string;
+}
+
+// Reviews the period's draft and publishes it; conflicts are shown for review first
+export function PublishPeriodButton({ period, size = "sm", className }: PublishPeriodButtonProps) {
+  const { toast } = useToast();
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [isShowingConflicts, setIsShowingConflicts] = useState(false);
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/schedule-periods/${period.id}/publish`, {});
+      return res.json() as Promise<{ version?: ScheduleVersion; conflicts: ScheduleConflict[]; published: boolean }>;
+    },
+    onSuccess: ({ version, conflicts, published }) => {
+      if (!published) {
+        // The draft changed since it was reviewed and now has critical conflicts
+        setConflicts(conflicts);
+        setIsShowingConflicts(true);
+        return;
+      }
+      setIsShowingConflicts(false);
+      toast({
+        title: "Schedule published",
+        description: `${period.name} is live as version ${version?.version}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-periods"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/schedule-periods/${period.id}/versions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error publishing schedule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/schedule-periods/${period.id}/review`);
+      return res.json() as Promise<{ conflicts: ScheduleConflict[] }>;
+    },
+    onSuccess: ({ conflicts }) => {
+      if (conflicts.length === 0) {
+        publishMutation.mutate();
+        return;
+      }
+      setConflicts(conflicts);
+      setIsShowingConflicts(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error reviewing schedule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isBusy = reviewMutation.isPending || publishMutation.isPending;
+
+  return (
+    <>
+      <Button
+        size={size}
+        className={className}
+        disabled={isBusy || period.status === "archived"}
+        onClick={() => reviewMutation.mutate()}
+      >
+        <Send className="h-4 w-4 mr-1" />
+        {isBusy ? "Publishing..." : period.status === "draft" ? "Publish" : "Republish"}
+      </Button>
+      <ConflictViewer
+        conflicts={conflicts}
+        isOpen={isShowingConflicts}
+        onClose={() => setIsShowingConflicts(false)}
+        onAcceptAnyway={() => publishMutation.mutate()}
+        acceptLabel="Publish Anyway"
+      />
+    </>
+  );
+}
@@ -0,0 +1,115 @@
+import React from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { formatDate } from "@/lib/format-date";
+import { DutyType, PublicStaffWithUser, ShiftType } from "@shared/schema";
+import { ScheduleChange, ScheduleDiff, ScheduleDiffRow } from "@shared/scheduling";
+
+export type ScheduleSnapshotRef = "draft" | "published" | number;
+
+export interface ScheduleDiffResponse extends ScheduleDiff {
+  from: ScheduleSnapshotRef;
+  to: ScheduleSnapshotRef;
+  startDate: string;
+  endDate: string;
+}
+
+// Cell highlight for each kind of change in the schedule grid
+export const CHANGE_CELL_CLASSES: Record<ScheduleChange["type"], string> = {
+  added: "ring-2 ring-green-500",
+  changed: "ring-2 ring-amber-500",
+  removed: "outline-dashed outline-2 outline-red-400",
+};
+
+const CHANGE_BADGE_CLASSES: Record<ScheduleChange["type"], string> = {
+  added: "bg-green-50 text-green-700 border-green-200",
+  changed: "bg-amber-50 text-amber-700 border-amber-200",
+  removed: "bg-red-50 text-red-700 border-red-200",
+};
+
+// e.g. "Day Shift (Duty)" or "Post-Duty"
+export function describeAssignment(row: ScheduleDiffRow, shiftTypes: ShiftType[], dutyTypes: DutyType[]): string {
+  const dutyName = dutyTypes.find(dt => dt.id === row.dutyTypeId)?.name ?? "Unknown duty";
+  const shiftName = shiftTypes.find(st => st.id === row.shiftTypeId)?.name;
+  return shiftName ? `${shiftName} (${dutyName})` : dutyName;
+}
+
+// e.g. "Added Day Shift (Duty)" or "Shift: Day Shift → Night Shift; Unit: General → ICU"
+export function describeScheduleChange(change: ScheduleChange, shiftTypes: ShiftType[], dutyTypes: DutyType[]): string {
+  if (change.type === "added" && change.after) {
+    return `Added ${describeAssignment(change.after, shiftTypes, dutyTypes)}`;
+  }
+  if (change.type === "removed" && change.before) {
+    return `Removed ${describeAssignment(change.before, shiftTypes, dutyTypes)}`;
+  }
+
+  const shiftName = (id: number | null) => shiftTypes.find(st => st.id === id)?.name ?? "No shift";
+  const dutyName = (id: number) => dutyTypes.find(dt => dt.id === id)?.name ?? "Unknown duty";
+  const { before, after } = change;
+  if (!before || !after) return "";
+
+  return change.fields.map(field => {
+    switch (field) {
+      case "shiftTypeId":
+        return `Shift: ${shiftName(before.shiftTypeId)} → ${shiftName(after.shiftTypeId)}`;
+      case "dutyTypeId":
+        return `Duty: ${dutyName(before.dutyTypeId)} → ${dutyName(after.dutyTypeId)}`;
+      case "unit":
+        return `Unit: ${before.unit || "General"} → ${after.unit || "General"}`;
+    }
+  }).join("; ");
+}
+
+interface ScheduleDiffPanelProps {
+  diff: ScheduleDiffResponse;
+  // What the grid is compared with, e.g. "version 2"
+  label: string;
+  staffList: PublicStaffWithUser[];
+  shiftTypes: ShiftType[];
+  dutyTypes: DutyType[];
+  onClose: () => void;
+}
+
+// Per-staff list of what changed between two snapshots
+export function ScheduleDiffPanel({ diff, label, staffList, shiftTypes, dutyTypes, onClose }: ScheduleDiffPanelProps) {
+  const getStaffName = (staffId: number) => {
+    const member = staffList.find(s => s.id === staffId);
+    return member ? `${member.user.firstName} ${member.user.lastName}` : "Unknown";
+  };
+
+  return (
+    <div className="border-b border-slate-200 bg-slate-50 px-4 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-slate-700">
+          Changes since {label}: {diff.added} added, {diff.changed} changed, {diff.removed} removed
+        </p>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {diff.staff.length ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-48 overflow-y-auto">
+          {diff.staff.map(({ staffId, changes }) => (
+            <div key={staffId} className="text-sm">
+              <p className="font-medium text-slate-900">{getStaffName(staffId)}</p>
+              <ul className="mt-1 space-y-1">
+                {changes.map(change => (
+                  <li key={change.date} className="flex items-center gap-2 text-slate-600">
+                    <Badge variant="outline" className={CHANGE_BADGE_CLASSES[change.type]}>
+                      {change.type}
+                    </Badge>
+                    <span className="w-20 shrink-0">{formatDate(change.date, "EEE, MMM d")}</span>
+                    <span>{describeScheduleChange(change, shiftTypes, dutyTypes)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">Nothing has changed for this week.</p>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Form,
   FormControl,
@@ -26,15 +27,26 @@ import {
 } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, UserPlus, UserMinus, AlertCircle, Save, Trash2 } from "lucide-react";
+import { CalendarIcon, UserPlus, UserMinus, AlertCircle, Save, Trash2, Repeat } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
 import { toast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ShiftType, DutyType, Staff, StaffWithUser, Schedule, ScheduleWithDetails } from "@shared/schema";
-import { ScheduleConflict, detectScheduleConflicts, suggestAlternativeStaff } from "@/lib/enhanced-scheduling-algorithm";
+import { useQuery } from "@tanstack/react-query";
+import { ShiftType, DutyType, Staff, PublicStaffWithUser, Schedule, PublicScheduleWithDetails, LabourRules, SkillMixRule, RotationTemplate, StaffRotation, RotationStep } from "@shared/schema";
+import {
+  ConflictType,
+  ScheduleConflict,
+  EffectiveLabourRules,
+  applyLabourRuleOverrides,
+  describeRotationStep,
+  detectScheduleConflicts,
+  getExpectedRotationDay,
+  suggestAlternativeStaff
+} from "@shared/scheduling";
+import { ScheduleHistory } from "./schedule-history";
 
 // Form validation schema
 const scheduleFormSchema = z.object({
@@ -49,6 +61,7 @@ const scheduleFormSchema = z.object({
     required_error: "Please select a duty type"
   }),
   unit: z.string().nullable().optional(),
+  locked: z.boolean(),
   notes: z.string().optional(),
 });
 
@@ -57,11 +70,11 @@ type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
 interface ScheduleEditorProps {
   isOpen: boolean;
   onClose: () => void;
-  staffList: StaffWithUser[];
+  staffList: PublicStaffWithUser[];
   shiftTypes: ShiftType[];
   dutyTypes: DutyType[];
-  existingSchedules: ScheduleWithDetails[];
-  scheduleToEdit?: ScheduleWithDetails;
+  existingSchedules: PublicScheduleWithDetails[];
+  scheduleToEdit?: PublicScheduleWithDetails;
   onSave: (scheduleData: Omit<ScheduleFormValues, 'date'> & { date: string }) => Promise<void>;
   onDelete?: (scheduleId: number) => Promise<void>;
 }
@@ -78,10 +91,30 @@ export function ScheduleEditor({
   onDelete
 }: ScheduleEditorProps) {
   const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
-  const [alternativeStaff, setAlternativeStaff] = useState<StaffWithUser[]>([]);
+  const [alternativeStaff, setAlternativeStaff] = useState<PublicStaffWithUser[]>([]);
+  const [rotationStep, setRotationStep] = useState<RotationStep | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Organization labour rules and per-unit overrides used for conflict checks
+  const { data: labourRules } = useQuery<{ defaults: EffectiveLabourRules; overrides: LabourRules[] }>({
+    queryKey: ["/api/labour-rules"],
+  });
+
+  // Roles and qualifications each shift must include
+  const { data: skillMixRules = [] } = useQuery<SkillMixRule[]>({
+    queryKey: ["/api/skill-mix-rules"],
+  });
+
+  // Fixed rotations staff are expected to follow
+  const { data: rotationTemplates = [] } = useQuery<RotationTemplate[]>({
+    queryKey: ["/api/rotation-templates"],
+  });
+
+  const { data: staffRotations = [] } = useQuery<StaffRotation[]>({
+    queryKey: ["/api/staff-rotations"],
+  });
+
   // Set up form with default values
   const form = useForm<ScheduleFormValues>({
     resolver: zodResolver(scheduleFormSchema),
@@ -91,6 +124,7 @@ export function ScheduleEditor({
       shiftTypeId: scheduleToEdit.shiftTypeId,
       dutyTypeId: scheduleToEdit.dutyTypeId,
       unit: scheduleToEdit.unit || "",
+      locked: scheduleToEdit.locked,
       notes: "",
     } : {
       staffId: undefined,
@@ -98,6 +132,7 @@ export function ScheduleEditor({
       shiftTypeId: null,
       dutyTypeId: undefined,
       unit: "",
+      locked: false,
       notes: "",
     },
   });
@@ -111,6 +146,7 @@ export function ScheduleEditor({
         shiftTypeId: scheduleToEdit.shiftTypeId,
         dutyTypeId: scheduleToEdit.dutyTypeId,
         unit: scheduleToEdit.unit || "",
+        locked: scheduleToEdit.locked,
         notes: "",
       });
     } else {
@@ -120,6 +156,7 @@ export function ScheduleEditor({
         shiftTypeId: null,
         dutyTypeId: undefined,
         unit: "",
+        locked: false,
         notes: "",
       });
     }
@@ -133,6 +170,7 @@ export function ScheduleEditor({
     
     // Create a schedule object from form values for conflict detection
     const scheduleToCheck: any = {
+      id: scheduleToEdit?.id,
       staffId: values.staffId,
       date: dateString,
       shiftTypeId: values.shiftTypeId,
@@ -146,17 +184,30 @@ export function ScheduleEditor({
       scheduleToCheck.staffName = `${staffMember.user.firstName} ${staffMember.user.lastName}`;
     }
     
-    // Detect conflicts
+    // Detect conflicts against the rules for the schedule's unit
+    const rules = labourRules
+      ? applyLabourRuleOverrides(labourRules.defaults, labourRules.overrides.find(o => o.unit === values.unit))
+      : undefined;
     const detectedConflicts = detectScheduleConflicts(
       scheduleToCheck,
       existingSchedules,
       staffList,
       [], // availabilities (not needed for basic detection)
-      shiftTypes
+      shiftTypes,
+      rules,
+      skillMixRules,
+      dutyTypes,
+      rotationTemplates,
+      staffRotations
     );
     
     setConflicts(detectedConflicts);
     
+    // Offer the rotation's step when the schedule departs from it
+    const expected = getExpectedRotationDay(rotationTemplates, staffRotations, scheduleToCheck.staffId, scheduleToCheck.date);
+    const deviatesFromRotation = detectedConflicts.some(c => c.type === ConflictType.ROTATION_DEVIATION);
+    setRotationStep(deviatesFromRotation && expected?.step ? expected.step : null);
+    
     // If conflicts found, suggest alternative staff
     if (detectedConflicts.length > 0) {
       const alternatives = suggestAlternativeStaff(
@@ -182,7 +233,7 @@ export function ScheduleEditor({
       }
     });
     return () => subscription.unsubscribe();
-  }, [form, staffList, existingSchedules, shiftTypes]);
+  }, [form, staffList, existingSchedules, shiftTypes, dutyTypes, labourRules, skillMixRules, rotationTemplates, staffRotations]);
   
   // Handle form submission
   const onSubmit = async (values: ScheduleFormValues) => {
@@ -260,6 +311,13 @@ export function ScheduleEditor({
     }
   };
   
+  // Fill in the shift and duty the staff member's rotation has for the date
+  const applyRotationStep = (step: RotationStep) => {
+    form.setValue('shiftTypeId', step.shiftTypeId);
+    form.setValue('dutyTypeId', step.dutyTypeId);
+    checkConflicts(form.getValues() as ScheduleFormValues);
+  };
+  
   // Apply alternative staff suggestion
   const applyStaffSuggestion = (staffId: number) => {
     form.setValue('staffId', staffId);
@@ -394,6 +452,7 @@ export function ScheduleEditor({
                     <Select 
                       onValueChange={field.onChange} 
                       defaultValue={field.value?.toString()}
+                      value={field.value?.toString()}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -432,16 +491,38 @@ export function ScheduleEditor({
                 )}
               />
               
-              {/* Notes Input */}
+              {/* Locked Checkbox */}
+              <FormField
+                control={form.control}
+                name="locked"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={checked => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Locked</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Keep this assignment when the week is regenerated
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              
+              {/* Reason Input */}
               <FormField
                 control={form.control}
                 name="notes"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormLabel>Reason (Optional)</FormLabel>
                     <FormControl>
                       <Input 
-                        placeholder="Any additional notes" 
+                        placeholder="Recorded in the change history" 
                         {...field} 
                       />
                     </FormControl>
@@ -466,6 +547,22 @@ export function ScheduleEditor({
                     ))}
                   </ul>
                   
+                  {/* Rotation Step */}
+                  {rotationStep && (
+                    <div className="mt-3 border-t border-amber-200 pt-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center gap-1 text-xs bg-white"
+                        onClick={() => applyRotationStep(rotationStep)}
+                      >
+                        <Repeat className="h-3 w-3" />
+                        Use rotation: {describeRotationStep(rotationStep, shiftTypes, dutyTypes)}
+                      </Button>
+                    </div>
+                  )}
+                  
                   {/* Alternative Staff Suggestions */}
                   {alternativeStaff.length > 0 && (
                     <div className="mt-3 border-t border-amber-200 pt-2">
@@ -489,6 +586,16 @@ export function ScheduleEditor({
                   )}
                 </div>
               )}
+              
+              {/* Change History */}
+              {scheduleToEdit && (
+                <ScheduleHistory
+                  staffId={scheduleToEdit.staffId}
+                  date={scheduleToEdit.date}
+                  shiftTypes={shiftTypes}
+                  dutyTypes={dutyTypes}
+                />
+              )}
             </form>
           </Form>
         </div>
@@ -0,0 +1,94 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import { formatDate } from "@/lib/format-date";
+import { ChangeHistory, DutyType, PublicUser, ShiftType } from "@shared/schema";
+import { SCHEDULE_DIFF_FIELDS, ScheduleChange } from "@shared/scheduling";
+import { describeScheduleChange } from "./schedule-diff-panel";
+
+interface ChangeHistoryPage {
+  entries: ChangeHistory[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+const CHANGE_TYPES: Record<string, ScheduleChange["type"]> = {
+  create: "added",
+  update: "changed",
+  delete: "removed",
+};
+
+// e.g. "Shift: Day Shift → Night Shift" or "Locked"
+function describeEntry(entry: ChangeHistory, shiftTypes: ShiftType[], dutyTypes: DutyType[]): string {
+  const { before, after } = entry;
+  const change: ScheduleChange = {
+    type: CHANGE_TYPES[entry.action] ?? "changed",
+    staffId: entry.staffId,
+    date: entry.date,
+    before,
+    after,
+    fields: before && after ? SCHEDULE_DIFF_FIELDS.filter(field => before[field] !== after[field]) : [],
+  };
+  const description = describeScheduleChange(change, shiftTypes, dutyTypes);
+  if (description) return description;
+  if (before && after && before.locked !== after.locked) return after.locked ? "Locked" : "Unlocked";
+  return "Updated";
+}
+
+interface ScheduleHistoryProps {
+  staffId: number;
+  date: string;
+  shiftTypes: ShiftType[];
+  dutyTypes: DutyType[];
+}
+
+// Change trail for one staff member's assignment on one date, newest first
+export function ScheduleHistory({ staffId, date, shiftTypes, dutyTypes }: ScheduleHistoryProps) {
+  // Opened after edits made elsewhere, so always fetched fresh
+  const { data: history } = useQuery<ChangeHistoryPage>({
+    queryKey: [`/api/change-history?staffId=${staffId}&startDate=${date}&endDate=${date}&pageSize=${HISTORY_PAGE_SIZE}`],
+    refetchOnMount: "always",
+  });
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const getActorName = (userId: number | null) => {
+    if (userId === null) return "System";
+    const user = users.find(u => u.id === userId);
+    return user ? `${user.firstName} ${user.lastName}` : "Unknown user";
+  };
+
+  return (
+    <div className="border rounded-md p-3">
+      <h4 className="font-medium text-sm flex items-center gap-1 text-slate-700">
+        <History className="h-4 w-4" />
+        History
+      </h4>
+      {history?.entries.length ? (
+        <ul className="mt-2 space-y-2 max-h-40 overflow-y-auto text-sm">
+          {history.entries.map(entry => (
+            <li key={entry.id} className="border-l-2 border-slate-200 pl-2">
+              <p className="text-slate-900">{describeEntry(entry, shiftTypes, dutyTypes)}</p>
+              <p className="text-xs text-slate-500">
+                {getActorName(entry.changedByUserId)} · {formatDate(entry.changeTimestamp, "MMM d, yyyy HH:mm")}
+                {entry.reason && ` · ${entry.reason}`}
+              </p>
+            </li>
+          ))}
+          {history.total > history.entries.length && (
+            <li className="text-xs text-slate-500">
+              Showing the latest {history.entries.length} of {history.total} changes
+            </li>
+          )}
+        </ul>
+      ) : (
+        <p className="mt-2 text-sm text-slate-500">No changes recorded yet.</p>
+      )}
+    </div>
+  );
+}
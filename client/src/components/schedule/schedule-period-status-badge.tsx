@@ -0,0 +1,17 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { SchedulePeriodStatus } from "@shared/schema";
+
+const STATUS_BADGE_CLASSES: Record<SchedulePeriodStatus, string> = {
+  draft: "bg-amber-50 text-amber-700 border-amber-200",
+  published: "bg-green-50 text-green-700 border-green-200",
+  archived: "bg-slate-100 text-slate-600 border-slate-200",
+};
+
+export function SchedulePeriodStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={STATUS_BADGE_CLASSES[status as SchedulePeriodStatus]}>
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </Badge>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ScheduleOperation } from "@shared/schema";
+
+interface OperationStack {
+  undo: ScheduleOperation | null;
+  redo: ScheduleOperation | null;
+}
+
+// Shortcuts are left to the browser while typing or while a dialog is open
+function isShortcutTarget(event: KeyboardEvent): boolean {
+  const target = event.target as HTMLElement | null;
+  if (target?.closest("input, textarea, select, [contenteditable='true']")) return false;
+  return !document.querySelector("[role='dialog'], [role='alertdialog']");
+}
+
+// Undo and redo the signed-in user's schedule changes, one whole action at a time.
+// Ctrl+Z undoes; Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on macOS).
+export function UndoRedoControls() {
+  const { toast } = useToast();
+
+  // Keyed under /api/schedule so every schedule write refreshes it
+  const { data: stack } = useQuery<OperationStack>({
+    queryKey: ["/api/schedule", "operations"],
+    queryFn: async () => {
+      const res = await fetch("/api/schedule-operations/stack", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch schedule operations");
+      return res.json();
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async ({ operation, direction }: { operation: ScheduleOperation; direction: "undo" | "redo" }) => {
+      await apiRequest("POST", `/api/schedule-operations/${operation.id}/${direction}`);
+      return { operation, direction };
+    },
+    onSuccess: ({ operation, direction }) => {
+      toast({
+        title: direction === "undo" ? "Undone" : "Redone",
+        description: operation.label,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+    },
+    onError: (error: Error, { direction }) => {
+      toast({
+        title: direction === "undo" ? "Couldn't undo" : "Couldn't redo",
+        description: error.message,
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+    },
+  });
+
+  const undo = () => {
+    if (stack?.undo && !replayMutation.isPending) {
+      replayMutation.mutate({ operation: stack.undo, direction: "undo" });
+    }
+  };
+  const redo = () => {
+    if (stack?.redo && !replayMutation.isPending) {
+      replayMutation.mutate({ operation: stack.redo, direction: "redo" });
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || !isShortcutTarget(event)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  return (
+    <div className="hidden md:flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={undo}
+        disabled={!stack?.undo || replayMutation.isPending}
+        title={stack?.undo ? `Undo: ${stack.undo.label} (Ctrl+Z)` : "Nothing to undo"}
+        className="text-slate-600 hover:text-slate-900"
+      >
+        <Undo2 className="h-5 w-5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={redo}
+        disabled={!stack?.redo || replayMutation.isPending}
+        title={stack?.redo ? `Redo: ${stack.redo.label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+        className="text-slate-600 hover:text-slate-900"
+      >
+        <Redo2 className="h-5 w-5" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+
+interface CalendarFeedResponse {
+  token: string | null;
+}
+
+// The signed-in staff member's iCalendar subscription link
+export function CalendarFeedSettings() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<CalendarFeedResponse>({
+    queryKey: ["/api/calendar-feed"],
+  });
+
+  const feedUrl = data?.token ? `${window.location.origin}/calendar/${data.token}.ics` : null;
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar-feed/token");
+      return res.json() as Promise<CalendarFeedResponse>;
+    },
+    onSuccess: () => {
+      toast({
+        title: feedUrl ? "Calendar link replaced" : "Calendar link created",
+        description: feedUrl
+          ? "Calendars subscribed with the old link will stop updating."
+          : "Add the link to your calendar app to see your shifts there.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feed"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating calendar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Link copied", description: "Paste it into your calendar app's subscribe option." });
+    } catch {
+      toast({
+        title: "Couldn't copy the link",
+        description: "Select the link and copy it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Subscription</CardTitle>
+        <CardDescription>
+          Subscribe to your shifts from your phone or desktop calendar. Anyone with the link can
+          see your shifts, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? null : feedUrl ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} onFocus={e => e.target.select()} />
+              <Button variant="outline" size="icon" title="Copy link" onClick={copyFeedUrl}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" asChild>
+                <a href={feedUrl.replace(/^https?:/, "webcal:")}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Open in Calendar App
+                </a>
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={rotateMutation.isPending}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Replace Link
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Replace your calendar link?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The current link stops working straight away. Calendars subscribed with it
+                      will need the new link to keep showing your shifts.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => rotateMutation.mutate()}>
+                      Replace link
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </>
+        ) : (
+          <Button onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            {rotateMutation.isPending ? "Creating..." : "Create Calendar Link"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
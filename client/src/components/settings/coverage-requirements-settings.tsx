@@ -0,0 +1,424 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/format-date";
+import { CoverageRequirement, InsertCoverageRequirement, ShiftType } from "@shared/schema";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Strings for the text/select inputs; converted to a requirement on submit
+const requirementFormSchema = z.object({
+  shiftTypeId: z.string().min(1, "Shift type is required"),
+  unit: z.string(),
+  role: z.string(),
+  appliesTo: z.string().min(1, "Choose a weekday or a specific date"), // "0"–"6" or "date"
+  date: z.string(),
+  minStaff: z.number().int().min(0),
+  targetStaff: z.number().int().min(0),
+})
+  .refine(v => v.appliesTo !== "date" || v.date !== "", {
+    message: "Date is required",
+    path: ["date"],
+  })
+  .refine(v => v.targetStaff >= v.minStaff, {
+    message: "Target must be at least the minimum",
+    path: ["targetStaff"],
+  });
+
+type RequirementFormValues = z.infer<typeof requirementFormSchema>;
+
+const emptyRequirement: RequirementFormValues = {
+  shiftTypeId: "",
+  unit: "",
+  role: "",
+  appliesTo: "1",
+  date: "",
+  minStaff: 1,
+  targetStaff: 1,
+};
+
+function toRequirement(values: RequirementFormValues): InsertCoverageRequirement {
+  const isDate = values.appliesTo === "date";
+  return {
+    shiftTypeId: parseInt(values.shiftTypeId),
+    unit: values.unit.trim() || null,
+    role: values.role.trim() || null,
+    weekday: isDate ? null : parseInt(values.appliesTo),
+    date: isDate ? values.date : null,
+    minStaff: values.minStaff,
+    targetStaff: values.targetStaff,
+  };
+}
+
+function toFormValues(requirement: CoverageRequirement): RequirementFormValues {
+  return {
+    shiftTypeId: requirement.shiftTypeId.toString(),
+    unit: requirement.unit ?? "",
+    role: requirement.role ?? "",
+    appliesTo: requirement.date ? "date" : String(requirement.weekday ?? ""),
+    date: requirement.date ?? "",
+    minStaff: requirement.minStaff,
+    targetStaff: requirement.targetStaff,
+  };
+}
+
+// Date overrides after weekday rows, each group in calendar order
+function compareRequirements(a: CoverageRequirement, b: CoverageRequirement): number {
+  if ((a.date === null) !== (b.date === null)) {
+    return a.date === null ? -1 : 1;
+  }
+  if (a.date && b.date && a.date !== b.date) {
+    return a.date.localeCompare(b.date);
+  }
+  if ((a.weekday ?? 0) !== (b.weekday ?? 0)) {
+    return (a.weekday ?? 0) - (b.weekday ?? 0);
+  }
+  return a.shiftTypeId - b.shiftTypeId;
+}
+
+export function CoverageRequirementsSettings() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: requirements = [] } = useQuery<CoverageRequirement[]>({
+    queryKey: ["/api/coverage-requirements"],
+  });
+
+  const { data: shiftTypes = [] } = useQuery<ShiftType[]>({
+    queryKey: ["/api/shift-types"],
+  });
+
+  const form = useForm<RequirementFormValues>({
+    resolver: zodResolver(requirementFormSchema),
+    defaultValues: emptyRequirement,
+  });
+
+  const appliesTo = form.watch("appliesTo");
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: RequirementFormValues) => {
+      const data = toRequirement(values);
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/coverage-requirements/${editingId}`, data)
+        : await apiRequest("POST", "/api/coverage-requirements", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Coverage requirement saved",
+        description: "The schedule generator will staff this shift to the new headcount.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/coverage-requirements"] });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving coverage requirement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/coverage-requirements/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Coverage requirement removed",
+        description: "The coverage requirement has been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/coverage-requirements"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing coverage requirement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (requirement?: CoverageRequirement) => {
+    form.reset(requirement ? toFormValues(requirement) : emptyRequirement);
+    setEditingId(requirement?.id ?? null);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  const getShiftTypeName = (shiftTypeId: number) =>
+    shiftTypes.find(s => s.id === shiftTypeId)?.name ?? "Unknown shift";
+
+  const sortedRequirements = [...requirements].sort(compareRequirements);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Coverage Requirements</CardTitle>
+          <CardDescription>
+            Minimum and target headcount the schedule generator staffs each shift to
+          </CardDescription>
+        </div>
+        {!isFormOpen && (
+          <Button size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Requirement
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isFormOpen ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">
+                {editingId ? "Edit Coverage Requirement" : "New Coverage Requirement"}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={closeForm}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit(values => saveMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="shiftTypeId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Shift Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select shift type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {shiftTypes.map(shiftType => (
+                              <SelectItem key={shiftType.id} value={shiftType.id.toString()}>
+                                {shiftType.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="appliesTo"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Applies To</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select day" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {WEEKDAYS.map((weekday, index) => (
+                              <SelectItem key={weekday} value={index.toString()}>
+                                Every {weekday}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value="date">Specific date</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {appliesTo === "date" && (
+                    <FormField
+                      control={form.control}
+                      name="date"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormDescription>Replaces the weekday requirements for this date</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="unit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unit</FormLabel>
+                        <FormControl>
+                          <Input placeholder="All units" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="role"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Role</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Any role" {...field} />
+                        </FormControl>
+                        <FormDescription>e.g., Nurse, Doctor</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="minStaff"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum Staff</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            {...field}
+                            onChange={e => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="targetStaff"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Target Staff</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            {...field}
+                            onChange={e => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Saving..." : "Save Requirement"}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        ) : sortedRequirements.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Shift</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Min / Target</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRequirements.map(requirement => (
+                <TableRow key={requirement.id}>
+                  <TableCell className="font-medium">{getShiftTypeName(requirement.shiftTypeId)}</TableCell>
+                  <TableCell>
+                    {requirement.date
+                      ? formatDate(requirement.date, "MMM d, yyyy")
+                      : `Every ${WEEKDAYS[requirement.weekday ?? 0]}`}
+                  </TableCell>
+                  <TableCell>{requirement.unit ?? "All units"}</TableCell>
+                  <TableCell>{requirement.role ?? "Any role"}</TableCell>
+                  <TableCell>{requirement.minStaff} / {requirement.targetStaff}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openForm(requirement)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(requirement.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="border p-4 rounded-md text-sm text-slate-500">
+            No coverage requirements yet. The generator sizes each shift from the staff available that day.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,316 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DutyCycle, DutyType, InsertDutyCycle } from "@shared/schema";
+import { ArrowRight, Pencil, Plus, Trash2, X } from "lucide-react";
+
+// Steps are duty type ids, in day order
+const cycleFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  unit: z.string(),
+  steps: z.array(z.number().int()).min(1, "Add at least one step"),
+});
+
+type CycleFormValues = z.infer<typeof cycleFormSchema>;
+
+const emptyCycle: CycleFormValues = {
+  name: "",
+  unit: "",
+  steps: [],
+};
+
+function toCycle(values: CycleFormValues): InsertDutyCycle {
+  return {
+    name: values.name.trim(),
+    unit: values.unit.trim() || null,
+    steps: values.steps,
+  };
+}
+
+function toFormValues(cycle: DutyCycle): CycleFormValues {
+  return {
+    name: cycle.name,
+    unit: cycle.unit ?? "",
+    steps: cycle.steps,
+  };
+}
+
+export function DutyCycleSettings() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: cycles = [] } = useQuery<DutyCycle[]>({
+    queryKey: ["/api/duty-cycles"],
+  });
+
+  const { data: dutyTypes = [] } = useQuery<DutyType[]>({
+    queryKey: ["/api/duty-types"],
+  });
+
+  const form = useForm<CycleFormValues>({
+    resolver: zodResolver(cycleFormSchema),
+    defaultValues: emptyCycle,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: CycleFormValues) => {
+      const data = toCycle(values);
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/duty-cycles/${editingId}`, data)
+        : await apiRequest("POST", "/api/duty-cycles", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Duty cycle saved",
+        description: "Generated schedules will follow this cycle.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/duty-cycles"] });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving duty cycle",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/duty-cycles/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Duty cycle removed",
+        description: "The duty cycle has been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/duty-cycles"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing duty cycle",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (cycle?: DutyCycle) => {
+    form.reset(cycle ? toFormValues(cycle) : emptyCycle);
+    setEditingId(cycle?.id ?? null);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  const getDutyTypeName = (dutyTypeId: number) =>
+    dutyTypes.find(dt => dt.id === dutyTypeId)?.name ?? "Unknown duty";
+
+  const renderSteps = (steps: number[], onRemove?: (index: number) => void) => (
+    <div className="flex flex-wrap items-center gap-1">
+      {steps.map((step, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && <ArrowRight className="h-3 w-3 text-slate-400" />}
+          <Badge variant="secondary" className="gap-1">
+            {getDutyTypeName(step)}
+            {onRemove && (
+              <button type="button" onClick={() => onRemove(index)}>
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </Badge>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Duty Cycles</CardTitle>
+          <CardDescription>
+            The order duty types follow day by day around a worked duty
+          </CardDescription>
+        </div>
+        {!isFormOpen && (
+          <Button size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Cycle
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isFormOpen ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">
+                {editingId ? "Edit Duty Cycle" : "New Duty Cycle"}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={closeForm}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit(values => saveMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Standard" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="unit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unit</FormLabel>
+                        <FormControl>
+                          <Input placeholder="All units" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="steps"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Steps</FormLabel>
+                      {field.value.length > 0 &&
+                        renderSteps(field.value, index => field.onChange(field.value.filter((_, i) => i !== index)))}
+                      <Select
+                        value=""
+                        onValueChange={value => field.onChange([...field.value, parseInt(value)])}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Add a step" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {dutyTypes.map(dutyType => (
+                            <SelectItem key={dutyType.id} value={dutyType.id.toString()}>
+                              {dutyType.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        One step per day. The first Duty step (or else the first worked step) is the duty;
+                        the steps either side of it are used before and after.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Saving..." : "Save Cycle"}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        ) : cycles.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cycles.map(cycle => (
+                <TableRow key={cycle.id}>
+                  <TableCell className="font-medium">{cycle.name}</TableCell>
+                  <TableCell>{cycle.unit ?? "All units"}</TableCell>
+                  <TableCell>{renderSteps(cycle.steps)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openForm(cycle)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(cycle.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="border p-4 rounded-md text-sm text-slate-500">
+            No duty cycles yet. Duty types are matched by their category instead.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/format-date";
+import { Holiday, InsertHoliday, insertHolidaySchema } from "@shared/schema";
+import { Plus, Trash2 } from "lucide-react";
+
+export function HolidaySettings() {
+  const { toast } = useToast();
+
+  const { data: holidays = [] } = useQuery<Holiday[]>({
+    queryKey: ["/api/holidays"],
+  });
+
+  const form = useForm<InsertHoliday>({
+    resolver: zodResolver(insertHolidaySchema),
+    defaultValues: { date: "", name: "" },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: InsertHoliday) => {
+      const res = await apiRequest("POST", "/api/holidays", values);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Holiday added",
+        description: "Shifts worked on it are counted in the holiday totals of reports.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/workload"] });
+      form.reset({ date: "", name: "" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error adding holiday",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/holidays/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Holiday removed",
+        description: "The holiday has been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/workload"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing holiday",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Public Holidays</CardTitle>
+        <CardDescription>
+          Shifts on these dates are reported separately in workload and fairness reports
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(values => createMutation.mutate(values))}
+            className="grid grid-cols-1 md:grid-cols-[180px_1fr_auto] gap-4 items-end"
+          >
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., New Year's Day" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" disabled={createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" />
+              {createMutation.isPending ? "Adding..." : "Add Holiday"}
+            </Button>
+          </form>
+        </Form>
+
+        {holidays.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-[60px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {holidays.map(holiday => (
+                <TableRow key={holiday.id}>
+                  <TableCell>{formatDate(holiday.date, "EEE, MMM d, yyyy")}</TableCell>
+                  <TableCell className="font-medium">{holiday.name}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(holiday.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="border p-4 rounded-md text-sm text-slate-500">
+            No holidays yet.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
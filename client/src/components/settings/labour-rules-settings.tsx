@@ -0,0 +1,367 @@
+import React, { useState } from "react";
+import { useForm, ControllerRenderProps } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LabourRules, labourRuleLimitsSchema, labourRuleOverridesSchema } from "@shared/schema";
+import { DEFAULT_LABOUR_RULES, EffectiveLabourRules, LabourRuleKey } from "@shared/scheduling";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+
+const RULE_FIELDS: { key: LabourRuleKey; label: string; description: string }[] = [
+  { key: "maxConsecutiveShifts", label: "Max consecutive shifts", description: "Working days in a row" },
+  { key: "maxShiftsPerWeek", label: "Max shifts per week", description: "Shifts per Sunday–Saturday week" },
+  { key: "maxHoursPerWeek", label: "Max hours per week", description: "Total shift hours per week" },
+  { key: "minRestHours", label: "Min rest hours", description: "Between the end of one shift and the next" },
+  { key: "maxNightShiftsPerPeriod", label: "Max night shifts per period", description: "Night shifts within the period below" },
+  { key: "nightShiftPeriodDays", label: "Night shift period (days)", description: "Length of the rolling night shift period" },
+  { key: "minDaysOffPerFortnight", label: "Min days off per fortnight", description: "Days without a shift in any 14 days" },
+];
+
+const overrideFormSchema = labourRuleOverridesSchema.extend({
+  unit: z.string().min(1, "Unit is required"),
+});
+
+type LabourRuleLimitsValues = z.infer<typeof labourRuleLimitsSchema>;
+type OverrideFormValues = z.infer<typeof overrideFormSchema>;
+
+interface LabourRulesResponse {
+  defaults: EffectiveLabourRules;
+  overrides: LabourRules[];
+}
+
+const emptyOverride: OverrideFormValues = {
+  unit: "",
+  maxConsecutiveShifts: null,
+  maxShiftsPerWeek: null,
+  minRestHours: null,
+  maxHoursPerWeek: null,
+  maxNightShiftsPerPeriod: null,
+  nightShiftPeriodDays: null,
+  minDaysOffPerFortnight: null,
+};
+
+// Number input that reports an empty box as null
+function RuleInput({ field, placeholder }: {
+  field: ControllerRenderProps<any, any>;
+  placeholder?: string;
+}) {
+  return (
+    <Input
+      type="number"
+      min={0}
+      placeholder={placeholder}
+      name={field.name}
+      ref={field.ref}
+      onBlur={field.onBlur}
+      value={field.value ?? ""}
+      onChange={e => field.onChange(e.target.value === "" ? null : e.target.valueAsNumber)}
+    />
+  );
+}
+
+export function LabourRulesSettings() {
+  const { toast } = useToast();
+  const [editingUnit, setEditingUnit] = useState<string | null>(null);
+  const [isAddingOverride, setIsAddingOverride] = useState(false);
+
+  const { data: labourRules } = useQuery<LabourRulesResponse>({
+    queryKey: ["/api/labour-rules"],
+  });
+
+  const defaultsForm = useForm<LabourRuleLimitsValues>({
+    resolver: zodResolver(labourRuleLimitsSchema),
+    defaultValues: DEFAULT_LABOUR_RULES,
+  });
+
+  const overrideForm = useForm<OverrideFormValues>({
+    resolver: zodResolver(overrideFormSchema),
+    defaultValues: emptyOverride,
+  });
+
+  React.useEffect(() => {
+    if (labourRules) {
+      defaultsForm.reset(labourRules.defaults);
+    }
+  }, [labourRules, defaultsForm]);
+
+  const saveDefaultsMutation = useMutation({
+    mutationFn: async (data: LabourRuleLimitsValues) => {
+      const res = await apiRequest("PUT", "/api/labour-rules/default", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Labour rules updated",
+        description: "Organization labour rules have been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/labour-rules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving labour rules",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveOverrideMutation = useMutation({
+    mutationFn: async ({ unit, ...overrides }: OverrideFormValues) => {
+      const res = await apiRequest("PUT", `/api/labour-rules/units/${encodeURIComponent(unit)}`, overrides);
+      return res.json();
+    },
+    onSuccess: (saved: LabourRules) => {
+      toast({
+        title: "Unit rules updated",
+        description: `Labour rules for ${saved.unit} have been saved.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/labour-rules"] });
+      closeOverrideForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving unit rules",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteOverrideMutation = useMutation({
+    mutationFn: async (unit: string) => {
+      await apiRequest("DELETE", `/api/labour-rules/units/${encodeURIComponent(unit)}`);
+      return unit;
+    },
+    onSuccess: (unit: string) => {
+      toast({
+        title: "Unit rules removed",
+        description: `${unit} now uses the organization labour rules.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/labour-rules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing unit rules",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openOverrideForm = (override?: LabourRules) => {
+    if (override) {
+      const { id, updatedAt, ...values } = override;
+      overrideForm.reset({ ...values, unit: override.unit ?? "" });
+      setEditingUnit(override.unit);
+    } else {
+      overrideForm.reset(emptyOverride);
+      setEditingUnit(null);
+    }
+    setIsAddingOverride(true);
+  };
+
+  const closeOverrideForm = () => {
+    setIsAddingOverride(false);
+    setEditingUnit(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Organization Labour Rules</CardTitle>
+          <CardDescription>
+            Limits applied by the schedule generator and conflict checks in every unit
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...defaultsForm}>
+            <form
+              onSubmit={defaultsForm.handleSubmit(data => saveDefaultsMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {RULE_FIELDS.map(rule => (
+                  <FormField
+                    key={rule.key}
+                    control={defaultsForm.control}
+                    name={rule.key}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{rule.label}</FormLabel>
+                        <FormControl>
+                          <RuleInput field={field} />
+                        </FormControl>
+                        <FormDescription>{rule.description}</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              <Button type="submit" disabled={saveDefaultsMutation.isPending}>
+                {saveDefaultsMutation.isPending ? "Saving..." : "Save Labour Rules"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Unit Overrides</CardTitle>
+            <CardDescription>
+              Units on a different contract can override individual limits
+            </CardDescription>
+          </div>
+          {!isAddingOverride && (
+            <Button size="sm" onClick={() => openOverrideForm()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Override
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isAddingOverride ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium">
+                  {editingUnit ? `Edit ${editingUnit} Rules` : "New Unit Override"}
+                </h3>
+                <Button variant="ghost" size="sm" onClick={closeOverrideForm}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <Form {...overrideForm}>
+                <form
+                  onSubmit={overrideForm.handleSubmit(data => saveOverrideMutation.mutate(data))}
+                  className="space-y-4"
+                >
+                  <FormField
+                    control={overrideForm.control}
+                    name="unit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unit</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g., Emergency, ICU"
+                            disabled={!!editingUnit}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {RULE_FIELDS.map(rule => (
+                      <FormField
+                        key={rule.key}
+                        control={overrideForm.control}
+                        name={rule.key}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{rule.label}</FormLabel>
+                            <FormControl>
+                              <RuleInput
+                                field={field}
+                                placeholder={`Default: ${labourRules?.defaults[rule.key] ?? DEFAULT_LABOUR_RULES[rule.key]}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+
+                  <p className="text-sm text-slate-500">
+                    Leave a limit blank to use the organization value.
+                  </p>
+
+                  <Button type="submit" disabled={saveOverrideMutation.isPending}>
+                    {saveOverrideMutation.isPending ? "Saving..." : "Save Unit Rules"}
+                  </Button>
+                </form>
+              </Form>
+            </div>
+          ) : labourRules?.overrides.length ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>Overridden limits</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {labourRules.overrides.map(override => (
+                  <TableRow key={override.id}>
+                    <TableCell className="font-medium">{override.unit}</TableCell>
+                    <TableCell className="text-sm text-slate-600">
+                      {RULE_FIELDS
+                        .filter(rule => override[rule.key] !== null)
+                        .map(rule => `${rule.label}: ${override[rule.key]}`)
+                        .join(", ") || "None"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openOverrideForm(override)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={deleteOverrideMutation.isPending}
+                          onClick={() => deleteOverrideMutation.mutate(override.unit!)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="border p-4 rounded-md text-sm text-slate-500">
+              All units use the organization labour rules.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
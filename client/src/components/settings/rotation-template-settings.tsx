@@ -0,0 +1,380 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DutyType, InsertRotationTemplate, RotationTemplate, ShiftType } from "@shared/schema";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+
+// Select values for a day off and for a duty day without a shift
+const OFF = "off";
+const NO_SHIFT = "none";
+
+// One entry per day of the cycle, as select values; converted to steps on submit
+const templateFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  cycleLength: z.number().int().min(1, "At least 1 day").max(366, "At most 366 days"),
+  days: z.array(z.object({
+    dutyTypeId: z.string(),
+    shiftTypeId: z.string(),
+  })),
+})
+  .refine(v => v.days.some(d => d.dutyTypeId !== OFF), {
+    message: "Schedule at least one day of the cycle",
+    path: ["days"],
+  });
+
+type TemplateFormValues = z.infer<typeof templateFormSchema>;
+
+const offDay = { dutyTypeId: OFF, shiftTypeId: NO_SHIFT };
+
+const emptyTemplate: TemplateFormValues = {
+  name: "",
+  cycleLength: 7,
+  days: Array.from({ length: 7 }, () => offDay),
+};
+
+function toTemplate(values: TemplateFormValues): InsertRotationTemplate {
+  return {
+    name: values.name.trim(),
+    cycleLength: values.cycleLength,
+    steps: values.days
+      .map((d, day) => ({
+        day,
+        dutyTypeId: d.dutyTypeId === OFF ? null : parseInt(d.dutyTypeId),
+        shiftTypeId: d.shiftTypeId === NO_SHIFT ? null : parseInt(d.shiftTypeId),
+      }))
+      .filter((step): step is InsertRotationTemplate["steps"][number] => step.dutyTypeId !== null),
+  };
+}
+
+function toFormValues(template: RotationTemplate): TemplateFormValues {
+  return {
+    name: template.name,
+    cycleLength: template.cycleLength,
+    days: Array.from({ length: template.cycleLength }, (_, day) => {
+      const step = template.steps.find(s => s.day === day);
+      return step
+        ? { dutyTypeId: step.dutyTypeId.toString(), shiftTypeId: step.shiftTypeId?.toString() ?? NO_SHIFT }
+        : offDay;
+    }),
+  };
+}
+
+export function RotationTemplateSettings() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: templates = [] } = useQuery<RotationTemplate[]>({
+    queryKey: ["/api/rotation-templates"],
+  });
+
+  const { data: shiftTypes = [] } = useQuery<ShiftType[]>({
+    queryKey: ["/api/shift-types"],
+  });
+
+  const { data: dutyTypes = [] } = useQuery<DutyType[]>({
+    queryKey: ["/api/duty-types"],
+  });
+
+  const form = useForm<TemplateFormValues>({
+    resolver: zodResolver(templateFormSchema),
+    defaultValues: emptyTemplate,
+  });
+
+  const days = form.watch("days");
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: TemplateFormValues) => {
+      const data = toTemplate(values);
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/rotation-templates/${editingId}`, data)
+        : await apiRequest("POST", "/api/rotation-templates", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Rotation saved",
+        description: "Assign it to staff to roll it out.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rotation-templates"] });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving rotation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/rotation-templates/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Rotation removed",
+        description: "The rotation template has been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rotation-templates"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing rotation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (template?: RotationTemplate) => {
+    form.reset(template ? toFormValues(template) : emptyTemplate);
+    setEditingId(template?.id ?? null);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  // Grow or trim the day list to the cycle length, keeping the days already set
+  const setCycleLength = (cycleLength: number) => {
+    form.setValue("cycleLength", cycleLength, { shouldValidate: true });
+    if (Number.isInteger(cycleLength) && cycleLength >= 1 && cycleLength <= 366) {
+      const current = form.getValues("days");
+      form.setValue("days", Array.from({ length: cycleLength }, (_, day) => current[day] ?? offDay));
+    }
+  };
+
+  // Short code per day for the list, e.g. "D D N N - - - -"
+  const describePattern = (template: RotationTemplate) =>
+    Array.from({ length: template.cycleLength }, (_, day) => {
+      const step = template.steps.find(s => s.day === day);
+      if (!step) return "-";
+      const shift = shiftTypes.find(st => st.id === step.shiftTypeId);
+      const duty = dutyTypes.find(dt => dt.id === step.dutyTypeId);
+      return (shift?.name ?? duty?.name ?? "?").charAt(0).toUpperCase();
+    }).join(" ");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Rotation Templates</CardTitle>
+          <CardDescription>
+            Fixed patterns such as 4-on/4-off, DuPont or 2-2-3 that repeat every cycle
+          </CardDescription>
+        </div>
+        {!isFormOpen && (
+          <Button size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rotation
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isFormOpen ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">
+                {editingId ? "Edit Rotation" : "New Rotation"}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={closeForm}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit(values => saveMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., 4-on/4-off" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="cycleLength"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cycle Length (days)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={366}
+                            {...field}
+                            onChange={e => setCycleLength(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="days"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>Days</FormLabel>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        {days.map((day, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <span className="w-14 text-sm text-slate-500">Day {index + 1}</span>
+                            <FormField
+                              control={form.control}
+                              name={`days.${index}.dutyTypeId`}
+                              render={({ field }) => (
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value={OFF}>Off</SelectItem>
+                                    {dutyTypes.map(dutyType => (
+                                      <SelectItem key={dutyType.id} value={dutyType.id.toString()}>
+                                        {dutyType.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`days.${index}.shiftTypeId`}
+                              render={({ field }) => (
+                                <Select
+                                  onValueChange={field.onChange}
+                                  value={field.value}
+                                  disabled={day.dutyTypeId === OFF}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value={NO_SHIFT}>No shift</SelectItem>
+                                    {shiftTypes.map(shiftType => (
+                                      <SelectItem key={shiftType.id} value={shiftType.id.toString()}>
+                                        {shiftType.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <FormDescription>
+                        Each day's duty and shift. Days left off are days off.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Saving..." : "Save Rotation"}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        ) : templates.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Cycle</TableHead>
+                <TableHead>Pattern</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map(template => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell>
+                    {template.steps.length} on / {template.cycleLength - template.steps.length} off
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{describePattern(template)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openForm(template)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(template.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="border p-4 rounded-md text-sm text-slate-500">
+            No rotation templates yet.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
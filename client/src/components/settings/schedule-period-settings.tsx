@@ -0,0 +1,417 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/format-date";
+import { PublishPeriodButton } from "@/components/schedule/publish-period-button";
+import { SchedulePeriodStatusBadge } from "@/components/schedule/schedule-period-status-badge";
+import {
+  DutyType,
+  PublicStaffWithUser,
+  PublicUser,
+  SchedulePeriod,
+  ScheduleVersion,
+  ShiftType,
+  schedulePeriodSchema
+} from "@shared/schema";
+import { Archive, History, Pencil, Plus, Trash2, X } from "lucide-react";
+
+type PeriodFormValues = z.infer<typeof schedulePeriodSchema>;
+
+const emptyPeriod: PeriodFormValues = {
+  name: "",
+  startDate: "",
+  endDate: "",
+};
+
+// Read-only view of every version published for a period
+function ScheduleVersionHistory({ period, onClose }: { period: SchedulePeriod; onClose: () => void }) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: versions = [] } = useQuery<ScheduleVersion[]>({
+    queryKey: [`/api/schedule-periods/${period.id}/versions`],
+  });
+
+  const { data: staffList = [] } = useQuery<PublicStaffWithUser[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: shiftTypes = [] } = useQuery<ShiftType[]>({
+    queryKey: ["/api/shift-types"],
+  });
+
+  const { data: dutyTypes = [] } = useQuery<DutyType[]>({
+    queryKey: ["/api/duty-types"],
+  });
+
+  const selected = versions.find(v => v.id === selectedId) ?? versions[0];
+
+  const getStaffName = (staffId: number) => {
+    const member = staffList.find(s => s.id === staffId);
+    return member ? `${member.user.firstName} ${member.user.lastName}` : "Unknown";
+  };
+
+  const getPublisherName = (userId: number | null) => {
+    const user = users.find(u => u.id === userId);
+    return user ? `${user.firstName} ${user.lastName}` : "Unknown";
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{period.name} history</DialogTitle>
+          <DialogDescription>
+            Published versions are kept as they were released and can't be changed
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length ? (
+          <div className="flex gap-4 min-h-0 flex-1">
+            <div className="w-48 flex flex-col gap-1">
+              {versions.map(version => (
+                <Button
+                  key={version.id}
+                  variant={version.id === selected?.id ? "secondary" : "ghost"}
+                  className="justify-start h-auto py-2 flex-col items-start"
+                  onClick={() => setSelectedId(version.id)}
+                >
+                  <span>Version {version.version}</span>
+                  <span className="text-xs text-slate-500 font-normal">
+                    {formatDate(version.publishedAt, "MMM d, yyyy HH:mm")}
+                  </span>
+                </Button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="flex-1 flex flex-col min-h-0">
+                <p className="text-sm text-slate-500 mb-2">
+                  Published by {getPublisherName(selected.publishedByUserId)} with {selected.rows.length} assignments
+                </p>
+                <ScrollArea className="flex-1 border rounded-md max-h-[60vh]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Staff</TableHead>
+                        <TableHead>Shift</TableHead>
+                        <TableHead>Duty</TableHead>
+                        <TableHead>Unit</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selected.rows.map(row => (
+                        <TableRow key={row.id}>
+                          <TableCell>{formatDate(row.date, "EEE, MMM d")}</TableCell>
+                          <TableCell>{getStaffName(row.staffId)}</TableCell>
+                          <TableCell>{shiftTypes.find(st => st.id === row.shiftTypeId)?.name ?? "-"}</TableCell>
+                          <TableCell>{dutyTypes.find(dt => dt.id === row.dutyTypeId)?.name ?? "-"}</TableCell>
+                          <TableCell>{row.unit ?? "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="border p-4 rounded-md text-sm text-slate-500">
+            This period hasn't been published yet.
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SchedulePeriodSettings() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [historyPeriod, setHistoryPeriod] = useState<SchedulePeriod | null>(null);
+
+  const { data: periods = [] } = useQuery<SchedulePeriod[]>({
+    queryKey: ["/api/schedule-periods"],
+  });
+
+  const form = useForm<PeriodFormValues>({
+    resolver: zodResolver(schedulePeriodSchema),
+    defaultValues: emptyPeriod,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: PeriodFormValues) => {
+      const data = { ...values, name: values.name.trim() };
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/schedule-periods/${editingId}`, data)
+        : await apiRequest("POST", "/api/schedule-periods", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Period saved",
+        description: "Edits to its schedule stay in draft until it is published.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-periods"] });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving period",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/schedule-periods/${id}/archive`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Period archived",
+        description: "Its last published version stays visible to staff.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-periods"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error archiving period",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/schedule-periods/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Period removed",
+        description: "The draft period has been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-periods"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing period",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (period?: SchedulePeriod) => {
+    form.reset(period ? { name: period.name, startDate: period.startDate, endDate: period.endDate } : emptyPeriod);
+    setEditingId(period?.id ?? null);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Schedule Periods</CardTitle>
+          <CardDescription>
+            Staff only see a period's schedule once it is published; later edits stay in draft until republished
+          </CardDescription>
+        </div>
+        {!isFormOpen && (
+          <Button size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Period
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isFormOpen ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">
+                {editingId ? "Edit Period" : "New Period"}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={closeForm}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit(values => saveMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., November 2026" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Start Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="endDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>End Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Saving..." : "Save Period"}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        ) : periods.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Published</TableHead>
+                <TableHead className="w-[260px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map(period => (
+                <TableRow key={period.id}>
+                  <TableCell className="font-medium">{period.name}</TableCell>
+                  <TableCell>
+                    {formatDate(period.startDate, "MMM d, yyyy")} - {formatDate(period.endDate, "MMM d, yyyy")}
+                  </TableCell>
+                  <TableCell>
+                    <SchedulePeriodStatusBadge status={period.status} />
+                  </TableCell>
+                  <TableCell>
+                    {period.publishedAt ? formatDate(period.publishedAt, "MMM d, yyyy HH:mm") : "Never"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1 justify-end">
+                      {period.status !== "archived" && <PublishPeriodButton period={period} />}
+                      <Button variant="ghost" size="icon" title="History" onClick={() => setHistoryPeriod(period)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {period.status !== "archived" && (
+                        <Button variant="ghost" size="icon" title="Edit" onClick={() => openForm(period)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {period.status === "published" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Archive"
+                          disabled={archiveMutation.isPending}
+                          onClick={() => archiveMutation.mutate(period.id)}
+                        >
+                          <Archive className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {period.status === "draft" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(period.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="border p-4 rounded-md text-sm text-slate-500">
+            No schedule periods yet. Staff won't see any schedule until one is published.
+          </div>
+        )}
+        {historyPeriod && (
+          <ScheduleVersionHistory period={historyPeriod} onClose={() => setHistoryPeriod(null)} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
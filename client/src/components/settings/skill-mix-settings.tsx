@@ -0,0 +1,341 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { InsertSkillMixRule, ShiftType, SkillMixRule } from "@shared/schema";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+
+// Strings for the text/select inputs; converted to a rule on submit
+const ruleFormSchema = z.object({
+  shiftTypeId: z.string().min(1, "Shift type is required"),
+  unit: z.string(),
+  role: z.string(),
+  qualification: z.string(),
+  minCount: z.number().int().min(1, "At least 1"),
+})
+  .refine(v => v.role.trim() !== "" || v.qualification.trim() !== "", {
+    message: "Set a role, a qualification or both",
+    path: ["role"],
+  });
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const emptyRule: RuleFormValues = {
+  shiftTypeId: "",
+  unit: "",
+  role: "",
+  qualification: "",
+  minCount: 1,
+};
+
+function toRule(values: RuleFormValues): InsertSkillMixRule {
+  return {
+    shiftTypeId: parseInt(values.shiftTypeId),
+    unit: values.unit.trim() || null,
+    role: values.role.trim() || null,
+    qualification: values.qualification.trim() || null,
+    minCount: values.minCount,
+  };
+}
+
+function toFormValues(rule: SkillMixRule): RuleFormValues {
+  return {
+    shiftTypeId: rule.shiftTypeId.toString(),
+    unit: rule.unit ?? "",
+    role: rule.role ?? "",
+    qualification: rule.qualification ?? "",
+    minCount: rule.minCount,
+  };
+}
+
+export function SkillMixSettings() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: rules = [] } = useQuery<SkillMixRule[]>({
+    queryKey: ["/api/skill-mix-rules"],
+  });
+
+  const { data: shiftTypes = [] } = useQuery<ShiftType[]>({
+    queryKey: ["/api/shift-types"],
+  });
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyRule,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: RuleFormValues) => {
+      const data = toRule(values);
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/skill-mix-rules/${editingId}`, data)
+        : await apiRequest("POST", "/api/skill-mix-rules", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Skill-mix rule saved",
+        description: "Generated schedules will include this mix on every matching shift.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-mix-rules"] });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving skill-mix rule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/skill-mix-rules/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Skill-mix rule removed",
+        description: "The skill-mix rule has been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-mix-rules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing skill-mix rule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (rule?: SkillMixRule) => {
+    form.reset(rule ? toFormValues(rule) : emptyRule);
+    setEditingId(rule?.id ?? null);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  const getShiftTypeName = (shiftTypeId: number) =>
+    shiftTypes.find(s => s.id === shiftTypeId)?.name ?? "Unknown shift";
+
+  const sortedRules = [...rules].sort((a, b) => a.shiftTypeId - b.shiftTypeId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Skill Mix</CardTitle>
+          <CardDescription>
+            Roles and qualifications every instance of a shift must include
+          </CardDescription>
+        </div>
+        {!isFormOpen && (
+          <Button size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isFormOpen ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">
+                {editingId ? "Edit Skill-Mix Rule" : "New Skill-Mix Rule"}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={closeForm}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit(values => saveMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="shiftTypeId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Shift Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select shift type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {shiftTypes.map(shiftType => (
+                              <SelectItem key={shiftType.id} value={shiftType.id.toString()}>
+                                {shiftType.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="unit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unit</FormLabel>
+                        <FormControl>
+                          <Input placeholder="All units" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="role"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Role</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Any role" {...field} />
+                        </FormControl>
+                        <FormDescription>e.g., Doctor, Nurse</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="qualification"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Qualification</FormLabel>
+                        <FormControl>
+                          <Input placeholder="None required" {...field} />
+                        </FormControl>
+                        <FormDescription>e.g., Charge Nurse</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="minCount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>At Least</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            {...field}
+                            onChange={e => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Saving..." : "Save Rule"}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        ) : sortedRules.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Shift</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Qualification</TableHead>
+                <TableHead>At Least</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{getShiftTypeName(rule.shiftTypeId)}</TableCell>
+                  <TableCell>{rule.unit ?? "All units"}</TableCell>
+                  <TableCell>{rule.role ?? "Any role"}</TableCell>
+                  <TableCell>{rule.qualification ?? "-"}</TableCell>
+                  <TableCell>{rule.minCount}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openForm(rule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(rule.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="border p-4 rounded-md text-sm text-slate-500">
+            No skill-mix rules yet. Shifts can be staffed by any combination of roles.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
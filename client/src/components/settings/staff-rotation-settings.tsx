@@ -0,0 +1,461 @@
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/format-date";
+import {
+  InsertStaffRotation,
+  PublicStaffWithUser,
+  RotationTemplate,
+  StaffRotation
+} from "@shared/schema";
+import { CalendarRange, Pencil, Plus, Trash2, X } from "lucide-react";
+
+// Strings for the text/select inputs; converted to an assignment on submit
+const rotationFormSchema = z.object({
+  staffId: z.string().min(1, "Staff member is required"),
+  templateId: z.string().min(1, "Rotation is required"),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string(),
+  startOffset: z.number().int().min(0, "Offset can't be negative"),
+  unit: z.string(),
+})
+  .refine(v => v.endDate === "" || v.startDate <= v.endDate, {
+    message: "End date must not be before the start date",
+    path: ["endDate"],
+  });
+
+type RotationFormValues = z.infer<typeof rotationFormSchema>;
+
+const emptyRotation: RotationFormValues = {
+  staffId: "",
+  templateId: "",
+  startDate: "",
+  endDate: "",
+  startOffset: 0,
+  unit: "",
+};
+
+function toRotation(values: RotationFormValues): InsertStaffRotation {
+  return {
+    staffId: parseInt(values.staffId),
+    templateId: parseInt(values.templateId),
+    startDate: values.startDate,
+    endDate: values.endDate || null,
+    startOffset: values.startOffset,
+    unit: values.unit.trim() || null,
+  };
+}
+
+function toFormValues(rotation: StaffRotation): RotationFormValues {
+  return {
+    staffId: rotation.staffId.toString(),
+    templateId: rotation.templateId.toString(),
+    startDate: rotation.startDate,
+    endDate: rotation.endDate ?? "",
+    startOffset: rotation.startOffset,
+    unit: rotation.unit ?? "",
+  };
+}
+
+export function StaffRotationSettings() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [rollOut, setRollOut] = useState<{ id: number; startDate: string; endDate: string } | null>(null);
+
+  const { data: rotations = [] } = useQuery<StaffRotation[]>({
+    queryKey: ["/api/staff-rotations"],
+  });
+
+  const { data: templates = [] } = useQuery<RotationTemplate[]>({
+    queryKey: ["/api/rotation-templates"],
+  });
+
+  const { data: staffList = [] } = useQuery<PublicStaffWithUser[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const form = useForm<RotationFormValues>({
+    resolver: zodResolver(rotationFormSchema),
+    defaultValues: emptyRotation,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: RotationFormValues) => {
+      const data = toRotation(values);
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/staff-rotations/${editingId}`, data)
+        : await apiRequest("POST", "/api/staff-rotations", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Rotation assigned",
+        description: "Schedules that depart from it will be flagged.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/staff-rotations"] });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error assigning rotation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/staff-rotations/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Rotation unassigned",
+        description: "Schedules already rolled out are kept.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/staff-rotations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error unassigning rotation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rollOutMutation = useMutation({
+    mutationFn: async ({ id, startDate, endDate }: { id: number; startDate: string; endDate: string }) => {
+      const res = await apiRequest("POST", `/api/staff-rotations/${id}/roll-out`, { startDate, endDate });
+      return res.json() as Promise<{ schedules: unknown[]; removed: number }>;
+    },
+    onSuccess: ({ schedules, removed }) => {
+      toast({
+        title: "Rotation rolled out",
+        description: `${schedules.length} days scheduled${removed ? `, ${removed} cleared for days off` : ""}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      setRollOut(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error rolling out rotation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (rotation?: StaffRotation) => {
+    form.reset(rotation ? toFormValues(rotation) : emptyRotation);
+    setEditingId(rotation?.id ?? null);
+    setIsFormOpen(true);
+    setRollOut(null);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  const getStaffName = (staffId: number) => {
+    const staffMember = staffList.find(s => s.id === staffId);
+    return staffMember ? `${staffMember.user.firstName} ${staffMember.user.lastName}` : "Unknown staff";
+  };
+
+  const getTemplate = (templateId: number) => templates.find(t => t.id === templateId);
+
+  const rollOutRotation = rollOut ? rotations.find(r => r.id === rollOut.id) : undefined;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Staff Rotations</CardTitle>
+          <CardDescription>
+            Who follows which rotation, and from which day of its cycle
+          </CardDescription>
+        </div>
+        {!isFormOpen && (
+          <Button size="sm" onClick={() => openForm()} disabled={templates.length === 0}>
+            <Plus className="h-4 w-4 mr-1" />
+            Assign Rotation
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isFormOpen ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">
+                {editingId ? "Edit Assignment" : "New Assignment"}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={closeForm}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit(values => saveMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="staffId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Staff Member</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select staff member" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {staffList.map(staffMember => (
+                              <SelectItem key={staffMember.id} value={staffMember.id.toString()}>
+                                {staffMember.user.firstName} {staffMember.user.lastName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="templateId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Rotation</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select rotation" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {templates.map(template => (
+                              <SelectItem key={template.id} value={template.id.toString()}>
+                                {template.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Start Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="endDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>End Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormDescription>Leave empty to keep the rotation going</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="startOffset"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Start Offset</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            {...field}
+                            onChange={e => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Days into the cycle on the start date; 0 starts at day 1
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="unit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unit</FormLabel>
+                        <FormControl>
+                          <Input placeholder="No unit" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Saving..." : "Save Assignment"}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        ) : rotations.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Staff</TableHead>
+                <TableHead>Rotation</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>Until</TableHead>
+                <TableHead>Starts On</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead className="w-[140px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rotations.map(rotation => (
+                <TableRow key={rotation.id}>
+                  <TableCell className="font-medium">{getStaffName(rotation.staffId)}</TableCell>
+                  <TableCell>{getTemplate(rotation.templateId)?.name ?? "Unknown rotation"}</TableCell>
+                  <TableCell>{formatDate(rotation.startDate, "MMM d, yyyy")}</TableCell>
+                  <TableCell>{rotation.endDate ? formatDate(rotation.endDate, "MMM d, yyyy") : "Ongoing"}</TableCell>
+                  <TableCell>Day {rotation.startOffset + 1}</TableCell>
+                  <TableCell>{rotation.unit ?? "-"}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Roll out"
+                        onClick={() => setRollOut({
+                          id: rotation.id,
+                          startDate: rotation.startDate,
+                          endDate: rotation.endDate ?? "",
+                        })}
+                      >
+                        <CalendarRange className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => openForm(rotation)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(rotation.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="border p-4 rounded-md text-sm text-slate-500">
+            {templates.length
+              ? "No staff are on a rotation yet."
+              : "Create a rotation template before assigning it to staff."}
+          </div>
+        )}
+
+        {rollOut && rollOutRotation && !isFormOpen && (
+          <div className="border rounded-md p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">
+                Roll out {getTemplate(rollOutRotation.templateId)?.name ?? "rotation"} for{" "}
+                {getStaffName(rollOutRotation.staffId)}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={() => setRollOut(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                type="date"
+                value={rollOut.startDate}
+                onChange={e => setRollOut({ ...rollOut, startDate: e.target.value })}
+              />
+              <Input
+                type="date"
+                value={rollOut.endDate}
+                onChange={e => setRollOut({ ...rollOut, endDate: e.target.value })}
+              />
+            </div>
+            <p className="text-sm text-slate-500">
+              Replaces this staff member's schedule in the range with the rotation, clearing its days off.
+            </p>
+            <Button
+              disabled={!rollOut.startDate || !rollOut.endDate || rollOut.startDate > rollOut.endDate || rollOutMutation.isPending}
+              onClick={() => rollOutMutation.mutate(rollOut)}
+            >
+              {rollOutMutation.isPending ? "Rolling out..." : "Roll Out"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
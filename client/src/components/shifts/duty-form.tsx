@@ -5,20 +5,38 @@ import { z } from "zod";
 import { 
   Form, 
   FormControl, 
+  FormDescription,
   FormField, 
   FormItem, 
   FormLabel, 
   FormMessage 
 } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useMutation } from "@tanstack/react-query";
-import { InsertDutyType, DutyType } from "@shared/schema";
+import { InsertDutyType, DutyCategory, DutyType, DUTY_CATEGORIES } from "@shared/schema";
+
+export const DUTY_CATEGORY_LABELS: Record<DutyCategory, string> = {
+  pre_duty: "Before duty",
+  duty: "Duty",
+  post_duty: "After duty",
+  other: "Other",
+};
 
 const dutyFormSchema = z.object({
   name: z.string().min(2, "Duty name must be at least 2 characters"),
+  category: z.enum(DUTY_CATEGORIES),
+  countsAsWorked: z.boolean(),
 });
 
 type DutyFormValues = z.infer<typeof dutyFormSchema>;
@@ -42,6 +60,8 @@ export function DutyForm({
     resolver: zodResolver(dutyFormSchema),
     defaultValues: {
       name: "",
+      category: "other",
+      countsAsWorked: true,
       ...defaultValues,
     },
   });
@@ -50,6 +70,8 @@ export function DutyForm({
     mutationFn: async (data: DutyFormValues) => {
       const dutyData: InsertDutyType = {
         name: data.name,
+        category: data.category,
+        countsAsWorked: data.countsAsWorked,
       };
       
       const res = await apiRequest("POST", "/api/duty-types", dutyData);
@@ -86,6 +108,8 @@ export function DutyForm({
       
       const dutyData: Partial<InsertDutyType> = {
         name: data.name,
+        category: data.category,
+        countsAsWorked: data.countsAsWorked,
       };
       
       const res = await apiRequest("PATCH", `/api/duty-types/${dutyTypeId}`, dutyData);
@@ -139,6 +163,53 @@ export function DutyForm({
           )}
         />
         
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {DUTY_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>
+                      {DUTY_CATEGORY_LABELS[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Used when no duty cycle is defined</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <FormField
+          control={form.control}
+          name="countsAsWorked"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={checked => field.onChange(checked === true)}
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Counts as worked time</FormLabel>
+                <p className="text-sm text-muted-foreground">
+                  Shifts under this duty count toward hours, shift limits and rest rules
+                </p>
+              </div>
+            </FormItem>
+          )}
+        />
+        
         <div className="flex justify-end">
           <Button type="submit" disabled={isPending}>
             {isPending ? "Saving..." : isEditing ? "Update Duty Type" : "Add Duty Type"}
@@ -5,23 +5,41 @@ import { z } from "zod";
 import { 
   Form, 
   FormControl, 
+  FormDescription,
   FormField, 
   FormItem, 
   FormLabel, 
   FormMessage 
 } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useMutation } from "@tanstack/react-query";
-import { InsertShiftType, ShiftType } from "@shared/schema";
+import { InsertShiftType, ShiftCategory, ShiftType, SHIFT_CATEGORIES } from "@shared/schema";
+
+export const SHIFT_CATEGORY_LABELS: Record<ShiftCategory, string> = {
+  day: "Day",
+  evening: "Evening",
+  night: "Night",
+  other: "Other",
+};
 
 const shiftFormSchema = z.object({
   name: z.string().min(2, "Shift name must be at least 2 characters"),
   startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Must be in 24-hour format (HH:MM)"),
   endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Must be in 24-hour format (HH:MM)"),
   duration: z.coerce.number().min(1, "Duration must be at least 1 hour"),
+  category: z.enum(SHIFT_CATEGORIES),
+  isOvernight: z.boolean(),
 });
 
 type ShiftFormValues = z.infer<typeof shiftFormSchema>;
@@ -48,6 +66,8 @@ export function ShiftForm({
       startTime: "",
       endTime: "",
       duration: 8,
+      category: "other",
+      isOvernight: false,
       ...defaultValues,
     },
   });
@@ -59,6 +79,8 @@ export function ShiftForm({
         startTime: data.startTime,
         endTime: data.endTime,
         duration: data.duration,
+        category: data.category,
+        isOvernight: data.isOvernight,
       };
       
       const res = await apiRequest("POST", "/api/shift-types", shiftData);
@@ -98,6 +120,8 @@ export function ShiftForm({
         startTime: data.startTime,
         endTime: data.endTime,
         duration: data.duration,
+        category: data.category,
+        isOvernight: data.isOvernight,
       };
       
       const res = await apiRequest("PATCH", `/api/shift-types/${shiftTypeId}`, shiftData);
@@ -201,6 +225,53 @@ export function ShiftForm({
           )}
         />
         
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {SHIFT_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>
+                      {SHIFT_CATEGORY_LABELS[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Which shift the generator staffs this as; renaming it has no effect</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <FormField
+          control={form.control}
+          name="isOvernight"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={checked => field.onChange(checked === true)}
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Overnight</FormLabel>
+                <p className="text-sm text-muted-foreground">
+                  Counts toward night-shift limits and night preferences
+                </p>
+              </div>
+            </FormItem>
+          )}
+        />
+        
         <div className="flex justify-end">
           <Button type="submit" disabled={isPending}>
             {isPending ? "Saving..." : isEditing ? "Update Shift Type" : "Add Shift Type"}
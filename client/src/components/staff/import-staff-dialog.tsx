@@ -0,0 +1,316 @@
+import React, { useState } from "react";
+import { Check, Copy, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { PublicStaffWithUser } from "@shared/schema";
+
+const FIELD_LABELS = {
+  username: "Username",
+  firstName: "First Name",
+  lastName: "Last Name",
+  staffRole: "Staff Role",
+  specialization: "Specialization",
+  contactInfo: "Contact Info",
+};
+
+type StaffImportField = keyof typeof FIELD_LABELS;
+type StaffImportMapping = Partial<Record<StaffImportField, string>>;
+
+interface StaffImportPreview {
+  headers: string[];
+  mapping: StaffImportMapping;
+  rows: {
+    rowNumber: number;
+    values: Record<StaffImportField, string>;
+    errors: string[];
+  }[];
+  invalidRows: number;
+}
+
+interface ImportedStaffAccount {
+  staff: PublicStaffWithUser;
+  temporaryPassword: string;
+}
+
+// Select has no empty value, so unmapped fields use this
+const UNMAPPED = "__none";
+
+async function postStaffImport<T>(body: { csv: string; mapping?: StaffImportMapping; dryRun: boolean }): Promise<T> {
+  const res = await fetch("/api/staff/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => null);
+    throw new Error(typeof error?.error === "string" ? error.error : "Failed to import staff");
+  }
+  return res.json();
+}
+
+// Onboard a unit from a CSV: map its columns, check every row, then create all the accounts at once
+export function ImportStaffDialog() {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<StaffImportPreview | null>(null);
+  const [accounts, setAccounts] = useState<ImportedStaffAccount[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setCsv("");
+      setPreview(null);
+      setAccounts(null);
+    }
+  };
+
+  const runPreview = async (text: string, mapping?: StaffImportMapping) => {
+    setIsWorking(true);
+    try {
+      setPreview(await postStaffImport<StaffImportPreview>({ csv: text, mapping, dryRun: true }));
+    } catch (error) {
+      setPreview(null);
+      toast({
+        title: "Error reading CSV",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    const text = file ? await file.text() : "";
+    setCsv(text);
+    setPreview(null);
+    if (text) await runPreview(text);
+  };
+
+  const handleMappingChange = (field: StaffImportField, header: string) => {
+    if (!preview) return;
+    const mapping = { ...preview.mapping };
+    if (header === UNMAPPED) {
+      delete mapping[field];
+    } else {
+      mapping[field] = header;
+    }
+    runPreview(csv, mapping);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setIsWorking(true);
+    try {
+      const result = await postStaffImport<{ accounts: ImportedStaffAccount[] }>({
+        csv,
+        mapping: preview.mapping,
+        dryRun: false,
+      });
+      setAccounts(result.accounts);
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({
+        title: "Staff imported",
+        description: `${result.accounts.length} staff member(s) created.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error importing staff",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copyPasswords = async () => {
+    if (!accounts) return;
+    const lines = accounts.map(a => `${a.staff.user.username},${a.temporaryPassword}`);
+    try {
+      await navigator.clipboard.writeText(["username,temporaryPassword", ...lines].join("\n"));
+      toast({ title: "Passwords copied", description: "Share each one with its owner privately." });
+    } catch {
+      toast({
+        title: "Couldn't copy the passwords",
+        description: "Select the table and copy it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>Import Staff</DialogTitle>
+          <DialogDescription>
+            Create staff accounts from a CSV with one person per row. Every row must be valid
+            before anything is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        {accounts ? (
+          <div className="space-y-3">
+            <p className="text-sm text-amber-700">
+              These temporary passwords are shown only once. Copy them now and ask each person to
+              change theirs after signing in.
+            </p>
+            <div className="border rounded-md max-h-[360px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Temporary Password</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {accounts.map(account => (
+                    <TableRow key={account.staff.id}>
+                      <TableCell>{account.staff.user.firstName} {account.staff.user.lastName}</TableCell>
+                      <TableCell>{account.staff.user.username}</TableCell>
+                      <TableCell className="font-mono">{account.temporaryPassword}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-staff-file">CSV File</Label>
+              <Input
+                id="import-staff-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={e => handleFileChange(e.target.files?.[0])}
+              />
+            </div>
+
+            {preview && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {(Object.keys(FIELD_LABELS) as StaffImportField[]).map(field => (
+                    <div key={field} className="space-y-2">
+                      <Label>{FIELD_LABELS[field]}</Label>
+                      <Select
+                        value={preview.mapping[field] ?? UNMAPPED}
+                        onValueChange={header => handleMappingChange(field, header)}
+                        disabled={isWorking}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                          {preview.headers.map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                <p className="text-sm text-slate-700">
+                  {preview.rows.length} row(s) read
+                  {preview.invalidRows > 0 && (
+                    <span className="text-red-600">, {preview.invalidRows} with errors</span>
+                  )}
+                  .
+                </p>
+                <div className="border rounded-md max-h-[280px] overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[60px]">Row</TableHead>
+                        <TableHead>Username</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map(row => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell>{row.values.username}</TableCell>
+                          <TableCell>{row.values.firstName} {row.values.lastName}</TableCell>
+                          <TableCell>{row.values.staffRole}</TableCell>
+                          <TableCell>
+                            {row.errors.length ? (
+                              <span className="text-sm text-red-600">{row.errors.join("; ")}</span>
+                            ) : (
+                              <Check className="h-4 w-4 text-green-600" />
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {accounts ? (
+            <>
+              <Button variant="outline" onClick={copyPasswords}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy as CSV
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <Button
+              onClick={handleImport}
+              disabled={isWorking || !preview || preview.invalidRows > 0}
+            >
+              {isWorking ? "Working..." : `Create ${preview?.rows.length ?? 0} Staff`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
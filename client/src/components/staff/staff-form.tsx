@@ -5,6 +5,7 @@ import { z } from "zod";
 import { 
   Form, 
   FormControl, 
+  FormDescription, 
   FormField, 
   FormItem, 
   FormLabel, 
@@ -30,11 +31,16 @@ const staffFormSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
   role: z.string().min(1, "Staff role is required"),
   specialization: z.string().optional(),
+  qualifications: z.string().optional(), // comma-separated, e.g. "Charge Nurse, ACLS"
   contactInfo: z.string().optional(),
 });
 
 type StaffFormValues = z.infer<typeof staffFormSchema>;
 
+function parseQualifications(value?: string): string[] {
+  return (value ?? "").split(",").map(q => q.trim()).filter(Boolean);
+}
+
 interface StaffFormProps {
   onSuccess?: () => void;
   defaultValues?: Partial<StaffFormValues>;
@@ -59,6 +65,7 @@ export function StaffForm({
       password: "",
       role: "",
       specialization: "",
+      qualifications: "",
       contactInfo: "",
       ...defaultValues,
     },
@@ -114,6 +121,7 @@ export function StaffForm({
       const res = await apiRequest("PATCH", `/api/staff/${staffId}`, {
         role: data.role,
         specialization: data.specialization,
+        qualifications: parseQualifications(data.qualifications),
         contactInfo: data.contactInfo,
       });
       
@@ -271,6 +279,27 @@ export function StaffForm({
           )}
         />
         
+        {/* Registration can't grant qualifications; they're added by editing the staff member */}
+        {isEditing && (
+          <FormField
+            control={form.control}
+            name="qualifications"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Qualifications (Optional)</FormLabel>
+                <FormControl>
+                  <Input 
+                    placeholder="E.g., Charge Nurse, ACLS" 
+                    {...field} 
+                  />
+                </FormControl>
+                <FormDescription>Separate multiple qualifications with commas</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        
         <FormField
           control={form.control}
           name="contactInfo"
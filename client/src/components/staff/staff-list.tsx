@@ -17,20 +17,23 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { StaffForm } from "./staff-form";
+import { ImportStaffDialog } from "./import-staff-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Edit, Trash2, Plus } from "lucide-react";
-import { StaffWithUser } from "@shared/schema";
+import { PublicStaffWithUser } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 export function StaffList() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [editingStaff, setEditingStaff] = useState<StaffWithUser | null>(null);
+  const [editingStaff, setEditingStaff] = useState<PublicStaffWithUser | null>(null);
   
   // Fetch staff data
-  const { data: staff, isLoading } = useQuery<StaffWithUser[]>({
+  const { data: staff, isLoading } = useQuery<PublicStaffWithUser[]>({
     queryKey: ["/api/staff"],
     queryFn: async () => {
       const res = await fetch("/api/staff", { credentials: "include" });
@@ -75,7 +78,7 @@ export function StaffList() {
   };
   
   // Initialize the edit dialog with the staff data
-  const handleEdit = (staff: StaffWithUser) => {
+  const handleEdit = (staff: PublicStaffWithUser) => {
     setEditingStaff(staff);
   };
   
@@ -83,20 +86,23 @@ export function StaffList() {
     <div>
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-xl font-semibold">Staff Members</h2>
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Staff
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[550px]">
-            <DialogHeader>
-              <DialogTitle>Add New Staff Member</DialogTitle>
-            </DialogHeader>
-            <StaffForm onSuccess={handleAddSuccess} />
-          </DialogContent>
-        </Dialog>
+        <div className="flex gap-2">
+          {user?.role === "admin" && <ImportStaffDialog />}
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Staff
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[550px]">
+              <DialogHeader>
+                <DialogTitle>Add New Staff Member</DialogTitle>
+              </DialogHeader>
+              <StaffForm onSuccess={handleAddSuccess} />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
       
       <div className="border rounded-md">
@@ -148,7 +154,14 @@ export function StaffList() {
                       </div>
                     </div>
                   </TableCell>
-                  <TableCell>{staffMember.role}</TableCell>
+                  <TableCell>
+                    <div>{staffMember.role}</div>
+                    {staffMember.qualifications?.length > 0 && (
+                      <div className="text-xs text-slate-500">
+                        {staffMember.qualifications.join(", ")}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>{staffMember.specialization || "-"}</TableCell>
                   <TableCell>{staffMember.contactInfo || "-"}</TableCell>
                   <TableCell className="text-right">
@@ -175,6 +188,7 @@ export function StaffList() {
                               lastName: editingStaff.user.lastName,
                               role: editingStaff.role,
                               specialization: editingStaff.specialization || "",
+                              qualifications: editingStaff.qualifications?.join(", ") || "",
                               contactInfo: editingStaff.contactInfo || "",
                             }}
                             isEditing={true}
@@ -30,7 +30,7 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { StaffWithUser, ShiftType, InsertSwapRequest } from "@shared/schema";
+import { PublicStaffWithUser, ShiftType, InsertSwapRequest } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 
 const swapRequestSchema = z.object({
@@ -67,20 +67,20 @@ export function SwapRequestForm({ onSuccess }: SwapRequestFormProps) {
       const res = await fetch("/api/staff", { credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch staff");
       
-      const allStaff: StaffWithUser[] = await res.json();
+      const allStaff: PublicStaffWithUser[] = await res.json();
       return allStaff.find(staff => staff.userId === user.id);
     },
     enabled: !!user,
   });
   
   // Fetch staff data (excluding current user)
-  const { data: staff, isLoading: isLoadingStaff } = useQuery<StaffWithUser[]>({
+  const { data: staff, isLoading: isLoadingStaff } = useQuery<PublicStaffWithUser[]>({
     queryKey: ["/api/staff"],
     queryFn: async () => {
       const res = await fetch("/api/staff", { credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch staff");
       
-      const allStaff: StaffWithUser[] = await res.json();
+      const allStaff: PublicStaffWithUser[] = await res.json();
       // Filter out current user if available
       return currentStaff 
         ? allStaff.filter(s => s.id !== currentStaff.id)
@@ -5,11 +5,11 @@ import { WeeklySchedule } from "@/components/dashboard/weekly-schedule";
 import { SwapRequestsTable } from "@/components/dashboard/swap-requests-table";
 import { NotificationsList } from "@/components/dashboard/notifications-list";
 import { useQuery } from "@tanstack/react-query";
-import { StaffWithUser, SwapRequestWithDetails, Notification } from "@shared/schema";
+import { PublicStaffWithUser, PublicSwapRequestWithDetails, Notification } from "@shared/schema";
 
 export default function DashboardPage() {
   // Fetch staff data
-  const { data: staff } = useQuery<StaffWithUser[]>({
+  const { data: staff } = useQuery<PublicStaffWithUser[]>({
     queryKey: ["/api/staff"],
     queryFn: async () => {
       const res = await fetch("/api/staff", { credentials: "include" });
@@ -19,7 +19,7 @@ export default function DashboardPage() {
   });
   
   // Fetch swap requests
-  const { data: swapRequests } = useQuery<SwapRequestWithDetails[]>({
+  const { data: swapRequests } = useQuery<PublicSwapRequestWithDetails[]>({
     queryKey: ["/api/swap-requests"],
     queryFn: async () => {
       const res = await fetch("/api/swap-requests", { credentials: "include" });
@@ -0,0 +1,214 @@
+import React, { useEffect } from "react";
+import { Layout } from "@/components/layout/layout";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShiftType, StaffPreferences, staffPreferencesSchema } from "@shared/schema";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const emptyPreferences: StaffPreferences = {
+  preferredShiftTypeIds: [],
+  avoidedShiftTypeIds: [],
+  preferredDaysOff: [],
+  maxNightsPerMonth: null,
+};
+
+// Add or remove one id from a checkbox group's value
+function toggle(values: number[], id: number, checked: boolean): number[] {
+  return checked ? [...values, id] : values.filter(v => v !== id);
+}
+
+export default function PreferencesPage() {
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading, error } = useQuery<StaffPreferences>({
+    queryKey: ["/api/me/preferences"],
+  });
+
+  const { data: shiftTypes = [] } = useQuery<ShiftType[]>({
+    queryKey: ["/api/shift-types"],
+  });
+
+  const form = useForm<StaffPreferences>({
+    resolver: zodResolver(staffPreferencesSchema),
+    defaultValues: emptyPreferences,
+  });
+
+  useEffect(() => {
+    if (preferences) {
+      form.reset(preferences);
+    }
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: StaffPreferences) => {
+      const res = await apiRequest("PUT", "/api/me/preferences", values);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Preferences saved",
+        description: "Future schedules will take your preferences into account where they can.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/preferences"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving preferences",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderShiftTypeChecklist = (name: "preferredShiftTypeIds" | "avoidedShiftTypeIds") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="space-y-2">
+            {shiftTypes.map(shiftType => (
+              <label key={shiftType.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={field.value.includes(shiftType.id)}
+                  onCheckedChange={checked => field.onChange(toggle(field.value, shiftType.id, checked === true))}
+                />
+                {shiftType.name}
+                <span className="text-slate-500">({shiftType.startTime}–{shiftType.endTime})</span>
+              </label>
+            ))}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Layout title="My Preferences" subtitle="Tell the scheduler which shifts and days suit you">
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : error ? (
+        <div className="border p-4 rounded-md text-sm text-slate-500">
+          Your account isn't linked to a staff profile, so there are no preferences to set.
+        </div>
+      ) : (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(values => saveMutation.mutate(values))}
+            className="space-y-6"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preferred Shifts</CardTitle>
+                  <CardDescription>Shifts you'd rather work; leave empty for no preference</CardDescription>
+                </CardHeader>
+                <CardContent>{renderShiftTypeChecklist("preferredShiftTypeIds")}</CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Shifts to Avoid</CardTitle>
+                  <CardDescription>Shifts you'd rather not be given</CardDescription>
+                </CardHeader>
+                <CardContent>{renderShiftTypeChecklist("avoidedShiftTypeIds")}</CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preferred Days Off</CardTitle>
+                  <CardDescription>Days of the week you'd like to keep free</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FormField
+                    control={form.control}
+                    name="preferredDaysOff"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="grid grid-cols-2 gap-2">
+                          {WEEKDAYS.map((weekday, index) => (
+                            <label key={weekday} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={field.value.includes(index)}
+                                onCheckedChange={checked => field.onChange(toggle(field.value, index, checked === true))}
+                              />
+                              {weekday}
+                            </label>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Night Shifts</CardTitle>
+                  <CardDescription>A personal limit below the unit's labour rules</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FormField
+                    control={form.control}
+                    name="maxNightsPerMonth"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max nights per month</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={31}
+                            placeholder="No limit"
+                            value={field.value ?? ""}
+                            onChange={e => field.onChange(e.target.value === "" ? null : e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormDescription>Leave empty for no personal limit</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            <p className="text-sm text-slate-500">
+              Preferences are weighed against coverage and fairness, so they can't always be met.
+            </p>
+
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+            </Button>
+          </form>
+        </Form>
+      )}
+    </Layout>
+  );
+}
@@ -0,0 +1,277 @@
+import React, { useState } from "react";
+import { Layout } from "@/components/layout/layout";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { cn } from "@/lib/utils";
+import { DutyType, Holiday, PublicStaffWithUser } from "@shared/schema";
+import { StaffWorkload, WORKLOAD_METRICS, WorkloadMetric, WorkloadSummary } from "@shared/scheduling";
+
+interface WorkloadReportResponse extends WorkloadSummary {
+  startDate: string;
+  endDate: string;
+  unit?: string;
+  view: "draft" | "published";
+  holidays: Holiday[];
+}
+
+const METRIC_LABELS: Record<WorkloadMetric, string> = {
+  shifts: "Shifts",
+  hours: "Hours",
+  nights: "Nights",
+  weekends: "Weekend shifts",
+  holidays: "Holiday shifts",
+};
+
+// Hours are on a different scale, so they're left to the table
+const chartConfig = {
+  shifts: { label: METRIC_LABELS.shifts, color: "hsl(221, 83%, 53%)" },
+  nights: { label: METRIC_LABELS.nights, color: "hsl(262, 83%, 58%)" },
+  weekends: { label: METRIC_LABELS.weekends, color: "hsl(38, 92%, 50%)" },
+  holidays: { label: METRIC_LABELS.holidays, color: "hsl(0, 84%, 60%)" },
+} satisfies ChartConfig;
+
+// Totals more than one standard deviation from the mean are flagged
+function getDeviationClass(value: number, metric: WorkloadMetric, report: WorkloadReportResponse): string {
+  const { mean, standardDeviation } = report.fairness[metric];
+  if (standardDeviation === 0) return "";
+  if (value > mean + standardDeviation) return "text-red-600 font-medium";
+  if (value < mean - standardDeviation) return "text-blue-600 font-medium";
+  return "";
+}
+
+export default function ReportsPage() {
+  const { user } = useAuth();
+  const today = new Date();
+  const [startDate, setStartDate] = useState(format(startOfMonth(today), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(endOfMonth(today), "yyyy-MM-dd"));
+  const [unit, setUnit] = useState("");
+  const [view, setView] = useState<"draft" | "published">(user?.role === "admin" ? "draft" : "published");
+
+  const isValidRange = !!startDate && !!endDate && startDate <= endDate;
+
+  // Always refetched on opening, as schedules change elsewhere
+  const { data: report, isLoading, error } = useQuery<WorkloadReportResponse>({
+    queryKey: ["/api/reports/workload", { startDate, endDate, unit: unit.trim(), view }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate, endDate, view });
+      if (unit.trim()) params.set("unit", unit.trim());
+      const res = await fetch(`/api/reports/workload?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load the workload report");
+      return res.json();
+    },
+    enabled: isValidRange,
+    refetchOnMount: "always",
+  });
+
+  const { data: staffList = [] } = useQuery<PublicStaffWithUser[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const { data: dutyTypes = [] } = useQuery<DutyType[]>({
+    queryKey: ["/api/duty-types"],
+  });
+
+  const getStaffName = (staffId: number) => {
+    const member = staffList.find(s => s.id === staffId);
+    return member ? `${member.user.firstName} ${member.user.lastName}` : "Unknown";
+  };
+
+  const getStaffRole = (staffId: number) => staffList.find(s => s.id === staffId)?.role ?? "";
+
+  const chartData = (report?.staff ?? []).map((workload: StaffWorkload) => ({
+    name: getStaffName(workload.staffId),
+    ...workload.totals,
+  }));
+
+  // Only duty types somebody was assigned in the range get a column
+  const reportedDutyTypes = dutyTypes.filter(dt =>
+    report?.staff.some(workload => workload.dutyTypes[dt.id])
+  );
+
+  return (
+    <Layout title="Reports" subtitle="Workload and fairness across staff">
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="report-start">Start Date</Label>
+                <Input id="report-start" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="report-end">End Date</Label>
+                <Input id="report-end" type="date" value={endDate} onChange={e => setEndDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="report-unit">Unit</Label>
+                <Input
+                  id="report-unit"
+                  placeholder="All units"
+                  value={unit}
+                  onChange={e => setUnit(e.target.value)}
+                />
+              </div>
+              {user?.role === "admin" && (
+                <div className="space-y-2">
+                  <Label>Schedule</Label>
+                  <Select value={view} onValueChange={value => setView(value as "draft" | "published")}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="draft">Draft</SelectItem>
+                      <SelectItem value="published">Published</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {!isValidRange && (
+              <p className="mt-3 text-sm text-red-600">Choose a start date on or before the end date.</p>
+            )}
+            {error && (
+              <p className="mt-3 text-sm text-red-600">{(error as Error).message}</p>
+            )}
+            {report && report.holidays.length > 0 && (
+              <p className="mt-3 text-sm text-slate-500">
+                Holidays in range: {report.holidays.map(h => h.name).join(", ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : report && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+              {WORKLOAD_METRICS.map(metric => {
+                const fairness = report.fairness[metric];
+                return (
+                  <Card key={metric}>
+                    <CardContent className="pt-6">
+                      <p className="text-sm font-medium text-slate-500">{METRIC_LABELS[metric]}</p>
+                      <p className="text-2xl font-semibold text-slate-900">{fairness.mean}</p>
+                      <p className="text-xs text-slate-500">average per person</p>
+                      <div className="mt-3 space-y-1 text-sm text-slate-700">
+                        <p>Std. deviation: {fairness.standardDeviation}</p>
+                        <p>Spread: {fairness.spread} ({fairness.min} – {fairness.max})</p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Workload by Staff</CardTitle>
+                <CardDescription>Worked shifts in the range, with the nights, weekends and holidays among them</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {chartData.length ? (
+                  <ChartContainer config={chartConfig} className="h-[320px] w-full aspect-auto">
+                    <BarChart data={chartData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} angle={-30} textAnchor="end" height={70} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {Object.keys(chartConfig).map(metric => (
+                        <Bar key={metric} dataKey={metric} fill={`var(--color-${metric})`} radius={2} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                ) : (
+                  <div className="border p-4 rounded-md text-sm text-slate-500">
+                    Nobody is scheduled in this range.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Totals</CardTitle>
+                <CardDescription>
+                  Figures more than one standard deviation above the average are shown in red, and below it in blue
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Staff</TableHead>
+                      {WORKLOAD_METRICS.map(metric => (
+                        <TableHead key={metric} className="text-right">{METRIC_LABELS[metric]}</TableHead>
+                      ))}
+                      {reportedDutyTypes.map(dt => (
+                        <TableHead key={dt.id} className="text-right">{dt.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.staff.map(workload => (
+                      <TableRow key={workload.staffId}>
+                        <TableCell>
+                          <p className="font-medium">{getStaffName(workload.staffId)}</p>
+                          <p className="text-xs text-slate-500">{getStaffRole(workload.staffId)}</p>
+                        </TableCell>
+                        {WORKLOAD_METRICS.map(metric => (
+                          <TableCell
+                            key={metric}
+                            className={cn("text-right", getDeviationClass(workload.totals[metric], metric, report))}
+                          >
+                            {workload.totals[metric]}
+                          </TableCell>
+                        ))}
+                        {reportedDutyTypes.map(dt => (
+                          <TableCell key={dt.id} className="text-right">{workload.dutyTypes[dt.id] ?? 0}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -19,6 +19,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ShiftForm } from "@/components/shifts/shift-form";
 import { DutyForm } from "@/components/shifts/duty-form";
+import { ExportScheduleDialog } from "@/components/schedule/export-schedule-dialog";
 import { useQuery } from "@tanstack/react-query";
 import { ShiftType, DutyType } from "@shared/schema";
 import { Plus, AlertCircle } from "lucide-react";
@@ -77,6 +78,8 @@ export default function SchedulePage() {
             </p>
           </div>
           <div className="flex gap-3 mt-3 md:mt-0">
+            <ExportScheduleDialog />
+            
             <Dialog open={isShiftFormOpen} onOpenChange={setIsShiftFormOpen}>
               <DialogTrigger asChild>
                 <Button variant="outline">
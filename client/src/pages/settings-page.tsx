@@ -34,9 +34,26 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ShiftType, DutyType } from "@shared/schema";
-import { ShiftForm } from "@/components/shifts/shift-form";
-import { DutyForm } from "@/components/shifts/duty-form";
+import {
+  ShiftType,
+  DutyType,
+  ShiftCategory,
+  DutyCategory,
+  OrganizationSettings,
+  InsertOrganizationSettings,
+  organizationSettingsSchema,
+} from "@shared/schema";
+import { ShiftForm, SHIFT_CATEGORY_LABELS } from "@/components/shifts/shift-form";
+import { DutyForm, DUTY_CATEGORY_LABELS } from "@/components/shifts/duty-form";
+import { DutyCycleSettings } from "@/components/settings/duty-cycle-settings";
+import { LabourRulesSettings } from "@/components/settings/labour-rules-settings";
+import { CoverageRequirementsSettings } from "@/components/settings/coverage-requirements-settings";
+import { SkillMixSettings } from "@/components/settings/skill-mix-settings";
+import { RotationTemplateSettings } from "@/components/settings/rotation-template-settings";
+import { StaffRotationSettings } from "@/components/settings/staff-rotation-settings";
+import { SchedulePeriodSettings } from "@/components/settings/schedule-period-settings";
+import { HolidaySettings } from "@/components/settings/holiday-settings";
+import { CalendarFeedSettings } from "@/components/settings/calendar-feed-settings";
 import { Pencil, Save, X } from "lucide-react";
 
 const profileFormSchema = z.object({
@@ -45,15 +62,7 @@ const profileFormSchema = z.object({
   contactInfo: z.string().optional(),
 });
 
-const organizationFormSchema = z.object({
-  hospitalName: z.string().min(2, "Hospital name must be at least 2 characters"),
-  address: z.string().min(5, "Address must be at least 5 characters"),
-  contactNumber: z.string().min(5, "Contact number must be at least 5 characters"),
-  defaultUnit: z.string().optional(),
-});
-
 type ProfileFormValues = z.infer<typeof profileFormSchema>;
-type OrganizationFormValues = z.infer<typeof organizationFormSchema>;
 
 export default function SettingsPage() {
   const { toast } = useToast();
@@ -97,6 +106,11 @@ export default function SettingsPage() {
     }
   });
   
+  // Fetch organization settings; null until an admin first saves them
+  const { data: organizationSettings } = useQuery<OrganizationSettings | null>({
+    queryKey: ["/api/organization-settings"],
+  });
+  
   // Profile form
   const profileForm = useForm<ProfileFormValues>({
     resolver: zodResolver(profileFormSchema),
@@ -107,9 +121,9 @@ export default function SettingsPage() {
     },
   });
   
-  // Organization form - this would typically be populated from the backend
-  const organizationForm = useForm<OrganizationFormValues>({
-    resolver: zodResolver(organizationFormSchema),
+  // Organization form, with placeholders until settings have been saved
+  const organizationForm = useForm<InsertOrganizationSettings>({
+    resolver: zodResolver(organizationSettingsSchema),
     defaultValues: {
       hospitalName: "Central Hospital",
       address: "123 Healthcare Ave, Medical District",
@@ -157,16 +171,16 @@ export default function SettingsPage() {
   
   // Update organization settings mutation
   const updateOrganizationMutation = useMutation({
-    mutationFn: async (data: OrganizationFormValues) => {
-      // In a real application, this would update organization settings
-      // For now, we'll just simulate success
-      return { success: true };
+    mutationFn: async (data: InsertOrganizationSettings) => {
+      const res = await apiRequest("PUT", "/api/organization-settings", data);
+      return res.json();
     },
     onSuccess: () => {
       toast({
         title: "Organization settings updated",
         description: "Organization settings have been updated successfully.",
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/organization-settings"] });
     },
     onError: (error: Error) => {
       toast({
@@ -182,10 +196,22 @@ export default function SettingsPage() {
     updateProfileMutation.mutate(data);
   };
   
-  const onOrganizationSubmit = (data: OrganizationFormValues) => {
+  const onOrganizationSubmit = (data: InsertOrganizationSettings) => {
     updateOrganizationMutation.mutate(data);
   };
   
+  // Show the saved organization settings once they load
+  React.useEffect(() => {
+    if (organizationSettings) {
+      organizationForm.reset({
+        hospitalName: organizationSettings.hospitalName,
+        address: organizationSettings.address,
+        contactNumber: organizationSettings.contactNumber,
+        defaultUnit: organizationSettings.defaultUnit || "",
+      });
+    }
+  }, [organizationSettings]);
+  
   // When the user data or staff data changes, update the form
   React.useEffect(() => {
     if (user && staffData) {
@@ -220,10 +246,22 @@ export default function SettingsPage() {
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="shifts">Shift Settings</TabsTrigger>
           <TabsTrigger value="organization">Organization</TabsTrigger>
+          {user?.role === "admin" && (
+            <TabsTrigger value="labour-rules">Labour Rules</TabsTrigger>
+          )}
+          {user?.role === "admin" && (
+            <TabsTrigger value="coverage">Coverage</TabsTrigger>
+          )}
+          {user?.role === "admin" && (
+            <TabsTrigger value="rotations">Rotations</TabsTrigger>
+          )}
+          {user?.role === "admin" && (
+            <TabsTrigger value="publishing">Publishing</TabsTrigger>
+          )}
         </TabsList>
         
         {/* Profile Settings Tab */}
-        <TabsContent value="profile">
+        <TabsContent value="profile" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>Profile</CardTitle>
@@ -291,6 +329,7 @@ export default function SettingsPage() {
               </Form>
             </CardContent>
           </Card>
+          {staffData && <CalendarFeedSettings />}
         </TabsContent>
         
         {/* Shift Settings Tab */}
@@ -324,6 +363,8 @@ export default function SettingsPage() {
                         startTime: editingShiftType.startTime,
                         endTime: editingShiftType.endTime,
                         duration: editingShiftType.duration,
+                        category: (editingShiftType.category ?? "other") as ShiftCategory,
+                        isOvernight: editingShiftType.isOvernight ?? false,
                       }}
                       isEditing={true}
                       shiftTypeId={editingShiftType.id}
@@ -339,6 +380,10 @@ export default function SettingsPage() {
                             <div className="text-sm text-slate-500">
                               {shiftType.startTime} - {shiftType.endTime} ({shiftType.duration} hours)
                             </div>
+                            <div className="text-xs text-slate-500">
+                              {SHIFT_CATEGORY_LABELS[shiftType.category as ShiftCategory] ?? shiftType.category}
+                              {shiftType.isOvernight && " · Overnight"}
+                            </div>
                           </div>
                           <Button 
                             variant="ghost" 
@@ -393,6 +438,8 @@ export default function SettingsPage() {
                       onSuccess={handleDutyTypeEditSuccess}
                       defaultValues={{
                         name: editingDutyType.name,
+                        category: (editingDutyType.category ?? "other") as DutyCategory,
+                        countsAsWorked: editingDutyType.countsAsWorked ?? true,
                       }}
                       isEditing={true}
                       dutyTypeId={editingDutyType.id}
@@ -403,7 +450,13 @@ export default function SettingsPage() {
                     {dutyTypes?.map((dutyType) => (
                       <div key={dutyType.id} className="p-3 border rounded-md">
                         <div className="flex items-center justify-between">
-                          <div className="font-medium">{dutyType.name}</div>
+                          <div>
+                            <div className="font-medium">{dutyType.name}</div>
+                            <div className="text-xs text-slate-500">
+                              {DUTY_CATEGORY_LABELS[dutyType.category as DutyCategory] ?? dutyType.category}
+                              {!dutyType.countsAsWorked && " · Not worked time"}
+                            </div>
+                          </div>
                           <Button 
                             variant="ghost" 
                             size="sm" 
@@ -431,16 +484,21 @@ export default function SettingsPage() {
                 )}
               </CardFooter>
             </Card>
+            
+            {/* Duty Cycles */}
+            <div className="md:col-span-2">
+              <DutyCycleSettings />
+            </div>
           </div>
         </TabsContent>
         
         {/* Organization Settings Tab */}
-        <TabsContent value="organization">
+        <TabsContent value="organization" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>Organization Settings</CardTitle>
               <CardDescription>
-                Configure the organization details and scheduling preferences
+                Configure the organization details shown on printed rosters
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -515,22 +573,59 @@ export default function SettingsPage() {
                   
                   <div className="border p-4 rounded-md text-sm text-slate-500">
                     <p>
-                      Scheduling preferences are configured globally. Contact the system 
-                      administrator to adjust the scheduling algorithm parameters.
+                      Shift limits and rest requirements are configured under Labour Rules,
+                      with optional overrides per unit.
                     </p>
                   </div>
                   
-                  <Button 
-                    type="submit" 
-                    disabled={updateOrganizationMutation.isPending}
-                  >
-                    {updateOrganizationMutation.isPending ? "Saving..." : "Save Organization Settings"}
-                  </Button>
+                  {user?.role === "admin" && (
+                    <Button 
+                      type="submit" 
+                      disabled={updateOrganizationMutation.isPending}
+                    >
+                      {updateOrganizationMutation.isPending ? "Saving..." : "Save Organization Settings"}
+                    </Button>
+                  )}
                 </form>
               </Form>
             </CardContent>
           </Card>
+          {user?.role === "admin" && <HolidaySettings />}
         </TabsContent>
+        
+        {/* Labour Rules Tab */}
+        {user?.role === "admin" && (
+          <TabsContent value="labour-rules">
+            <LabourRulesSettings />
+          </TabsContent>
+        )}
+        
+        {/* Coverage Requirements Tab */}
+        {user?.role === "admin" && (
+          <TabsContent value="coverage">
+            <div className="grid grid-cols-1 gap-6">
+              <CoverageRequirementsSettings />
+              <SkillMixSettings />
+            </div>
+          </TabsContent>
+        )}
+        
+        {/* Rotations Tab */}
+        {user?.role === "admin" && (
+          <TabsContent value="rotations">
+            <div className="grid grid-cols-1 gap-6">
+              <RotationTemplateSettings />
+              <StaffRotationSettings />
+            </div>
+          </TabsContent>
+        )}
+        
+        {/* Publishing Tab */}
+        {user?.role === "admin" && (
+          <TabsContent value="publishing">
+            <SchedulePeriodSettings />
+          </TabsContent>
+        )}
       </Tabs>
     </Layout>
   );
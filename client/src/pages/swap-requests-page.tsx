@@ -19,7 +19,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { SwapRequestForm } from "@/components/swaps/swap-request-form";
-import { SwapRequestWithDetails } from "@shared/schema";
+import { PublicSwapRequestWithDetails } from "@shared/schema";
 import { Plus, Check, X } from "lucide-react";
 import { formatDate } from "@/lib/format-date";
 import { Badge } from "@/components/ui/badge";
@@ -31,7 +31,7 @@ export default function SwapRequestsPage() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   
   // Fetch swap requests
-  const { data: swapRequests, isLoading } = useQuery<SwapRequestWithDetails[]>({
+  const { data: swapRequests, isLoading } = useQuery<PublicSwapRequestWithDetails[]>({
     queryKey: ["/api/swap-requests"],
     queryFn: async () => {
       const res = await fetch("/api/swap-requests", { credentials: "include" });
@@ -6,6 +6,7 @@ import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
+import { toPublicUser } from "./dto";
 
 declare global {
   namespace Express {
@@ -15,7 +16,7 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
@@ -51,6 +52,8 @@ export function setupAuth(app: Express) {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
+        } else if (!user.isActive) {
+          return done(null, false, { message: "Account is deactivated" });
         } else {
           return done(null, user);
         }
@@ -64,7 +67,8 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Deactivated accounts lose their existing sessions too
+      done(null, user?.isActive ? user : false);
     } catch (err) {
       done(err);
     }
@@ -77,30 +81,34 @@ export function setupAuth(app: Express) {
         return res.status(400).send("Username already exists");
       }
 
+      // The first account becomes the admin; client-supplied roles are ignored
+      const isFirstUser = (await storage.getAllUsers()).length === 0;
+      const role = isFirstUser ? "admin" : "staff";
+
       const hashedPassword = await hashPassword(req.body.password);
-      const userData = {
-        ...req.body,
+      const user = await storage.createUser({
+        username: req.body.username,
         password: hashedPassword,
-      };
-
-      const user = await storage.createUser(userData);
-
-      // If it's the first user, make them an admin
-      const isFirstUser = user.id === 1;
-      const role = isFirstUser ? "admin" : req.body.role || "staff";
+        firstName: req.body.firstName,
+        lastName: req.body.lastName,
+        role,
+        isActive: true,
+      });
 
       // Create staff profile
       await storage.createStaff({
         userId: user.id,
         role: req.body.staffRole || "Doctor",
         specialization: req.body.specialization || null,
+        // Qualifications count toward skill-mix rules, so only an admin can grant them
+        qualifications: [],
         contactInfo: req.body.contactInfo || null,
         isActive: true
       });
 
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (err) {
       next(err);
@@ -108,7 +116,7 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+    res.status(200).json(toPublicUser(req.user!));
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -120,6 +128,6 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
   });
 }
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { DutyType, Schedule, ShiftType, StaffWithUser } from "@shared/schema";
+import { CalendarFeedInput, buildCalendarFeed } from "./calendar-feed";
+
+const alice: StaffWithUser = {
+  id: 1,
+  userId: 1,
+  role: "Nurse",
+  specialization: null,
+  qualifications: [],
+  contactInfo: null,
+  isActive: true,
+  preferredShiftTypeIds: [],
+  avoidedShiftTypeIds: [],
+  preferredDaysOff: [],
+  maxNightsPerMonth: null,
+  user: { id: 1, username: "alice", password: "", firstName: "Alice", lastName: "Smith", role: "staff", isActive: true },
+};
+
+const DAY = 1;
+const NIGHT = 2;
+const DUTY = 2;
+const POST_DUTY = 3;
+
+const shiftTypes: ShiftType[] = [
+  { id: DAY, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false },
+  { id: NIGHT, name: "Night", startTime: "19:00", endTime: "07:00", duration: 12, category: "night", isOvernight: true },
+];
+
+const dutyTypes: DutyType[] = [
+  { id: DUTY, name: "Duty", category: "duty", countsAsWorked: true },
+  { id: POST_DUTY, name: "Post-Duty", category: "post_duty", countsAsWorked: false },
+];
+
+function schedule(id: number, date: string, shiftTypeId: number | null, dutyTypeId = DUTY, unit: string | null = null): Schedule {
+  return { id, staffId: alice.id, date, shiftTypeId, dutyTypeId, unit, locked: false };
+}
+
+function feed(schedules: Schedule[], overrides: Partial<CalendarFeedInput> = {}): string {
+  return buildCalendarFeed({
+    staff: alice,
+    schedules,
+    shiftTypes,
+    dutyTypes,
+    generatedAt: new Date("2025-03-01T12:30:00Z"),
+    ...overrides,
+  });
+}
+
+// The lines of each VEVENT, unfolded
+function events(calendar: string): string[][] {
+  return calendar
+    .replace(/\r\n /g, "")
+    .split("BEGIN:VEVENT\r\n")
+    .slice(1)
+    .map(event => event.split("END:VEVENT")[0].split("\r\n").filter(Boolean));
+}
+
+describe("buildCalendarFeed", () => {
+  it("writes a CRLF calendar named after the staff member", () => {
+    const calendar = feed([]);
+
+    expect(calendar.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(calendar).toContain("\r\nX-WR-CALNAME:Shifts – Alice Smith\r\n");
+    expect(calendar.replace(/\r\n/g, "")).not.toContain("\n");
+  });
+
+  it("writes shifts as floating local times and ends overnight shifts the next day", () => {
+    expect(events(feed([schedule(1, "2025-03-31", NIGHT, DUTY, "ICU")]))).toEqual([[
+      "UID:schedule-1-2025-03-31@scrubin",
+      "DTSTAMP:20250301T123000Z",
+      "DTSTART:20250331T190000",
+      "DTEND:20250401T070000",
+      "SUMMARY:Night (Duty)",
+      "LOCATION:ICU",
+    ]]);
+  });
+
+  it("writes days without a shift as transparent all-day events", () => {
+    expect(events(feed([schedule(1, "2025-12-31", null, POST_DUTY)]))[0]).toEqual([
+      "UID:schedule-1-2025-12-31@scrubin",
+      "DTSTAMP:20250301T123000Z",
+      "DTSTART;VALUE=DATE:20251231",
+      "DTEND;VALUE=DATE:20260101",
+      "SUMMARY:Post-Duty",
+      "TRANSP:TRANSPARENT",
+    ]);
+  });
+
+  it("lists events in date order", () => {
+    const calendar = feed([schedule(1, "2025-03-05", DAY), schedule(2, "2025-03-03", DAY), schedule(3, "2025-03-04", DAY)]);
+
+    expect(events(calendar).map(lines => lines[0])).toEqual([
+      "UID:schedule-1-2025-03-03@scrubin",
+      "UID:schedule-1-2025-03-04@scrubin",
+      "UID:schedule-1-2025-03-05@scrubin",
+    ]);
+  });
+
+  it("escapes backslashes, separators and newlines in text", () => {
+    const [event] = events(feed([schedule(1, "2025-03-03", DAY, DUTY, "Ward 1; Bay 2, Bed\\3\nNorth")]));
+
+    expect(event).toContain("LOCATION:Ward 1\\; Bay 2\\, Bed\\\\3\\nNorth");
+  });
+
+  it("folds lines longer than 75 octets without splitting characters", () => {
+    const unit = "Intensive Care ".repeat(5) + "é".repeat(40);
+    const calendar = feed([schedule(1, "2025-03-03", DAY, DUTY, unit)]);
+
+    calendar.split("\r\n").forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    expect(calendar).toMatch(/\r\n [^\r\n]/);
+    expect(events(calendar)[0]).toContain(`LOCATION:${unit}`);
+  });
+});
@@ -0,0 +1,136 @@
+import { randomBytes } from "crypto";
+import { addDays, getShiftInterval } from "@shared/scheduling";
+import type { DutyType, Schedule, ShiftType, StaffWithUser } from "@shared/schema";
+import { getPublishedScheduleRows } from "./schedule-publishing";
+import { storage } from "./storage";
+
+export interface CalendarFeedInput {
+  staff: StaffWithUser;
+  schedules: Schedule[];
+  shiftTypes: ShiftType[];
+  dutyTypes: DutyType[];
+  generatedAt: Date;
+}
+
+// Long enough that a feed URL can't be guessed
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// TEXT values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// e.g. "20261103T190000"; shift times are wall-clock, so they're written as floating
+// local times and land on the same clock time in whatever zone the calendar is in
+function formatLocalDateTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 19).replace(/[-:]/g, "");
+}
+
+function formatUtcDateTime(time: Date): string {
+  return `${formatLocalDateTime(time.getTime())}Z`;
+}
+
+function formatDateValue(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+// One event per assignment. The UID is keyed on staff and date, which a staff member has at
+// most one assignment for, so calendar apps replace an event when its assignment changes.
+function buildEvent(schedule: Schedule, input: CalendarFeedInput): string[] {
+  const shiftType = input.shiftTypes.find(st => st.id === schedule.shiftTypeId);
+  const dutyType = input.dutyTypes.find(dt => dt.id === schedule.dutyTypeId);
+  const dutyName = dutyType?.name ?? "Scheduled";
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:schedule-${schedule.staffId}-${schedule.date}@scrubin`,
+    `DTSTAMP:${formatUtcDateTime(input.generatedAt)}`,
+  ];
+  if (shiftType) {
+    // Overnight shifts end on the following day
+    const { start, end } = getShiftInterval(schedule.date, shiftType);
+    lines.push(
+      `DTSTART:${formatLocalDateTime(start)}`,
+      `DTEND:${formatLocalDateTime(end)}`,
+      `SUMMARY:${escapeText(`${shiftType.name} (${dutyName})`)}`,
+    );
+  } else {
+    // Days with a duty but no shift, e.g. Post-Duty, are all-day events
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDateValue(schedule.date)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(addDays(schedule.date, 1))}`,
+      `SUMMARY:${escapeText(dutyName)}`,
+      "TRANSP:TRANSPARENT",
+    );
+  }
+  if (schedule.unit) {
+    lines.push(`LOCATION:${escapeText(schedule.unit)}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+// An RFC 5545 calendar of a staff member's assignments
+export function buildCalendarFeed(input: CalendarFeedInput): string {
+  const { staff, schedules } = input;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ScrubIn//Shift Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`Shifts – ${staff.user.firstName} ${staff.user.lastName}`)}`,
+    // Ask subscribed calendars to check for changes hourly (RFC 7986)
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...[...schedules]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .flatMap(schedule => buildEvent(schedule, input)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+// The feed behind a token; undefined when the token isn't (or is no longer) valid, or its
+// owner has been deactivated, as sign-in already refuses them.
+// Like the staff schedule view, admins get the draft and everyone else what's published.
+export async function getCalendarFeed(token: string): Promise<string | undefined> {
+  const feed = await storage.getCalendarFeedByToken(token);
+  const staff = feed && await storage.getStaffWithUser(feed.staffId);
+  if (!staff || !staff.isActive || !staff.user.isActive) return undefined;
+
+  const [schedules, shiftTypes, dutyTypes] = await Promise.all([
+    staff.user.role === "admin"
+      ? storage.getSchedulesByStaffId(staff.id)
+      : getPublishedScheduleRows().then(rows => rows.filter(row => row.staffId === staff.id)),
+    storage.getAllShiftTypes(),
+    storage.getAllDutyTypes(),
+  ]);
+  return buildCalendarFeed({ staff, schedules, shiftTypes, dutyTypes, generatedAt: new Date() });
+}
@@ -0,0 +1,18 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// The serverless driver talks to Postgres over WebSockets
+neonConfig.webSocketConstructor = ws;
+
+// A Drizzle client over the app schema, whichever Postgres driver it uses
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Create a connection pool and Drizzle client for the given connection string
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
@@ -0,0 +1,32 @@
+import type {
+  User, Availability, StaffWithUser, ScheduleWithDetails, SwapRequestWithDetails,
+  PublicUser, PublicStaffWithUser, PublicScheduleWithDetails, PublicSwapRequestWithDetails
+} from "@shared/schema";
+
+// Mappers from storage rows to the response shapes sent over the API
+
+export function toPublicUser(user: User): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function toPublicStaff(staff: StaffWithUser): PublicStaffWithUser {
+  return { ...staff, user: toPublicUser(staff.user) };
+}
+
+export function toPublicSchedule(schedule: ScheduleWithDetails): PublicScheduleWithDetails {
+  return { ...schedule, staff: toPublicStaff(schedule.staff) };
+}
+
+// Other staff can see that someone is unavailable, but not why
+export function toPublicAvailability(availability: Availability): Availability {
+  return { ...availability, reason: null };
+}
+
+export function toPublicSwapRequest(swapRequest: SwapRequestWithDetails): PublicSwapRequestWithDetails {
+  return {
+    ...swapRequest,
+    requestingStaff: toPublicStaff(swapRequest.requestingStaff),
+    requestedStaff: toPublicStaff(swapRequest.requestedStaff),
+  };
+}
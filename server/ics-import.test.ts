@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { Availability } from "@shared/schema";
+import { ParsedCalendar, parseCalendar, planAvailabilityImport } from "./ics-import";
+
+function calendar(...events: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Test//EN",
+    ...events.flatMap(lines => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+function datesOf(text: string, timeZone = "Europe/London"): string[][] | undefined {
+  return parseCalendar(text, timeZone)?.events.map(event => event.dates);
+}
+
+describe("parseCalendar", () => {
+  it("returns undefined for anything that isn't a calendar", () => {
+    expect(parseCalendar("Name,Date\nAlice,2025-03-03", "Europe/London")).toBeUndefined();
+  });
+
+  it("treats all-day end dates as exclusive", () => {
+    expect(datesOf(calendar(
+      ["SUMMARY:Leave", "DTSTART;VALUE=DATE:20250303", "DTEND;VALUE=DATE:20250305"],
+      ["SUMMARY:Course", "DTSTART;VALUE=DATE:20250310"],
+    ))).toEqual([["2025-03-03", "2025-03-04"], ["2025-03-10"]]);
+  });
+
+  it("takes the days a timed event covers, in its own zone", () => {
+    expect(datesOf(calendar(
+      ["DTSTART;TZID=America/New_York:20250303T220000", "DTEND;TZID=America/New_York:20250304T060000"],
+    ))).toEqual([["2025-03-03", "2025-03-04"]]);
+  });
+
+  it("doesn't count the next day for a timed event ending at midnight", () => {
+    expect(datesOf(calendar(
+      ["DTSTART:20250303T090000", "DTEND:20250304T000000"],
+    ))).toEqual([["2025-03-03"]]);
+  });
+
+  it("moves UTC times into the importer's zone", () => {
+    const text = calendar(["DTSTART:20250303T230000Z", "DTEND:20250304T010000Z"]);
+
+    expect(datesOf(text, "Australia/Sydney")).toEqual([["2025-03-04"]]);
+    expect(datesOf(text, "America/New_York")).toEqual([["2025-03-03"]]);
+    expect(datesOf(text, "Europe/London")).toEqual([["2025-03-03", "2025-03-04"]]);
+  });
+
+  it("ends an event after its duration when it has no end", () => {
+    expect(datesOf(calendar(
+      ["DTSTART;VALUE=DATE:20250303", "DURATION:P3D"],
+      ["DTSTART:20250303T200000", "DURATION:PT8H"],
+    ))).toEqual([["2025-03-03", "2025-03-04", "2025-03-05"], ["2025-03-03", "2025-03-04"]]);
+  });
+
+  it("ignores recurring, cancelled, year-long and undated events", () => {
+    const parsed = parseCalendar(calendar(
+      ["SUMMARY:Weekly", "DTSTART;VALUE=DATE:20250303", "RRULE:FREQ=WEEKLY;COUNT=4"],
+      ["SUMMARY:Moved", "DTSTART;VALUE=DATE:20250304", "RECURRENCE-ID;VALUE=DATE:20250303"],
+      ["SUMMARY:Called off", "DTSTART;VALUE=DATE:20250305", "STATUS:CANCELLED"],
+      ["SUMMARY:Sabbatical", "DTSTART;VALUE=DATE:20250101", "DTEND;VALUE=DATE:20260301"],
+      ["SUMMARY:Someday"],
+      ["SUMMARY:Leave", "DTSTART;VALUE=DATE:20250306"],
+    ), "Europe/London");
+
+    expect(parsed).toEqual({ events: [{ summary: "Leave", dates: ["2025-03-06"] }], ignored: 5 });
+  });
+
+  it("unfolds and unescapes summaries, and skips nested alarms", () => {
+    const parsed = parseCalendar(calendar([
+      "SUMMARY:Annual leave\\, Spain\\;",
+      "  then home",
+      "DTSTART;VALUE=DATE:20250303",
+      "BEGIN:VALARM",
+      "SUMMARY:Reminder",
+      "TRIGGER:-P1D",
+      "END:VALARM",
+    ]), "Europe/London");
+
+    expect(parsed?.events).toEqual([{ summary: "Annual leave, Spain; then home", dates: ["2025-03-03"] }]);
+  });
+
+  it("reads quoted parameters that hold separators", () => {
+    expect(datesOf(calendar(
+      ['DTSTART;TZID="Custom: Zone; One":20250303T090000', 'DTEND;TZID="Custom: Zone; One":20250303T170000'],
+    ))).toEqual([["2025-03-03"]]);
+  });
+});
+
+describe("planAvailabilityImport", () => {
+  function entry(id: number, date: string): Availability {
+    return { id, staffId: 1, date, isAvailable: true, reason: null };
+  }
+
+  it("adds each covered day once and skips days that already have an entry", () => {
+    const parsed: ParsedCalendar = {
+      events: [
+        { summary: "Leave", dates: ["2025-03-05", "2025-03-06"] },
+        { summary: "", dates: ["2025-03-03", "2025-03-04"] },
+        { summary: "Course", dates: ["2025-03-06", "2025-03-07"] },
+      ],
+      ignored: 2,
+    };
+
+    expect(planAvailabilityImport(parsed, [entry(1, "2025-03-04")])).toEqual({
+      entries: [
+        { date: "2025-03-03", reason: "Busy" },
+        { date: "2025-03-05", reason: "Leave" },
+        { date: "2025-03-06", reason: "Leave" },
+        { date: "2025-03-07", reason: "Course" },
+      ],
+      skipped: [
+        { date: "2025-03-04", reason: "Busy" },
+        { date: "2025-03-06", reason: "Course" },
+      ],
+      ignored: 2,
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { addDays, daysBetween, getDatesInRange } from "@shared/scheduling";
+import type { Availability } from "@shared/schema";
+
+export interface CalendarEvent {
+  summary: string;
+  // Dates the event covers, YYYY-MM-DD
+  dates: string[];
+}
+
+export interface ParsedCalendar {
+  events: CalendarEvent[];
+  // Recurring, cancelled and year-long events, which aren't imported
+  ignored: number;
+}
+
+export interface AvailabilityImportEntry {
+  date: string;
+  reason: string;
+}
+
+export interface AvailabilityImportPlan {
+  // New unavailable days, in date order
+  entries: AvailabilityImportEntry[];
+  // Days that already have an availability entry, or that an earlier event in the file covered
+  skipped: AvailabilityImportEntry[];
+  ignored: number;
+}
+
+// Most unavailable days a single import may add
+export const MAX_IMPORT_DAYS = 1000;
+
+// Longest event imported; anything longer is more likely a mistake than leave
+const MAX_EVENT_DAYS = 366;
+
+const MS_PER_MINUTE = 1000 * 60;
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// NAME;PARAM=a;PARAM="b:c":VALUE (RFC 5545 3.1). Quoted parameter values may hold ":" and ";".
+function parseContentLine(line: string): ContentLine | undefined {
+  let inQuotes = false;
+  const separators: number[] = [];
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === ";") separators.push(i);
+    else if (!inQuotes && char === ":") {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart < 0) return undefined;
+
+  const name = line.slice(0, separators[0] ?? valueStart).toUpperCase();
+  const params: Record<string, string> = {};
+  separators.forEach((start, i) => {
+    const param = line.slice(start + 1, separators[i + 1] ?? valueStart);
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  });
+  return { name, params, value: line.slice(valueStart + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// Wall-clock time in a zone, on the same UTC timeline shift times use (see shared dates)
+function toWallClock(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+}
+
+interface DateValue {
+  // Wall-clock time, or midnight for all-day values
+  time: number;
+  allDay: boolean;
+}
+
+// DATE (20261103) or DATE-TIME (20261103T190000, with Z when in UTC). UTC times are moved into
+// the importer's zone; floating and TZID times are already the wall-clock time the owner sees.
+function parseDateValue(line: ContentLine, timeZone: string): DateValue | undefined {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined || line.params.VALUE === "DATE") {
+    return { time: Date.UTC(+year, +month - 1, +day), allDay: true };
+  }
+  const time = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  return { time: utc ? toWallClock(time, timeZone) : time, allDay: false };
+}
+
+// e.g. P2D, PT8H30M, P1W (RFC 5545 3.3.6); undefined when not a duration
+function parseDurationMinutes(value: string): number | undefined {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part ?? "0");
+  const total = (+weeks * 7 + +days) * 24 * 60 + +hours * 60 + +minutes + Math.floor(+seconds / 60);
+  return sign === "-" ? -total : total;
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().split("T")[0];
+}
+
+// Days from the start up to the end; undefined when the start can't be read or the event is
+// too long to be leave. All-day ends are exclusive, as is a timed end at midnight, so an
+// event finishing at 00:00 doesn't take the next day too.
+function getEventDates(properties: Map<string, ContentLine>, timeZone: string): string[] | undefined {
+  const startLine = properties.get("DTSTART");
+  const start = startLine && parseDateValue(startLine, timeZone);
+  if (!start) return undefined;
+
+  const endLine = properties.get("DTEND");
+  const durationLine = properties.get("DURATION");
+  let end = endLine && parseDateValue(endLine, timeZone)?.time;
+  if (end === undefined && durationLine) {
+    const minutes = parseDurationMinutes(durationLine.value);
+    end = minutes === undefined ? undefined : start.time + minutes * MS_PER_MINUTE;
+  }
+  end ??= start.allDay ? start.time + 24 * 60 * MS_PER_MINUTE : start.time;
+
+  const startDate = toDateString(start.time);
+  const endsAtMidnight = new Date(end).getUTCHours() === 0 && new Date(end).getUTCMinutes() === 0;
+  const lastDate = end > start.time && endsAtMidnight ? addDays(toDateString(end), -1) : toDateString(end);
+  if (lastDate < startDate) return [startDate];
+  return daysBetween(startDate, lastDate) < MAX_EVENT_DAYS ? getDatesInRange(startDate, lastDate) : undefined;
+}
+
+// The events in an iCalendar file, or undefined when it isn't one. Nested components
+// such as alarms are skipped, and so are events this import can't place on fixed dates.
+export function parseCalendar(text: string, timeZone: string): ParsedCalendar | undefined {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === "BEGIN:VCALENDAR")) return undefined;
+
+  const events: CalendarEvent[] = [];
+  let ignored = 0;
+  let properties: Map<string, ContentLine> | undefined;
+  let nestedDepth = 0;
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine.trim());
+    if (!line) continue;
+    const component = line.value.toUpperCase();
+
+    if (line.name === "BEGIN" && component === "VEVENT" && !properties) {
+      properties = new Map();
+    } else if (properties && line.name === "BEGIN") {
+      nestedDepth++;
+    } else if (properties && line.name === "END" && nestedDepth > 0) {
+      nestedDepth--;
+    } else if (properties && line.name === "END" && component === "VEVENT") {
+      const dates = getEventDates(properties, timeZone);
+      const eventProperties = properties;
+      const isRecurring = ["RRULE", "RDATE", "RECURRENCE-ID"].some(name => eventProperties.has(name));
+      const isCancelled = properties.get("STATUS")?.value.toUpperCase() === "CANCELLED";
+      if (!dates || isRecurring || isCancelled) {
+        ignored++;
+      } else {
+        events.push({ summary: unescapeText(properties.get("SUMMARY")?.value ?? "").trim(), dates });
+      }
+      properties = undefined;
+    } else if (properties && nestedDepth === 0 && !properties.has(line.name)) {
+      properties.set(line.name, line);
+    }
+  }
+
+  return { events, ignored };
+}
+
+// Unavailable days for a staff member from their calendar, leaving any day that
+// already has an entry untouched
+export function planAvailabilityImport(calendar: ParsedCalendar, existing: Availability[]): AvailabilityImportPlan {
+  const takenDates = new Set(existing.map(a => a.date));
+  const entries: AvailabilityImportEntry[] = [];
+  const skipped: AvailabilityImportEntry[] = [];
+
+  for (const event of calendar.events) {
+    const reason = event.summary || "Busy";
+    for (const date of event.dates) {
+      if (takenDates.has(date)) {
+        skipped.push({ date, reason });
+      } else {
+        takenDates.add(date);
+        entries.push({ date, reason });
+      }
+    }
+  }
+
+  const byDate = (a: AvailabilityImportEntry, b: AvailabilityImportEntry) => a.date.localeCompare(b.date);
+  return { entries: entries.sort(byDate), skipped: skipped.sort(byDate), ignored: calendar.ignored };
+}
+
+// Whether a zone name is one the runtime knows, e.g. "Europe/London"
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,9 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
+// Response fields that must never reach the logs
+const REDACTED_LOG_KEYS = new Set(["password", "temporaryPassword", "token", "secret"]);
+
+function redactSensitiveFields(key: string, value: unknown) {
+  return REDACTED_LOG_KEYS.has(key) ? "[REDACTED]" : value;
+}
+
+// The staff import route parses its own body, with a higher size limit
+const ROUTES_WITH_OWN_JSON_LIMIT = new Set(["/api/staff/import"]);
+const jsonParser = express.json();
+
 const app = express();
-app.use(express.json());
+app.use((req, res, next) => ROUTES_WITH_OWN_JSON_LIMIT.has(req.path) ? next() : jsonParser(req, res, next));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -22,7 +34,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSensitiveFields)}`;
       }
 
       if (logLine.length > 80) {
@@ -37,6 +49,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // A failed seed stops startup rather than leaving the app without shift and duty types
+  await storage.initialize();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,72 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+
+export type UserRole = "admin" | "staff";
+
+// Resolves the staff id that owns the resource a request targets
+export type OwnerResolver = (req: Request) => Promise<number | null | undefined>;
+
+export function isAdmin(req: Request): boolean {
+  return req.isAuthenticated() && req.user.role === "admin";
+}
+
+// Look up the staff profile linked to the signed-in user
+export async function getCurrentStaff(req: Request) {
+  if (!req.isAuthenticated()) return undefined;
+  return storage.getStaffByUserId(req.user.id);
+}
+
+function sendUnauthorized(res: Response) {
+  return res.status(401).json({ error: "Authentication required" });
+}
+
+function sendForbidden(res: Response) {
+  return res.status(403).json({ error: "You do not have permission to perform this action" });
+}
+
+// Reject anonymous callers
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return sendUnauthorized(res);
+  }
+  next();
+}
+
+// Only allow users holding one of the given roles
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return sendUnauthorized(res);
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      return sendForbidden(res);
+    }
+    next();
+  };
+}
+
+// Allow admins, or the staff member who owns the targeted resource
+export function requireOwnerOrAdmin(resolveOwner: OwnerResolver): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return sendUnauthorized(res);
+    }
+    if (isAdmin(req)) {
+      return next();
+    }
+
+    try {
+      const [ownerStaffId, currentStaff] = await Promise.all([
+        resolveOwner(req),
+        getCurrentStaff(req),
+      ]);
+
+      if (!currentStaff || ownerStaffId == null || ownerStaffId !== currentStaff.id) {
+        return sendForbidden(res);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import { summarizeWorkload, type WorkloadSummary } from "@shared/scheduling";
+import type { Holiday } from "@shared/schema";
+import { loadScheduleSnapshot } from "./schedule-publishing";
+import { storage } from "./storage";
+
+export interface WorkloadReportRequest {
+  startDate: string;
+  endDate: string;
+  // Only count assignments in this unit
+  unit?: string;
+  view: "draft" | "published";
+}
+
+export interface WorkloadReport extends WorkloadReportRequest, WorkloadSummary {
+  // Holidays within the range
+  holidays: Holiday[];
+}
+
+// Workload over a range of the draft or published schedule. Every active staff member is
+// reported so that those with little or nothing assigned pull the fairness figures; with a
+// unit filter, only staff with assignments in that unit are.
+export async function getWorkloadReport(request: WorkloadReportRequest): Promise<WorkloadReport> {
+  const { startDate, endDate, unit, view } = request;
+  const [rows, staff, shiftTypes, dutyTypes, allHolidays] = await Promise.all([
+    loadScheduleSnapshot(view, { startDate, endDate }),
+    storage.getAllStaff(),
+    storage.getAllShiftTypes(),
+    storage.getAllDutyTypes(),
+    storage.getAllHolidays(),
+  ]);
+
+  const schedules = (rows ?? []).filter(row => unit === undefined || row.unit === unit);
+  const assigned = new Set(schedules.map(row => row.staffId));
+  const staffIds = staff
+    .filter(s => assigned.has(s.id) || (unit === undefined && s.isActive))
+    .map(s => s.id)
+    .sort((a, b) => a - b);
+  const holidays = allHolidays.filter(h => h.date >= startDate && h.date <= endDate);
+
+  const summary = summarizeWorkload({
+    schedules,
+    staffIds,
+    shiftTypes,
+    dutyTypes,
+    holidayDates: holidays.map(h => h.date),
+  });
+  return { ...request, ...summary, holidays };
+}
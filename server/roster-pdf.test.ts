@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { getDatesInRange } from "@shared/scheduling";
+import type { DutyType, ShiftType, StaffWithUser } from "@shared/schema";
+import { RosterPdfOptions, renderRosterPdf } from "./roster-pdf";
+import type { Roster } from "./schedule-export";
+
+function staffMember(id: number): StaffWithUser {
+  return {
+    id,
+    userId: id,
+    role: "Nurse",
+    specialization: null,
+    qualifications: [],
+    contactInfo: null,
+    isActive: true,
+    preferredShiftTypeIds: [],
+    avoidedShiftTypeIds: [],
+    preferredDaysOff: [],
+    maxNightsPerMonth: null,
+    user: { id, username: `nurse${id}`, password: "", firstName: "Nurse", lastName: String(id), role: "staff", isActive: true },
+  };
+}
+
+const dayShift: ShiftType = { id: 1, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false };
+const duty: DutyType = { id: 2, name: "Duty", category: "duty", countsAsWorked: true };
+
+function roster(endDate: string, staffCount: number): Roster {
+  const staff = Array.from({ length: staffCount }, (_, i) => staffMember(i + 1));
+  const dates = getDatesInRange("2025-03-03", endDate);
+  return {
+    startDate: "2025-03-03",
+    endDate,
+    view: "published",
+    dates,
+    staff,
+    schedules: staff.map((member, i) => ({
+      id: i + 1, staffId: member.id, date: dates[i % dates.length], shiftTypeId: dayShift.id, dutyTypeId: duty.id,
+      unit: null, locked: false, staff: member, shiftType: dayShift, dutyType: duty,
+    })),
+  };
+}
+
+function options(orientation: RosterPdfOptions["orientation"]): RosterPdfOptions {
+  return { orientation, hospitalName: "General Hospital", shiftTypes: [dayShift], dutyTypes: [duty], generatedAt: new Date() };
+}
+
+function countPages(pdf: Buffer): number {
+  return pdf.toString("latin1").match(/\/Type \/Page\b/g)?.length ?? 0;
+}
+
+describe("renderRosterPdf", () => {
+  it("renders a fortnight for a small team on one landscape page", async () => {
+    const pdf = await renderRosterPdf(roster("2025-03-16", 5), options("landscape"));
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(countPages(pdf)).toBe(1);
+  });
+
+  it("splits long ranges into blocks of dates", async () => {
+    expect(countPages(await renderRosterPdf(roster("2025-03-16", 5), options("portrait")))).toBe(2);
+    expect(countPages(await renderRosterPdf(roster("2025-03-30", 5), options("landscape")))).toBe(2);
+  });
+
+  it("continues rows onto further pages", async () => {
+    expect(countPages(await renderRosterPdf(roster("2025-03-09", 60), options("portrait")))).toBeGreaterThan(1);
+  });
+
+  it("renders an empty roster", async () => {
+    expect(countPages(await renderRosterPdf(roster("2025-03-09", 0), options("landscape")))).toBe(1);
+  });
+});
@@ -0,0 +1,171 @@
+import PDFDocument from "pdfkit";
+import { getWeekday } from "@shared/scheduling";
+import type { DutyType, ShiftType } from "@shared/schema";
+import { getStaffName, type Roster } from "./schedule-export";
+
+export const PDF_ORIENTATIONS = ["landscape", "portrait"] as const;
+
+export type PdfOrientation = typeof PDF_ORIENTATIONS[number];
+
+export interface RosterPdfOptions {
+  orientation: PdfOrientation;
+  // Printed in the page header; left out until organization settings are saved
+  hospitalName?: string;
+  shiftTypes: ShiftType[];
+  dutyTypes: DutyType[];
+  generatedAt: Date;
+}
+
+const MARGIN = 30;
+const STAFF_COLUMN_WIDTH = 120;
+const HEADER_ROW_HEIGHT = 22;
+const ROW_HEIGHT = 24;
+const FOOTER_HEIGHT = 16;
+// Dates per page before the grid continues on the next page
+const MAX_DATE_COLUMNS: Record<PdfOrientation, number> = { landscape: 14, portrait: 7 };
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// e.g. "Tue 3 Nov"
+function formatDay(date: string): string {
+  const [, month, day] = date.split("-").map(Number);
+  return `${WEEKDAY_NAMES[getWeekday(date)]} ${day} ${MONTH_NAMES[month - 1]}`;
+}
+
+// e.g. "2026-11-03 14:05 UTC"; UTC so the stamp doesn't depend on the server's zone
+function formatTimestamp(time: Date): string {
+  return `${time.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// A staff-by-day grid on A4. Rows continue across pages with the column headings repeated,
+// long ranges are split into blocks of dates, and a legend of shift and duty types follows.
+export function renderRosterPdf(roster: Roster, options: RosterPdfOptions): Promise<Buffer> {
+  const { orientation, hospitalName, shiftTypes, dutyTypes, generatedAt } = options;
+  const doc = new PDFDocument({ size: "A4", layout: orientation, margin: MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+  doc.on("data", (data: Buffer) => chunks.push(data));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const pageWidth = doc.page.width - MARGIN * 2;
+  const pageBottom = doc.page.height - MARGIN - FOOTER_HEIGHT;
+  const byCell = new Map(roster.schedules.map(s => [`${s.staffId}|${s.date}`, s]));
+
+  const title = `Roster ${formatDay(roster.startDate)} ${roster.startDate.slice(0, 4)} – ` +
+    `${formatDay(roster.endDate)} ${roster.endDate.slice(0, 4)}` +
+    (roster.unit ? ` · ${roster.unit}` : "") +
+    (roster.view === "draft" ? " · DRAFT, not yet published" : "");
+
+  const drawPageHeader = () => {
+    doc.fillColor("black");
+    if (hospitalName) {
+      doc.font("Helvetica-Bold").fontSize(14).text(hospitalName, MARGIN, MARGIN, { width: pageWidth });
+    }
+    doc.font("Helvetica").fontSize(10).text(title, MARGIN, doc.y + 2, { width: pageWidth });
+    doc.moveDown(0.5);
+  };
+
+  const drawCell = (text: string, x: number, y: number, width: number, height: number, shaded: boolean) => {
+    if (shaded) {
+      doc.rect(x, y, width, height).fill("#f1f5f9");
+    }
+    doc.rect(x, y, width, height).lineWidth(0.5).stroke("#94a3b8");
+    doc.fillColor("black").text(text, x + 3, y + 3, { width: width - 6, height: height - 4, ellipsis: true });
+  };
+
+  const drawColumnHeadings = (dates: string[], dateWidth: number, y: number) => {
+    doc.font("Helvetica-Bold").fontSize(8);
+    drawCell("Staff", MARGIN, y, STAFF_COLUMN_WIDTH, HEADER_ROW_HEIGHT, true);
+    dates.forEach((date, i) => {
+      drawCell(formatDay(date), MARGIN + STAFF_COLUMN_WIDTH + i * dateWidth, y, dateWidth, HEADER_ROW_HEIGHT, true);
+    });
+    return y + HEADER_ROW_HEIGHT;
+  };
+
+  drawPageHeader();
+
+  const dateBlocks = chunk(roster.dates, MAX_DATE_COLUMNS[orientation]);
+  dateBlocks.forEach((dates, blockIndex) => {
+    const dateWidth = (pageWidth - STAFF_COLUMN_WIDTH) / dates.length;
+    if (blockIndex > 0) {
+      doc.addPage();
+      drawPageHeader();
+    }
+    let y = drawColumnHeadings(dates, dateWidth, doc.y);
+
+    for (const member of roster.staff) {
+      if (y + ROW_HEIGHT > pageBottom) {
+        doc.addPage();
+        drawPageHeader();
+        y = drawColumnHeadings(dates, dateWidth, doc.y);
+      }
+
+      doc.font("Helvetica-Bold").fontSize(8);
+      drawCell(`${getStaffName(member)}\n${member.role}`, MARGIN, y, STAFF_COLUMN_WIDTH, ROW_HEIGHT, false);
+      doc.font("Helvetica").fontSize(7);
+      dates.forEach((date, i) => {
+        const schedule = byCell.get(`${member.id}|${date}`);
+        const text = schedule
+          ? schedule.shiftType ? `${schedule.shiftType.name}\n${schedule.dutyType.name}` : schedule.dutyType.name
+          : "";
+        const weekday = getWeekday(date);
+        drawCell(text, MARGIN + STAFF_COLUMN_WIDTH + i * dateWidth, y, dateWidth, ROW_HEIGHT, weekday === 0 || weekday === 6);
+      });
+      y += ROW_HEIGHT;
+    }
+    doc.y = y;
+  });
+
+  if (roster.staff.length === 0) {
+    doc.font("Helvetica").fontSize(10).text("Nobody is rostered in this range.", MARGIN, doc.y + 8);
+  }
+
+  // Legend: shift times, and which duty types count as worked
+  const legendLines = [
+    ...shiftTypes.map(st => `${st.name}: ${st.startTime}–${st.endTime}${st.isOvernight ? " (overnight)" : ""}`),
+    ...dutyTypes.map(dt => `${dt.name}${dt.countsAsWorked ? "" : " (not worked)"}`),
+  ];
+  const legendHeight = 30 + Math.ceil(legendLines.length / 3) * 11;
+  if (doc.y + legendHeight > pageBottom) {
+    doc.addPage();
+    drawPageHeader();
+  }
+  doc.fillColor("black").font("Helvetica-Bold").fontSize(9).text("Legend", MARGIN, doc.y + 12);
+  doc.font("Helvetica").fontSize(8);
+  const legendTop = doc.y + 2;
+  const legendColumnWidth = pageWidth / 3;
+  legendLines.forEach((line, i) => {
+    const x = MARGIN + (i % 3) * legendColumnWidth;
+    const y = legendTop + Math.floor(i / 3) * 11;
+    doc.text(line, x, y, { width: legendColumnWidth - 8, lineBreak: false, ellipsis: true });
+  });
+
+  // Footers go in the bottom margin, so lift the margin while writing them
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.fillColor("#64748b").font("Helvetica").fontSize(7).text(
+      `Generated ${formatTimestamp(generatedAt)} · Page ${i - range.start + 1} of ${range.count}`,
+      MARGIN,
+      doc.page.height - MARGIN - 8,
+      { width: pageWidth, align: "right", lineBreak: false }
+    );
+    doc.page.margins.bottom = bottomMargin;
+  }
+
+  doc.end();
+  return finished;
+}
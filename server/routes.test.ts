@@ -0,0 +1,64 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { PublicScheduleWithDetails } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+let server: Server;
+let baseUrl: string;
+
+// Registers an account and returns its session cookie; the first account becomes the admin
+async function register(username: string): Promise<string> {
+  const res = await fetch(`${baseUrl}/api/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password: "password", firstName: username, lastName: "Test", staffRole: "Nurse" }),
+  });
+  expect(res.status).toBe(201);
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
+
+async function getScheduleDates(cookie: string, query = ""): Promise<string[]> {
+  const res = await fetch(`${baseUrl}/api/schedule?startDate=2025-03-03&endDate=2025-03-09${query}`, { headers: { cookie } });
+  expect(res.status).toBe(200);
+  return ((await res.json()) as PublicScheduleWithDetails[]).map(s => s.date);
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  await storage.initialize();
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("GET /api/schedule", () => {
+  it("shows staff only what has been published, while admins see the draft", async () => {
+    const adminCookie = await register("admin");
+    const staffCookie = await register("alice");
+    const alice = (await storage.getAllStaff()).find(s => s.user.username === "alice")!;
+    const [dayShift] = await storage.getAllShiftTypes();
+    const [, duty] = await storage.getAllDutyTypes();
+    const row = { staffId: alice.id, shiftTypeId: dayShift.id, dutyTypeId: duty.id };
+
+    await storage.createSchedule({ ...row, date: "2025-03-03" });
+    const period = await storage.createSchedulePeriod({ name: "Week 10", startDate: "2025-03-03", endDate: "2025-03-09" });
+    expect(await getScheduleDates(staffCookie)).toEqual([]);
+
+    await storage.publishSchedulePeriod(period.id, null);
+    await storage.createSchedule({ ...row, date: "2025-03-04" });
+
+    expect(await getScheduleDates(staffCookie)).toEqual(["2025-03-03"]);
+    // Staff can't ask for the draft
+    expect(await getScheduleDates(staffCookie, "&view=draft")).toEqual(["2025-03-03"]);
+    expect(await getScheduleDates(adminCookie)).toEqual(["2025-03-03", "2025-03-04"]);
+    expect(await getScheduleDates(adminCookie, "&view=published")).toEqual(["2025-03-03"]);
+  });
+});
@@ -1,288 +1,1543 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, UsernameTakenError } from "./storage";
 import { setupAuth } from "./auth";
+import { requireAuth, requireRole, requireOwnerOrAdmin, getCurrentStaff, isAdmin } from "./permissions";
+import { toPublicUser, toPublicStaff, toPublicSchedule, toPublicSwapRequest, toPublicAvailability } from "./dto";
+import { runScheduleGeneration, reserveScheduleRange, compareSchedulingStrategies } from "./schedule-generation";
+import * as scheduleChanges from "./schedule-changes";
+import { getWorkloadReport } from "./reports";
+import {
+  loadRoster, buildAssignmentTable, buildRosterMatrix, toCsv, toXlsx, EXPORT_FORMATS, EXPORT_LAYOUTS
+} from "./schedule-export";
+import { renderRosterPdf, PDF_ORIENTATIONS } from "./roster-pdf";
+import { getCalendarFeed, generateCalendarToken } from "./calendar-feed";
+import { parseCalendar, planAvailabilityImport, isValidTimeZone, MAX_IMPORT_DAYS } from "./ics-import";
+import {
+  previewStaffImport, importStaff, STAFF_IMPORT_FIELDS, MAX_STAFF_IMPORT_ROWS, STAFF_IMPORT_BODY_LIMIT,
+  type StaffImportPreview
+} from "./staff-import";
+import {
+  findOverlappingPeriod, reviewSchedulePeriod, publishSchedulePeriod,
+  getPublishedScheduleRows, getPublishedSchedulesByDateRange, loadScheduleSnapshot
+} from "./schedule-publishing";
+import {
+  getSchedulingStrategy, listSchedulingStrategies, resolveLabourRules, expandRotation, isRotationActiveOn,
+  diffSchedules, daysBetween, DEFAULT_STRATEGY
+} from "@shared/scheduling";
 import { z } from "zod";
 import { 
   insertStaffSchema, insertShiftTypeSchema, insertDutyTypeSchema, 
-  insertScheduleSchema, insertAvailabilitySchema, insertSwapRequestSchema,
-  insertChangeHistorySchema, insertNotificationSchema
+  insertScheduleSchema, insertAvailabilitySchema, insertSwapRequestSchema, swapRequestStaffUpdateSchema,
+  insertChangeHistorySchema, insertNotificationSchema,
+  labourRuleLimitsSchema, labourRuleOverridesSchema, coverageRequirementSchema, skillMixRuleSchema,
+  staffPreferencesSchema, dutyCycleSchema, rotationTemplateSchema, staffRotationSchema, schedulePeriodSchema,
+  insertHolidaySchema, organizationSettingsSchema,
+  type RotationStep, type InsertStaffRotation, type Availability, type InsertSwapRequest
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
 
+  // Calendar subscriptions can't sign in, so the secret token in the URL is the credential.
+  // Served outside /api to keep the token out of the request log.
+  app.get("/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await getCalendarFeed(req.params.token);
+      if (!feed) {
+        return res.status(404).json({ error: "Calendar feed not found" });
+      }
+      
+      res.setHeader("Content-Disposition", 'inline; filename="shifts.ics"');
+      res.setHeader("Cache-Control", "private, no-cache");
+      res.type("text/calendar; charset=utf-8");
+      res.send(feed);
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ error: "Failed to build calendar feed" });
+    }
+  });
+
+  // Every API route below requires a signed-in user
+  app.use("/api", requireAuth);
+  
+  const adminOnly = requireRole("admin");
+
   // API routes
+  // User management routes
+  app.get("/api/users", adminOnly, async (_req, res) => {
+    try {
+      const allUsers = await storage.getAllUsers();
+      res.json(allUsers.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.patch("/api/users/:id/role", adminOnly, async (req, res) => {
+    const roleSchema = z.object({
+      role: z.enum(["admin", "staff"]),
+    });
+
+    try {
+      const userId = parseInt(req.params.id);
+      const { role } = roleSchema.parse(req.body);
+      
+      // Prevent admins from locking themselves out
+      if (userId === req.user!.id && role !== "admin") {
+        return res.status(400).json({ error: "You cannot remove your own admin role" });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { role });
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+
+  app.patch("/api/users/:id/status", adminOnly, async (req, res) => {
+    const statusSchema = z.object({
+      isActive: z.boolean(),
+    });
+
+    try {
+      const userId = parseInt(req.params.id);
+      const { isActive } = statusSchema.parse(req.body);
+      
+      if (userId === req.user!.id && !isActive) {
+        return res.status(400).json({ error: "You cannot deactivate your own account" });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { isActive });
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update user status" });
+    }
+  });
+
   // Staff routes
   app.get("/api/staff", async (_req, res) => {
     try {
       const allStaff = await storage.getAllStaff();
-      res.json(allStaff);
+      res.json(allStaff.map(toPublicStaff));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch staff" });
+    }
+  });
+
+  app.get("/api/staff/:id", async (req, res) => {
+    try {
+      const staffId = parseInt(req.params.id);
+      const staff = await storage.getStaffWithUser(staffId);
+      
+      if (!staff) {
+        return res.status(404).json({ error: "Staff not found" });
+      }
+      
+      res.json(toPublicStaff(staff));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch staff member" });
+    }
+  });
+
+  app.post("/api/staff", adminOnly, async (req, res) => {
+    try {
+      const staffData = insertStaffSchema.parse(req.body);
+      const staff = await storage.createStaff(staffData);
+      res.status(201).json(staff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create staff member" });
+    }
+  });
+
+  // Creates staff accounts from a CSV, all or none. A dry run returns each row with its
+  // validation errors; the real run returns the temporary passwords, which aren't kept.
+  app.post("/api/staff/import", adminOnly, express.json({ limit: STAFF_IMPORT_BODY_LIMIT }), async (req, res) => {
+    const importSchema = z.object({
+      csv: z.string().min(1, "The CSV file is empty"),
+      // CSV header per field; guessed from the header names when left out
+      mapping: z.record(z.enum(STAFF_IMPORT_FIELDS), z.string()).optional(),
+      dryRun: z.boolean().default(false),
+    });
+
+    let preview: StaffImportPreview | undefined;
+    try {
+      const { csv, mapping, dryRun } = importSchema.parse(req.body);
+      preview = await previewStaffImport(csv, mapping);
+      if (preview.rows.length === 0) {
+        return res.status(400).json({ error: "The CSV file has no rows below the header" });
+      }
+      if (preview.rows.length > MAX_STAFF_IMPORT_ROWS) {
+        return res.status(400).json({ error: `Import at most ${MAX_STAFF_IMPORT_ROWS} staff at a time` });
+      }
+      if (dryRun) {
+        return res.json(preview);
+      }
+      if (preview.invalidRows > 0) {
+        return res.status(400).json({ error: `Fix the ${preview.invalidRows} row(s) with errors before importing` });
+      }
+      
+      const accounts = await importStaff(preview.rows);
+      res.status(201).json({ accounts });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      // Someone took the username after the file was checked
+      if (error instanceof UsernameTakenError) {
+        const row = preview?.rows.find(r => r.values.username === error.username);
+        return res.status(409).json({
+          error: `Row ${row?.rowNumber ?? "?"}: username "${error.username}" has been taken since the file was checked`,
+          rowNumber: row?.rowNumber,
+        });
+      }
+      console.error("Error importing staff:", error);
+      res.status(500).json({ error: "Failed to import staff" });
+    }
+  });
+
+  app.patch("/api/staff/:id", adminOnly, async (req, res) => {
+    try {
+      const staffId = parseInt(req.params.id);
+      const staffData = insertStaffSchema.partial().parse(req.body);
+      const updatedStaff = await storage.updateStaff(staffId, staffData);
+      
+      if (!updatedStaff) {
+        return res.status(404).json({ error: "Staff not found" });
+      }
+      
+      res.json(updatedStaff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update staff member" });
+    }
+  });
+
+  // Scheduling preferences of the signed-in user's own staff profile
+  app.get("/api/me/preferences", async (req, res) => {
+    try {
+      const currentStaff = await getCurrentStaff(req);
+      if (!currentStaff) {
+        return res.status(404).json({ error: "No staff profile for this user" });
+      }
+
+      const { preferredShiftTypeIds, avoidedShiftTypeIds, preferredDaysOff, maxNightsPerMonth } = currentStaff;
+      res.json({ preferredShiftTypeIds, avoidedShiftTypeIds, preferredDaysOff, maxNightsPerMonth });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch preferences" });
+    }
+  });
+
+  app.put("/api/me/preferences", async (req, res) => {
+    try {
+      const currentStaff = await getCurrentStaff(req);
+      if (!currentStaff) {
+        return res.status(404).json({ error: "No staff profile for this user" });
+      }
+
+      const preferences = staffPreferencesSchema.parse(req.body);
+      const updatedStaff = await storage.updateStaff(currentStaff.id, preferences);
+      if (!updatedStaff) {
+        return res.status(404).json({ error: "Staff not found" });
+      }
+
+      res.json(preferences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update preferences" });
+    }
+  });
+
+  // Shift types routes
+  app.get("/api/shift-types", async (_req, res) => {
+    try {
+      const shiftTypes = await storage.getAllShiftTypes();
+      res.json(shiftTypes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch shift types" });
+    }
+  });
+
+  app.post("/api/shift-types", adminOnly, async (req, res) => {
+    try {
+      const shiftTypeData = insertShiftTypeSchema.parse(req.body);
+      const shiftType = await storage.createShiftType(shiftTypeData);
+      res.status(201).json(shiftType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create shift type" });
+    }
+  });
+  
+  app.patch("/api/shift-types/:id", adminOnly, async (req, res) => {
+    try {
+      const shiftTypeId = parseInt(req.params.id);
+      const shiftTypeData = insertShiftTypeSchema.partial().parse(req.body);
+      const updatedShiftType = await storage.updateShiftType(shiftTypeId, shiftTypeData);
+      
+      if (!updatedShiftType) {
+        return res.status(404).json({ error: "Shift type not found" });
+      }
+      
+      res.json(updatedShiftType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update shift type" });
+    }
+  });
+
+  // Duty types routes
+  app.get("/api/duty-types", async (_req, res) => {
+    try {
+      const dutyTypes = await storage.getAllDutyTypes();
+      res.json(dutyTypes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch duty types" });
+    }
+  });
+
+  app.post("/api/duty-types", adminOnly, async (req, res) => {
+    try {
+      const dutyTypeData = insertDutyTypeSchema.parse(req.body);
+      const dutyType = await storage.createDutyType(dutyTypeData);
+      res.status(201).json(dutyType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create duty type" });
+    }
+  });
+  
+  app.patch("/api/duty-types/:id", adminOnly, async (req, res) => {
+    try {
+      const dutyTypeId = parseInt(req.params.id);
+      const dutyTypeData = insertDutyTypeSchema.partial().parse(req.body);
+      const updatedDutyType = await storage.updateDutyType(dutyTypeId, dutyTypeData);
+      
+      if (!updatedDutyType) {
+        return res.status(404).json({ error: "Duty type not found" });
+      }
+      
+      res.json(updatedDutyType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update duty type" });
+    }
+  });
+
+  // Duty cycle routes
+  // A cycle's steps must all be duty types, with at least one counting as worked
+  const findDutyCycleStepError = async (steps: number[]): Promise<string | null> => {
+    const dutyTypes = await storage.getAllDutyTypes();
+    const stepTypes = steps.map(id => dutyTypes.find(dt => dt.id === id));
+    if (stepTypes.some(dt => !dt)) {
+      return "Every step must be an existing duty type";
+    }
+    if (!stepTypes.some(dt => dt!.countsAsWorked)) {
+      return "At least one step must count as worked time";
+    }
+    return null;
+  };
+
+  app.get("/api/duty-cycles", async (_req, res) => {
+    try {
+      const cycles = await storage.getAllDutyCycles();
+      res.json(cycles);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch duty cycles" });
+    }
+  });
+
+  app.post("/api/duty-cycles", adminOnly, async (req, res) => {
+    try {
+      const cycleData = dutyCycleSchema.parse(req.body);
+      const stepError = await findDutyCycleStepError(cycleData.steps);
+      if (stepError) {
+        return res.status(400).json({ error: stepError });
+      }
+
+      const cycle = await storage.createDutyCycle(cycleData);
+      res.status(201).json(cycle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create duty cycle" });
+    }
+  });
+
+  app.patch("/api/duty-cycles/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getDutyCycle(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Duty cycle not found" });
+      }
+      
+      const { id: _id, ...current } = existing;
+      const cycleData = dutyCycleSchema.parse({ ...current, ...req.body });
+      const stepError = await findDutyCycleStepError(cycleData.steps);
+      if (stepError) {
+        return res.status(400).json({ error: stepError });
+      }
+
+      const cycle = await storage.updateDutyCycle(id, cycleData);
+      res.json(cycle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update duty cycle" });
+    }
+  });
+
+  app.delete("/api/duty-cycles/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteDutyCycle(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Duty cycle not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete duty cycle" });
+    }
+  });
+
+  // Organization settings routes; null until an admin first saves them
+  app.get("/api/organization-settings", async (_req, res) => {
+    try {
+      const settings = await storage.getOrganizationSettings();
+      res.json(settings ?? null);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch organization settings" });
+    }
+  });
+
+  app.put("/api/organization-settings", adminOnly, async (req, res) => {
+    try {
+      const settingsData = organizationSettingsSchema.parse(req.body);
+      const settings = await storage.saveOrganizationSettings(settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save organization settings" });
+    }
+  });
+
+  // Labour rules routes
+  app.get("/api/labour-rules", async (_req, res) => {
+    try {
+      const records = await storage.getAllLabourRules();
+      res.json({
+        defaults: resolveLabourRules(records),
+        overrides: records.filter(r => r.unit !== null),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch labour rules" });
+    }
+  });
+
+  // Rules in force for a unit after applying its overrides
+  app.get("/api/labour-rules/effective", async (req, res) => {
+    try {
+      const unit = typeof req.query.unit === "string" ? req.query.unit : undefined;
+      const records = await storage.getAllLabourRules();
+      res.json(resolveLabourRules(records, unit));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch labour rules" });
+    }
+  });
+
+  app.put("/api/labour-rules/default", adminOnly, async (req, res) => {
+    try {
+      const limits = labourRuleLimitsSchema.parse(req.body);
+      await storage.saveLabourRules(null, limits);
+      res.json(resolveLabourRules(await storage.getAllLabourRules()));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save labour rules" });
+    }
+  });
+
+  app.put("/api/labour-rules/units/:unit", adminOnly, async (req, res) => {
+    try {
+      const overrides = labourRuleOverridesSchema.parse(req.body);
+      const saved = await storage.saveLabourRules(req.params.unit, overrides);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save labour rules" });
+    }
+  });
+
+  app.delete("/api/labour-rules/units/:unit", adminOnly, async (req, res) => {
+    try {
+      const deleted = await storage.deleteLabourRules(req.params.unit);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Labour rules not found for unit" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete labour rules" });
+    }
+  });
+
+  // Coverage requirement routes
+  app.get("/api/coverage-requirements", async (_req, res) => {
+    try {
+      const requirements = await storage.getAllCoverageRequirements();
+      res.json(requirements);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch coverage requirements" });
+    }
+  });
+
+  app.post("/api/coverage-requirements", adminOnly, async (req, res) => {
+    try {
+      const requirementData = coverageRequirementSchema.parse(req.body);
+      const requirement = await storage.createCoverageRequirement(requirementData);
+      res.status(201).json(requirement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create coverage requirement" });
+    }
+  });
+
+  app.patch("/api/coverage-requirements/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getCoverageRequirement(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Coverage requirement not found" });
+      }
+      
+      // Validate the merged row so weekday/date and min/target stay consistent
+      const { id: _id, ...current } = existing;
+      const requirementData = coverageRequirementSchema.parse({ ...current, ...req.body });
+      const requirement = await storage.updateCoverageRequirement(id, requirementData);
+      res.json(requirement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update coverage requirement" });
+    }
+  });
+
+  app.delete("/api/coverage-requirements/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteCoverageRequirement(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Coverage requirement not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete coverage requirement" });
+    }
+  });
+
+  // Skill-mix rule routes
+  app.get("/api/skill-mix-rules", async (_req, res) => {
+    try {
+      const rules = await storage.getAllSkillMixRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch skill-mix rules" });
+    }
+  });
+
+  app.post("/api/skill-mix-rules", adminOnly, async (req, res) => {
+    try {
+      const ruleData = skillMixRuleSchema.parse(req.body);
+      const rule = await storage.createSkillMixRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create skill-mix rule" });
+    }
+  });
+
+  app.patch("/api/skill-mix-rules/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSkillMixRule(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Skill-mix rule not found" });
+      }
+      
+      const { id: _id, ...current } = existing;
+      const ruleData = skillMixRuleSchema.parse({ ...current, ...req.body });
+      const rule = await storage.updateSkillMixRule(id, ruleData);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update skill-mix rule" });
+    }
+  });
+
+  app.delete("/api/skill-mix-rules/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteSkillMixRule(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Skill-mix rule not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete skill-mix rule" });
+    }
+  });
+
+  // Rotation template routes
+  // Every step must name an existing duty type, and an existing shift type if any
+  const findRotationStepError = async (steps: RotationStep[]): Promise<string | null> => {
+    const [shiftTypes, dutyTypes] = await Promise.all([storage.getAllShiftTypes(), storage.getAllDutyTypes()]);
+    if (steps.some(step => !dutyTypes.some(dt => dt.id === step.dutyTypeId))) {
+      return "Every step must have an existing duty type";
+    }
+    if (steps.some(step => step.shiftTypeId !== null && !shiftTypes.some(st => st.id === step.shiftTypeId))) {
+      return "Every shift must be an existing shift type";
+    }
+    return null;
+  };
+
+  app.get("/api/rotation-templates", async (_req, res) => {
+    try {
+      const templates = await storage.getAllRotationTemplates();
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch rotation templates" });
+    }
+  });
+
+  app.post("/api/rotation-templates", adminOnly, async (req, res) => {
+    try {
+      const templateData = rotationTemplateSchema.parse(req.body);
+      const stepError = await findRotationStepError(templateData.steps);
+      if (stepError) {
+        return res.status(400).json({ error: stepError });
+      }
+
+      const template = await storage.createRotationTemplate(templateData);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create rotation template" });
+    }
+  });
+
+  app.patch("/api/rotation-templates/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getRotationTemplate(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Rotation template not found" });
+      }
+      
+      const { id: _id, ...current } = existing;
+      const templateData = rotationTemplateSchema.parse({ ...current, ...req.body });
+      const stepError = await findRotationStepError(templateData.steps);
+      if (stepError) {
+        return res.status(400).json({ error: stepError });
+      }
+
+      // A shorter cycle would leave assignments starting past its end
+      const rotations = await storage.getAllStaffRotations();
+      if (rotations.some(r => r.templateId === id && r.startOffset >= templateData.cycleLength)) {
+        return res.status(400).json({ error: "Staff are assigned to this rotation at an offset past the new cycle length" });
+      }
+
+      const template = await storage.updateRotationTemplate(id, templateData);
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update rotation template" });
+    }
+  });
+
+  app.delete("/api/rotation-templates/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const rotations = await storage.getAllStaffRotations();
+      if (rotations.some(r => r.templateId === id)) {
+        return res.status(409).json({ error: "Rotation template is still assigned to staff" });
+      }
+
+      const deleted = await storage.deleteRotationTemplate(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Rotation template not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete rotation template" });
+    }
+  });
+
+  // Staff rotation routes
+  // The staff member and template must exist, and the offset must fall within the cycle
+  const findStaffRotationError = async (rotation: InsertStaffRotation): Promise<string | null> => {
+    const staffMember = await storage.getStaff(rotation.staffId);
+    if (!staffMember) {
+      return "Staff member not found";
+    }
+    const template = await storage.getRotationTemplate(rotation.templateId);
+    if (!template) {
+      return "Rotation template not found";
+    }
+    if ((rotation.startOffset ?? 0) >= template.cycleLength) {
+      return `Start offset must be less than the cycle length (${template.cycleLength} days)`;
+    }
+    return null;
+  };
+
+  app.get("/api/staff-rotations", async (_req, res) => {
+    try {
+      const rotations = await storage.getAllStaffRotations();
+      res.json(rotations);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch staff rotations" });
+    }
+  });
+
+  app.post("/api/staff-rotations", adminOnly, async (req, res) => {
+    try {
+      const rotationData = staffRotationSchema.parse(req.body);
+      const rotationError = await findStaffRotationError(rotationData);
+      if (rotationError) {
+        return res.status(400).json({ error: rotationError });
+      }
+
+      const rotation = await storage.createStaffRotation(rotationData);
+      res.status(201).json(rotation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create staff rotation" });
+    }
+  });
+
+  app.patch("/api/staff-rotations/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStaffRotation(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Staff rotation not found" });
+      }
+      
+      const { id: _id, ...current } = existing;
+      const rotationData = staffRotationSchema.parse({ ...current, ...req.body });
+      const rotationError = await findStaffRotationError(rotationData);
+      if (rotationError) {
+        return res.status(400).json({ error: rotationError });
+      }
+
+      const rotation = await storage.updateStaffRotation(id, rotationData);
+      res.json(rotation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update staff rotation" });
+    }
+  });
+
+  app.delete("/api/staff-rotations/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteStaffRotation(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Staff rotation not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete staff rotation" });
+    }
+  });
+
+  // Write a staff member's rotation into the schedule over a date range. Rotation
+  // days replace what was scheduled; rows on the rotation's days off are removed.
+  // Locked rows are kept either way.
+  app.post("/api/staff-rotations/:id/roll-out", adminOnly, async (req, res) => {
+    const rollOutSchema = z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
+    }).refine(data => data.startDate <= data.endDate, {
+      message: "startDate must not be after endDate",
+    }).refine(data => daysBetween(data.startDate, data.endDate) < 366, {
+      message: "Roll-outs cover at most a year",
+    });
+
+    try {
+      const { startDate, endDate } = rollOutSchema.parse(req.body);
+      const rotation = await storage.getStaffRotation(parseInt(req.params.id));
+      
+      if (!rotation) {
+        return res.status(404).json({ error: "Staff rotation not found" });
+      }
+      
+      const template = await storage.getRotationTemplate(rotation.templateId);
+      if (!template) {
+        return res.status(404).json({ error: "Rotation template not found" });
+      }
+
+      const rolledOut = expandRotation(rotation, template, startDate, endDate);
+      const rolledOutDates = new Set(rolledOut.map(s => s.date));
+      const daysOff = (await storage.getSchedulesByStaffId(rotation.staffId)).filter(s =>
+        !s.locked && s.date >= startDate && s.date <= endDate && isRotationActiveOn(rotation, s.date) && !rolledOutDates.has(s.date)
+      );
+
+      const change = await scheduleChanges.getChangeContext(req, `Rolled out the ${template.name} rotation`);
+      const { removed, saved } = await scheduleChanges.replaceSchedules(daysOff.map(s => s.id), rolledOut, change);
+
+      res.status(201).json({ schedules: saved, removed: removed.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error rolling out rotation:", error);
+      res.status(500).json({ error: "Failed to roll out rotation" });
+    }
+  });
+
+  // Schedule routes
+  app.get("/api/schedule", async (req, res) => {
+    try {
+      const startDate = req.query.startDate as string;
+      const endDate = req.query.endDate as string;
+      
+      if (!startDate || !endDate) {
+        return res.status(400).json({ error: "startDate and endDate are required" });
+      }
+      
+      // Admins work on the live draft; everyone else only sees what has been published
+      const schedules = isAdmin(req) && req.query.view !== "published"
+        ? await storage.getSchedulesByDateRange(startDate, endDate)
+        : await getPublishedSchedulesByDateRange(startDate, endDate);
+      res.json(schedules.map(toPublicSchedule));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch schedules" });
+    }
+  });
+
+  // Compare two snapshots of a range: "draft", "published" or a version id
+  app.get("/api/schedule/diff", async (req, res) => {
+    const snapshotRefSchema = z.union([z.literal("draft"), z.literal("published"), z.coerce.number().int().positive()]);
+    const diffSchema = z.object({
+      from: snapshotRefSchema,
+      to: snapshotRefSchema,
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
+    }).refine(data => data.startDate <= data.endDate, {
+      message: "startDate must not be after endDate",
+    });
+
+    try {
+      const { from, to, startDate, endDate } = diffSchema.parse(req.query);
+      
+      // The unpublished draft is only visible to admins
+      if ((from === "draft" || to === "draft") && !isAdmin(req)) {
+        return res.status(403).json({ error: "You do not have permission to perform this action" });
+      }
+      
+      const [before, after] = await Promise.all([
+        loadScheduleSnapshot(from, { startDate, endDate }),
+        loadScheduleSnapshot(to, { startDate, endDate }),
+      ]);
+      if (!before || !after) {
+        return res.status(404).json({ error: "Schedule version not found" });
+      }
+      
+      res.json({ from, to, startDate, endDate, ...diffSchedules(before, after) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error comparing schedules:", error);
+      res.status(500).json({ error: "Failed to compare schedules" });
+    }
+  });
+
+  // Download a range as CSV or Excel, one row per assignment or as a staff-by-date matrix
+  app.get("/api/schedule/export", async (req, res) => {
+    const exportSchema = z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
+      unit: z.string().min(1).optional(),
+      format: z.enum(EXPORT_FORMATS).default("csv"),
+      layout: z.enum(EXPORT_LAYOUTS).default("assignments"),
+      view: z.enum(["draft", "published"]).optional(),
+    }).refine(data => data.startDate <= data.endDate, {
+      message: "startDate must not be after endDate",
+    }).refine(data => daysBetween(data.startDate, data.endDate) < 366, {
+      message: "Exports cover at most a year",
+    });
+
+    try {
+      const { format, layout, view, ...range } = exportSchema.parse(req.query);
+      // Admins export the draft unless they ask for what staff see
+      const roster = await loadRoster({
+        ...range,
+        view: isAdmin(req) && view !== "published" ? "draft" : "published",
+      });
+      const table = layout === "matrix" ? buildRosterMatrix(roster) : buildAssignmentTable(roster);
+      const unitSuffix = range.unit ? `-${range.unit.replace(/[^\w-]+/g, "_")}` : "";
+      const filename = `schedule-${range.startDate}-to-${range.endDate}${unitSuffix}.${format}`;
+      
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "xlsx") {
+        res.type("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.send(await toXlsx(table, layout === "matrix" ? "Roster" : "Assignments"));
+      } else {
+        res.type("text/csv; charset=utf-8");
+        res.send(toCsv(table));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error exporting schedule:", error);
+      res.status(500).json({ error: "Failed to export schedule" });
+    }
+  });
+
+  // Printable staff-by-day roster for a range and unit
+  app.get("/api/schedule/roster.pdf", async (req, res) => {
+    const rosterSchema = z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
+      unit: z.string().min(1).optional(),
+      orientation: z.enum(PDF_ORIENTATIONS).default("landscape"),
+      view: z.enum(["draft", "published"]).optional(),
+    }).refine(data => data.startDate <= data.endDate, {
+      message: "startDate must not be after endDate",
+    }).refine(data => daysBetween(data.startDate, data.endDate) < 93, {
+      message: "Rosters cover at most three months",
+    });
+
+    try {
+      const { orientation, view, ...range } = rosterSchema.parse(req.query);
+      const [roster, settings, shiftTypes, dutyTypes] = await Promise.all([
+        loadRoster({ ...range, view: isAdmin(req) && view !== "published" ? "draft" : "published" }),
+        storage.getOrganizationSettings(),
+        storage.getAllShiftTypes(),
+        storage.getAllDutyTypes(),
+      ]);
+      const pdf = await renderRosterPdf(roster, {
+        orientation,
+        hospitalName: settings?.hospitalName,
+        shiftTypes,
+        dutyTypes,
+        generatedAt: new Date(),
+      });
+      const unitSuffix = range.unit ? `-${range.unit.replace(/[^\w-]+/g, "_")}` : "";
+      
+      res.setHeader("Content-Disposition", `attachment; filename="roster-${range.startDate}-to-${range.endDate}${unitSuffix}.pdf"`);
+      res.type("application/pdf");
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error rendering roster PDF:", error);
+      res.status(500).json({ error: "Failed to render roster" });
+    }
+  });
+
+  app.get("/api/staff/:id/schedule", async (req, res) => {
+    try {
+      const staffId = parseInt(req.params.id);
+      const schedules = isAdmin(req)
+        ? await storage.getSchedulesByStaffId(staffId)
+        : (await getPublishedScheduleRows()).filter(s => s.staffId === staffId);
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch schedules for staff member" });
+    }
+  });
+
+  app.post("/api/schedule", adminOnly, async (req, res) => {
+    try {
+      const scheduleData = insertScheduleSchema.parse(req.body);
+      
+      // Check if there's already a schedule for this staff member on this date
+      const existingSchedule = await storage.getScheduleByStaffAndDate(
+        scheduleData.staffId, 
+        scheduleData.date
+      );
+      
+      if (existingSchedule) {
+        return res.status(409).json({ 
+          error: "A schedule already exists for this staff member on this date" 
+        });
+      }
+      
+      const change = await scheduleChanges.getChangeContext(req, "Schedule created");
+      const schedule = await scheduleChanges.createSchedule(scheduleData, change);
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create schedule" });
+    }
+  });
+
+  // Edit a single schedule, including locking or unlocking it
+  app.patch("/api/schedule/:id", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSchedule(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+      
+      const { id: _id, ...current } = existing;
+      const scheduleData = insertScheduleSchema.parse({ ...current, ...req.body });
+      
+      // Moving the row must not collide with another schedule for the staff member
+      const clash = await storage.getScheduleByStaffAndDate(scheduleData.staffId, scheduleData.date);
+      if (clash && clash.id !== id) {
+        return res.status(409).json({ 
+          error: "A schedule already exists for this staff member on this date" 
+        });
+      }
+      
+      const change = await scheduleChanges.getChangeContext(req, "Schedule updated");
+      const schedule = await scheduleChanges.updateSchedule(id, scheduleData, change);
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update schedule" });
+    }
+  });
+
+  // Clear schedules for a date range (Moved Before /:id)
+  app.delete("/api/schedule/clear", adminOnly, async (req, res) => {
+    const dateRangeSchema = z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
+    });
+
+    try {
+      const { startDate, endDate } = dateRangeSchema.parse(req.query);
+      
+      const change = await scheduleChanges.getChangeContext(req, `Cleared ${startDate} to ${endDate}`);
+      const deleted = await scheduleChanges.deleteSchedulesByDateRange(startDate, endDate, change);
+      // Only locked schedules are left in the range
+      const keptLocked = (await storage.getSchedulesByDateRange(startDate, endDate)).length;
+      
+      console.log(`Cleared ${deleted.length} schedules between ${startDate} and ${endDate}, kept ${keptLocked} locked`);
+      res.json({ deleted: deleted.length, keptLocked });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch staff" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid date range query parameters", details: error.errors });
+      }
+      console.error("Error clearing schedules:", error);
+      res.status(500).json({ error: "Failed to clear schedules" });
     }
   });
-
-  app.get("/api/staff/:id", async (req, res) => {
+  
+  app.delete("/api/schedule/:id", adminOnly, async (req, res) => {
     try {
-      const staffId = parseInt(req.params.id);
-      const staff = await storage.getStaffWithUser(staffId);
+      const scheduleId = parseInt(req.params.id);
+      const change = await scheduleChanges.getChangeContext(req, "Schedule deleted");
+      const deleted = await scheduleChanges.deleteSchedule(scheduleId, change);
       
-      if (!staff) {
-        return res.status(404).json({ error: "Staff not found" });
+      if (!deleted) {
+        return res.status(404).json({ error: "Schedule not found" });
       }
       
-      res.json(staff);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch staff member" });
+      res.status(500).json({ error: "Failed to delete schedule" });
     }
   });
 
-  app.post("/api/staff", async (req, res) => {
+  // Batch create schedules (for schedule generation)
+  app.post("/api/schedule/batch", adminOnly, async (req, res) => {
     try {
-      const staffData = insertStaffSchema.parse(req.body);
-      const staff = await storage.createStaff(staffData);
-      res.status(201).json(staff);
+      const schedulesData = z.array(insertScheduleSchema).parse(req.body);
+      
+      // Existing (staffId, date) rows are updated, the rest are created; locked rows are skipped
+      const change = await scheduleChanges.getChangeContext(req, "Batch update");
+      const createdSchedules = await scheduleChanges.upsertSchedules(schedulesData, change);
+      
+      res.status(201).json(createdSchedules);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to create staff member" });
+      res.status(500).json({ error: "Failed to create schedules batch" });
     }
   });
 
-  app.patch("/api/staff/:id", async (req, res) => {
+  const strategyNameSchema = z.string().refine(name => !!getSchedulingStrategy(name), {
+    message: "Unknown scheduling strategy",
+  });
+
+  // The request waits on the search, so its time budget is capped
+  const optimizationSchema = z.object({
+    timeBudgetMs: z.number().int().min(100).max(10000).optional(),
+    maxIterations: z.number().int().min(1).max(1000000).optional(),
+    seed: z.number().int().min(0).optional(),
+  });
+
+  // Available scheduling strategies for the generator
+  app.get("/api/schedule/strategies", (req, res) => {
+    res.json(listSchedulingStrategies());
+  });
+
+  // Generate and persist a schedule on the server
+  app.post("/api/schedule/generate", adminOnly, async (req, res) => {
+    const generateSchema = z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
+      unit: z.string().optional(),
+      strategy: strategyNameSchema.optional(),
+      optimization: optimizationSchema.optional(),
+      options: z.object({
+        allowConflicts: z.boolean().default(false),
+      }).default({}),
+    }).refine(data => data.startDate <= data.endDate, {
+      message: "startDate must not be after endDate",
+    });
+
     try {
-      const staffId = parseInt(req.params.id);
-      const staffData = insertStaffSchema.partial().parse(req.body);
-      const updatedStaff = await storage.updateStaff(staffId, staffData);
+      const generationRequest = generateSchema.parse(req.body);
       
-      if (!updatedStaff) {
-        return res.status(404).json({ error: "Staff not found" });
+      const release = reserveScheduleRange(generationRequest.startDate, generationRequest.endDate);
+      if (!release) {
+        return res.status(409).json({ 
+          error: "A schedule is already being generated or published for an overlapping date range" 
+        });
       }
       
-      res.json(updatedStaff);
+      try {
+        const change = await scheduleChanges.getChangeContext(
+          req,
+          `Generated with the ${generationRequest.strategy ?? DEFAULT_STRATEGY} strategy`
+        );
+        const result = await runScheduleGeneration({ ...generationRequest, change });
+        res.status(result.persisted ? 201 : 200).json(result);
+      } finally {
+        release();
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to update staff member" });
+      console.error("Error generating schedule:", error);
+      res.status(500).json({ error: "Failed to generate schedule" });
     }
   });
 
-  // Shift types routes
-  app.get("/api/shift-types", async (_req, res) => {
+  // Run several strategies on the same input without saving, for side-by-side evaluation
+  app.post("/api/schedule/compare", adminOnly, async (req, res) => {
+    const compareSchema = z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
+      unit: z.string().optional(),
+      strategies: z.array(strategyNameSchema).min(1).optional(),
+    }).refine(data => data.startDate <= data.endDate, {
+      message: "startDate must not be after endDate",
+    });
+
     try {
-      const shiftTypes = await storage.getAllShiftTypes();
-      res.json(shiftTypes);
+      const { startDate, endDate, unit, strategies } = compareSchema.parse(req.body);
+      const strategyNames = strategies ?? listSchedulingStrategies().map(s => s.name);
+
+      const comparison = await compareSchedulingStrategies(startDate, endDate, strategyNames, unit);
+      res.json(comparison);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch shift types" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error comparing scheduling strategies:", error);
+      res.status(500).json({ error: "Failed to compare scheduling strategies" });
     }
   });
 
-  app.post("/api/shift-types", async (req, res) => {
+  // Undo and redo: every user action that writes schedules is recorded as one operation
+  app.get("/api/schedule-operations/stack", adminOnly, async (req, res) => {
     try {
-      const shiftTypeData = insertShiftTypeSchema.parse(req.body);
-      const shiftType = await storage.createShiftType(shiftTypeData);
-      res.status(201).json(shiftType);
+      const stack = await scheduleChanges.getOperationStack(req.user!.id);
+      res.json(stack);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: error.errors });
-      }
-      res.status(500).json({ error: "Failed to create shift type" });
+      console.error("Error fetching schedule operations:", error);
+      res.status(500).json({ error: "Failed to fetch schedule operations" });
     }
   });
-  
-  app.patch("/api/shift-types/:id", async (req, res) => {
+
+  app.post("/api/schedule-operations/:id/undo", adminOnly, async (req, res) => {
     try {
-      const shiftTypeId = parseInt(req.params.id);
-      const shiftTypeData = insertShiftTypeSchema.partial().parse(req.body);
-      const updatedShiftType = await storage.updateShiftType(shiftTypeId, shiftTypeData);
+      const operation = await storage.getScheduleOperation(parseInt(req.params.id));
       
-      if (!updatedShiftType) {
-        return res.status(404).json({ error: "Shift type not found" });
+      if (!operation) {
+        return res.status(404).json({ error: "Schedule operation not found" });
+      }
+      if (operation.status !== "applied") {
+        return res.status(409).json({ error: "This change has already been undone" });
       }
       
-      res.json(updatedShiftType);
+      const result = await scheduleChanges.undoOperation(operation, await scheduleChanges.getChangeActor(req));
+      if (!result.replayed) {
+        return res.status(409).json({
+          error: "Some of these shifts have changed since, so this can't be undone",
+          conflicts: result.conflicts,
+        });
+      }
+      res.json(result);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: error.errors });
+      console.error("Error undoing schedule operation:", error);
+      res.status(500).json({ error: "Failed to undo schedule operation" });
+    }
+  });
+
+  app.post("/api/schedule-operations/:id/redo", adminOnly, async (req, res) => {
+    try {
+      const operation = await storage.getScheduleOperation(parseInt(req.params.id));
+      
+      if (!operation) {
+        return res.status(404).json({ error: "Schedule operation not found" });
       }
-      res.status(500).json({ error: "Failed to update shift type" });
+      if (operation.status !== "undone") {
+        return res.status(409).json({ error: "Only undone changes can be redone" });
+      }
+      
+      const result = await scheduleChanges.redoOperation(operation, await scheduleChanges.getChangeActor(req));
+      if (!result.replayed) {
+        return res.status(409).json({
+          error: "Some of these shifts have changed since, so this can't be redone",
+          conflicts: result.conflicts,
+        });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error redoing schedule operation:", error);
+      res.status(500).json({ error: "Failed to redo schedule operation" });
     }
   });
 
-  // Duty types routes
-  app.get("/api/duty-types", async (_req, res) => {
+  // Schedule period routes: periods are drafted, reviewed, published and finally archived
+  app.get("/api/schedule-periods", async (_req, res) => {
     try {
-      const dutyTypes = await storage.getAllDutyTypes();
-      res.json(dutyTypes);
+      const periods = await storage.getAllSchedulePeriods();
+      res.json(periods);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch duty types" });
+      res.status(500).json({ error: "Failed to fetch schedule periods" });
     }
   });
 
-  app.post("/api/duty-types", async (req, res) => {
+  app.post("/api/schedule-periods", adminOnly, async (req, res) => {
     try {
-      const dutyTypeData = insertDutyTypeSchema.parse(req.body);
-      const dutyType = await storage.createDutyType(dutyTypeData);
-      res.status(201).json(dutyType);
+      const periodData = schedulePeriodSchema.parse(req.body);
+      
+      const overlapping = findOverlappingPeriod(await storage.getAllSchedulePeriods(), periodData);
+      if (overlapping) {
+        return res.status(409).json({ error: `Overlaps the period "${overlapping.name}"` });
+      }
+      
+      const period = await storage.createSchedulePeriod(periodData);
+      res.status(201).json(period);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to create duty type" });
+      res.status(500).json({ error: "Failed to create schedule period" });
     }
   });
-  
-  app.patch("/api/duty-types/:id", async (req, res) => {
+
+  app.patch("/api/schedule-periods/:id", adminOnly, async (req, res) => {
     try {
-      const dutyTypeId = parseInt(req.params.id);
-      const dutyTypeData = insertDutyTypeSchema.partial().parse(req.body);
-      const updatedDutyType = await storage.updateDutyType(dutyTypeId, dutyTypeData);
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSchedulePeriod(id);
       
-      if (!updatedDutyType) {
-        return res.status(404).json({ error: "Duty type not found" });
+      if (!existing) {
+        return res.status(404).json({ error: "Schedule period not found" });
+      }
+      if (existing.status === "archived") {
+        return res.status(409).json({ error: "Archived periods can't be changed" });
       }
       
-      res.json(updatedDutyType);
+      const { name, startDate, endDate } = existing;
+      const periodData = schedulePeriodSchema.parse({ name, startDate, endDate, ...req.body });
+      
+      const overlapping = findOverlappingPeriod(await storage.getAllSchedulePeriods(), periodData, id);
+      if (overlapping) {
+        return res.status(409).json({ error: `Overlaps the period "${overlapping.name}"` });
+      }
+      
+      const period = await storage.updateSchedulePeriod(id, periodData);
+      res.json(period);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to update duty type" });
+      res.status(500).json({ error: "Failed to update schedule period" });
     }
   });
 
-  // Schedule routes
-  app.get("/api/schedule", async (req, res) => {
+  app.delete("/api/schedule-periods/:id", adminOnly, async (req, res) => {
     try {
-      const startDate = req.query.startDate as string;
-      const endDate = req.query.endDate as string;
+      const id = parseInt(req.params.id);
+      const period = await storage.getSchedulePeriod(id);
       
-      if (!startDate || !endDate) {
-        return res.status(400).json({ error: "startDate and endDate are required" });
+      if (!period) {
+        return res.status(404).json({ error: "Schedule period not found" });
+      }
+      // Published versions are kept for good; a finished period is archived instead
+      if (period.status !== "draft") {
+        return res.status(409).json({ error: "Only draft periods can be deleted" });
       }
       
-      const schedules = await storage.getSchedulesByDateRange(startDate, endDate);
-      res.json(schedules);
+      await storage.deleteSchedulePeriod(id);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch schedules" });
+      res.status(500).json({ error: "Failed to delete schedule period" });
     }
   });
 
-  app.get("/api/staff/:id/schedule", async (req, res) => {
+  // Conflicts in the period's draft, checked before publishing
+  app.get("/api/schedule-periods/:id/review", adminOnly, async (req, res) => {
     try {
-      const staffId = parseInt(req.params.id);
-      const schedules = await storage.getSchedulesByStaffId(staffId);
-      res.json(schedules);
+      const period = await storage.getSchedulePeriod(parseInt(req.params.id));
+      
+      if (!period) {
+        return res.status(404).json({ error: "Schedule period not found" });
+      }
+      
+      const review = await reviewSchedulePeriod(period);
+      res.json(review);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch schedules for staff member" });
+      console.error("Error reviewing schedule period:", error);
+      res.status(500).json({ error: "Failed to review schedule period" });
     }
   });
 
-  app.post("/api/schedule", async (req, res) => {
+  // Publish the draft as the period's next version; blocked by critical conflicts unless allowed
+  app.post("/api/schedule-periods/:id/publish", adminOnly, async (req, res) => {
+    const publishSchema = z.object({
+      allowConflicts: z.boolean().default(false),
+    });
+
     try {
-      const scheduleData = insertScheduleSchema.parse(req.body);
+      const { allowConflicts } = publishSchema.parse(req.body ?? {});
+      const period = await storage.getSchedulePeriod(parseInt(req.params.id));
       
-      // Check if there's already a schedule for this staff member on this date
-      const existingSchedule = await storage.getScheduleByStaffAndDate(
-        scheduleData.staffId, 
-        scheduleData.date
-      );
+      if (!period) {
+        return res.status(404).json({ error: "Schedule period not found" });
+      }
+      if (period.status === "archived") {
+        return res.status(409).json({ error: "Archived periods can't be published" });
+      }
       
-      if (existingSchedule) {
-        return res.status(409).json({ 
-          error: "A schedule already exists for this staff member on this date" 
-        });
+      const release = reserveScheduleRange(period.startDate, period.endDate);
+      if (!release) {
+        return res.status(409).json({ error: "A schedule is being generated or published for this period" });
       }
       
-      const schedule = await storage.createSchedule(scheduleData);
-      res.status(201).json(schedule);
+      try {
+        const result = await publishSchedulePeriod(period, {
+          allowConflicts,
+          publishedByUserId: req.user?.id ?? null,
+        });
+        res.status(result.published ? 201 : 200).json(result);
+      } finally {
+        release();
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to create schedule" });
+      console.error("Error publishing schedule period:", error);
+      res.status(500).json({ error: "Failed to publish schedule period" });
     }
   });
 
-  // Clear schedules for a date range (Moved Before /:id)
-  app.delete("/api/schedule/clear", async (req, res) => {
-    const dateRangeSchema = z.object({
-      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
-      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
-    });
+  app.post("/api/schedule-periods/:id/archive", adminOnly, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const period = await storage.getSchedulePeriod(id);
+      
+      if (!period) {
+        return res.status(404).json({ error: "Schedule period not found" });
+      }
+      if (period.status !== "published") {
+        return res.status(409).json({ error: "Only published periods can be archived" });
+      }
+      
+      const archived = await storage.updateSchedulePeriod(id, { status: "archived" });
+      res.json(archived);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to archive schedule period" });
+    }
+  });
 
+  // Every published version of a period, newest first
+  app.get("/api/schedule-periods/:id/versions", async (req, res) => {
     try {
-      const { startDate, endDate } = dateRangeSchema.parse(req.query);
+      const versions = await storage.getScheduleVersionsByPeriodId(parseInt(req.params.id));
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch schedule versions" });
+    }
+  });
+
+  app.get("/api/schedule-versions/:id", async (req, res) => {
+    try {
+      const version = await storage.getScheduleVersion(parseInt(req.params.id));
+      
+      if (!version) {
+        return res.status(404).json({ error: "Schedule version not found" });
+      }
       
-      const deletedCount = await storage.deleteSchedulesByDateRange(startDate, endDate);
+      res.json(version);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch schedule version" });
+    }
+  });
+
+  // Holiday routes
+  app.get("/api/holidays", async (_req, res) => {
+    try {
+      const holidays = await storage.getAllHolidays();
+      res.json(holidays);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch holidays" });
+    }
+  });
+
+  app.post("/api/holidays", adminOnly, async (req, res) => {
+    try {
+      const holidayData = insertHolidaySchema.parse(req.body);
+      
+      if (await storage.getHolidayByDate(holidayData.date)) {
+        return res.status(409).json({ error: "There is already a holiday on that date" });
+      }
       
-      console.log(`Cleared ${deletedCount} schedules between ${startDate} and ${endDate}`);
-      res.status(204).send(); // Success, no content to return
+      const holiday = await storage.createHoliday(holidayData);
+      res.status(201).json(holiday);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Invalid date range query parameters", details: error.errors });
+        return res.status(400).json({ error: error.errors });
       }
-      console.error("Error clearing schedules:", error);
-      res.status(500).json({ error: "Failed to clear schedules" });
+      res.status(500).json({ error: "Failed to create holiday" });
     }
   });
-  
-  app.delete("/api/schedule/:id", async (req, res) => {
+
+  app.delete("/api/holidays/:id", adminOnly, async (req, res) => {
     try {
-      const scheduleId = parseInt(req.params.id);
-      const deleted = await storage.deleteSchedule(scheduleId);
+      const deleted = await storage.deleteHoliday(parseInt(req.params.id));
       
       if (!deleted) {
-        return res.status(404).json({ error: "Schedule not found" });
+        return res.status(404).json({ error: "Holiday not found" });
       }
       
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete schedule" });
+      res.status(500).json({ error: "Failed to delete holiday" });
     }
   });
 
-  // Batch create schedules (for schedule generation)
-  app.post("/api/schedule/batch", async (req, res) => {
+  // Report routes: admins report on the draft unless they ask for the published view
+  app.get("/api/reports/workload", async (req, res) => {
+    const workloadQuerySchema = z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)"),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)"),
+      unit: z.string().min(1).optional(),
+      view: z.enum(["draft", "published"]).optional(),
+    }).refine(data => data.startDate <= data.endDate, {
+      message: "startDate must not be after endDate",
+    }).refine(data => daysBetween(data.startDate, data.endDate) < 366, {
+      message: "Reports cover at most a year",
+    });
+
     try {
-      const schedulesData = z.array(insertScheduleSchema).parse(req.body);
-      const createdSchedules = [];
-      
-      for (const scheduleData of schedulesData) {
-        // Check if there's already a schedule for this staff member on this date
-        const existingSchedule = await storage.getScheduleByStaffAndDate(
-          scheduleData.staffId, 
-          scheduleData.date
-        );
-        
-        // If exists, update it
-        if (existingSchedule) {
-          const updatedSchedule = await storage.updateSchedule(existingSchedule.id, scheduleData);
-          if (updatedSchedule) {
-            createdSchedules.push(updatedSchedule);
-          }
-        } else {
-          // Otherwise, create new
-          const schedule = await storage.createSchedule(scheduleData);
-          createdSchedules.push(schedule);
-        }
-      }
-      
-      res.status(201).json(createdSchedules);
+      const { view, ...query } = workloadQuerySchema.parse(req.query);
+      const report = await getWorkloadReport({
+        ...query,
+        view: isAdmin(req) && view !== "published" ? "draft" : "published",
+      });
+      res.json(report);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to create schedules batch" });
+      console.error("Error building workload report:", error);
+      res.status(500).json({ error: "Failed to build workload report" });
     }
   });
 
   // Availability routes
-  app.get("/api/staff/:id/availability", async (req, res) => {
+  app.get("/api/staff/:id/availability", requireOwnerOrAdmin(async (req) => parseInt(req.params.id)), async (req, res) => {
     try {
       const staffId = parseInt(req.params.id);
       const availabilities = await storage.getAvailabilitiesByStaffId(staffId);
@@ -297,10 +1552,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const startDate = req.query.startDate as string;
       const endDate = req.query.endDate as string;
       
+      // Reasons are only shown to admins and to the staff member they belong to
+      const viewer = isAdmin(req) ? undefined : await getCurrentStaff(req);
+      const visible = (entries: Availability[]) => isAdmin(req)
+        ? entries
+        : entries.map(entry => entry.staffId === viewer?.id ? entry : toPublicAvailability(entry));
+      
       if (startDate && endDate) {
         // If date range is provided, get availabilities for that range
         const availabilities = await storage.getAvailabilitiesByDateRange(startDate, endDate);
-        return res.json(availabilities);
+        return res.json(visible(availabilities));
       } else {
         // Otherwise get all availabilities
         const allAvailabilities = [];
@@ -311,14 +1572,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const staffAvailabilities = await storage.getAvailabilitiesByStaffId(staff.id);
           allAvailabilities.push(...staffAvailabilities);
         }
-        return res.json(allAvailabilities);
+        return res.json(visible(allAvailabilities));
       }
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch availabilities" });
     }
   });
 
-  app.post("/api/availability", async (req, res) => {
+  app.post("/api/availability", requireOwnerOrAdmin(async (req) => Number(req.body?.staffId)), async (req, res) => {
     try {
       const availabilityData = insertAvailabilitySchema.parse(req.body);
       const availability = await storage.createAvailability(availabilityData);
@@ -331,7 +1592,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/availability/:id", async (req, res) => {
+  app.patch("/api/availability/:id", requireOwnerOrAdmin(async (req) => {
+    const existing = await storage.getAvailability(parseInt(req.params.id));
+    // Staff may not move an entry onto somebody else
+    if (req.body?.staffId !== undefined && Number(req.body.staffId) !== existing?.staffId) {
+      return undefined;
+    }
+    return existing?.staffId;
+  }), async (req, res) => {
     try {
       const availabilityId = parseInt(req.params.id);
       const availabilityData = insertAvailabilitySchema.partial().parse(req.body);
@@ -350,17 +1618,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Marks a staff member unavailable on the days of the events in an uploaded .ics file.
+  // With dryRun the plan is returned for review and nothing is written.
+  app.post(
+    "/api/staff/:id/availability/import",
+    requireOwnerOrAdmin(async (req) => parseInt(req.params.id)),
+    express.text({ type: ["text/calendar", "text/plain"], limit: "512kb" }),
+    async (req, res) => {
+      const importSchema = z.object({
+        dryRun: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+        timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").default("UTC"),
+      });
+
+      try {
+        const staffId = parseInt(req.params.id);
+        const { dryRun, timeZone } = importSchema.parse(req.query);
+        const calendar = typeof req.body === "string" ? parseCalendar(req.body, timeZone) : undefined;
+        if (!calendar) {
+          return res.status(400).json({ error: "Upload an iCalendar (.ics) file" });
+        }
+        
+        const existing = await storage.getAvailabilitiesByStaffId(staffId);
+        const plan = planAvailabilityImport(calendar, existing);
+        if (plan.entries.length > MAX_IMPORT_DAYS) {
+          return res.status(400).json({
+            error: `The file covers ${plan.entries.length} new days; import at most ${MAX_IMPORT_DAYS} at a time`,
+          });
+        }
+        if (dryRun) {
+          return res.json({ ...plan, created: [] });
+        }
+        
+        const created = await storage.createAvailabilities(
+          plan.entries.map(entry => ({ staffId, date: entry.date, isAvailable: false, reason: entry.reason }))
+        );
+        res.status(201).json({ ...plan, created });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: error.errors });
+        }
+        console.error("Error importing availability:", error);
+        res.status(500).json({ error: "Failed to import availability" });
+      }
+    }
+  );
+
   // Swap requests routes
   app.get("/api/swap-requests", async (_req, res) => {
     try {
       const pendingSwapRequests = await storage.getPendingSwapRequests();
-      res.json(pendingSwapRequests);
+      res.json(pendingSwapRequests.map(toPublicSwapRequest));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch swap requests" });
     }
   });
 
-  app.get("/api/staff/:id/swap-requests", async (req, res) => {
+  app.get("/api/staff/:id/swap-requests", requireOwnerOrAdmin(async (req) => parseInt(req.params.id)), async (req, res) => {
     try {
       const staffId = parseInt(req.params.id);
       const swapRequests = await storage.getSwapRequestsByStaffId(staffId);
@@ -370,7 +1683,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/swap-requests", async (req, res) => {
+  app.post("/api/swap-requests", requireOwnerOrAdmin(async (req) => Number(req.body?.requestingStaffId)), async (req, res) => {
     try {
       const swapRequestData = insertSwapRequestSchema.parse(req.body);
       const swapRequest = await storage.createSwapRequest(swapRequestData);
@@ -392,15 +1705,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/swap-requests/:id", async (req, res) => {
+  app.patch("/api/swap-requests/:id", requireOwnerOrAdmin(async (req) => {
+    // Any status change, including reopening a decided request, is reserved for admins
+    if (req.body?.status !== undefined) {
+      return undefined;
+    }
+    const existing = await storage.getSwapRequest(parseInt(req.params.id));
+    return existing?.requestingStaffId;
+  }), async (req, res) => {
     try {
       const swapRequestId = parseInt(req.params.id);
-      const swapRequestData = insertSwapRequestSchema.partial().parse(req.body);
+      // Staff can't move their request to another date or colleague, only admins can
+      const swapRequestData: Partial<InsertSwapRequest> = isAdmin(req)
+        ? insertSwapRequestSchema.partial().parse(req.body)
+        : swapRequestStaffUpdateSchema.parse(req.body);
       
       const existingSwapRequest = await storage.getSwapRequest(swapRequestId);
       if (!existingSwapRequest) {
         return res.status(404).json({ error: "Swap request not found" });
       }
+      if (!isAdmin(req) && existingSwapRequest.status !== "pending") {
+        return res.status(409).json({ error: "Only pending swap requests can be changed" });
+      }
       
       const updatedSwapRequest = await storage.updateSwapRequest(swapRequestId, swapRequestData);
       if (!updatedSwapRequest) {
@@ -422,46 +1748,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Update schedules based on the swap
         if (requestingStaffSchedule && requestedStaffSchedule) {
-          // Save current values for change history
-          const oldRequestingStaffShiftTypeId = requestingStaffSchedule.shiftTypeId;
-          const oldRequestedStaffShiftTypeId = requestedStaffSchedule.shiftTypeId;
-          
           // Swap the shift types
-          const updatedRequestingSchedule = await storage.updateSchedule(
+          const change = await scheduleChanges.getChangeContext(req, "Swap request approved");
+          await scheduleChanges.updateSchedule(
             requestingStaffSchedule.id,
-            { shiftTypeId: requestedStaffSchedule.shiftTypeId }
+            { shiftTypeId: requestedStaffSchedule.shiftTypeId },
+            change
           );
-          
-          const updatedRequestedSchedule = await storage.updateSchedule(
+          await scheduleChanges.updateSchedule(
             requestedStaffSchedule.id,
-            { shiftTypeId: oldRequestingStaffShiftTypeId }
+            { shiftTypeId: requestingStaffSchedule.shiftTypeId },
+            change
           );
           
-          // Create change history records
-          if (updatedRequestingSchedule) {
-            await storage.createChangeHistory({
-              scheduleId: requestingStaffSchedule.id,
-              staffId: existingSwapRequest.requestingStaffId,
-              date: existingSwapRequest.date,
-              oldShiftTypeId: oldRequestingStaffShiftTypeId,
-              newShiftTypeId: updatedRequestingSchedule.shiftTypeId,
-              reason: "Swap request approved",
-              changedByStaffId: req.user ? (await storage.getStaffByUserId(req.user.id))?.id || 1 : 1
-            });
-          }
-          
-          if (updatedRequestedSchedule) {
-            await storage.createChangeHistory({
-              scheduleId: requestedStaffSchedule.id,
-              staffId: existingSwapRequest.requestedStaffId,
-              date: existingSwapRequest.date,
-              oldShiftTypeId: oldRequestedStaffShiftTypeId,
-              newShiftTypeId: updatedRequestedSchedule.shiftTypeId,
-              reason: "Swap request approved",
-              changedByStaffId: req.user ? (await storage.getStaffByUserId(req.user.id))?.id || 1 : 1
-            });
-          }
-          
           // Create notifications for both staff members
           await storage.createNotification({
             type: "success",
@@ -497,13 +1796,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Change history routes
-  app.get("/api/change-history", async (_req, res) => {
+  app.get("/api/change-history", adminOnly, async (req, res) => {
+    const historyQuerySchema = z.object({
+      scheduleId: z.coerce.number().int().optional(),
+      staffId: z.coerce.number().int().optional(),
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date format (YYYY-MM-DD)").optional(),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date format (YYYY-MM-DD)").optional(),
+      changedByUserId: z.coerce.number().int().optional(),
+      reason: z.string().min(1).optional(),
+      page: z.coerce.number().int().min(1).default(1),
+      pageSize: z.coerce.number().int().min(1).max(200).default(50),
+    });
+
     try {
-      const changeHistory = Array.from(Object.values(await storage).filter(
-        item => "changeTimestamp" in item
-      ));
-      res.json(changeHistory);
+      const { page, pageSize, ...filter } = historyQuerySchema.parse(req.query);
+      const { entries, total } = await storage.findChangeHistory(filter, pageSize, (page - 1) * pageSize);
+      res.json({ entries, total, page, pageSize });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch change history" });
     }
   });
@@ -527,7 +1839,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/notifications/:id/read", async (req, res) => {
+  app.patch("/api/notifications/:id/read", requireOwnerOrAdmin(async (req) => {
+    const notification = await storage.getNotification(parseInt(req.params.id));
+    return notification?.staffId;
+  }), async (req, res) => {
     try {
       const notificationId = parseInt(req.params.id);
       const updatedNotification = await storage.markNotificationAsRead(notificationId);
@@ -542,6 +1857,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Calendar feed routes, for the signed-in staff member's own subscription
+  app.get("/api/calendar-feed", async (req, res) => {
+    try {
+      const staffMember = await getCurrentStaff(req);
+      if (!staffMember) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      
+      const feed = await storage.getCalendarFeedByStaffId(staffMember.id);
+      res.json({ token: feed?.token ?? null });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // Issues a new token, so links handed out with the old one stop working
+  app.post("/api/calendar-feed/token", async (req, res) => {
+    try {
+      const staffMember = await getCurrentStaff(req);
+      if (!staffMember) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      
+      const feed = await storage.saveCalendarFeedToken(staffMember.id, generateCalendarToken());
+      res.status(201).json({ token: feed.token });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to rotate calendar feed token" });
+    }
+  });
+
   // Create HTTP server
   const httpServer = createServer(app);
   return httpServer;
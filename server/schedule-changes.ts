@@ -0,0 +1,262 @@
+import type { Request } from "express";
+import type { ChangeAction, ChangeHistory, InsertSchedule, Schedule, ScheduleOperation } from "@shared/schema";
+import { storage } from "./storage";
+
+// Who made a change; both are null for changes the system makes on its own
+export interface ChangeActor {
+  userId: number | null;
+  staffId: number | null;
+}
+
+// Recorded with every schedule write made through this module
+export interface ScheduleChangeContext {
+  actor: ChangeActor;
+  reason: string;
+  // The operation the writes are grouped under for undo, started by the first recorded
+  // change; null for undo and redo, which replay an existing operation
+  operationId?: number | null;
+}
+
+export const SYSTEM_ACTOR: ChangeActor = { userId: null, staffId: null };
+
+export async function getChangeActor(req: Request): Promise<ChangeActor> {
+  if (!req.isAuthenticated()) return SYSTEM_ACTOR;
+  const staffMember = await storage.getStaffByUserId(req.user.id);
+  return { userId: req.user.id, staffId: staffMember?.id ?? null };
+}
+
+// The signed-in user plus the reason given in the body or query, or the default
+export async function getChangeContext(req: Request, defaultReason: string): Promise<ScheduleChangeContext> {
+  const given = req.body?.reason ?? req.query.reason;
+  const reason = typeof given === "string" && given.trim() ? given.trim().slice(0, 500) : defaultReason;
+  return { actor: await getChangeActor(req), reason };
+}
+
+const RECORDED_FIELDS = ["staffId", "date", "shiftTypeId", "dutyTypeId", "unit", "locked"] as const;
+
+function isSameAssignment(a: Schedule | null, b: Schedule | null): boolean {
+  if (!a || !b) return a === b;
+  return RECORDED_FIELDS.every(field => a[field] === b[field]);
+}
+
+async function recordChange(
+  action: ChangeAction,
+  before: Schedule | null,
+  after: Schedule | null,
+  context: ScheduleChangeContext
+) {
+  const { actor, reason } = context;
+  const row = after ?? before;
+  if (!row) return;
+  // Rewriting a row with the values it already has isn't a change
+  if (before && after && isSameAssignment(before, after)) return;
+
+  if (context.operationId === undefined) {
+    const operation = await storage.createScheduleOperation({ label: reason, userId: actor.userId });
+    context.operationId = operation.id;
+  }
+
+  await storage.createChangeHistory({
+    scheduleId: row.id,
+    staffId: row.staffId,
+    date: row.date,
+    action,
+    oldShiftTypeId: before?.shiftTypeId ?? null,
+    newShiftTypeId: after?.shiftTypeId ?? null,
+    before,
+    after,
+    reason,
+    changedByUserId: actor.userId,
+    changedByStaffId: actor.staffId,
+    operationId: context.operationId,
+  });
+}
+
+// The write methods below mirror storage, recording each row they change
+
+export async function createSchedule(data: InsertSchedule, context: ScheduleChangeContext): Promise<Schedule> {
+  const schedule = await storage.createSchedule(data);
+  await recordChange("create", null, schedule, context);
+  return schedule;
+}
+
+export async function updateSchedule(
+  id: number,
+  data: Partial<InsertSchedule>,
+  context: ScheduleChangeContext
+): Promise<Schedule | undefined> {
+  const before = await storage.getSchedule(id);
+  if (!before) return undefined;
+
+  const schedule = await storage.updateSchedule(id, data);
+  if (schedule) {
+    await recordChange("update", before, schedule, context);
+  }
+  return schedule;
+}
+
+export async function deleteSchedule(id: number, context: ScheduleChangeContext): Promise<boolean> {
+  const before = await storage.getSchedule(id);
+  if (!before) return false;
+
+  const deleted = await storage.deleteSchedule(id);
+  if (deleted) {
+    await recordChange("delete", before, null, context);
+  }
+  return deleted;
+}
+
+// The rows an upsert of the schedules could overwrite, to record what they were before
+async function getOverwritable(data: InsertSchedule[]): Promise<Schedule[]> {
+  if (data.length === 0) return [];
+
+  const dates = data.map(s => s.date).sort();
+  const existing = await storage.getSchedulesByDateRange(dates[0], dates[dates.length - 1]);
+  return existing.map(({ staff: _staff, shiftType: _shiftType, dutyType: _dutyType, ...row }) => row);
+}
+
+async function recordUpserts(saved: Schedule[], existing: Schedule[], context: ScheduleChangeContext) {
+  for (const schedule of saved) {
+    const before = existing.find(s => s.id === schedule.id);
+    if (before) {
+      await recordChange("update", before, schedule, context);
+    } else {
+      await recordChange("create", null, schedule, context);
+    }
+  }
+}
+
+// Locked rows are skipped by storage and so leave no record
+export async function upsertSchedules(data: InsertSchedule[], context: ScheduleChangeContext): Promise<Schedule[]> {
+  if (data.length === 0) return [];
+
+  const existing = await getOverwritable(data);
+  const saved = await storage.upsertSchedules(data);
+  await recordUpserts(saved, existing, context);
+  return saved;
+}
+
+// Delete some rows and upsert others in a single storage write, so a failure part-way
+// leaves neither half applied
+export async function replaceSchedules(
+  removedIds: number[],
+  data: InsertSchedule[],
+  context: ScheduleChangeContext
+): Promise<{ removed: Schedule[]; saved: Schedule[] }> {
+  const existing = await getOverwritable(data);
+  const { removed, saved } = await storage.replaceSchedules(removedIds, data);
+
+  for (const schedule of removed) {
+    await recordChange("delete", schedule, null, context);
+  }
+  await recordUpserts(saved, existing, context);
+  return { removed, saved };
+}
+
+export async function deleteSchedulesByDateRange(
+  startDate: string,
+  endDate: string,
+  context: ScheduleChangeContext
+): Promise<Schedule[]> {
+  const deleted = await storage.deleteSchedulesByDateRange(startDate, endDate);
+  for (const schedule of deleted) {
+    await recordChange("delete", schedule, null, context);
+  }
+  return deleted;
+}
+
+// The operations the user's undo and redo controls act on. Redo is only offered until the
+// user makes a new change.
+export async function getOperationStack(
+  userId: number
+): Promise<{ undo: ScheduleOperation | null; redo: ScheduleOperation | null }> {
+  const [undo, redo] = await Promise.all([
+    storage.getLatestScheduleOperation(userId, "applied"),
+    storage.getLatestScheduleOperation(userId, "undone"),
+  ]);
+  return {
+    undo: undo ?? null,
+    redo: redo && (!undo || redo.id > undo.id) ? redo : null,
+  };
+}
+
+// One staff member's assignment on one date as an operation left it
+interface OperationCell {
+  staffId: number;
+  date: string;
+  before: Schedule | null;
+  after: Schedule | null;
+}
+
+function getOperationCells(entries: ChangeHistory[]): OperationCell[] {
+  const cells = new Map<string, OperationCell>();
+  for (const entry of entries) {
+    const key = `${entry.staffId}|${entry.date}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.after = entry.after;
+    } else {
+      cells.set(key, { staffId: entry.staffId, date: entry.date, before: entry.before, after: entry.after });
+    }
+  }
+  return Array.from(cells.values());
+}
+
+function toInsertSchedule({ staffId, date, shiftTypeId, dutyTypeId, unit, locked }: Schedule): InsertSchedule {
+  return { staffId, date, shiftTypeId, dutyTypeId, unit, locked };
+}
+
+export interface OperationReplayResult {
+  operation: ScheduleOperation;
+  // Assignments changed by something else since; nothing is written while there are any
+  conflicts: { staffId: number; date: string }[];
+  replayed: boolean;
+}
+
+// Put every assignment the operation touched back to how it was before (undo) or after
+// (redo). Refused when any of them has changed since, so later edits aren't overwritten.
+async function replayOperation(
+  operation: ScheduleOperation,
+  direction: "undo" | "redo",
+  actor: ChangeActor
+): Promise<OperationReplayResult> {
+  const cells = getOperationCells(await storage.getChangeHistoryByOperationId(operation.id));
+  const current = await Promise.all(
+    cells.map(cell => storage.getScheduleByStaffAndDate(cell.staffId, cell.date))
+  );
+
+  const conflicts = cells
+    .filter((cell, i) => !isSameAssignment(current[i] ?? null, direction === "undo" ? cell.after : cell.before))
+    .map(({ staffId, date }) => ({ staffId, date }));
+  if (conflicts.length > 0) {
+    return { operation, conflicts, replayed: false };
+  }
+
+  const context: ScheduleChangeContext = {
+    actor,
+    reason: `${direction === "undo" ? "Undid" : "Redid"}: ${operation.label}`,
+    operationId: null,
+  };
+  for (let i = 0; i < cells.length; i++) {
+    const existing = current[i];
+    const target = direction === "undo" ? cells[i].before : cells[i].after;
+    if (existing && target) {
+      await updateSchedule(existing.id, toInsertSchedule(target), context);
+    } else if (existing) {
+      await deleteSchedule(existing.id, context);
+    } else if (target) {
+      await createSchedule(toInsertSchedule(target), context);
+    }
+  }
+
+  const replayed = await storage.setScheduleOperationStatus(operation.id, direction === "undo" ? "undone" : "applied");
+  return { operation: replayed ?? operation, conflicts: [], replayed: true };
+}
+
+export function undoOperation(operation: ScheduleOperation, actor: ChangeActor): Promise<OperationReplayResult> {
+  return replayOperation(operation, "undo", actor);
+}
+
+export function redoOperation(operation: ScheduleOperation, actor: ChangeActor): Promise<OperationReplayResult> {
+  return replayOperation(operation, "redo", actor);
+}
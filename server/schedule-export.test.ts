@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { DutyType, ScheduleWithDetails, ShiftType, StaffWithUser } from "@shared/schema";
+import { Roster, buildAssignmentTable, buildRosterMatrix, toCsv } from "./schedule-export";
+
+function staffMember(id: number, firstName: string, lastName: string): StaffWithUser {
+  return {
+    id,
+    userId: id,
+    role: "Nurse",
+    specialization: null,
+    qualifications: [],
+    contactInfo: null,
+    isActive: true,
+    preferredShiftTypeIds: [],
+    avoidedShiftTypeIds: [],
+    preferredDaysOff: [],
+    maxNightsPerMonth: null,
+    user: { id, username: `nurse${id}`, password: "", firstName, lastName, role: "staff", isActive: true },
+  };
+}
+
+const dayShift: ShiftType = { id: 1, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false };
+const duty: DutyType = { id: 2, name: "Duty", category: "duty", countsAsWorked: true };
+const postDuty: DutyType = { id: 3, name: "Post-Duty", category: "post_duty", countsAsWorked: false };
+
+const alice = staffMember(1, "Alice", "Smith");
+const bob = staffMember(2, "Bob", "Jones");
+
+function assignment(id: number, member: StaffWithUser, date: string, shiftType: ShiftType | null, dutyType: DutyType): ScheduleWithDetails {
+  return {
+    id, staffId: member.id, date, shiftTypeId: shiftType?.id ?? null, dutyTypeId: dutyType.id, unit: "ICU", locked: false,
+    staff: member, shiftType, dutyType,
+  };
+}
+
+// 2025-03-03 is a Monday
+const roster: Roster = {
+  startDate: "2025-03-03",
+  endDate: "2025-03-05",
+  view: "published",
+  dates: ["2025-03-03", "2025-03-04", "2025-03-05"],
+  staff: [alice, bob],
+  schedules: [
+    assignment(1, alice, "2025-03-03", dayShift, duty),
+    assignment(2, alice, "2025-03-04", null, postDuty),
+  ],
+};
+
+describe("buildRosterMatrix", () => {
+  it("gives each staff member a row with a cell per date", () => {
+    expect(buildRosterMatrix(roster)).toEqual({
+      headers: ["Staff", "Role", "Mon 2025-03-03", "Tue 2025-03-04", "Wed 2025-03-05"],
+      rows: [
+        ["Alice Smith", "Nurse", "Day (Duty)", "Post-Duty", ""],
+        // Staff with nothing assigned still get a row
+        ["Bob Jones", "Nurse", "", "", ""],
+      ],
+    });
+  });
+});
+
+describe("buildAssignmentTable", () => {
+  it("lists one row per assignment", () => {
+    expect(buildAssignmentTable(roster).rows).toEqual([
+      ["2025-03-03", "Mon", "Alice Smith", "Nurse", "Day", "07:00", "19:00", "Duty", "ICU"],
+      ["2025-03-04", "Tue", "Alice Smith", "Nurse", "", "", "", "Post-Duty", "ICU"],
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("writes CRLF lines after a byte order mark", () => {
+    expect(toCsv({ headers: ["Staff", "Shifts"], rows: [["Alice Smith", 3]] })).toBe("\uFEFFStaff,Shifts\r\nAlice Smith,3\r\n");
+  });
+
+  it("quotes fields with commas, quotes or line breaks", () => {
+    const csv = toCsv({ headers: ["Name"], rows: [["Smith, Alice"], ['Alice "Al" Smith'], ["Line\nbreak"]] });
+
+    expect(csv.split("\r\n").slice(1, 4)).toEqual(['"Smith, Alice"', '"Alice ""Al"" Smith"', '"Line\nbreak"']);
+  });
+
+  it.each(["=HYPERLINK(\"http://example.com\")", "+1", "-1+1", "@SUM(A1)", "\tTab", "\rReturn"])(
+    "stops %j being read as a formula",
+    value => {
+      const [, field] = toCsv({ headers: ["Name"], rows: [[value]] }).replace("\uFEFF", "").split("\r\n");
+
+      expect(field.replace(/^"|"$/g, "").startsWith(`'${value.charAt(0)}`)).toBe(true);
+    }
+  );
+
+  it("leaves numbers and ordinary text alone", () => {
+    expect(toCsv({ headers: ["Hours"], rows: [[12.5], ["Night (Duty)"]] })).toBe("\uFEFFHours\r\n12.5\r\nNight (Duty)\r\n");
+  });
+});
@@ -0,0 +1,131 @@
+import ExcelJS from "exceljs";
+import { getDatesInRange, getWeekday } from "@shared/scheduling";
+import type { ScheduleWithDetails, StaffWithUser } from "@shared/schema";
+import { getPublishedSchedulesByDateRange } from "./schedule-publishing";
+import { storage } from "./storage";
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export const EXPORT_LAYOUTS = ["assignments", "matrix"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type ExportLayout = typeof EXPORT_LAYOUTS[number];
+
+export interface RosterRequest {
+  startDate: string;
+  endDate: string;
+  // Only include assignments in this unit
+  unit?: string;
+  view: "draft" | "published";
+}
+
+export interface Roster extends RosterRequest {
+  dates: string[];
+  // Staff with a row in the roster, by name
+  staff: StaffWithUser[];
+  schedules: ScheduleWithDetails[];
+}
+
+export type ExportCell = string | number;
+
+export interface ExportTable {
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function getStaffName(member: StaffWithUser): string {
+  return `${member.user.firstName} ${member.user.lastName}`;
+}
+
+// e.g. "Day Shift (Duty)" or "Post-Duty"
+export function describeAssignment(schedule: ScheduleWithDetails): string {
+  return schedule.shiftType
+    ? `${schedule.shiftType.name} (${schedule.dutyType.name})`
+    : schedule.dutyType.name;
+}
+
+// The assignments in a range and the staff to list them under. Without a unit filter every
+// active staff member gets a row, so the roster shows who is off as well as who works.
+export async function loadRoster(request: RosterRequest): Promise<Roster> {
+  const { startDate, endDate, unit, view } = request;
+  const [allSchedules, allStaff] = await Promise.all([
+    view === "draft"
+      ? storage.getSchedulesByDateRange(startDate, endDate)
+      : getPublishedSchedulesByDateRange(startDate, endDate),
+    storage.getAllStaff(),
+  ]);
+
+  const schedules = allSchedules
+    .filter(s => unit === undefined || s.unit === unit)
+    .sort((a, b) => a.date.localeCompare(b.date) || getStaffName(a.staff).localeCompare(getStaffName(b.staff)));
+  const assigned = new Set(schedules.map(s => s.staffId));
+  const staff = allStaff
+    .filter(s => assigned.has(s.id) || (unit === undefined && s.isActive))
+    .sort((a, b) => getStaffName(a).localeCompare(getStaffName(b)));
+
+  return { ...request, dates: getDatesInRange(startDate, endDate), staff, schedules };
+}
+
+// One row per assignment
+export function buildAssignmentTable(roster: Roster): ExportTable {
+  return {
+    headers: ["Date", "Day", "Staff", "Role", "Shift", "Start", "End", "Duty", "Unit"],
+    rows: roster.schedules.map(s => [
+      s.date,
+      WEEKDAY_NAMES[getWeekday(s.date)],
+      getStaffName(s.staff),
+      s.staff.role,
+      s.shiftType?.name ?? "",
+      s.shiftType?.startTime ?? "",
+      s.shiftType?.endTime ?? "",
+      s.dutyType.name,
+      s.unit ?? "",
+    ]),
+  };
+}
+
+// One row per staff member and one column per date
+export function buildRosterMatrix(roster: Roster): ExportTable {
+  const byCell = new Map(roster.schedules.map(s => [`${s.staffId}|${s.date}`, s]));
+  return {
+    headers: ["Staff", "Role", ...roster.dates.map(date => `${WEEKDAY_NAMES[getWeekday(date)]} ${date}`)],
+    rows: roster.staff.map(member => [
+      getStaffName(member),
+      member.role,
+      ...roster.dates.map(date => {
+        const schedule = byCell.get(`${member.id}|${date}`);
+        return schedule ? describeAssignment(schedule) : "";
+      }),
+    ]),
+  };
+}
+
+function toCsvField(cell: ExportCell): string {
+  let value = String(cell);
+  // Stop spreadsheet apps from running a name or reason as a formula
+  if (/^[=+\-@\t\r]/.test(value)) {
+    value = `'${value}`;
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 4180 CSV with a BOM so Excel reads it as UTF-8
+export function toCsv({ headers, rows }: ExportTable): string {
+  const lines = [headers, ...rows].map(row => row.map(toCsvField).join(","));
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+export async function toXlsx({ headers, rows }: ExportTable, sheetName: string): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName, { views: [{ state: "frozen", xSplit: 1, ySplit: 1 }] });
+
+  sheet.addRow(headers).font = { bold: true };
+  rows.forEach(row => sheet.addRow(row));
+  sheet.columns.forEach((column, i) => {
+    const longest = Math.max(...[headers, ...rows].map(row => String(row[i] ?? "").length));
+    column.width = Math.min(Math.max(longest + 2, 8), 40);
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
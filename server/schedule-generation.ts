@@ -0,0 +1,163 @@
+import {
+  DEFAULT_STRATEGY,
+  generateSchedule,
+  resolveLabourRules,
+  type OptimizationOptions,
+  type OptimizationReport,
+  type ScheduleConflict,
+  type ScheduleInput,
+  type StaffSatisfaction
+} from "@shared/scheduling";
+import type { Schedule } from "@shared/schema";
+import { storage } from "./storage";
+import { upsertSchedules, type ScheduleChangeContext } from "./schedule-changes";
+
+export interface ScheduleGenerationOptions {
+  // Persist even when the generator reports error-severity conflicts
+  allowConflicts: boolean;
+}
+
+export interface ScheduleGenerationRequest {
+  startDate: string;
+  endDate: string;
+  unit?: string;
+  strategy?: string;
+  // Search settings for optimizing strategies
+  optimization?: OptimizationOptions;
+  options: ScheduleGenerationOptions;
+  // Actor and reason recorded in the change history for the rows saved
+  change: ScheduleChangeContext;
+}
+
+export interface ScheduleGenerationResult {
+  strategy: string;
+  schedules: Schedule[];
+  conflicts: ScheduleConflict[];
+  optimization?: OptimizationReport;
+  satisfaction: StaffSatisfaction[];
+  persisted: boolean;
+}
+
+export interface StrategyComparison {
+  strategy: string;
+  assignments: number;
+  staffCovered: number;
+  errorCount: number;
+  warningCount: number;
+  conflicts: ScheduleConflict[];
+  optimization?: OptimizationReport;
+  // Mean preference satisfaction across staff, 0 to 100
+  averageSatisfaction: number;
+}
+
+// Date ranges currently being generated or published, so concurrent runs can't overwrite each other
+const activeRanges: { startDate: string; endDate: string }[] = [];
+
+function overlaps(a: { startDate: string; endDate: string }, b: { startDate: string; endDate: string }) {
+  return a.startDate <= b.endDate && b.startDate <= a.endDate;
+}
+
+// Claim a range before generating or publishing it. Returns the function that releases it,
+// or undefined when an overlapping range is already claimed. The check and the claim happen
+// together, so two requests can't both pass the check while one of them is awaiting.
+export function reserveScheduleRange(startDate: string, endDate: string): (() => void) | undefined {
+  const range = { startDate, endDate };
+  if (activeRanges.some(active => overlaps(active, range))) return undefined;
+
+  activeRanges.push(range);
+  return () => {
+    activeRanges.splice(activeRanges.indexOf(range), 1);
+  };
+}
+
+// Load the generator input for a range from current storage data
+async function loadScheduleInput(startDate: string, endDate: string, unit?: string): Promise<ScheduleInput> {
+  const [
+    staff,
+    shiftTypes,
+    dutyTypes,
+    availabilities,
+    existingSchedules,
+    labourRules,
+    coverageRequirements,
+    skillMixRules,
+    dutyCycles,
+    staffRotations,
+  ] = await Promise.all([
+    storage.getAllStaff(),
+    storage.getAllShiftTypes(),
+    storage.getAllDutyTypes(),
+    storage.getAvailabilitiesByDateRange(startDate, endDate),
+    storage.getSchedulesByDateRange(startDate, endDate),
+    storage.getAllLabourRules(),
+    storage.getAllCoverageRequirements(),
+    storage.getAllSkillMixRules(),
+    storage.getAllDutyCycles(),
+    storage.getAllStaffRotations(),
+  ]);
+
+  return {
+    staff,
+    shiftTypes,
+    dutyTypes,
+    availabilities,
+    startDate,
+    endDate,
+    unit,
+    existingSchedules,
+    rules: resolveLabourRules(labourRules, unit),
+    coverageRequirements,
+    skillMixRules,
+    dutyCycles,
+    staffRotations,
+  };
+}
+
+// Run the generator against current storage data and save the result in one step.
+// The caller must hold a reservation for the range (see reserveScheduleRange).
+export async function runScheduleGeneration({
+  startDate,
+  endDate,
+  unit,
+  strategy = DEFAULT_STRATEGY,
+  optimization,
+  options,
+  change,
+}: ScheduleGenerationRequest): Promise<ScheduleGenerationResult> {
+  const input = await loadScheduleInput(startDate, endDate, unit);
+  const { schedules, conflicts, optimization: report, satisfaction = [] } = generateSchedule({ ...input, optimization }, strategy);
+
+  const hasErrors = conflicts.some(c => c.severity === "error");
+  if (hasErrors && !options.allowConflicts) {
+    return { strategy, schedules: [], conflicts, optimization: report, satisfaction, persisted: false };
+  }
+
+  const savedSchedules = await upsertSchedules(schedules, change);
+  return { strategy, schedules: savedSchedules, conflicts, optimization: report, satisfaction, persisted: true };
+}
+
+// Dry-run several strategies on the same input and summarise each result
+export async function compareSchedulingStrategies(
+  startDate: string,
+  endDate: string,
+  strategies: string[],
+  unit?: string
+): Promise<StrategyComparison[]> {
+  const input = await loadScheduleInput(startDate, endDate, unit);
+
+  return strategies.map(strategy => {
+    const { schedules, conflicts, optimization, satisfaction = [] } = generateSchedule(input, strategy);
+    return {
+      strategy,
+      assignments: schedules.filter(s => s.shiftTypeId).length,
+      staffCovered: new Set(schedules.map(s => s.staffId)).size,
+      errorCount: conflicts.filter(c => c.severity === "error").length,
+      warningCount: conflicts.filter(c => c.severity === "warning").length,
+      conflicts,
+      optimization,
+      averageSatisfaction: satisfaction.length
+        ? Math.round(satisfaction.reduce((sum, s) => sum + s.score, 0) / satisfaction.length)
+        : 100,
+    };
+  });
+}
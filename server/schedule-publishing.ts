@@ -0,0 +1,174 @@
+import {
+  addDays,
+  detectScheduleConflicts,
+  resolveLabourRules,
+  type ScheduleConflict
+} from "@shared/scheduling";
+import type { Schedule, ScheduleWithDetails, SchedulePeriod, ScheduleVersion } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface PublishOptions {
+  // Publish even when the review finds error-severity conflicts
+  allowConflicts: boolean;
+  publishedByUserId: number | null;
+}
+
+export interface SchedulePeriodReview {
+  period: SchedulePeriod;
+  // Draft rows that would be published
+  schedules: Schedule[];
+  conflicts: ScheduleConflict[];
+}
+
+export interface PublishResult {
+  period: SchedulePeriod;
+  version?: ScheduleVersion;
+  conflicts: ScheduleConflict[];
+  published: boolean;
+}
+
+type DateRange = { startDate: string; endDate: string };
+
+// A point to compare schedules at: the live draft, what staff currently see, or a stored version
+export type ScheduleSnapshotRef = "draft" | "published" | number;
+
+function overlaps(a: DateRange, b: DateRange) {
+  return a.startDate <= b.endDate && b.startDate <= a.endDate;
+}
+
+// Drop the joined details so rows match what a version stores
+function toScheduleRow({ staff: _staff, shiftType: _shiftType, dutyType: _dutyType, ...row }: ScheduleWithDetails): Schedule {
+  return row;
+}
+
+// Periods can't overlap, so every date has at most one published version
+export function findOverlappingPeriod(
+  periods: SchedulePeriod[],
+  range: DateRange,
+  excludeId?: number
+): SchedulePeriod | undefined {
+  return periods.find(p => p.id !== excludeId && overlaps(p, range));
+}
+
+// Check every draft row in the period against the same rules the editor applies
+export async function reviewSchedulePeriod(period: SchedulePeriod): Promise<SchedulePeriodReview> {
+  // Rows just outside the period count toward rest, fortnight and consecutive-day limits
+  const [
+    staff,
+    shiftTypes,
+    dutyTypes,
+    availabilities,
+    surroundingSchedules,
+    labourRules,
+    skillMixRules,
+    rotationTemplates,
+    staffRotations,
+  ] = await Promise.all([
+    storage.getAllStaff(),
+    storage.getAllShiftTypes(),
+    storage.getAllDutyTypes(),
+    storage.getAvailabilitiesByDateRange(period.startDate, period.endDate),
+    storage.getSchedulesByDateRange(addDays(period.startDate, -13), addDays(period.endDate, 1)),
+    storage.getAllLabourRules(),
+    storage.getAllSkillMixRules(),
+    storage.getAllRotationTemplates(),
+    storage.getAllStaffRotations(),
+  ]);
+
+  const schedules = surroundingSchedules.filter(s => s.date >= period.startDate && s.date <= period.endDate);
+  const seen = new Set<string>();
+  const conflicts: ScheduleConflict[] = [];
+
+  for (const schedule of schedules) {
+    const found = detectScheduleConflicts(
+      schedule,
+      surroundingSchedules,
+      staff,
+      availabilities,
+      shiftTypes,
+      resolveLabourRules(labourRules, schedule.unit),
+      skillMixRules,
+      dutyTypes,
+      rotationTemplates,
+      staffRotations
+    );
+
+    // Shift-wide checks such as skill mix come back once per row on the shift
+    for (const conflict of found) {
+      const key = `${conflict.type}|${conflict.staffId}|${conflict.date}|${conflict.message}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      conflicts.push(conflict);
+    }
+  }
+
+  return {
+    period,
+    schedules: schedules.map(toScheduleRow),
+    conflicts,
+  };
+}
+
+// Review the draft and, unless it has blocking conflicts, store it as the period's next version
+export async function publishSchedulePeriod(
+  period: SchedulePeriod,
+  { allowConflicts, publishedByUserId }: PublishOptions
+): Promise<PublishResult> {
+  const { conflicts } = await reviewSchedulePeriod(period);
+
+  const hasErrors = conflicts.some(c => c.severity === "error");
+  if (hasErrors && !allowConflicts) {
+    return { period, conflicts, published: false };
+  }
+
+  const result = await storage.publishSchedulePeriod(period.id, publishedByUserId);
+  if (!result) {
+    throw new Error(`Schedule period ${period.id} no longer exists`);
+  }
+  return { ...result, conflicts, published: true };
+}
+
+// Rows of the latest published version of every period, optionally clipped to a range
+export async function getPublishedScheduleRows(range?: DateRange): Promise<Schedule[]> {
+  const periods = (await storage.getAllSchedulePeriods())
+    .filter(p => p.status !== "draft" && (!range || overlaps(p, range)));
+  const versions = await Promise.all(periods.map(p => storage.getScheduleVersionsByPeriodId(p.id)));
+
+  return versions
+    .flatMap(([latest]) => latest?.rows ?? [])
+    .filter(row => !range || (row.date >= range.startDate && row.date <= range.endDate))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+}
+
+// The published counterpart of storage.getSchedulesByDateRange, for staff views
+export async function getPublishedSchedulesByDateRange(startDate: string, endDate: string): Promise<ScheduleWithDetails[]> {
+  const [rows, staff, shiftTypes, dutyTypes] = await Promise.all([
+    getPublishedScheduleRows({ startDate, endDate }),
+    storage.getAllStaff(),
+    storage.getAllShiftTypes(),
+    storage.getAllDutyTypes(),
+  ]);
+
+  return rows.flatMap(row => {
+    const staffWithUser = staff.find(s => s.id === row.staffId);
+    const dutyType = dutyTypes.find(dt => dt.id === row.dutyTypeId);
+    if (!staffWithUser || !dutyType) return [];
+
+    const shiftType = shiftTypes.find(st => st.id === row.shiftTypeId) ?? null;
+    return [{ ...row, staff: staffWithUser, shiftType, dutyType }];
+  });
+}
+
+// Rows of a snapshot within a range; undefined when the version doesn't exist
+export async function loadScheduleSnapshot(ref: ScheduleSnapshotRef, { startDate, endDate }: DateRange): Promise<Schedule[] | undefined> {
+  if (ref === "draft") {
+    const schedules = await storage.getSchedulesByDateRange(startDate, endDate);
+    return schedules.map(toScheduleRow);
+  }
+  if (ref === "published") {
+    return getPublishedScheduleRows({ startDate, endDate });
+  }
+
+  const version = await storage.getScheduleVersion(ref);
+  return version?.rows.filter(row => row.date >= startDate && row.date <= endDate);
+}
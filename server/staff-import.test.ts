@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { parseCsv, previewStaffImport } from "./staff-import";
+import { storage } from "./storage";
+
+describe("parseCsv", () => {
+  it("splits records on any line ending and drops blank lines", () => {
+    expect(parseCsv("a,b\r\n1,2\n\n3,4\r5,6\r\n")).toEqual([["a", "b"], ["1", "2"], ["3", "4"], ["5", "6"]]);
+  });
+
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    expect(parseCsv('name,notes\n"Smith, Alice","Says ""hi""\r\nand bye"')).toEqual([
+      ["name", "notes"],
+      ["Smith, Alice", 'Says "hi"\r\nand bye'],
+    ]);
+  });
+
+  it("strips a byte order mark and keeps empty fields", () => {
+    expect(parseCsv("\uFEFFusername,,role\nalice,,")).toEqual([["username", "", "role"], ["alice", "", ""]]);
+  });
+});
+
+describe("previewStaffImport", () => {
+  beforeAll(async () => {
+    await storage.createUser({ username: "taken", password: "x", firstName: "Taken", lastName: "User", role: "staff", isActive: true });
+  });
+
+  it("guesses the mapping from common header names", async () => {
+    const preview = await previewStaffImport("Login,Given Name,Surname,Job Title,E-mail\nalice,Alice,Smith,Nurse,alice@example.com\n");
+
+    expect(preview.mapping).toEqual({
+      username: "Login", firstName: "Given Name", lastName: "Surname", staffRole: "Job Title", contactInfo: "E-mail",
+    });
+    expect(preview.rows).toEqual([{
+      rowNumber: 2,
+      values: { username: "alice", firstName: "Alice", lastName: "Smith", staffRole: "Nurse", specialization: "", contactInfo: "alice@example.com" },
+      errors: [],
+    }]);
+    expect(preview.invalidRows).toBe(0);
+  });
+
+  it("reports invalid values, taken usernames and repeats on their rows", async () => {
+    const preview = await previewStaffImport([
+      "username,first name,last name,role",
+      " alice , Alice , Smith ,Nurse",
+      "al,A,Smith,",
+      "taken,Tara,Jones,Nurse",
+      "alice,Alicia,Brown,Doctor",
+    ].join("\n"));
+
+    expect(preview.rows.map(row => [row.rowNumber, row.errors])).toEqual([
+      [2, []],
+      [3, ["Username must be at least 3 characters", "First name must be at least 2 characters", "Staff role is required"]],
+      [4, ["Username already exists"]],
+      [5, ["Username appears earlier in the file"]],
+    ]);
+    expect(preview.rows[0].values).toMatchObject({ username: "alice", firstName: "Alice", lastName: "Smith" });
+    expect(preview.invalidRows).toBe(3);
+  });
+
+  it("uses the mapping it is given and flags every row when a required column is missing", async () => {
+    const csv = "id,name,family,title\nalice,Alice,Smith,Nurse\n";
+
+    const mapped = await previewStaffImport(csv, { username: "id", firstName: "name", lastName: "family", staffRole: "title" });
+    expect(mapped.invalidRows).toBe(0);
+
+    const unmapped = await previewStaffImport(csv, { username: "id", firstName: "name", lastName: "surname" });
+    expect(unmapped.rows[0].errors).toEqual(["No column is mapped to Last name, Staff role"]);
+  });
+});
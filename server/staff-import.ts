@@ -0,0 +1,190 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import type { PublicStaffWithUser } from "@shared/schema";
+import { hashPassword } from "./auth";
+import { toPublicStaff } from "./dto";
+import { storage } from "./storage";
+
+export const STAFF_IMPORT_FIELDS = [
+  "username", "firstName", "lastName", "staffRole", "specialization", "contactInfo",
+] as const;
+
+export type StaffImportField = typeof STAFF_IMPORT_FIELDS[number];
+
+// The CSV header each field is read from; unmapped optional fields are left empty
+export type StaffImportMapping = Partial<Record<StaffImportField, string>>;
+
+export interface StaffImportRow {
+  // Record number in the file, counting the header as 1
+  rowNumber: number;
+  values: Record<StaffImportField, string>;
+  errors: string[];
+}
+
+export interface StaffImportPreview {
+  headers: string[];
+  mapping: StaffImportMapping;
+  rows: StaffImportRow[];
+  invalidRows: number;
+}
+
+export interface ImportedStaffAccount {
+  staff: PublicStaffWithUser;
+  // Shown once; only the hash is stored
+  temporaryPassword: string;
+}
+
+// Most rows a single import may create
+export const MAX_STAFF_IMPORT_ROWS = 500;
+
+// Request body size that leaves room for the most rows, contact info included
+export const STAFF_IMPORT_BODY_LIMIT = "1mb";
+
+const REQUIRED_FIELDS: StaffImportField[] = ["username", "firstName", "lastName", "staffRole"];
+
+const FIELD_LABELS: Record<StaffImportField, string> = {
+  username: "Username",
+  firstName: "First name",
+  lastName: "Last name",
+  staffRole: "Staff role",
+  specialization: "Specialization",
+  contactInfo: "Contact info",
+};
+
+// Headers recognised without a mapping, compared lower-case with spaces and punctuation removed
+const HEADER_ALIASES: Record<StaffImportField, string[]> = {
+  username: ["username", "user", "login", "userid"],
+  firstName: ["firstname", "givenname", "forename", "first"],
+  lastName: ["lastname", "surname", "familyname", "last"],
+  staffRole: ["staffrole", "role", "jobtitle", "position"],
+  specialization: ["specialization", "specialisation", "specialty", "speciality"],
+  contactInfo: ["contactinfo", "contact", "email", "phone", "contactnumber"],
+};
+
+// Same rules as the staff form
+const rowSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  firstName: z.string().min(2, "First name must be at least 2 characters"),
+  lastName: z.string().min(2, "Last name must be at least 2 characters"),
+  staffRole: z.string().min(1, "Staff role is required"),
+  specialization: z.string(),
+  contactInfo: z.string(),
+});
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Match fields to headers by name, for the first preview before anything is mapped
+export function guessMapping(headers: string[]): StaffImportMapping {
+  const mapping: StaffImportMapping = {};
+  for (const field of STAFF_IMPORT_FIELDS) {
+    const header = headers.find(h => HEADER_ALIASES[field].includes(normalizeHeader(h)));
+    if (header !== undefined) mapping[field] = header;
+  }
+  return mapping;
+}
+
+// Every row with the problems that would stop it being created, including usernames
+// already taken or repeated further up the file
+export async function previewStaffImport(csv: string, mapping?: StaffImportMapping): Promise<StaffImportPreview> {
+  const [headers = [], ...records] = parseCsv(csv);
+  const resolvedMapping = mapping ?? guessMapping(headers);
+  const missingColumns = REQUIRED_FIELDS.filter(field => {
+    const header = resolvedMapping[field];
+    return !header || !headers.includes(header);
+  });
+
+  const existingUsernames = new Set((await storage.getAllUsers()).map(user => user.username));
+  const seenUsernames = new Set<string>();
+
+  const rows = records.map((record, index): StaffImportRow => {
+    const values = Object.fromEntries(STAFF_IMPORT_FIELDS.map(field => {
+      const column = resolvedMapping[field] ? headers.indexOf(resolvedMapping[field]!) : -1;
+      return [field, column >= 0 ? (record[column] ?? "").trim() : ""];
+    })) as Record<StaffImportField, string>;
+
+    const errors = missingColumns.length
+      ? [`No column is mapped to ${missingColumns.map(field => FIELD_LABELS[field]).join(", ")}`]
+      : (rowSchema.safeParse(values).error?.errors.map(issue => issue.message) ?? []);
+    if (values.username && existingUsernames.has(values.username)) {
+      errors.push("Username already exists");
+    } else if (values.username && seenUsernames.has(values.username)) {
+      errors.push("Username appears earlier in the file");
+    }
+    seenUsernames.add(values.username);
+
+    return { rowNumber: index + 2, values, errors };
+  });
+
+  return {
+    headers,
+    mapping: resolvedMapping,
+    rows,
+    invalidRows: rows.filter(row => row.errors.length > 0).length,
+  };
+}
+
+// Creates a staff-level user and staff profile for every row, each with a generated password
+export async function importStaff(rows: StaffImportRow[]): Promise<ImportedStaffAccount[]> {
+  const temporaryPasswords = rows.map(() => randomBytes(9).toString("base64url"));
+  const accounts = await Promise.all(rows.map(async ({ values }, i) => ({
+    user: {
+      username: values.username,
+      password: await hashPassword(temporaryPasswords[i]),
+      firstName: values.firstName,
+      lastName: values.lastName,
+      role: "staff",
+      isActive: true,
+    },
+    staff: {
+      role: values.staffRole,
+      specialization: values.specialization || null,
+      contactInfo: values.contactInfo || null,
+      isActive: true,
+    },
+  })));
+
+  const created = await storage.createStaffAccounts(accounts);
+  return created.map((staff, i) => ({ staff: toPublicStaff(staff), temporaryPassword: temporaryPasswords[i] }));
+}
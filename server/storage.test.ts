@@ -0,0 +1,479 @@
+import { createRequire } from "module";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import type { InsertUser } from "@shared/schema";
+import { DatabaseStorage, MemStorage, UsernameTakenError, type IStorage } from "./storage";
+
+// drizzle-kit's API only loads as CommonJS
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+interface StorageHarness {
+  setUp(): Promise<void>;
+  // A fresh, unseeded storage
+  create(): Promise<IStorage>;
+  tearDown(): Promise<void>;
+}
+
+function memoryHarness(): StorageHarness {
+  return {
+    setUp: async () => {},
+    create: async () => new MemStorage(),
+    tearDown: async () => {},
+  };
+}
+
+// Postgres compiled to WebAssembly, with the schema created the way drizzle-kit push would
+function databaseHarness(): StorageHarness {
+  let client: PGlite;
+
+  return {
+    setUp: async () => {
+      client = new PGlite();
+      const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+      for (const statement of statements) await client.exec(statement);
+    },
+    create: async () => {
+      const { rows } = await client.query<{ tablename: string }>(
+        "SELECT tablename FROM pg_tables WHERE schemaname = 'public'",
+      );
+      await client.exec(`TRUNCATE ${rows.map(row => `"${row.tablename}"`).join(", ")} RESTART IDENTITY CASCADE`);
+      return new DatabaseStorage(drizzle(client, { schema }), new session.MemoryStore());
+    },
+    tearDown: async () => {
+      await client.close();
+    },
+  };
+}
+
+function newUser(username: string, overrides: Partial<InsertUser> = {}): InsertUser {
+  return { username, password: "hash", firstName: "Test", lastName: "User", role: "staff", ...overrides };
+}
+
+describe.each([
+  ["MemStorage", memoryHarness()],
+  ["DatabaseStorage", databaseHarness()],
+])("%s", (name, harness) => {
+  let storage: IStorage;
+
+  beforeAll(() => harness.setUp(), 30000);
+  afterAll(() => harness.tearDown());
+
+  beforeEach(async () => {
+    storage = await harness.create();
+    await storage.initialize();
+  });
+
+  async function createStaffMember(username: string, isActive = true) {
+    const user = await storage.createUser(newUser(username));
+    return storage.createStaff({ userId: user.id, role: "Nurse", isActive });
+  }
+
+  it("seeds the default lookup data once", async () => {
+    await storage.initialize();
+
+    const dutyTypes = await storage.getAllDutyTypes();
+    expect(dutyTypes.map(d => d.category)).toEqual(["pre_duty", "duty", "post_duty"]);
+    expect(await storage.getAllDutyCycles()).toEqual([
+      expect.objectContaining({ name: "Standard", steps: dutyTypes.map(d => d.id) }),
+    ]);
+    const shiftTypes = await storage.getAllShiftTypes();
+    expect(shiftTypes.map(s => s.name)).toEqual(["Day Shift", "Night Shift", "Post Shift"]);
+    expect(shiftTypes[1]).toMatchObject({ startTime: "19:00", endTime: "07:00", isOvernight: true });
+  });
+
+  it("creates, finds and updates users", async () => {
+    const user = await storage.createUser(newUser("alice"));
+
+    expect(user).toMatchObject({ username: "alice", isActive: true });
+    expect(await storage.getUser(user.id)).toEqual(user);
+    expect(await storage.getUserByUsername("alice")).toEqual(user);
+    expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+
+    expect(await storage.updateUser(user.id, { isActive: false })).toMatchObject({ id: user.id, isActive: false });
+    expect(await storage.getUser(user.id)).toMatchObject({ isActive: false });
+    expect(await storage.updateUser(user.id + 100, { isActive: false })).toBeUndefined();
+  });
+
+  it("lists only active staff, each with their user", async () => {
+    const active = await createStaffMember("alice");
+    const inactive = await createStaffMember("bob", false);
+
+    const all = await storage.getAllStaff();
+    expect(all.map(s => s.id)).toEqual([active.id]);
+    expect(all[0].user.username).toBe("alice");
+    expect(all[0]).toMatchObject({ qualifications: [], preferredDaysOff: [], specialization: null });
+    expect((await storage.getStaffWithUser(inactive.id))?.user.username).toBe("bob");
+    expect(await storage.getStaffByUserId(active.userId)).toEqual(active);
+  });
+
+  it("creates every staff account in a batch or none of them", async () => {
+    await storage.createUser(newUser("taken"));
+
+    const created = await storage.createStaffAccounts([
+      { user: newUser("carol"), staff: { role: "Nurse" } },
+      { user: newUser("dave"), staff: { role: "Doctor", specialization: "ICU" } },
+    ]);
+    expect(created.map(s => [s.user.username, s.role])).toEqual([["carol", "Nurse"], ["dave", "Doctor"]]);
+
+    await expect(storage.createStaffAccounts([
+      { user: newUser("erin"), staff: { role: "Nurse" } },
+      { user: newUser("taken"), staff: { role: "Nurse" } },
+    ])).rejects.toThrow(new UsernameTakenError("taken"));
+    expect(await storage.getUserByUsername("erin")).toBeUndefined();
+    expect((await storage.getAllStaff()).map(s => s.user.username)).toEqual(["carol", "dave"]);
+  });
+
+  it("upserts schedules by staff and date, leaving locked rows alone", async () => {
+    const member = await createStaffMember("alice");
+    const [dayShift, nightShift] = await storage.getAllShiftTypes();
+    const [, duty] = await storage.getAllDutyTypes();
+    const row = { staffId: member.id, dutyTypeId: duty.id };
+
+    const existing = await storage.createSchedule({ ...row, date: "2025-03-03", shiftTypeId: dayShift.id });
+    await storage.createSchedule({ ...row, date: "2025-03-04", shiftTypeId: dayShift.id, locked: true });
+
+    const written = await storage.upsertSchedules([
+      { ...row, date: "2025-03-03", shiftTypeId: nightShift.id },
+      { ...row, date: "2025-03-04", shiftTypeId: nightShift.id },
+      { ...row, date: "2025-03-05", shiftTypeId: nightShift.id },
+    ]);
+
+    expect(written.map(s => s.date)).toEqual(["2025-03-03", "2025-03-05"]);
+    expect(written[0]).toMatchObject({ id: existing.id, shiftTypeId: nightShift.id });
+    expect(await storage.getScheduleByStaffAndDate(member.id, "2025-03-04")).toMatchObject({
+      shiftTypeId: dayShift.id,
+      locked: true,
+    });
+  });
+
+  it("reads and deletes schedules by inclusive date range, keeping locked ones", async () => {
+    const member = await createStaffMember("alice");
+    const [dayShift] = await storage.getAllShiftTypes();
+    const [, duty] = await storage.getAllDutyTypes();
+    for (const date of ["2025-03-02", "2025-03-03", "2025-03-09", "2025-03-10"]) {
+      await storage.createSchedule({ staffId: member.id, date, shiftTypeId: dayShift.id, dutyTypeId: duty.id });
+    }
+    await storage.createSchedule({
+      staffId: member.id, date: "2025-03-05", shiftTypeId: dayShift.id, dutyTypeId: duty.id, locked: true,
+    });
+
+    const inRange = await storage.getSchedulesByDateRange("2025-03-03", "2025-03-09");
+    expect(inRange.map(s => s.date).sort()).toEqual(["2025-03-03", "2025-03-05", "2025-03-09"]);
+    expect(inRange[0]).toMatchObject({
+      staff: { id: member.id, user: { username: "alice" } },
+      shiftType: { id: dayShift.id },
+      dutyType: { id: duty.id },
+    });
+
+    const deleted = await storage.deleteSchedulesByDateRange("2025-03-03", "2025-03-09");
+    expect(deleted.map(s => s.date).sort()).toEqual(["2025-03-03", "2025-03-09"]);
+    expect((await storage.getSchedulesByStaffId(member.id)).map(s => s.date).sort()).toEqual([
+      "2025-03-02",
+      "2025-03-05",
+      "2025-03-10",
+    ]);
+  });
+
+  it("deletes and upserts schedules together, leaving locked rows alone", async () => {
+    const member = await createStaffMember("alice");
+    const [dayShift, nightShift] = await storage.getAllShiftTypes();
+    const [, duty] = await storage.getAllDutyTypes();
+    const row = { staffId: member.id, dutyTypeId: duty.id };
+    const dayOff = await storage.createSchedule({ ...row, date: "2025-03-03", shiftTypeId: dayShift.id });
+    const locked = await storage.createSchedule({ ...row, date: "2025-03-04", shiftTypeId: dayShift.id, locked: true });
+
+    const { removed, saved } = await storage.replaceSchedules([dayOff.id, locked.id], [
+      { ...row, date: "2025-03-04", shiftTypeId: nightShift.id },
+      { ...row, date: "2025-03-05", shiftTypeId: nightShift.id },
+    ]);
+
+    expect(removed.map(s => s.id)).toEqual([dayOff.id]);
+    expect(saved.map(s => s.date)).toEqual(["2025-03-05"]);
+    expect((await storage.getSchedulesByStaffId(member.id)).map(s => [s.date, s.shiftTypeId]).sort()).toEqual([
+      ["2025-03-04", dayShift.id],
+      ["2025-03-05", nightShift.id],
+    ]);
+  });
+
+  it.runIf(name === "DatabaseStorage")("deletes nothing when a schedule in the same write fails", async () => {
+    const member = await createStaffMember("alice");
+    const [dayShift] = await storage.getAllShiftTypes();
+    const [, duty] = await storage.getAllDutyTypes();
+    const dayOff = await storage.createSchedule({
+      staffId: member.id, date: "2025-03-03", shiftTypeId: dayShift.id, dutyTypeId: duty.id,
+    });
+
+    await expect(storage.replaceSchedules([dayOff.id], [
+      { staffId: member.id + 100, date: "2025-03-04", shiftTypeId: dayShift.id, dutyTypeId: duty.id },
+    ])).rejects.toThrow();
+    expect(await storage.getSchedule(dayOff.id)).toBeDefined();
+  });
+
+  it("finds availability by staff and date range", async () => {
+    const alice = await createStaffMember("alice");
+    const bob = await createStaffMember("bob");
+    await storage.createAvailability({ staffId: alice.id, date: "2025-03-03", isAvailable: false, reason: "Leave" });
+    await storage.createAvailability({ staffId: bob.id, date: "2025-03-12", isAvailable: false });
+
+    expect(await storage.getAvailabilitiesByStaffId(alice.id)).toEqual([
+      expect.objectContaining({ date: "2025-03-03", isAvailable: false, reason: "Leave" }),
+    ]);
+    expect((await storage.getAvailabilitiesByDateRange("2025-03-01", "2025-03-10")).map(a => a.staffId)).toEqual([
+      alice.id,
+    ]);
+  });
+
+  it("creates a batch of availability entries in order", async () => {
+    const member = await createStaffMember("alice");
+
+    const created = await storage.createAvailabilities([
+      { staffId: member.id, date: "2025-03-03", isAvailable: false, reason: "Leave" },
+      { staffId: member.id, date: "2025-03-04", isAvailable: false, reason: "Leave" },
+    ]);
+
+    expect(created.map(a => a.date)).toEqual(["2025-03-03", "2025-03-04"]);
+    expect(await storage.getAvailabilitiesByStaffId(member.id)).toHaveLength(2);
+    expect(await storage.createAvailabilities([])).toEqual([]);
+  });
+
+  // Memory storage has no constraints for an entry to break
+  it.runIf(name === "DatabaseStorage")("writes none of an availability batch when an entry fails", async () => {
+    const member = await createStaffMember("alice");
+
+    await expect(storage.createAvailabilities([
+      { staffId: member.id, date: "2025-03-03", isAvailable: false },
+      { staffId: member.id + 100, date: "2025-03-04", isAvailable: false },
+    ])).rejects.toThrow();
+    expect(await storage.getAvailabilitiesByStaffId(member.id)).toEqual([]);
+  });
+
+  it("keeps one calendar feed per staff member and replaces its token", async () => {
+    const member = await createStaffMember("alice");
+
+    const feed = await storage.saveCalendarFeedToken(member.id, "first");
+    const rotated = await storage.saveCalendarFeedToken(member.id, "second");
+
+    expect(rotated).toMatchObject({ id: feed.id, staffId: member.id, token: "second" });
+    expect(await storage.getCalendarFeedByToken("first")).toBeUndefined();
+    expect(await storage.getCalendarFeedByToken("second")).toMatchObject({ staffId: member.id });
+    expect(await storage.getCalendarFeedByStaffId(member.id)).toMatchObject({ token: "second" });
+  });
+
+  it("has no organization settings until they are first saved", async () => {
+    expect(await storage.getOrganizationSettings()).toBeUndefined();
+
+    const settings = { hospitalName: "General", address: "1 Main Street", contactNumber: "555-0100" };
+    await storage.saveOrganizationSettings(settings);
+    await storage.saveOrganizationSettings({ ...settings, hospitalName: "St. Mary's" });
+
+    expect(await storage.getOrganizationSettings()).toMatchObject({ hospitalName: "St. Mary's", address: "1 Main Street" });
+  });
+
+  it("filters and pages change history, newest first", async () => {
+    const alice = await createStaffMember("alice");
+    const bob = await createStaffMember("bob");
+    const admin = await storage.createUser(newUser("admin", { role: "admin" }));
+    const [dayShift] = await storage.getAllShiftTypes();
+    const entry = (staffId: number, date: string, reason: string, changedByUserId: number | null = null) =>
+      storage.createChangeHistory({ scheduleId: 1, staffId, date, action: "create", newShiftTypeId: dayShift.id, reason, changedByUserId });
+
+    const first = await entry(alice.id, "2025-03-03", "Generated");
+    const second = await entry(bob.id, "2025-03-04", "Swap request approved", admin.id);
+    const third = await entry(alice.id, "2025-03-10", "Manual 100% edit", admin.id);
+
+    const all = await storage.findChangeHistory({}, 2, 0);
+    expect(all.total).toBe(3);
+    expect(all.entries.map(e => e.id)).toEqual([third.id, second.id]);
+    expect((await storage.findChangeHistory({}, 2, 2)).entries.map(e => e.id)).toEqual([first.id]);
+
+    const ids = async (filter: Parameters<IStorage["findChangeHistory"]>[0]) =>
+      (await storage.findChangeHistory(filter, 10, 0)).entries.map(e => e.id);
+    expect(await ids({ staffId: alice.id })).toEqual([third.id, first.id]);
+    expect(await ids({ startDate: "2025-03-04", endDate: "2025-03-09" })).toEqual([second.id]);
+    expect(await ids({ changedByUserId: admin.id })).toEqual([third.id, second.id]);
+    expect(await ids({ reason: "SWAP" })).toEqual([second.id]);
+    // Wildcards in the search are matched literally
+    expect(await ids({ reason: "100%" })).toEqual([third.id]);
+    expect(await ids({ reason: "_" })).toEqual([]);
+  });
+
+  it("orders schedule operations for undo and redo", async () => {
+    const user = await storage.createUser(newUser("admin", { role: "admin" }));
+    const member = await createStaffMember("alice");
+    const first = await storage.createScheduleOperation({ label: "First", userId: user.id });
+    const second = await storage.createScheduleOperation({ label: "Second", userId: user.id });
+    for (const date of ["2025-03-04", "2025-03-03"]) {
+      await storage.createChangeHistory({ scheduleId: 1, staffId: member.id, date, action: "create", operationId: second.id });
+    }
+
+    expect(first).toMatchObject({ status: "applied", undoneAt: null });
+    expect((await storage.getChangeHistoryByOperationId(second.id)).map(e => e.date)).toEqual(["2025-03-04", "2025-03-03"]);
+    expect(await storage.getLatestScheduleOperation(user.id, "applied")).toMatchObject({ id: second.id });
+
+    await storage.setScheduleOperationStatus(second.id, "undone");
+    await storage.setScheduleOperationStatus(first.id, "undone");
+    expect(await storage.getLatestScheduleOperation(user.id, "applied")).toBeUndefined();
+    expect(await storage.getLatestScheduleOperation(user.id, "undone")).toMatchObject({ id: first.id });
+
+    const redone = await storage.setScheduleOperationStatus(first.id, "applied");
+    expect(redone).toMatchObject({ status: "applied", undoneAt: null });
+    expect(await storage.getLatestScheduleOperation(user.id, "undone")).toMatchObject({ id: second.id });
+  });
+
+  it("snapshots a period's rows into numbered versions when publishing", async () => {
+    const member = await createStaffMember("alice");
+    const publisher = await storage.createUser(newUser("admin", { role: "admin" }));
+    const [dayShift, nightShift] = await storage.getAllShiftTypes();
+    const [, duty] = await storage.getAllDutyTypes();
+    const row = { staffId: member.id, dutyTypeId: duty.id };
+    const later = await storage.createSchedule({ ...row, date: "2025-03-05", shiftTypeId: dayShift.id });
+    await storage.createSchedule({ ...row, date: "2025-03-03", shiftTypeId: dayShift.id });
+    await storage.createSchedule({ ...row, date: "2025-03-10", shiftTypeId: dayShift.id });
+    const period = await storage.createSchedulePeriod({ name: "Week 10", startDate: "2025-03-03", endDate: "2025-03-09" });
+
+    expect(period).toMatchObject({ status: "draft", publishedAt: null });
+    const first = await storage.publishSchedulePeriod(period.id, publisher.id);
+    expect(first?.period).toMatchObject({ status: "published", publishedAt: expect.any(Date) });
+    expect(first?.version).toMatchObject({ periodId: period.id, version: 1, publishedByUserId: publisher.id });
+    expect(first?.version.rows.map(r => r.date)).toEqual(["2025-03-03", "2025-03-05"]);
+
+    await storage.updateSchedule(later.id, { shiftTypeId: nightShift.id });
+    const second = await storage.publishSchedulePeriod(period.id, null);
+    expect(second?.version).toMatchObject({ version: 2, publishedByUserId: null });
+
+    const versions = await storage.getScheduleVersionsByPeriodId(period.id);
+    expect(versions.map(v => v.version)).toEqual([2, 1]);
+    // Earlier versions keep the rows as they were
+    expect(versions[1].rows.find(r => r.id === later.id)?.shiftTypeId).toBe(dayShift.id);
+    expect(await storage.getScheduleVersion(versions[0].id)).toEqual(versions[0]);
+    expect(await storage.publishSchedulePeriod(period.id + 100, null)).toBeUndefined();
+  });
+
+  it("lists pending swap requests with their details and each staff member's requests", async () => {
+    const alice = await createStaffMember("alice");
+    const bob = await createStaffMember("bob");
+    const carol = await createStaffMember("carol");
+    const [dayShift] = await storage.getAllShiftTypes();
+    const swap = (requestingStaffId: number, requestedStaffId: number, date: string) =>
+      storage.createSwapRequest({ requestingStaffId, requestedStaffId, date, shiftTypeId: dayShift.id });
+
+    const first = await swap(alice.id, bob.id, "2025-03-03");
+    const second = await swap(carol.id, alice.id, "2025-03-04");
+    const third = await swap(bob.id, carol.id, "2025-03-05");
+    expect(first).toMatchObject({ status: "pending" });
+
+    expect(await storage.updateSwapRequest(second.id, { status: "approved" })).toMatchObject({ status: "approved" });
+    expect(await storage.updateSwapRequest(second.id + 100, { status: "approved" })).toBeUndefined();
+
+    const pending = await storage.getPendingSwapRequests();
+    expect(pending.map(r => r.id)).toEqual([first.id, third.id]);
+    expect(pending[0]).toMatchObject({
+      requestingStaff: { id: alice.id, user: { username: "alice" } },
+      requestedStaff: { id: bob.id, user: { username: "bob" } },
+      shiftType: { id: dayShift.id },
+    });
+    expect((await storage.getSwapRequestsByStaffId(alice.id)).map(r => r.id)).toEqual([first.id, second.id]);
+  });
+
+  it("keeps one set of labour rules per unit", async () => {
+    const defaults = await storage.saveLabourRules(null, { maxShiftsPerWeek: 5 });
+    const icu = await storage.saveLabourRules("ICU", { minRestHours: 11 });
+    const updated = await storage.saveLabourRules(null, { maxConsecutiveShifts: 4 });
+
+    expect(updated).toMatchObject({ id: defaults.id, unit: null, maxShiftsPerWeek: 5, maxConsecutiveShifts: 4 });
+    expect(icu).toMatchObject({ unit: "ICU", minRestHours: 11, maxShiftsPerWeek: null });
+    expect(await storage.getAllLabourRules()).toHaveLength(2);
+
+    expect(await storage.deleteLabourRules("ICU")).toBe(true);
+    expect(await storage.deleteLabourRules("ICU")).toBe(false);
+    expect((await storage.getAllLabourRules()).map(r => r.unit)).toEqual([null]);
+  });
+
+  it("creates, updates and deletes coverage requirements and skill-mix rules", async () => {
+    const [dayShift, nightShift] = await storage.getAllShiftTypes();
+
+    const weekday = await storage.createCoverageRequirement({
+      shiftTypeId: dayShift.id, unit: null, role: "Nurse", weekday: 1, date: null, minStaff: 2, targetStaff: 3,
+    });
+    const override = await storage.createCoverageRequirement({
+      shiftTypeId: nightShift.id, unit: "ICU", role: null, weekday: null, date: "2025-12-25", minStaff: 1, targetStaff: 1,
+    });
+    expect(await storage.updateCoverageRequirement(weekday.id, { targetStaff: 4 })).toMatchObject({ minStaff: 2, targetStaff: 4 });
+    expect(await storage.getCoverageRequirement(override.id)).toEqual(override);
+    expect(await storage.deleteCoverageRequirement(override.id)).toBe(true);
+    expect(await storage.deleteCoverageRequirement(override.id)).toBe(false);
+    expect((await storage.getAllCoverageRequirements()).map(r => r.id)).toEqual([weekday.id]);
+
+    const chargeNurse = await storage.createSkillMixRule({
+      shiftTypeId: nightShift.id, unit: null, role: "Nurse", qualification: "Charge Nurse", minCount: 1,
+    });
+    const doctor = await storage.createSkillMixRule({
+      shiftTypeId: dayShift.id, unit: "ICU", role: "Doctor", qualification: null, minCount: 1,
+    });
+    expect(await storage.updateSkillMixRule(chargeNurse.id, { minCount: 2 })).toMatchObject({ qualification: "Charge Nurse", minCount: 2 });
+    expect(await storage.updateSkillMixRule(chargeNurse.id + 100, { minCount: 2 })).toBeUndefined();
+    expect(await storage.deleteSkillMixRule(doctor.id)).toBe(true);
+    expect(await storage.getSkillMixRule(doctor.id)).toBeUndefined();
+    expect((await storage.getAllSkillMixRules()).map(r => r.id)).toEqual([chargeNurse.id]);
+  });
+
+  it("stores rotation templates and staff rotations", async () => {
+    const member = await createStaffMember("alice");
+    const [dayShift, nightShift] = await storage.getAllShiftTypes();
+    const [, duty] = await storage.getAllDutyTypes();
+    const steps = [
+      { day: 0, shiftTypeId: dayShift.id, dutyTypeId: duty.id },
+      { day: 1, shiftTypeId: nightShift.id, dutyTypeId: duty.id },
+    ];
+
+    const template = await storage.createRotationTemplate({ name: "2 on 2 off", cycleLength: 4, steps });
+    expect(await storage.getRotationTemplate(template.id)).toMatchObject({ name: "2 on 2 off", steps });
+    expect(await storage.updateRotationTemplate(template.id, { cycleLength: 5 })).toMatchObject({ cycleLength: 5, steps });
+
+    const rotation = await storage.createStaffRotation({
+      staffId: member.id, templateId: template.id, startDate: "2025-03-03", endDate: null, startOffset: 1, unit: "ICU",
+    });
+    expect(rotation).toMatchObject({ startOffset: 1, endDate: null, unit: "ICU" });
+    expect(await storage.updateStaffRotation(rotation.id, { endDate: "2025-06-30" })).toMatchObject({
+      startDate: "2025-03-03",
+      endDate: "2025-06-30",
+    });
+    expect((await storage.getAllStaffRotations()).map(r => r.id)).toEqual([rotation.id]);
+
+    expect(await storage.deleteStaffRotation(rotation.id)).toBe(true);
+    expect(await storage.deleteRotationTemplate(template.id)).toBe(true);
+    expect(await storage.getAllRotationTemplates()).toEqual([]);
+    expect(await storage.getStaffRotation(rotation.id)).toBeUndefined();
+  });
+
+  it("lists holidays in date order and finds them by date", async () => {
+    const christmas = await storage.createHoliday({ date: "2025-12-25", name: "Christmas Day" });
+    const newYear = await storage.createHoliday({ date: "2025-01-01", name: "New Year's Day" });
+
+    expect((await storage.getAllHolidays()).map(h => h.id)).toEqual([newYear.id, christmas.id]);
+    expect(await storage.getHolidayByDate("2025-12-25")).toEqual(christmas);
+    expect(await storage.getHolidayByDate("2025-12-26")).toBeUndefined();
+
+    expect(await storage.deleteHoliday(christmas.id)).toBe(true);
+    expect(await storage.getHoliday(christmas.id)).toBeUndefined();
+    expect(await storage.deleteHoliday(christmas.id)).toBe(false);
+  });
+
+  it("lists notifications newest first, with system ones for every staff member", async () => {
+    const alice = await createStaffMember("alice");
+    const bob = await createStaffMember("bob");
+    const forAlice = await storage.createNotification({ type: "info", message: "For Alice", staffId: alice.id, isRead: false });
+    const forBob = await storage.createNotification({ type: "info", message: "For Bob", staffId: bob.id, isRead: false });
+    const system = await storage.createNotification({ type: "urgent", message: "For everyone", staffId: null, isRead: false });
+
+    expect((await storage.getNotificationsForStaff(alice.id)).map(n => n.id)).toEqual([system.id, forAlice.id]);
+    expect((await storage.getAllNotifications()).map(n => n.id)).toEqual([system.id, forBob.id, forAlice.id]);
+
+    expect(await storage.markNotificationAsRead(forAlice.id)).toMatchObject({ isRead: true });
+    expect(await storage.getNotification(forAlice.id)).toMatchObject({ isRead: true });
+    expect(await storage.markNotificationAsRead(system.id + 100)).toBeUndefined();
+  });
+});
@@ -1,24 +1,81 @@
 import { users, staff, shiftTypes, dutyTypes, schedules, 
-  availability, swapRequests, changeHistory, notifications,
+  availability, swapRequests, changeHistory, notifications, labourRules, coverageRequirements, skillMixRules, dutyCycles,
+  rotationTemplates, staffRotations, schedulePeriods, scheduleVersions, scheduleOperations, holidays, organizationSettings, calendarFeeds,
   type User, type InsertUser, type Staff, type InsertStaff,
   type ShiftType, type InsertShiftType, type DutyType, type InsertDutyType,
   type Schedule, type InsertSchedule, type Availability, type InsertAvailability,
   type SwapRequest, type InsertSwapRequest, type ChangeHistory, type InsertChangeHistory,
   type Notification, type InsertNotification, type StaffWithUser, 
-  type ScheduleWithDetails, type SwapRequestWithDetails } from "@shared/schema";
+  type ScheduleWithDetails, type SwapRequestWithDetails,
+  type LabourRules, type InsertLabourRules,
+  type CoverageRequirement, type InsertCoverageRequirement,
+  type SkillMixRule, type InsertSkillMixRule,
+  type DutyCycle, type InsertDutyCycle,
+  type RotationTemplate, type InsertRotationTemplate,
+  type StaffRotation, type InsertStaffRotation,
+  type SchedulePeriod, type InsertSchedulePeriod, type ScheduleVersion,
+  type ScheduleOperation, type InsertScheduleOperation, type ScheduleOperationStatus,
+  type Holiday, type InsertHoliday,
+  type OrganizationSettings, type InsertOrganizationSettings,
+  type CalendarFeed } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, count, desc, eq, gte, ilike, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { createDatabase, type Database } from "./db";
 
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Change history filters; dates match the date of the changed schedule
+export interface ChangeHistoryFilter {
+  scheduleId?: number;
+  staffId?: number;
+  startDate?: string;
+  endDate?: string;
+  changedByUserId?: number;
+  // Case-insensitive match anywhere in the reason
+  reason?: string;
+}
+
+export interface ChangeHistoryPage {
+  entries: ChangeHistory[];
+  // Matching records across all pages
+  total: number;
+}
+
+// A user account and the staff profile created with it
+export interface NewStaffAccount {
+  user: InsertUser;
+  staff: Omit<InsertStaff, "userId">;
+}
+
+// Thrown when a new account's username is already in use, or repeated within the batch
+export class UsernameTakenError extends Error {
+  constructor(public readonly username: string) {
+    super(`Username "${username}" already exists`);
+    this.name = "UsernameTakenError";
+  }
+}
+
+// Postgres reports a unique constraint violation with SQLSTATE 23505
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+}
 
 // Storage interface
 export interface IStorage {
   // Session store
   sessionStore: session.Store;
   
+  // Seeds the default duty types, duty cycle and shift types when there are none yet
+  initialize(): Promise<void>;
+  
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   
@@ -28,6 +85,8 @@ export interface IStorage {
   getStaffWithUser(id: number): Promise<StaffWithUser | undefined>;
   getAllStaff(): Promise<StaffWithUser[]>;
   createStaff(staff: InsertStaff): Promise<Staff>;
+  // Creates every account or none of them; throws UsernameTakenError when a username is taken
+  createStaffAccounts(accounts: NewStaffAccount[]): Promise<StaffWithUser[]>;
   updateStaff(id: number, staff: Partial<InsertStaff>): Promise<Staff | undefined>;
   
   // Shift type methods
@@ -50,13 +109,21 @@ export interface IStorage {
   updateSchedule(id: number, schedule: Partial<InsertSchedule>): Promise<Schedule | undefined>;
   deleteSchedule(id: number): Promise<boolean>;
   getScheduleByStaffAndDate(staffId: number, date: string): Promise<Schedule | undefined>;
-  deleteSchedulesByDateRange(startDate: string, endDate: string): Promise<number>;
+  // Returns the deleted rows; locked schedules in the range are kept
+  deleteSchedulesByDateRange(startDate: string, endDate: string): Promise<Schedule[]>;
+  // Locked rows are left as they are and not included in the result
+  upsertSchedules(schedules: InsertSchedule[]): Promise<Schedule[]>;
+  // Deletes the rows with the given ids and upserts the schedules as one write. Locked
+  // rows are neither deleted nor overwritten, and are missing from the result.
+  replaceSchedules(removedIds: number[], schedules: InsertSchedule[]): Promise<{ removed: Schedule[]; saved: Schedule[] }>;
   
   // Availability methods
   getAvailability(id: number): Promise<Availability | undefined>;
   getAvailabilitiesByStaffId(staffId: number): Promise<Availability[]>;
   getAvailabilitiesByDateRange(startDate: string, endDate: string): Promise<Availability[]>;
   createAvailability(availability: InsertAvailability): Promise<Availability>;
+  // Creates every entry or none of them
+  createAvailabilities(availabilities: InsertAvailability[]): Promise<Availability[]>;
   updateAvailability(id: number, availability: Partial<InsertAvailability>): Promise<Availability | undefined>;
   
   // Swap request methods
@@ -70,6 +137,18 @@ export interface IStorage {
   getChangeHistory(id: number): Promise<ChangeHistory | undefined>;
   getChangeHistoryByScheduleId(scheduleId: number): Promise<ChangeHistory[]>;
   createChangeHistory(changeHistory: InsertChangeHistory): Promise<ChangeHistory>;
+  // Newest first
+  findChangeHistory(filter: ChangeHistoryFilter, limit: number, offset: number): Promise<ChangeHistoryPage>;
+  // Oldest first, in the order the changes were made
+  getChangeHistoryByOperationId(operationId: number): Promise<ChangeHistory[]>;
+  
+  // Schedule operation methods
+  getScheduleOperation(id: number): Promise<ScheduleOperation | undefined>;
+  // The user's most recently applied (by creation) or most recently undone (by undo time) operation
+  getLatestScheduleOperation(userId: number, status: ScheduleOperationStatus): Promise<ScheduleOperation | undefined>;
+  createScheduleOperation(operation: InsertScheduleOperation): Promise<ScheduleOperation>;
+  // Sets undoneAt when undone and clears it when applied again
+  setScheduleOperationStatus(id: number, status: ScheduleOperationStatus): Promise<ScheduleOperation | undefined>;
   
   // Notification methods
   getNotification(id: number): Promise<Notification | undefined>;
@@ -77,6 +156,78 @@ export interface IStorage {
   getAllNotifications(): Promise<Notification[]>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationAsRead(id: number): Promise<Notification | undefined>;
+  
+  // Labour rule methods (a null unit is the organization default)
+  getAllLabourRules(): Promise<LabourRules[]>;
+  saveLabourRules(unit: string | null, rules: Partial<InsertLabourRules>): Promise<LabourRules>;
+  deleteLabourRules(unit: string): Promise<boolean>;
+  
+  // Coverage requirement methods
+  getCoverageRequirement(id: number): Promise<CoverageRequirement | undefined>;
+  getAllCoverageRequirements(): Promise<CoverageRequirement[]>;
+  createCoverageRequirement(requirement: InsertCoverageRequirement): Promise<CoverageRequirement>;
+  updateCoverageRequirement(id: number, requirement: Partial<InsertCoverageRequirement>): Promise<CoverageRequirement | undefined>;
+  deleteCoverageRequirement(id: number): Promise<boolean>;
+  
+  // Skill-mix rule methods
+  getSkillMixRule(id: number): Promise<SkillMixRule | undefined>;
+  getAllSkillMixRules(): Promise<SkillMixRule[]>;
+  createSkillMixRule(rule: InsertSkillMixRule): Promise<SkillMixRule>;
+  updateSkillMixRule(id: number, rule: Partial<InsertSkillMixRule>): Promise<SkillMixRule | undefined>;
+  deleteSkillMixRule(id: number): Promise<boolean>;
+  
+  // Duty cycle methods
+  getDutyCycle(id: number): Promise<DutyCycle | undefined>;
+  getAllDutyCycles(): Promise<DutyCycle[]>;
+  createDutyCycle(cycle: InsertDutyCycle): Promise<DutyCycle>;
+  updateDutyCycle(id: number, cycle: Partial<InsertDutyCycle>): Promise<DutyCycle | undefined>;
+  deleteDutyCycle(id: number): Promise<boolean>;
+  
+  // Rotation template methods
+  getRotationTemplate(id: number): Promise<RotationTemplate | undefined>;
+  getAllRotationTemplates(): Promise<RotationTemplate[]>;
+  createRotationTemplate(template: InsertRotationTemplate): Promise<RotationTemplate>;
+  updateRotationTemplate(id: number, template: Partial<InsertRotationTemplate>): Promise<RotationTemplate | undefined>;
+  deleteRotationTemplate(id: number): Promise<boolean>;
+  
+  // Staff rotation methods
+  getStaffRotation(id: number): Promise<StaffRotation | undefined>;
+  getAllStaffRotations(): Promise<StaffRotation[]>;
+  createStaffRotation(rotation: InsertStaffRotation): Promise<StaffRotation>;
+  updateStaffRotation(id: number, rotation: Partial<InsertStaffRotation>): Promise<StaffRotation | undefined>;
+  deleteStaffRotation(id: number): Promise<boolean>;
+  
+  // Schedule period methods
+  getSchedulePeriod(id: number): Promise<SchedulePeriod | undefined>;
+  getAllSchedulePeriods(): Promise<SchedulePeriod[]>;
+  createSchedulePeriod(period: InsertSchedulePeriod): Promise<SchedulePeriod>;
+  updateSchedulePeriod(id: number, period: Partial<InsertSchedulePeriod>): Promise<SchedulePeriod | undefined>;
+  deleteSchedulePeriod(id: number): Promise<boolean>;
+  // Snapshot the period's current rows as its next version and mark it published, all or nothing
+  publishSchedulePeriod(id: number, publishedByUserId: number | null): Promise<{ period: SchedulePeriod; version: ScheduleVersion } | undefined>;
+  
+  // Schedule version methods (versions are never changed once written)
+  getScheduleVersion(id: number): Promise<ScheduleVersion | undefined>;
+  // Newest first
+  getScheduleVersionsByPeriodId(periodId: number): Promise<ScheduleVersion[]>;
+  
+  // Holiday methods
+  getHoliday(id: number): Promise<Holiday | undefined>;
+  // In date order
+  getAllHolidays(): Promise<Holiday[]>;
+  getHolidayByDate(date: string): Promise<Holiday | undefined>;
+  createHoliday(holiday: InsertHoliday): Promise<Holiday>;
+  deleteHoliday(id: number): Promise<boolean>;
+  
+  // Organization settings methods (undefined until first saved)
+  getOrganizationSettings(): Promise<OrganizationSettings | undefined>;
+  saveOrganizationSettings(settings: InsertOrganizationSettings): Promise<OrganizationSettings>;
+  
+  // Calendar feed methods
+  getCalendarFeedByStaffId(staffId: number): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  // Creates the staff member's feed, or replaces its token
+  saveCalendarFeedToken(staffId: number, token: string): Promise<CalendarFeed>;
 }
 
 // In-memory storage implementation
@@ -90,6 +241,18 @@ export class MemStorage implements IStorage {
   private swapRequestsMap: Map<number, SwapRequest>;
   private changeHistoryMap: Map<number, ChangeHistory>;
   private notificationsMap: Map<number, Notification>;
+  private labourRulesMap: Map<number, LabourRules>;
+  private coverageRequirementsMap: Map<number, CoverageRequirement>;
+  private skillMixRulesMap: Map<number, SkillMixRule>;
+  private dutyCyclesMap: Map<number, DutyCycle>;
+  private rotationTemplatesMap: Map<number, RotationTemplate>;
+  private staffRotationsMap: Map<number, StaffRotation>;
+  private schedulePeriodsMap: Map<number, SchedulePeriod>;
+  private scheduleVersionsMap: Map<number, ScheduleVersion>;
+  private scheduleOperationsMap: Map<number, ScheduleOperation>;
+  private holidaysMap: Map<number, Holiday>;
+  private organizationSettingsRecord: OrganizationSettings | undefined;
+  private calendarFeedsMap: Map<number, CalendarFeed>;
   
   sessionStore: session.Store;
   
@@ -102,6 +265,17 @@ export class MemStorage implements IStorage {
   private swapRequestIdCounter: number;
   private changeHistoryIdCounter: number;
   private notificationIdCounter: number;
+  private labourRulesIdCounter: number;
+  private coverageRequirementIdCounter: number;
+  private skillMixRuleIdCounter: number;
+  private dutyCycleIdCounter: number;
+  private rotationTemplateIdCounter: number;
+  private staffRotationIdCounter: number;
+  private schedulePeriodIdCounter: number;
+  private scheduleVersionIdCounter: number;
+  private scheduleOperationIdCounter: number;
+  private holidayIdCounter: number;
+  private calendarFeedIdCounter: number;
   
   constructor() {
     this.usersMap = new Map();
@@ -113,6 +287,17 @@ export class MemStorage implements IStorage {
     this.swapRequestsMap = new Map();
     this.changeHistoryMap = new Map();
     this.notificationsMap = new Map();
+    this.labourRulesMap = new Map();
+    this.coverageRequirementsMap = new Map();
+    this.skillMixRulesMap = new Map();
+    this.dutyCyclesMap = new Map();
+    this.rotationTemplatesMap = new Map();
+    this.staffRotationsMap = new Map();
+    this.schedulePeriodsMap = new Map();
+    this.scheduleVersionsMap = new Map();
+    this.scheduleOperationsMap = new Map();
+    this.holidaysMap = new Map();
+    this.calendarFeedsMap = new Map();
     
     this.userIdCounter = 1;
     this.staffIdCounter = 1;
@@ -123,41 +308,58 @@ export class MemStorage implements IStorage {
     this.swapRequestIdCounter = 1;
     this.changeHistoryIdCounter = 1;
     this.notificationIdCounter = 1;
+    this.labourRulesIdCounter = 1;
+    this.coverageRequirementIdCounter = 1;
+    this.skillMixRuleIdCounter = 1;
+    this.dutyCycleIdCounter = 1;
+    this.rotationTemplateIdCounter = 1;
+    this.staffRotationIdCounter = 1;
+    this.schedulePeriodIdCounter = 1;
+    this.scheduleVersionIdCounter = 1;
+    this.scheduleOperationIdCounter = 1;
+    this.holidayIdCounter = 1;
+    this.calendarFeedIdCounter = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // prune expired entries every 24h
     });
-    
-    // Initialize with default data
-    this.initializeDefaultData();
   }
   
-  private async initializeDefaultData() {
+  async initialize() {
+    if (this.dutyTypesMap.size > 0) return;
+    
     // Create default duty types
-    const preDuty = await this.createDutyType({ name: "Pre-Duty" });
-    const duty = await this.createDutyType({ name: "Duty" });
-    const postDuty = await this.createDutyType({ name: "Post-Duty" });
+    const preDuty = await this.createDutyType({ name: "Pre-Duty", category: "pre_duty" });
+    const duty = await this.createDutyType({ name: "Duty", category: "duty" });
+    const postDuty = await this.createDutyType({ name: "Post-Duty", category: "post_duty" });
+    
+    // Create the default duty cycle
+    await this.createDutyCycle({ name: "Standard", steps: [preDuty.id, duty.id, postDuty.id] });
     
     // Create default shift types
     const dayShift = await this.createShiftType({ 
       name: "Day Shift", 
       startTime: "07:00", 
       endTime: "19:00", 
-      duration: 12 
+      duration: 12,
+      category: "day"
     });
     
     const nightShift = await this.createShiftType({ 
       name: "Night Shift", 
       startTime: "19:00", 
       endTime: "07:00", 
-      duration: 12 
+      duration: 12,
+      category: "night",
+      isOvernight: true
     });
 
     const postShift = await this.createShiftType({ 
       name: "Post Shift", 
       startTime: "07:00", 
       endTime: "12:00", 
-      duration: 5 
+      duration: 5,
+      category: "other"
     });
   }
   
@@ -170,6 +372,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.usersMap.values()).find(user => user.username === username);
   }
   
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.usersMap.values());
+  }
+  
   async createUser(userData: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const user: User = { ...userData, id, isActive: userData.isActive ?? true };
@@ -223,12 +429,35 @@ export class MemStorage implements IStorage {
       id, 
       isActive: staffData.isActive ?? true,
       specialization: staffData.specialization ?? null,
+      qualifications: staffData.qualifications ?? [],
       contactInfo: staffData.contactInfo ?? null,
+      preferredShiftTypeIds: staffData.preferredShiftTypeIds ?? [],
+      avoidedShiftTypeIds: staffData.avoidedShiftTypeIds ?? [],
+      preferredDaysOff: staffData.preferredDaysOff ?? [],
+      maxNightsPerMonth: staffData.maxNightsPerMonth ?? null,
     };
     this.staffMap.set(id, staff);
     return staff;
   }
   
+  async createStaffAccounts(accounts: NewStaffAccount[]): Promise<StaffWithUser[]> {
+    // Checked up front, as there's no transaction to roll back in memory
+    const usernames = accounts.map(account => account.user.username);
+    const existing = await Promise.all(usernames.map(username => this.getUserByUsername(username)));
+    const taken = usernames.find((username, i) => existing[i] || usernames.indexOf(username) !== i);
+    if (taken !== undefined) {
+      throw new UsernameTakenError(taken);
+    }
+    
+    const created: StaffWithUser[] = [];
+    for (const account of accounts) {
+      const user = await this.createUser(account.user);
+      const staff = await this.createStaff({ ...account.staff, userId: user.id });
+      created.push({ ...staff, user });
+    }
+    return created;
+  }
+  
   async updateStaff(id: number, staffData: Partial<InsertStaff>): Promise<Staff | undefined> {
     const existingStaff = this.staffMap.get(id);
     if (!existingStaff) return undefined;
@@ -249,7 +478,7 @@ export class MemStorage implements IStorage {
   
   async createShiftType(shiftTypeData: InsertShiftType): Promise<ShiftType> {
     const id = this.shiftTypeIdCounter++;
-    const shiftType: ShiftType = { ...shiftTypeData, id };
+    const shiftType: ShiftType = { ...shiftTypeData, id, isOvernight: shiftTypeData.isOvernight ?? false };
     this.shiftTypesMap.set(id, shiftType);
     return shiftType;
   }
@@ -274,7 +503,7 @@ export class MemStorage implements IStorage {
   
   async createDutyType(dutyTypeData: InsertDutyType): Promise<DutyType> {
     const id = this.dutyTypeIdCounter++;
-    const dutyType: DutyType = { ...dutyTypeData, id };
+    const dutyType: DutyType = { ...dutyTypeData, id, countsAsWorked: dutyTypeData.countsAsWorked ?? true };
     this.dutyTypesMap.set(id, dutyType);
     return dutyType;
   }
@@ -331,6 +560,7 @@ export class MemStorage implements IStorage {
       id, 
       shiftTypeId: scheduleData.shiftTypeId ?? null,
       unit: scheduleData.unit ?? null,
+      locked: scheduleData.locked ?? false,
     };
     this.schedulesMap.set(id, schedule);
     return schedule;
@@ -354,24 +584,45 @@ export class MemStorage implements IStorage {
       .find(schedule => schedule.staffId === staffId && schedule.date === date);
   }
   
-  // Add implementation for deleteSchedulesByDateRange
-  async deleteSchedulesByDateRange(startDate: string, endDate: string): Promise<number> {
-    let deletedCount = 0;
-    const idsToDelete: number[] = [];
+  async deleteSchedulesByDateRange(startDate: string, endDate: string): Promise<Schedule[]> {
+    const deleted = Array.from(this.schedulesMap.values())
+      .filter(schedule => schedule.date >= startDate && schedule.date <= endDate && !schedule.locked);
 
-    for (const [id, schedule] of Array.from(this.schedulesMap.entries())) {
-      if (schedule.date >= startDate && schedule.date <= endDate) {
-        idsToDelete.push(id);
-      }
+    for (const schedule of deleted) {
+      this.schedulesMap.delete(schedule.id);
     }
-
-    for (const id of idsToDelete) {
-      if (this.schedulesMap.delete(id)) {
-        deletedCount++;
-      }
+    
+    return deleted;
+  }
+  
+  async upsertSchedules(schedulesData: InsertSchedule[]): Promise<Schedule[]> {
+    const result: Schedule[] = [];
+    
+    for (const scheduleData of schedulesData) {
+      const existingSchedule = await this.getScheduleByStaffAndDate(scheduleData.staffId, scheduleData.date);
+      if (existingSchedule?.locked) continue;
+      
+      const schedule = existingSchedule
+        ? await this.updateSchedule(existingSchedule.id, scheduleData)
+        : await this.createSchedule(scheduleData);
+      if (schedule) result.push(schedule);
+    }
+    
+    return result;
+  }
+  
+  async replaceSchedules(
+    removedIds: number[],
+    schedulesData: InsertSchedule[]
+  ): Promise<{ removed: Schedule[]; saved: Schedule[] }> {
+    const removed = removedIds
+      .map(id => this.schedulesMap.get(id))
+      .filter((schedule): schedule is Schedule => schedule !== undefined && !schedule.locked);
+    for (const schedule of removed) {
+      this.schedulesMap.delete(schedule.id);
     }
     
-    return deletedCount;
+    return { removed, saved: await this.upsertSchedules(schedulesData) };
   }
   
   // Availability methods
@@ -401,6 +652,14 @@ export class MemStorage implements IStorage {
     return availability;
   }
   
+  async createAvailabilities(availabilitiesData: InsertAvailability[]): Promise<Availability[]> {
+    const created: Availability[] = [];
+    for (const availabilityData of availabilitiesData) {
+      created.push(await this.createAvailability(availabilityData));
+    }
+    return created;
+  }
+  
   async updateAvailability(id: number, availabilityData: Partial<InsertAvailability>): Promise<Availability | undefined> {
     const existingAvailability = this.availabilityMap.get(id);
     if (!existingAvailability) return undefined;
@@ -483,15 +742,80 @@ export class MemStorage implements IStorage {
     const changeHistory: ChangeHistory = { 
       ...changeHistoryData, 
       id, 
+      action: changeHistoryData.action ?? "update",
       reason: changeHistoryData.reason ?? null,
       oldShiftTypeId: changeHistoryData.oldShiftTypeId ?? null,
       newShiftTypeId: changeHistoryData.newShiftTypeId ?? null,
+      before: changeHistoryData.before ?? null,
+      after: changeHistoryData.after ?? null,
+      changedByUserId: changeHistoryData.changedByUserId ?? null,
+      changedByStaffId: changeHistoryData.changedByStaffId ?? null,
+      operationId: changeHistoryData.operationId ?? null,
       changeTimestamp: new Date() 
     };
     this.changeHistoryMap.set(id, changeHistory);
     return changeHistory;
   }
   
+  async findChangeHistory(filter: ChangeHistoryFilter, limit: number, offset: number): Promise<ChangeHistoryPage> {
+    const reason = filter.reason?.toLowerCase();
+    const matching = Array.from(this.changeHistoryMap.values())
+      .filter(history =>
+        (filter.scheduleId === undefined || history.scheduleId === filter.scheduleId) &&
+        (filter.staffId === undefined || history.staffId === filter.staffId) &&
+        (filter.startDate === undefined || history.date >= filter.startDate) &&
+        (filter.endDate === undefined || history.date <= filter.endDate) &&
+        (filter.changedByUserId === undefined || history.changedByUserId === filter.changedByUserId) &&
+        (reason === undefined || (history.reason ?? "").toLowerCase().includes(reason))
+      )
+      .sort((a, b) => b.changeTimestamp.getTime() - a.changeTimestamp.getTime() || b.id - a.id);
+    
+    return { entries: matching.slice(offset, offset + limit), total: matching.length };
+  }
+  
+  async getChangeHistoryByOperationId(operationId: number): Promise<ChangeHistory[]> {
+    return Array.from(this.changeHistoryMap.values())
+      .filter(history => history.operationId === operationId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Schedule operation methods
+  async getScheduleOperation(id: number): Promise<ScheduleOperation | undefined> {
+    return this.scheduleOperationsMap.get(id);
+  }
+  
+  async getLatestScheduleOperation(userId: number, status: ScheduleOperationStatus): Promise<ScheduleOperation | undefined> {
+    const matching = Array.from(this.scheduleOperationsMap.values())
+      .filter(operation => operation.userId === userId && operation.status === status);
+    if (status === "applied") return matching.sort((a, b) => b.id - a.id)[0];
+    // Status changes re-insert the operation, so the last one was undone most recently
+    return matching[matching.length - 1];
+  }
+  
+  async createScheduleOperation(operationData: InsertScheduleOperation): Promise<ScheduleOperation> {
+    const id = this.scheduleOperationIdCounter++;
+    const operation: ScheduleOperation = {
+      ...operationData,
+      id,
+      status: operationData.status ?? "applied",
+      userId: operationData.userId ?? null,
+      createdAt: new Date(),
+      undoneAt: null,
+    };
+    this.scheduleOperationsMap.set(id, operation);
+    return operation;
+  }
+  
+  async setScheduleOperationStatus(id: number, status: ScheduleOperationStatus): Promise<ScheduleOperation | undefined> {
+    const existingOperation = this.scheduleOperationsMap.get(id);
+    if (!existingOperation) return undefined;
+    
+    const updatedOperation = { ...existingOperation, status, undoneAt: status === "undone" ? new Date() : null };
+    this.scheduleOperationsMap.delete(id);
+    this.scheduleOperationsMap.set(id, updatedOperation);
+    return updatedOperation;
+  }
+  
   // Notification methods
   async getNotification(id: number): Promise<Notification | undefined> {
     return this.notificationsMap.get(id);
@@ -503,12 +827,12 @@ export class MemStorage implements IStorage {
         notification.staffId === staffId || 
         notification.staffId === null
       )
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
   }
   
   async getAllNotifications(): Promise<Notification[]> {
     return Array.from(this.notificationsMap.values())
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
   }
   
   async createNotification(notificationData: InsertNotification): Promise<Notification> {
@@ -532,6 +856,1136 @@ export class MemStorage implements IStorage {
     this.notificationsMap.set(id, updatedNotification);
     return updatedNotification;
   }
+  
+  // Labour rule methods
+  async getAllLabourRules(): Promise<LabourRules[]> {
+    return Array.from(this.labourRulesMap.values());
+  }
+  
+  async saveLabourRules(unit: string | null, rulesData: Partial<InsertLabourRules>): Promise<LabourRules> {
+    const existing = Array.from(this.labourRulesMap.values()).find(r => r.unit === unit);
+    const id = existing?.id ?? this.labourRulesIdCounter++;
+    const rules: LabourRules = {
+      id,
+      unit,
+      maxConsecutiveShifts: null,
+      maxShiftsPerWeek: null,
+      minRestHours: null,
+      maxHoursPerWeek: null,
+      maxNightShiftsPerPeriod: null,
+      nightShiftPeriodDays: null,
+      minDaysOffPerFortnight: null,
+      ...existing,
+      ...rulesData,
+      updatedAt: new Date(),
+    };
+    rules.unit = unit;
+    this.labourRulesMap.set(id, rules);
+    return rules;
+  }
+  
+  async deleteLabourRules(unit: string): Promise<boolean> {
+    const existing = Array.from(this.labourRulesMap.values()).find(r => r.unit === unit);
+    return existing ? this.labourRulesMap.delete(existing.id) : false;
+  }
+  
+  // Coverage requirement methods
+  async getCoverageRequirement(id: number): Promise<CoverageRequirement | undefined> {
+    return this.coverageRequirementsMap.get(id);
+  }
+  
+  async getAllCoverageRequirements(): Promise<CoverageRequirement[]> {
+    return Array.from(this.coverageRequirementsMap.values());
+  }
+  
+  async createCoverageRequirement(requirementData: InsertCoverageRequirement): Promise<CoverageRequirement> {
+    const id = this.coverageRequirementIdCounter++;
+    const requirement: CoverageRequirement = {
+      ...requirementData,
+      id,
+      unit: requirementData.unit ?? null,
+      role: requirementData.role ?? null,
+      weekday: requirementData.weekday ?? null,
+      date: requirementData.date ?? null,
+    };
+    this.coverageRequirementsMap.set(id, requirement);
+    return requirement;
+  }
+  
+  async updateCoverageRequirement(id: number, requirementData: Partial<InsertCoverageRequirement>): Promise<CoverageRequirement | undefined> {
+    const requirement = this.coverageRequirementsMap.get(id);
+    if (!requirement) return undefined;
+    
+    const updatedRequirement = { ...requirement, ...requirementData };
+    this.coverageRequirementsMap.set(id, updatedRequirement);
+    return updatedRequirement;
+  }
+  
+  async deleteCoverageRequirement(id: number): Promise<boolean> {
+    return this.coverageRequirementsMap.delete(id);
+  }
+  
+  // Skill-mix rule methods
+  async getSkillMixRule(id: number): Promise<SkillMixRule | undefined> {
+    return this.skillMixRulesMap.get(id);
+  }
+  
+  async getAllSkillMixRules(): Promise<SkillMixRule[]> {
+    return Array.from(this.skillMixRulesMap.values());
+  }
+  
+  async createSkillMixRule(ruleData: InsertSkillMixRule): Promise<SkillMixRule> {
+    const id = this.skillMixRuleIdCounter++;
+    const rule: SkillMixRule = {
+      ...ruleData,
+      id,
+      unit: ruleData.unit ?? null,
+      role: ruleData.role ?? null,
+      qualification: ruleData.qualification ?? null,
+    };
+    this.skillMixRulesMap.set(id, rule);
+    return rule;
+  }
+  
+  async updateSkillMixRule(id: number, ruleData: Partial<InsertSkillMixRule>): Promise<SkillMixRule | undefined> {
+    const rule = this.skillMixRulesMap.get(id);
+    if (!rule) return undefined;
+    
+    const updatedRule = { ...rule, ...ruleData };
+    this.skillMixRulesMap.set(id, updatedRule);
+    return updatedRule;
+  }
+  
+  async deleteSkillMixRule(id: number): Promise<boolean> {
+    return this.skillMixRulesMap.delete(id);
+  }
+  
+  // Duty cycle methods
+  async getDutyCycle(id: number): Promise<DutyCycle | undefined> {
+    return this.dutyCyclesMap.get(id);
+  }
+  
+  async getAllDutyCycles(): Promise<DutyCycle[]> {
+    return Array.from(this.dutyCyclesMap.values());
+  }
+  
+  async createDutyCycle(cycleData: InsertDutyCycle): Promise<DutyCycle> {
+    const id = this.dutyCycleIdCounter++;
+    const cycle: DutyCycle = { ...cycleData, id, unit: cycleData.unit ?? null };
+    this.dutyCyclesMap.set(id, cycle);
+    return cycle;
+  }
+  
+  async updateDutyCycle(id: number, cycleData: Partial<InsertDutyCycle>): Promise<DutyCycle | undefined> {
+    const cycle = this.dutyCyclesMap.get(id);
+    if (!cycle) return undefined;
+    
+    const updatedCycle = { ...cycle, ...cycleData };
+    this.dutyCyclesMap.set(id, updatedCycle);
+    return updatedCycle;
+  }
+  
+  async deleteDutyCycle(id: number): Promise<boolean> {
+    return this.dutyCyclesMap.delete(id);
+  }
+  
+  // Rotation template methods
+  async getRotationTemplate(id: number): Promise<RotationTemplate | undefined> {
+    return this.rotationTemplatesMap.get(id);
+  }
+  
+  async getAllRotationTemplates(): Promise<RotationTemplate[]> {
+    return Array.from(this.rotationTemplatesMap.values());
+  }
+  
+  async createRotationTemplate(templateData: InsertRotationTemplate): Promise<RotationTemplate> {
+    const id = this.rotationTemplateIdCounter++;
+    const template: RotationTemplate = { ...templateData, id };
+    this.rotationTemplatesMap.set(id, template);
+    return template;
+  }
+  
+  async updateRotationTemplate(id: number, templateData: Partial<InsertRotationTemplate>): Promise<RotationTemplate | undefined> {
+    const template = this.rotationTemplatesMap.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate = { ...template, ...templateData };
+    this.rotationTemplatesMap.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  async deleteRotationTemplate(id: number): Promise<boolean> {
+    return this.rotationTemplatesMap.delete(id);
+  }
+  
+  // Staff rotation methods
+  async getStaffRotation(id: number): Promise<StaffRotation | undefined> {
+    return this.staffRotationsMap.get(id);
+  }
+  
+  async getAllStaffRotations(): Promise<StaffRotation[]> {
+    return Array.from(this.staffRotationsMap.values());
+  }
+  
+  async createStaffRotation(rotationData: InsertStaffRotation): Promise<StaffRotation> {
+    const id = this.staffRotationIdCounter++;
+    const rotation: StaffRotation = {
+      ...rotationData,
+      id,
+      endDate: rotationData.endDate ?? null,
+      startOffset: rotationData.startOffset ?? 0,
+      unit: rotationData.unit ?? null,
+    };
+    this.staffRotationsMap.set(id, rotation);
+    return rotation;
+  }
+  
+  async updateStaffRotation(id: number, rotationData: Partial<InsertStaffRotation>): Promise<StaffRotation | undefined> {
+    const rotation = this.staffRotationsMap.get(id);
+    if (!rotation) return undefined;
+    
+    const updatedRotation = { ...rotation, ...rotationData };
+    this.staffRotationsMap.set(id, updatedRotation);
+    return updatedRotation;
+  }
+  
+  async deleteStaffRotation(id: number): Promise<boolean> {
+    return this.staffRotationsMap.delete(id);
+  }
+  
+  // Schedule period methods
+  async getSchedulePeriod(id: number): Promise<SchedulePeriod | undefined> {
+    return this.schedulePeriodsMap.get(id);
+  }
+  
+  async getAllSchedulePeriods(): Promise<SchedulePeriod[]> {
+    return Array.from(this.schedulePeriodsMap.values());
+  }
+  
+  async createSchedulePeriod(periodData: InsertSchedulePeriod): Promise<SchedulePeriod> {
+    const id = this.schedulePeriodIdCounter++;
+    const period: SchedulePeriod = {
+      ...periodData,
+      id,
+      status: periodData.status ?? "draft",
+      createdAt: new Date(),
+      publishedAt: periodData.publishedAt ?? null,
+    };
+    this.schedulePeriodsMap.set(id, period);
+    return period;
+  }
+  
+  async updateSchedulePeriod(id: number, periodData: Partial<InsertSchedulePeriod>): Promise<SchedulePeriod | undefined> {
+    const period = this.schedulePeriodsMap.get(id);
+    if (!period) return undefined;
+    
+    const updatedPeriod = { ...period, ...periodData };
+    this.schedulePeriodsMap.set(id, updatedPeriod);
+    return updatedPeriod;
+  }
+  
+  async deleteSchedulePeriod(id: number): Promise<boolean> {
+    return this.schedulePeriodsMap.delete(id);
+  }
+  
+  async publishSchedulePeriod(id: number, publishedByUserId: number | null): Promise<{ period: SchedulePeriod; version: ScheduleVersion } | undefined> {
+    // No awaits between reading the rows and writing the version, so nothing can interleave
+    const period = this.schedulePeriodsMap.get(id);
+    if (!period) return undefined;
+    
+    const rows = Array.from(this.schedulesMap.values())
+      .filter(schedule => schedule.date >= period.startDate && schedule.date <= period.endDate)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id)
+      .map(schedule => ({ ...schedule }));
+    const latest = Array.from(this.scheduleVersionsMap.values())
+      .filter(version => version.periodId === id)
+      .reduce((max, version) => Math.max(max, version.version), 0);
+    
+    const publishedAt = new Date();
+    const version: ScheduleVersion = {
+      id: this.scheduleVersionIdCounter++,
+      periodId: id,
+      version: latest + 1,
+      rows,
+      publishedByUserId,
+      publishedAt,
+    };
+    this.scheduleVersionsMap.set(version.id, version);
+    
+    const publishedPeriod: SchedulePeriod = { ...period, status: "published", publishedAt };
+    this.schedulePeriodsMap.set(id, publishedPeriod);
+    return { period: publishedPeriod, version };
+  }
+  
+  // Schedule version methods
+  async getScheduleVersion(id: number): Promise<ScheduleVersion | undefined> {
+    return this.scheduleVersionsMap.get(id);
+  }
+  
+  async getScheduleVersionsByPeriodId(periodId: number): Promise<ScheduleVersion[]> {
+    return Array.from(this.scheduleVersionsMap.values())
+      .filter(version => version.periodId === periodId)
+      .sort((a, b) => b.version - a.version);
+  }
+  
+  // Holiday methods
+  async getHoliday(id: number): Promise<Holiday | undefined> {
+    return this.holidaysMap.get(id);
+  }
+  
+  async getAllHolidays(): Promise<Holiday[]> {
+    return Array.from(this.holidaysMap.values())
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+  
+  async getHolidayByDate(date: string): Promise<Holiday | undefined> {
+    return Array.from(this.holidaysMap.values())
+      .find(holiday => holiday.date === date);
+  }
+  
+  async createHoliday(holidayData: InsertHoliday): Promise<Holiday> {
+    const id = this.holidayIdCounter++;
+    const holiday: Holiday = { ...holidayData, id };
+    this.holidaysMap.set(id, holiday);
+    return holiday;
+  }
+  
+  async deleteHoliday(id: number): Promise<boolean> {
+    return this.holidaysMap.delete(id);
+  }
+  
+  // Organization settings methods
+  async getOrganizationSettings(): Promise<OrganizationSettings | undefined> {
+    return this.organizationSettingsRecord;
+  }
+  
+  async saveOrganizationSettings(settingsData: InsertOrganizationSettings): Promise<OrganizationSettings> {
+    this.organizationSettingsRecord = {
+      ...settingsData,
+      id: 1,
+      defaultUnit: settingsData.defaultUnit || null,
+      updatedAt: new Date(),
+    };
+    return this.organizationSettingsRecord;
+  }
+  
+  // Calendar feed methods
+  async getCalendarFeedByStaffId(staffId: number): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeedsMap.values())
+      .find(feed => feed.staffId === staffId);
+  }
+  
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeedsMap.values())
+      .find(feed => feed.token === token);
+  }
+  
+  async saveCalendarFeedToken(staffId: number, token: string): Promise<CalendarFeed> {
+    const existing = await this.getCalendarFeedByStaffId(staffId);
+    const id = existing?.id ?? this.calendarFeedIdCounter++;
+    const feed: CalendarFeed = { id, staffId, token, createdAt: new Date() };
+    this.calendarFeedsMap.set(id, feed);
+    return feed;
+  }
+}
+
+// PostgreSQL storage implementation
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+  
+  sessionStore: session.Store;
+  
+  constructor(db: Database, sessionStore: session.Store) {
+    this.db = db;
+    this.sessionStore = sessionStore;
+  }
+  
+  // Seed the lookup tables on first run
+  async initialize() {
+    const existingDutyTypes = await this.getAllDutyTypes();
+    if (existingDutyTypes.length === 0) {
+      const preDuty = await this.createDutyType({ name: "Pre-Duty", category: "pre_duty" });
+      const duty = await this.createDutyType({ name: "Duty", category: "duty" });
+      const postDuty = await this.createDutyType({ name: "Post-Duty", category: "post_duty" });
+      await this.createDutyCycle({ name: "Standard", steps: [preDuty.id, duty.id, postDuty.id] });
+    }
+    
+    const existingShiftTypes = await this.getAllShiftTypes();
+    if (existingShiftTypes.length === 0) {
+      await this.createShiftType({ name: "Day Shift", startTime: "07:00", endTime: "19:00", duration: 12, category: "day" });
+      await this.createShiftType({ name: "Night Shift", startTime: "19:00", endTime: "07:00", duration: 12, category: "night", isOvernight: true });
+      await this.createShiftType({ name: "Post Shift", startTime: "07:00", endTime: "12:00", duration: 5, category: "other" });
+    }
+  }
+  
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.id);
+  }
+  
+  async createUser(userData: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(userData).returning();
+    return user;
+  }
+  
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(userData).where(eq(users.id, id)).returning();
+    return user;
+  }
+  
+  // Staff methods
+  async getStaff(id: number): Promise<Staff | undefined> {
+    const [staffMember] = await this.db.select().from(staff).where(eq(staff.id, id));
+    return staffMember;
+  }
+  
+  async getStaffByUserId(userId: number): Promise<Staff | undefined> {
+    const [staffMember] = await this.db.select().from(staff).where(eq(staff.userId, userId));
+    return staffMember;
+  }
+  
+  async getStaffWithUser(id: number): Promise<StaffWithUser | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(staff)
+      .innerJoin(users, eq(staff.userId, users.id))
+      .where(eq(staff.id, id));
+    
+    return row ? { ...row.staff, user: row.users } : undefined;
+  }
+  
+  async getAllStaff(): Promise<StaffWithUser[]> {
+    const rows = await this.db
+      .select()
+      .from(staff)
+      .innerJoin(users, eq(staff.userId, users.id))
+      .where(eq(staff.isActive, true))
+      .orderBy(staff.id);
+    
+    return rows.map(row => ({ ...row.staff, user: row.users }));
+  }
+  
+  async createStaff(staffData: InsertStaff): Promise<Staff> {
+    const [staffMember] = await this.db.insert(staff).values(staffData).returning();
+    return staffMember;
+  }
+  
+  async createStaffAccounts(accounts: NewStaffAccount[]): Promise<StaffWithUser[]> {
+    // A clash on any username rolls back the whole batch
+    return this.db.transaction(async (tx) => {
+      const created: StaffWithUser[] = [];
+      
+      for (const account of accounts) {
+        const [user] = await tx.insert(users).values(account.user).returning().catch(error => {
+          throw isUniqueViolation(error) ? new UsernameTakenError(account.user.username) : error;
+        });
+        const [staffMember] = await tx.insert(staff).values({ ...account.staff, userId: user.id }).returning();
+        created.push({ ...staffMember, user });
+      }
+      
+      return created;
+    });
+  }
+  
+  async updateStaff(id: number, staffData: Partial<InsertStaff>): Promise<Staff | undefined> {
+    const [staffMember] = await this.db.update(staff).set(staffData).where(eq(staff.id, id)).returning();
+    return staffMember;
+  }
+  
+  // Shift type methods
+  async getShiftType(id: number): Promise<ShiftType | undefined> {
+    const [shiftType] = await this.db.select().from(shiftTypes).where(eq(shiftTypes.id, id));
+    return shiftType;
+  }
+  
+  async getAllShiftTypes(): Promise<ShiftType[]> {
+    return this.db.select().from(shiftTypes).orderBy(shiftTypes.id);
+  }
+  
+  async createShiftType(shiftTypeData: InsertShiftType): Promise<ShiftType> {
+    const [shiftType] = await this.db.insert(shiftTypes).values(shiftTypeData).returning();
+    return shiftType;
+  }
+  
+  async updateShiftType(id: number, shiftTypeData: Partial<InsertShiftType>): Promise<ShiftType | undefined> {
+    const [shiftType] = await this.db
+      .update(shiftTypes)
+      .set(shiftTypeData)
+      .where(eq(shiftTypes.id, id))
+      .returning();
+    return shiftType;
+  }
+  
+  // Duty type methods
+  async getDutyType(id: number): Promise<DutyType | undefined> {
+    const [dutyType] = await this.db.select().from(dutyTypes).where(eq(dutyTypes.id, id));
+    return dutyType;
+  }
+  
+  async getAllDutyTypes(): Promise<DutyType[]> {
+    return this.db.select().from(dutyTypes).orderBy(dutyTypes.id);
+  }
+  
+  async createDutyType(dutyTypeData: InsertDutyType): Promise<DutyType> {
+    const [dutyType] = await this.db.insert(dutyTypes).values(dutyTypeData).returning();
+    return dutyType;
+  }
+  
+  async updateDutyType(id: number, dutyTypeData: Partial<InsertDutyType>): Promise<DutyType | undefined> {
+    const [dutyType] = await this.db
+      .update(dutyTypes)
+      .set(dutyTypeData)
+      .where(eq(dutyTypes.id, id))
+      .returning();
+    return dutyType;
+  }
+  
+  // Schedule methods
+  async getSchedule(id: number): Promise<Schedule | undefined> {
+    const [schedule] = await this.db.select().from(schedules).where(eq(schedules.id, id));
+    return schedule;
+  }
+  
+  async getSchedulesByStaffId(staffId: number): Promise<Schedule[]> {
+    return this.db.select().from(schedules).where(eq(schedules.staffId, staffId));
+  }
+  
+  async getSchedulesByDateRange(startDate: string, endDate: string): Promise<ScheduleWithDetails[]> {
+    const rows = await this.db
+      .select()
+      .from(schedules)
+      .innerJoin(staff, eq(schedules.staffId, staff.id))
+      .innerJoin(users, eq(staff.userId, users.id))
+      .innerJoin(dutyTypes, eq(schedules.dutyTypeId, dutyTypes.id))
+      .leftJoin(shiftTypes, eq(schedules.shiftTypeId, shiftTypes.id))
+      .where(and(gte(schedules.date, startDate), lte(schedules.date, endDate)))
+      .orderBy(schedules.date, schedules.id);
+    
+    return rows.map(row => ({
+      ...row.schedules,
+      staff: { ...row.staff, user: row.users },
+      shiftType: row.shift_types,
+      dutyType: row.duty_types,
+    }));
+  }
+  
+  async createSchedule(scheduleData: InsertSchedule): Promise<Schedule> {
+    const [schedule] = await this.db.insert(schedules).values(scheduleData).returning();
+    return schedule;
+  }
+  
+  async updateSchedule(id: number, scheduleData: Partial<InsertSchedule>): Promise<Schedule | undefined> {
+    const [schedule] = await this.db
+      .update(schedules)
+      .set(scheduleData)
+      .where(eq(schedules.id, id))
+      .returning();
+    return schedule;
+  }
+  
+  async deleteSchedule(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(schedules).where(eq(schedules.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  async getScheduleByStaffAndDate(staffId: number, date: string): Promise<Schedule | undefined> {
+    const [schedule] = await this.db
+      .select()
+      .from(schedules)
+      .where(and(eq(schedules.staffId, staffId), eq(schedules.date, date)));
+    return schedule;
+  }
+  
+  async deleteSchedulesByDateRange(startDate: string, endDate: string): Promise<Schedule[]> {
+    return this.db
+      .delete(schedules)
+      .where(and(gte(schedules.date, startDate), lte(schedules.date, endDate), eq(schedules.locked, false)))
+      .returning();
+  }
+  
+  async upsertSchedules(schedulesData: InsertSchedule[]): Promise<Schedule[]> {
+    const { saved } = await this.replaceSchedules([], schedulesData);
+    return saved;
+  }
+  
+  async replaceSchedules(
+    removedIds: number[],
+    schedulesData: InsertSchedule[]
+  ): Promise<{ removed: Schedule[]; saved: Schedule[] }> {
+    // Write the whole batch or nothing
+    return this.db.transaction(async (tx) => {
+      const removed = removedIds.length > 0
+        ? await tx
+          .delete(schedules)
+          .where(and(inArray(schedules.id, removedIds), eq(schedules.locked, false)))
+          .returning()
+        : [];
+      const result: Schedule[] = [];
+      
+      for (const scheduleData of schedulesData) {
+        const [existingSchedule] = await tx
+          .select()
+          .from(schedules)
+          .where(and(eq(schedules.staffId, scheduleData.staffId), eq(schedules.date, scheduleData.date)));
+        if (existingSchedule?.locked) continue;
+        
+        const [schedule] = existingSchedule
+          ? await tx.update(schedules).set(scheduleData).where(eq(schedules.id, existingSchedule.id)).returning()
+          : await tx.insert(schedules).values(scheduleData).returning();
+        result.push(schedule);
+      }
+      
+      return { removed, saved: result };
+    });
+  }
+  
+  // Availability methods
+  async getAvailability(id: number): Promise<Availability | undefined> {
+    const [record] = await this.db.select().from(availability).where(eq(availability.id, id));
+    return record;
+  }
+  
+  async getAvailabilitiesByStaffId(staffId: number): Promise<Availability[]> {
+    return this.db.select().from(availability).where(eq(availability.staffId, staffId));
+  }
+  
+  async getAvailabilitiesByDateRange(startDate: string, endDate: string): Promise<Availability[]> {
+    return this.db
+      .select()
+      .from(availability)
+      .where(and(gte(availability.date, startDate), lte(availability.date, endDate)));
+  }
+  
+  async createAvailability(availabilityData: InsertAvailability): Promise<Availability> {
+    const [record] = await this.db.insert(availability).values(availabilityData).returning();
+    return record;
+  }
+  
+  async createAvailabilities(availabilitiesData: InsertAvailability[]): Promise<Availability[]> {
+    // A failure on any entry rolls back the whole batch
+    return this.db.transaction(async (tx) => {
+      const created: Availability[] = [];
+      
+      for (const availabilityData of availabilitiesData) {
+        const [record] = await tx.insert(availability).values(availabilityData).returning();
+        created.push(record);
+      }
+      
+      return created;
+    });
+  }
+  
+  async updateAvailability(id: number, availabilityData: Partial<InsertAvailability>): Promise<Availability | undefined> {
+    const [record] = await this.db
+      .update(availability)
+      .set(availabilityData)
+      .where(eq(availability.id, id))
+      .returning();
+    return record;
+  }
+  
+  // Swap request methods
+  async getSwapRequest(id: number): Promise<SwapRequest | undefined> {
+    const [swapRequest] = await this.db.select().from(swapRequests).where(eq(swapRequests.id, id));
+    return swapRequest;
+  }
+  
+  async getPendingSwapRequests(): Promise<SwapRequestWithDetails[]> {
+    const requestingStaff = alias(staff, "requesting_staff");
+    const requestingUser = alias(users, "requesting_user");
+    const requestedStaff = alias(staff, "requested_staff");
+    const requestedUser = alias(users, "requested_user");
+    
+    const rows = await this.db
+      .select()
+      .from(swapRequests)
+      .innerJoin(requestingStaff, eq(swapRequests.requestingStaffId, requestingStaff.id))
+      .innerJoin(requestingUser, eq(requestingStaff.userId, requestingUser.id))
+      .innerJoin(requestedStaff, eq(swapRequests.requestedStaffId, requestedStaff.id))
+      .innerJoin(requestedUser, eq(requestedStaff.userId, requestedUser.id))
+      .innerJoin(shiftTypes, eq(swapRequests.shiftTypeId, shiftTypes.id))
+      .where(eq(swapRequests.status, "pending"))
+      .orderBy(swapRequests.requestTimestamp);
+    
+    return rows.map(row => ({
+      ...row.swap_requests,
+      requestingStaff: { ...row.requesting_staff, user: row.requesting_user },
+      requestedStaff: { ...row.requested_staff, user: row.requested_user },
+      shiftType: row.shift_types,
+    }));
+  }
+  
+  async getSwapRequestsByStaffId(staffId: number): Promise<SwapRequest[]> {
+    return this.db
+      .select()
+      .from(swapRequests)
+      .where(or(
+        eq(swapRequests.requestingStaffId, staffId),
+        eq(swapRequests.requestedStaffId, staffId)
+      ))
+      .orderBy(swapRequests.id);
+  }
+  
+  async createSwapRequest(swapRequestData: InsertSwapRequest): Promise<SwapRequest> {
+    const [swapRequest] = await this.db.insert(swapRequests).values(swapRequestData).returning();
+    return swapRequest;
+  }
+  
+  async updateSwapRequest(id: number, swapRequestData: Partial<InsertSwapRequest>): Promise<SwapRequest | undefined> {
+    const [swapRequest] = await this.db
+      .update(swapRequests)
+      .set(swapRequestData)
+      .where(eq(swapRequests.id, id))
+      .returning();
+    return swapRequest;
+  }
+  
+  // Change history methods
+  async getChangeHistory(id: number): Promise<ChangeHistory | undefined> {
+    const [record] = await this.db.select().from(changeHistory).where(eq(changeHistory.id, id));
+    return record;
+  }
+  
+  async getChangeHistoryByScheduleId(scheduleId: number): Promise<ChangeHistory[]> {
+    return this.db.select().from(changeHistory).where(eq(changeHistory.scheduleId, scheduleId));
+  }
+  
+  async createChangeHistory(changeHistoryData: InsertChangeHistory): Promise<ChangeHistory> {
+    const [record] = await this.db.insert(changeHistory).values(changeHistoryData).returning();
+    return record;
+  }
+  
+  async findChangeHistory(filter: ChangeHistoryFilter, limit: number, offset: number): Promise<ChangeHistoryPage> {
+    const conditions: SQL[] = [];
+    if (filter.scheduleId !== undefined) conditions.push(eq(changeHistory.scheduleId, filter.scheduleId));
+    if (filter.staffId !== undefined) conditions.push(eq(changeHistory.staffId, filter.staffId));
+    if (filter.startDate !== undefined) conditions.push(gte(changeHistory.date, filter.startDate));
+    if (filter.endDate !== undefined) conditions.push(lte(changeHistory.date, filter.endDate));
+    if (filter.changedByUserId !== undefined) conditions.push(eq(changeHistory.changedByUserId, filter.changedByUserId));
+    if (filter.reason !== undefined) {
+      // Escape LIKE wildcards so the reason is matched literally
+      conditions.push(ilike(changeHistory.reason, `%${filter.reason.replace(/[\\%_]/g, "\\$&")}%`));
+    }
+    const where = conditions.length ? and(...conditions) : undefined;
+    
+    const [entries, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(changeHistory)
+        .where(where)
+        .orderBy(desc(changeHistory.changeTimestamp), desc(changeHistory.id))
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ total: count() }).from(changeHistory).where(where),
+    ]);
+    
+    return { entries, total };
+  }
+  
+  async getChangeHistoryByOperationId(operationId: number): Promise<ChangeHistory[]> {
+    return this.db
+      .select()
+      .from(changeHistory)
+      .where(eq(changeHistory.operationId, operationId))
+      .orderBy(changeHistory.id);
+  }
+  
+  // Schedule operation methods
+  async getScheduleOperation(id: number): Promise<ScheduleOperation | undefined> {
+    const [operation] = await this.db.select().from(scheduleOperations).where(eq(scheduleOperations.id, id));
+    return operation;
+  }
+  
+  async getLatestScheduleOperation(userId: number, status: ScheduleOperationStatus): Promise<ScheduleOperation | undefined> {
+    const [operation] = await this.db
+      .select()
+      .from(scheduleOperations)
+      .where(and(eq(scheduleOperations.userId, userId), eq(scheduleOperations.status, status)))
+      .orderBy(status === "undone" ? desc(scheduleOperations.undoneAt) : desc(scheduleOperations.id), desc(scheduleOperations.id))
+      .limit(1);
+    return operation;
+  }
+  
+  async createScheduleOperation(operationData: InsertScheduleOperation): Promise<ScheduleOperation> {
+    const [operation] = await this.db.insert(scheduleOperations).values(operationData).returning();
+    return operation;
+  }
+  
+  async setScheduleOperationStatus(id: number, status: ScheduleOperationStatus): Promise<ScheduleOperation | undefined> {
+    const [operation] = await this.db
+      .update(scheduleOperations)
+      // now() rather than the app clock, so undos in the same millisecond still order
+      .set({ status, undoneAt: status === "undone" ? sql`now()` : null })
+      .where(eq(scheduleOperations.id, id))
+      .returning();
+    return operation;
+  }
+  
+  // Notification methods
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+  
+  async getNotificationsForStaff(staffId: number): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(or(eq(notifications.staffId, staffId), isNull(notifications.staffId)))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id));
+  }
+  
+  async getAllNotifications(): Promise<Notification[]> {
+    return this.db.select().from(notifications).orderBy(desc(notifications.createdAt), desc(notifications.id));
+  }
+  
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(notificationData).returning();
+    return notification;
+  }
+  
+  async markNotificationAsRead(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+  
+  // Labour rule methods
+  async getAllLabourRules(): Promise<LabourRules[]> {
+    return this.db.select().from(labourRules).orderBy(labourRules.id);
+  }
+  
+  async saveLabourRules(unit: string | null, rulesData: Partial<InsertLabourRules>): Promise<LabourRules> {
+    const matchesUnit = unit === null ? isNull(labourRules.unit) : eq(labourRules.unit, unit);
+    const values = { ...rulesData, unit, updatedAt: new Date() };
+    
+    const [updated] = await this.db.update(labourRules).set(values).where(matchesUnit).returning();
+    if (updated) return updated;
+    
+    const [created] = await this.db.insert(labourRules).values(values).returning();
+    return created;
+  }
+  
+  async deleteLabourRules(unit: string): Promise<boolean> {
+    const deleted = await this.db.delete(labourRules).where(eq(labourRules.unit, unit)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Coverage requirement methods
+  async getCoverageRequirement(id: number): Promise<CoverageRequirement | undefined> {
+    const [requirement] = await this.db.select().from(coverageRequirements).where(eq(coverageRequirements.id, id));
+    return requirement;
+  }
+  
+  async getAllCoverageRequirements(): Promise<CoverageRequirement[]> {
+    return this.db.select().from(coverageRequirements).orderBy(coverageRequirements.id);
+  }
+  
+  async createCoverageRequirement(requirementData: InsertCoverageRequirement): Promise<CoverageRequirement> {
+    const [requirement] = await this.db.insert(coverageRequirements).values(requirementData).returning();
+    return requirement;
+  }
+  
+  async updateCoverageRequirement(id: number, requirementData: Partial<InsertCoverageRequirement>): Promise<CoverageRequirement | undefined> {
+    const [requirement] = await this.db
+      .update(coverageRequirements)
+      .set(requirementData)
+      .where(eq(coverageRequirements.id, id))
+      .returning();
+    return requirement;
+  }
+  
+  async deleteCoverageRequirement(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(coverageRequirements).where(eq(coverageRequirements.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Skill-mix rule methods
+  async getSkillMixRule(id: number): Promise<SkillMixRule | undefined> {
+    const [rule] = await this.db.select().from(skillMixRules).where(eq(skillMixRules.id, id));
+    return rule;
+  }
+  
+  async getAllSkillMixRules(): Promise<SkillMixRule[]> {
+    return this.db.select().from(skillMixRules).orderBy(skillMixRules.id);
+  }
+  
+  async createSkillMixRule(ruleData: InsertSkillMixRule): Promise<SkillMixRule> {
+    const [rule] = await this.db.insert(skillMixRules).values(ruleData).returning();
+    return rule;
+  }
+  
+  async updateSkillMixRule(id: number, ruleData: Partial<InsertSkillMixRule>): Promise<SkillMixRule | undefined> {
+    const [rule] = await this.db
+      .update(skillMixRules)
+      .set(ruleData)
+      .where(eq(skillMixRules.id, id))
+      .returning();
+    return rule;
+  }
+  
+  async deleteSkillMixRule(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(skillMixRules).where(eq(skillMixRules.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Duty cycle methods
+  async getDutyCycle(id: number): Promise<DutyCycle | undefined> {
+    const [cycle] = await this.db.select().from(dutyCycles).where(eq(dutyCycles.id, id));
+    return cycle;
+  }
+  
+  async getAllDutyCycles(): Promise<DutyCycle[]> {
+    return this.db.select().from(dutyCycles).orderBy(dutyCycles.id);
+  }
+  
+  async createDutyCycle(cycleData: InsertDutyCycle): Promise<DutyCycle> {
+    const [cycle] = await this.db.insert(dutyCycles).values(cycleData).returning();
+    return cycle;
+  }
+  
+  async updateDutyCycle(id: number, cycleData: Partial<InsertDutyCycle>): Promise<DutyCycle | undefined> {
+    const [cycle] = await this.db
+      .update(dutyCycles)
+      .set(cycleData)
+      .where(eq(dutyCycles.id, id))
+      .returning();
+    return cycle;
+  }
+  
+  async deleteDutyCycle(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(dutyCycles).where(eq(dutyCycles.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Rotation template methods
+  async getRotationTemplate(id: number): Promise<RotationTemplate | undefined> {
+    const [template] = await this.db.select().from(rotationTemplates).where(eq(rotationTemplates.id, id));
+    return template;
+  }
+  
+  async getAllRotationTemplates(): Promise<RotationTemplate[]> {
+    return this.db.select().from(rotationTemplates).orderBy(rotationTemplates.id);
+  }
+  
+  async createRotationTemplate(templateData: InsertRotationTemplate): Promise<RotationTemplate> {
+    const [template] = await this.db.insert(rotationTemplates).values(templateData).returning();
+    return template;
+  }
+  
+  async updateRotationTemplate(id: number, templateData: Partial<InsertRotationTemplate>): Promise<RotationTemplate | undefined> {
+    const [template] = await this.db
+      .update(rotationTemplates)
+      .set(templateData)
+      .where(eq(rotationTemplates.id, id))
+      .returning();
+    return template;
+  }
+  
+  async deleteRotationTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(rotationTemplates).where(eq(rotationTemplates.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Staff rotation methods
+  async getStaffRotation(id: number): Promise<StaffRotation | undefined> {
+    const [rotation] = await this.db.select().from(staffRotations).where(eq(staffRotations.id, id));
+    return rotation;
+  }
+  
+  async getAllStaffRotations(): Promise<StaffRotation[]> {
+    return this.db.select().from(staffRotations).orderBy(staffRotations.id);
+  }
+  
+  async createStaffRotation(rotationData: InsertStaffRotation): Promise<StaffRotation> {
+    const [rotation] = await this.db.insert(staffRotations).values(rotationData).returning();
+    return rotation;
+  }
+  
+  async updateStaffRotation(id: number, rotationData: Partial<InsertStaffRotation>): Promise<StaffRotation | undefined> {
+    const [rotation] = await this.db
+      .update(staffRotations)
+      .set(rotationData)
+      .where(eq(staffRotations.id, id))
+      .returning();
+    return rotation;
+  }
+  
+  async deleteStaffRotation(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(staffRotations).where(eq(staffRotations.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Schedule period methods
+  async getSchedulePeriod(id: number): Promise<SchedulePeriod | undefined> {
+    const [period] = await this.db.select().from(schedulePeriods).where(eq(schedulePeriods.id, id));
+    return period;
+  }
+  
+  async getAllSchedulePeriods(): Promise<SchedulePeriod[]> {
+    return this.db.select().from(schedulePeriods).orderBy(schedulePeriods.id);
+  }
+  
+  async createSchedulePeriod(periodData: InsertSchedulePeriod): Promise<SchedulePeriod> {
+    const [period] = await this.db.insert(schedulePeriods).values(periodData).returning();
+    return period;
+  }
+  
+  async updateSchedulePeriod(id: number, periodData: Partial<InsertSchedulePeriod>): Promise<SchedulePeriod | undefined> {
+    const [period] = await this.db
+      .update(schedulePeriods)
+      .set(periodData)
+      .where(eq(schedulePeriods.id, id))
+      .returning();
+    return period;
+  }
+  
+  async deleteSchedulePeriod(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(schedulePeriods).where(eq(schedulePeriods.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  async publishSchedulePeriod(id: number, publishedByUserId: number | null): Promise<{ period: SchedulePeriod; version: ScheduleVersion } | undefined> {
+    // The snapshot, the version number and the status change commit together
+    return this.db.transaction(async (tx) => {
+      const [period] = await tx.select().from(schedulePeriods).where(eq(schedulePeriods.id, id)).for("update");
+      if (!period) return undefined;
+      
+      const rows = await tx
+        .select()
+        .from(schedules)
+        .where(and(gte(schedules.date, period.startDate), lte(schedules.date, period.endDate)))
+        .orderBy(schedules.date, schedules.id);
+      const [latest] = await tx
+        .select()
+        .from(scheduleVersions)
+        .where(eq(scheduleVersions.periodId, id))
+        .orderBy(desc(scheduleVersions.version))
+        .limit(1);
+      
+      const [version] = await tx
+        .insert(scheduleVersions)
+        .values({ periodId: id, version: (latest?.version ?? 0) + 1, rows, publishedByUserId })
+        .returning();
+      const [publishedPeriod] = await tx
+        .update(schedulePeriods)
+        .set({ status: "published", publishedAt: version.publishedAt })
+        .where(eq(schedulePeriods.id, id))
+        .returning();
+      
+      return { period: publishedPeriod, version };
+    });
+  }
+  
+  // Schedule version methods
+  async getScheduleVersion(id: number): Promise<ScheduleVersion | undefined> {
+    const [version] = await this.db.select().from(scheduleVersions).where(eq(scheduleVersions.id, id));
+    return version;
+  }
+  
+  async getScheduleVersionsByPeriodId(periodId: number): Promise<ScheduleVersion[]> {
+    return this.db
+      .select()
+      .from(scheduleVersions)
+      .where(eq(scheduleVersions.periodId, periodId))
+      .orderBy(desc(scheduleVersions.version));
+  }
+  
+  // Holiday methods
+  async getHoliday(id: number): Promise<Holiday | undefined> {
+    const [holiday] = await this.db.select().from(holidays).where(eq(holidays.id, id));
+    return holiday;
+  }
+  
+  async getAllHolidays(): Promise<Holiday[]> {
+    return this.db.select().from(holidays).orderBy(holidays.date);
+  }
+  
+  async getHolidayByDate(date: string): Promise<Holiday | undefined> {
+    const [holiday] = await this.db.select().from(holidays).where(eq(holidays.date, date));
+    return holiday;
+  }
+  
+  async createHoliday(holidayData: InsertHoliday): Promise<Holiday> {
+    const [holiday] = await this.db.insert(holidays).values(holidayData).returning();
+    return holiday;
+  }
+  
+  async deleteHoliday(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(holidays).where(eq(holidays.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Organization settings methods
+  async getOrganizationSettings(): Promise<OrganizationSettings | undefined> {
+    const [settings] = await this.db.select().from(organizationSettings).orderBy(organizationSettings.id).limit(1);
+    return settings;
+  }
+  
+  async saveOrganizationSettings(settingsData: InsertOrganizationSettings): Promise<OrganizationSettings> {
+    const values = { ...settingsData, defaultUnit: settingsData.defaultUnit || null, updatedAt: new Date() };
+    const existing = await this.getOrganizationSettings();
+    
+    if (existing) {
+      const [updated] = await this.db
+        .update(organizationSettings)
+        .set(values)
+        .where(eq(organizationSettings.id, existing.id))
+        .returning();
+      return updated;
+    }
+    
+    const [created] = await this.db.insert(organizationSettings).values(values).returning();
+    return created;
+  }
+  
+  // Calendar feed methods
+  async getCalendarFeedByStaffId(staffId: number): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.staffId, staffId));
+    return feed;
+  }
+  
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+  
+  async saveCalendarFeedToken(staffId: number, token: string): Promise<CalendarFeed> {
+    const existing = await this.getCalendarFeedByStaffId(staffId);
+    
+    if (existing) {
+      const [updated] = await this.db
+        .update(calendarFeeds)
+        .set({ token, createdAt: new Date() })
+        .where(eq(calendarFeeds.id, existing.id))
+        .returning();
+      return updated;
+    }
+    
+    const [created] = await this.db.insert(calendarFeeds).values({ staffId, token }).returning();
+    return created;
+  }
+}
+
+// Use Postgres when a database is provisioned, otherwise fall back to memory
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) return new MemStorage();
+  
+  const { pool, db } = createDatabase(process.env.DATABASE_URL);
+  return new DatabaseStorage(db, new PostgresSessionStore({ pool, createTableIfMissing: true }));
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();
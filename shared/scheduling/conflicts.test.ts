@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { DutyType, PublicStaffWithUser, Schedule, ShiftType } from "@shared/schema";
+import { detectScheduleConflicts } from "./conflicts";
+import { DEFAULT_LABOUR_RULES } from "./rules";
+import { ConflictType } from "./types";
+
+const staff: PublicStaffWithUser[] = [{
+  id: 1,
+  userId: 1,
+  role: "Nurse",
+  specialization: null,
+  qualifications: [],
+  contactInfo: null,
+  isActive: true,
+  preferredShiftTypeIds: [],
+  avoidedShiftTypeIds: [],
+  preferredDaysOff: [],
+  maxNightsPerMonth: null,
+  user: { id: 1, username: "alice", firstName: "Alice", lastName: "Smith", role: "staff", isActive: true },
+}];
+
+const DAY = 1;
+const NIGHT = 2;
+const LATE = 3;
+const EARLY = 4;
+
+const shiftTypes: ShiftType[] = [
+  { id: DAY, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false },
+  { id: NIGHT, name: "Night", startTime: "19:00", endTime: "07:00", duration: 12, category: "night", isOvernight: true },
+  { id: LATE, name: "Late", startTime: "14:00", endTime: "22:00", duration: 8, category: "evening", isOvernight: false },
+  { id: EARLY, name: "Early", startTime: "06:00", endTime: "14:00", duration: 8, category: "day", isOvernight: false },
+];
+
+const DUTY = 2;
+const POST_DUTY = 3;
+
+const dutyTypes: DutyType[] = [
+  { id: 1, name: "Pre-Duty", category: "pre_duty", countsAsWorked: true },
+  { id: DUTY, name: "Duty", category: "duty", countsAsWorked: true },
+  { id: POST_DUTY, name: "Post-Duty", category: "post_duty", countsAsWorked: false },
+];
+
+let nextId = 1;
+
+function shift(date: string, shiftTypeId: number, dutyTypeId = DUTY): Schedule {
+  return { id: nextId++, staffId: 1, date, shiftTypeId, dutyTypeId, unit: null, locked: false };
+}
+
+function restConflicts(schedule: Schedule, schedules: Schedule[], rules = DEFAULT_LABOUR_RULES) {
+  return detectScheduleConflicts(schedule, schedules, staff, [], shiftTypes, rules, [], dutyTypes)
+    .filter(conflict => conflict.type === ConflictType.REST_PERIOD_VIOLATION);
+}
+
+describe("detectScheduleConflicts rest periods", () => {
+  it("flags a day shift straight after a night shift", () => {
+    const night = shift("2025-03-03", NIGHT);
+    const day = shift("2025-03-04", DAY);
+
+    expect(restConflicts(day, [night, day])).toEqual([
+      expect.objectContaining({
+        date: "2025-03-04",
+        severity: "error",
+        message: "Insufficient rest after the shift on 2025-03-03 (0h < 12h)",
+      }),
+    ]);
+  });
+
+  it("flags a night shift followed by a day shift the next morning", () => {
+    const night = shift("2025-03-03", NIGHT);
+    const day = shift("2025-03-04", DAY);
+
+    expect(restConflicts(night, [night, day])).toEqual([
+      expect.objectContaining({
+        date: "2025-03-03",
+        message: "Insufficient rest before the shift on 2025-03-04 (0h < 12h)",
+      }),
+    ]);
+  });
+
+  it("reports a shift that overlaps the next one", () => {
+    const night = shift("2025-03-03", NIGHT);
+    const early = shift("2025-03-04", EARLY);
+
+    expect(restConflicts(early, [night, early])).toEqual([
+      expect.objectContaining({ message: "Overlaps the shift on 2025-03-03" }),
+    ]);
+  });
+
+  it("allows runs with enough rest between them", () => {
+    const nights = [shift("2025-03-03", NIGHT), shift("2025-03-04", NIGHT)];
+    const days = [shift("2025-03-10", DAY), shift("2025-03-11", DAY)];
+    const dayThenNight = [shift("2025-03-17", DAY), shift("2025-03-18", NIGHT)];
+
+    for (const pair of [nights, days, dayThenNight]) {
+      expect(restConflicts(pair[0], pair)).toEqual([]);
+      expect(restConflicts(pair[1], pair)).toEqual([]);
+    }
+  });
+
+  it("uses the configured minimum rest", () => {
+    const night = shift("2025-03-03", NIGHT);
+    const late = shift("2025-03-04", LATE);
+
+    expect(restConflicts(late, [night, late], { ...DEFAULT_LABOUR_RULES, minRestHours: 8 })).toEqual([
+      expect.objectContaining({ message: "Insufficient rest after the shift on 2025-03-03 (7h < 8h)" }),
+    ]);
+    expect(restConflicts(late, [night, late], { ...DEFAULT_LABOUR_RULES, minRestHours: 7 })).toEqual([]);
+  });
+
+  it("ignores shifts two days away and shifts that don't count as worked", () => {
+    const night = shift("2025-03-03", NIGHT);
+    const postDuty = shift("2025-03-05", DAY, POST_DUTY);
+    const day = shift("2025-03-04", DAY);
+
+    expect(restConflicts(shift("2025-03-05", DAY), [night])).toEqual([]);
+    expect(restConflicts(day, [postDuty, day])).toEqual([]);
+  });
+
+  describe("across daylight saving changes", () => {
+    const originalTimeZone = process.env.TZ;
+
+    afterEach(() => {
+      if (originalTimeZone === undefined) delete process.env.TZ;
+      else process.env.TZ = originalTimeZone;
+    });
+
+    it.each([
+      ["America/New_York", "2025-03-08", "2025-03-09"],
+      ["Europe/London", "2025-10-25", "2025-10-26"],
+    ])("measures rest in wall-clock hours in %s", (timeZone, nightDate, lateDate) => {
+      process.env.TZ = timeZone;
+      const night = shift(nightDate, NIGHT);
+      const late = shift(lateDate, LATE);
+
+      expect(restConflicts(late, [night, late])).toEqual([
+        expect.objectContaining({ message: `Insufficient rest after the shift on ${nightDate} (7h < 12h)` }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import {
+  InsertSchedule,
+  PublicStaffWithUser,
+  ShiftType,
+  Availability,
+  Schedule,
+  SkillMixRule,
+  DutyType,
+  RotationTemplate,
+  StaffRotation
+} from "@shared/schema";
+import { ConflictType, ScheduleConflict } from "./types";
+import { DEFAULT_LABOUR_RULES, EffectiveLabourRules } from "./rules";
+import { getStaffName } from "./context";
+import { daysBetween, getRestHours, getShiftInterval, getWeekKey } from "./dates";
+import { describeSkillMixShortfall, findSkillMixShortfalls, getSkillMixRulesFor } from "./skill-mix";
+import { getUnworkedDutyTypeIds, isWorkedSchedule } from "./duty-cycles";
+import { describeRotationStep, getExpectedRotationDay } from "./rotations";
+
+// Function to detect conflicts in an individual schedule
+export function detectScheduleConflicts(
+  schedule: InsertSchedule | any,
+  schedules: Schedule[],
+  staffList: PublicStaffWithUser[],
+  availabilities: Availability[] = [],
+  shiftTypes: ShiftType[] = [],
+  rules: EffectiveLabourRules = DEFAULT_LABOUR_RULES,
+  skillMixRules: SkillMixRule[] = [],
+  dutyTypes: DutyType[] = [],
+  rotationTemplates: RotationTemplate[] = [],
+  staffRotations: StaffRotation[] = []
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const staff = staffList.find(s => s.id === schedule.staffId);
+
+  const shiftTypesMap: Record<number, ShiftType> = {};
+  shiftTypes.forEach(st => shiftTypesMap[st.id] = st);
+
+  if (!staff) {
+    return conflicts;
+  }
+
+  const staffName = getStaffName(staff);
+
+  // Check if staff is unavailable
+  const isUnavailable = availabilities.some(
+    a => a.staffId === schedule.staffId && a.date === schedule.date && !a.isAvailable
+  );
+
+  if (isUnavailable) {
+    conflicts.push({
+      type: ConflictType.UNAVAILABLE_STAFF,
+      staffId: schedule.staffId,
+      date: schedule.date,
+      message: `Staff marked as unavailable on this date`,
+      severity: "error",
+      staffName
+    });
+  }
+
+  // Check for existing assignments on the same date
+  const existingSchedule = schedules.find(
+    s => s.staffId === schedule.staffId && s.date === schedule.date && s.id !== schedule.id
+  );
+
+  if (existingSchedule) {
+    conflicts.push({
+      type: ConflictType.EXISTING_ASSIGNMENT,
+      staffId: schedule.staffId,
+      date: schedule.date,
+      message: `Staff already has an assignment on ${schedule.date}`,
+      severity: "error",
+      staffName
+    });
+  }
+
+  // Check for consecutive shift exceeding maximum
+  const dates = schedules
+    .filter(s => s.staffId === schedule.staffId)
+    .map(s => s.date)
+    .sort();
+
+  if (dates.length > 0) {
+    let consecutiveCount = 1;
+    let maxConsecutive = 1;
+
+    for (let i = 1; i < dates.length; i++) {
+      if (daysBetween(dates[i - 1], dates[i]) === 1) {
+        consecutiveCount++;
+      } else {
+        consecutiveCount = 1;
+      }
+
+      maxConsecutive = Math.max(maxConsecutive, consecutiveCount);
+    }
+
+    if (maxConsecutive > rules.maxConsecutiveShifts) {
+      conflicts.push({
+        type: ConflictType.CONSECUTIVE_SHIFTS,
+        staffId: schedule.staffId,
+        date: schedule.date,
+        message: `Exceeds maximum consecutive shifts (${rules.maxConsecutiveShifts})`,
+        severity: "warning",
+        staffName
+      });
+    }
+  }
+
+  const weekKey = getWeekKey(schedule.date);
+
+  // The staff member's other working shifts plus this one, for the rolling limits below
+  const unworkedDutyTypeIds = getUnworkedDutyTypeIds(dutyTypes);
+  const workedSchedules = [
+    ...schedules.filter(s => s.staffId === schedule.staffId && s.id !== schedule.id && s.date !== schedule.date),
+    schedule,
+  ].filter(s => isWorkedSchedule(s, unworkedDutyTypeIds));
+
+  // Check shifts worked this week against the limit
+  const weeklyShifts = workedSchedules.filter(s => getWeekKey(s.date) === weekKey).length;
+
+  if (isWorkedSchedule(schedule, unworkedDutyTypeIds) && weeklyShifts > rules.maxShiftsPerWeek) {
+    conflicts.push({
+      type: ConflictType.EXCEEDS_WEEKLY_SHIFTS,
+      staffId: schedule.staffId,
+      date: schedule.date,
+      message: `Exceeds maximum weekly shifts (${weeklyShifts} > ${rules.maxShiftsPerWeek})`,
+      severity: "warning",
+      staffName
+    });
+  }
+
+  // Check weekly hours against the contract limit
+  const weeklyHours = workedSchedules
+    .filter(s => getWeekKey(s.date) === weekKey)
+    .reduce((total, s) => total + (shiftTypesMap[s.shiftTypeId]?.duration || 0), 0);
+
+  if (weeklyHours > rules.maxHoursPerWeek) {
+    conflicts.push({
+      type: ConflictType.EXCEEDS_WEEKLY_HOURS,
+      staffId: schedule.staffId,
+      date: schedule.date,
+      message: `Exceeds maximum weekly hours (${weeklyHours}h > ${rules.maxHoursPerWeek}h)`,
+      severity: "warning",
+      staffName
+    });
+  }
+
+  // Check night shifts in the period ending on this date
+  const nightShiftIds = shiftTypes.filter(st => st.isOvernight).map(st => st.id);
+  if (nightShiftIds.includes(schedule.shiftTypeId)) {
+    const nightsInPeriod = workedSchedules.filter(s => {
+      const diff = daysBetween(s.date, schedule.date);
+      return nightShiftIds.includes(s.shiftTypeId) && diff >= 0 && diff < rules.nightShiftPeriodDays;
+    }).length;
+
+    if (nightsInPeriod > rules.maxNightShiftsPerPeriod) {
+      conflicts.push({
+        type: ConflictType.NIGHT_SHIFT_LIMIT,
+        staffId: schedule.staffId,
+        date: schedule.date,
+        message: `Exceeds maximum night shifts (${rules.maxNightShiftsPerPeriod} per ${rules.nightShiftPeriodDays} days)`,
+        severity: "warning",
+        staffName
+      });
+    }
+  }
+
+  // Check days off in the fortnight ending on this date
+  if (schedule.shiftTypeId) {
+    const workedInFortnight = workedSchedules.filter(s => {
+      const diff = daysBetween(s.date, schedule.date);
+      return diff >= 0 && diff < 14;
+    }).length;
+
+    if (14 - workedInFortnight < rules.minDaysOffPerFortnight) {
+      conflicts.push({
+        type: ConflictType.INSUFFICIENT_DAYS_OFF,
+        staffId: schedule.staffId,
+        date: schedule.date,
+        message: `Fewer than ${rules.minDaysOffPerFortnight} days off in 14 days`,
+        severity: "warning",
+        staffName
+      });
+    }
+  }
+
+  // Check rest against the shifts worked the day before and the day after,
+  // using real intervals so overnight shifts end on the following morning
+  const scheduleShift = schedule.shiftTypeId ? shiftTypesMap[schedule.shiftTypeId] : undefined;
+  if (scheduleShift) {
+    const interval = getShiftInterval(schedule.date, scheduleShift);
+    const neighbours = workedSchedules.filter(s =>
+      s !== schedule && Math.abs(daysBetween(schedule.date, s.date)) === 1 && shiftTypesMap[s.shiftTypeId]
+    );
+
+    for (const neighbour of neighbours) {
+      const neighbourInterval = getShiftInterval(neighbour.date, shiftTypesMap[neighbour.shiftTypeId]);
+      const restHours = neighbour.date < schedule.date
+        ? getRestHours(neighbourInterval, interval)
+        : getRestHours(interval, neighbourInterval);
+
+      if (restHours < rules.minRestHours) {
+        conflicts.push({
+          type: ConflictType.REST_PERIOD_VIOLATION,
+          staffId: schedule.staffId,
+          date: schedule.date,
+          message: restHours < 0
+            ? `Overlaps the shift on ${neighbour.date}`
+            : `Insufficient rest ${neighbour.date < schedule.date ? "after" : "before"} the shift on ${neighbour.date} (${Math.round(restHours)}h < ${rules.minRestHours}h)`,
+          severity: "error",
+          staffName
+        });
+      }
+    }
+  }
+
+  // Check for specialization mismatch if unit is specified
+  if (schedule.unit && staff.specialization && schedule.unit !== staff.specialization) {
+    conflicts.push({
+      type: ConflictType.SPECIALIZATION_MISMATCH,
+      staffId: schedule.staffId,
+      date: schedule.date,
+      message: `Staff specialization (${staff.specialization}) does not match unit (${schedule.unit})`,
+      severity: "warning",
+      staffName
+    });
+  }
+
+  // Check the schedule against the staff member's rotation for this date
+  const expected = getExpectedRotationDay(rotationTemplates, staffRotations, schedule.staffId, schedule.date);
+  if (expected) {
+    const { step, template } = expected;
+    const matchesRotation = !!step &&
+      step.dutyTypeId === schedule.dutyTypeId &&
+      step.shiftTypeId === (schedule.shiftTypeId || null);
+
+    if (!matchesRotation) {
+      conflicts.push({
+        type: ConflictType.ROTATION_DEVIATION,
+        staffId: schedule.staffId,
+        date: schedule.date,
+        message: `Differs from the ${template.name} rotation, which has ${describeRotationStep(step, shiftTypes, dutyTypes)} on this date`,
+        severity: "warning",
+        staffName
+      });
+    }
+  }
+
+  // Check the skill mix of the shift this schedule joins, and of the one it leaves when edited
+  if (skillMixRules.length > 0) {
+    const original = schedule.id ? schedules.find(s => s.id === schedule.id) : undefined;
+    const others = schedules.filter(s => s.id !== schedule.id);
+
+    const checkSkillMix = (
+      shift: Pick<Schedule, "date" | "shiftTypeId" | "unit">,
+      shiftSchedules: Pick<Schedule, "staffId" | "date" | "shiftTypeId" | "unit">[]
+    ) => {
+      if (!shift.shiftTypeId) return;
+
+      const mixRules = getSkillMixRulesFor(skillMixRules, shift.shiftTypeId, shift.unit);
+      const staffOnShift = shiftSchedules
+        .filter(s => s.date === shift.date && s.shiftTypeId === shift.shiftTypeId && (!shift.unit || s.unit === shift.unit))
+        .map(s => staffList.find(member => member.id === s.staffId))
+        .filter((member): member is PublicStaffWithUser => !!member);
+      const shiftName = shiftTypesMap[shift.shiftTypeId]?.name ?? "Shift";
+
+      findSkillMixShortfalls(mixRules, staffOnShift).forEach(shortfall => {
+        conflicts.push({
+          type: ConflictType.SKILL_MIX_VIOLATION,
+          staffId: schedule.staffId,
+          date: shift.date,
+          message: describeSkillMixShortfall(shiftName, shortfall),
+          severity: "error",
+          staffName
+        });
+      });
+    };
+
+    checkSkillMix(schedule, [...others, schedule]);
+
+    if (original && (original.date !== schedule.date || original.shiftTypeId !== schedule.shiftTypeId)) {
+      checkSkillMix(original, others);
+    }
+  }
+
+  return conflicts;
+}
+
+// Check for shift conflicts with existing schedules
+export function hasShiftConflict(
+  staffId: number,
+  date: string,
+  schedules: Pick<Schedule, "staffId" | "date">[]
+): boolean {
+  return schedules.some(s => s.staffId === staffId && s.date === date);
+}
+
+// Suggest alternative staff for a shift with conflicts
+export function suggestAlternativeStaff(
+  staffId: number,
+  date: string,
+  shiftTypeId: number | null,
+  staff: PublicStaffWithUser[],
+  schedules: Schedule[],
+  availabilities: Availability[] = [],
+  unitSpecialization?: string
+): PublicStaffWithUser[] {
+  const unavailableStaffIds = availabilities
+    .filter(a => a.date === date && !a.isAvailable)
+    .map(a => a.staffId);
+
+  // Filter out staff who are unavailable or already assigned on this date
+  let availableStaff = staff.filter(s =>
+    !unavailableStaffIds.includes(s.id) && !hasShiftConflict(s.id, date, schedules)
+  );
+
+  // Further filter by specialization if needed
+  if (unitSpecialization) {
+    const specializedStaff = availableStaff.filter(s => s.specialization === unitSpecialization);
+    if (specializedStaff.length > 0) {
+      availableStaff = specializedStaff;
+    }
+  }
+
+  // Sort by number of assigned shifts (to balance workload)
+  const staffShiftCounts: Record<number, number> = {};
+  staff.forEach(s => {
+    staffShiftCounts[s.id] = schedules.filter(schedule => schedule.staffId === s.id).length;
+  });
+
+  availableStaff.sort((a, b) => {
+    return (staffShiftCounts[a.id] || 0) - (staffShiftCounts[b.id] || 0);
+  });
+
+  return availableStaff;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { DutyType, PublicStaffWithUser, Schedule, ShiftType } from "@shared/schema";
+import { generateSchedule, listSchedulingStrategies } from "./index";
+import { createSchedulingContext, getRestAroundShift } from "./context";
+import { ConflictType, ScheduleInput } from "./types";
+
+function staffMember(id: number): PublicStaffWithUser {
+  return {
+    id,
+    userId: id,
+    role: "Nurse",
+    specialization: null,
+    qualifications: [],
+    contactInfo: null,
+    isActive: true,
+    preferredShiftTypeIds: [],
+    avoidedShiftTypeIds: [],
+    preferredDaysOff: [],
+    maxNightsPerMonth: null,
+    user: { id, username: `nurse${id}`, firstName: "Nurse", lastName: String(id), role: "staff", isActive: true },
+  };
+}
+
+const DAY = 1;
+const NIGHT = 2;
+const DUTY = 2;
+
+const shiftTypes: ShiftType[] = [
+  { id: DAY, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false },
+  { id: NIGHT, name: "Night", startTime: "19:00", endTime: "07:00", duration: 12, category: "night", isOvernight: true },
+];
+
+const dutyTypes: DutyType[] = [
+  { id: 1, name: "Pre-Duty", category: "pre_duty", countsAsWorked: true },
+  { id: DUTY, name: "Duty", category: "duty", countsAsWorked: true },
+  { id: 3, name: "Post-Duty", category: "post_duty", countsAsWorked: true },
+];
+
+function existing(id: number, date: string, shiftTypeId: number, locked = false): Schedule {
+  return { id, staffId: 1, date, shiftTypeId, dutyTypeId: DUTY, unit: "", locked };
+}
+
+function input(existingSchedules: Schedule[]): ScheduleInput {
+  return {
+    staff: [1, 2, 3, 4, 5, 6].map(staffMember),
+    shiftTypes,
+    dutyTypes,
+    availabilities: [],
+    startDate: "2025-03-03",
+    endDate: "2025-03-09",
+    existingSchedules,
+    optimization: { seed: 1, maxIterations: 200 },
+  };
+}
+
+describe("getRestAroundShift", () => {
+  const options = { trackShiftCounts: true, reportRestViolations: true };
+
+  it("measures rest after the shift on the previous day", () => {
+    const context = createSchedulingContext(input([existing(1, "2025-03-04", NIGHT)]), options);
+
+    expect(getRestAroundShift(context, 1, "2025-03-05", DAY)).toBe(0);
+    expect(getRestAroundShift(context, 1, "2025-03-05", NIGHT)).toBe(12);
+  });
+
+  it("measures rest before the shift on the next day", () => {
+    const context = createSchedulingContext(input([existing(1, "2025-03-07", DAY, true)]), options);
+
+    expect(getRestAroundShift(context, 1, "2025-03-06", NIGHT)).toBe(0);
+    expect(getRestAroundShift(context, 1, "2025-03-06", DAY)).toBe(12);
+  });
+
+  it("ignores shifts further away, even later in the range", () => {
+    const context = createSchedulingContext(input([existing(1, "2025-03-07", DAY, true)]), options);
+
+    expect(getRestAroundShift(context, 1, "2025-03-03", DAY)).toBeNull();
+    expect(getRestAroundShift(context, 1, "2025-03-05", NIGHT)).toBeNull();
+  });
+
+  it("takes the shorter rest when there are shifts on both sides", () => {
+    const context = createSchedulingContext(input([
+      existing(1, "2025-03-04", DAY),
+      existing(2, "2025-03-06", DAY),
+    ]), options);
+
+    expect(getRestAroundShift(context, 1, "2025-03-05", NIGHT)).toBe(0);
+  });
+});
+
+describe("generated schedules around a locked shift", () => {
+  const lockedDay = existing(1, "2025-03-07", DAY, true);
+
+  it.each(listSchedulingStrategies().map(s => s.name))("%s keeps the rest period either side of it", strategy => {
+    const result = generateSchedule(input([lockedDay]), strategy);
+    const own = result.schedules.filter(s => s.staffId === 1);
+
+    expect(result.conflicts.filter(c => c.type === ConflictType.REST_PERIOD_VIOLATION)).toEqual([]);
+    expect(own.filter(s => s.date === "2025-03-07")).toEqual([]);
+    expect(own.find(s => s.date === "2025-03-06" && s.shiftTypeId === NIGHT)).toBeUndefined();
+    // The locked shift later in the week doesn't keep them off earlier days
+    expect(own.some(s => s.date < "2025-03-06" && s.shiftTypeId)).toBe(true);
+
+    const keys = result.schedules.map(s => `${s.staffId}:${s.date}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe("generated schedules for staff on a rotation", () => {
+  const rotation = { id: 1, staffId: 1, templateId: 1, startDate: "2025-03-05", endDate: null, startOffset: 0, unit: null };
+
+  it.each(listSchedulingStrategies().map(s => s.name))("%s leaves their rotation days alone", strategy => {
+    const rolledOut = existing(1, "2025-03-05", NIGHT);
+    const result = generateSchedule({ ...input([rolledOut]), staffRotations: [rotation] }, strategy);
+    const own = result.schedules.filter(s => s.staffId === 1);
+
+    expect(own.filter(s => s.date >= "2025-03-05")).toEqual([]);
+    expect(own.some(s => s.date < "2025-03-05")).toBe(true);
+  });
+});
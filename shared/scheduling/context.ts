@@ -0,0 +1,553 @@
+import {
+  CoverageRequirement,
+  InsertSchedule,
+  PublicStaffWithUser,
+  Schedule,
+  ShiftType,
+  SkillMixRule,
+  StaffRotation
+} from "@shared/schema";
+import { ConflictType, ScheduleConflict, ScheduleInput } from "./types";
+import { DEFAULT_LABOUR_RULES, EffectiveLabourRules } from "./rules";
+import {
+  daysBetween,
+  getDatesInRange,
+  getMonthKey,
+  getNextDay,
+  getPreviousDay,
+  getRestHours,
+  getShiftInterval,
+  getWeekKey,
+  getWeekday
+} from "./dates";
+import { PREFERENCE_WEIGHTS, getShiftPreferencePenalty } from "./preferences";
+import {
+  getDutyCycleFor,
+  getUnworkedDutyTypeIds,
+  isWorkedSchedule,
+  resolveDutyTypeIds,
+  resolveShiftTypeIds
+} from "./duty-cycles";
+import { isOnRotation } from "./rotations";
+
+// Staff load tracking for schedule optimization
+export interface StaffLoad {
+  consecutiveShifts: number;
+  totalShifts: number;
+  nightShifts: number;
+  // Shift type held on each assigned date, from existing rows and new assignments; null for
+  // a duty without a shift. A rest day generated over an existing row removes its date.
+  shiftsByDate: Record<string, number | null>;
+  restDays: number;
+  specialization: string | null;
+  // Dates with a working shift, and the subset that were night shifts
+  workedDates: string[];
+  nightDates: string[];
+}
+
+// Duty and shift type counts used to spread assignments evenly
+export interface DutyPattern {
+  preDuty: number;
+  duty: number;
+  postDuty: number;
+  dayShift: number;
+  eveningShift: number;
+  nightShift: number;
+}
+
+export type DutyKind = "preDuty" | "duty" | "postDuty";
+
+// Mutable state shared by a strategy while it walks the date range
+export interface SchedulingContext {
+  staff: PublicStaffWithUser[];
+  unit: string;
+  rules: EffectiveLabourRules;
+  coverageRequirements: CoverageRequirement[];
+  skillMixRules: SkillMixRule[];
+  existingSchedules: Schedule[];
+  staffRotations: StaffRotation[];
+  dates: string[];
+  dutyTypeIds: Record<DutyKind, number>;
+  shiftTypeIds: { day?: number; evening?: number; night?: number };
+  // Shift types that count toward night-shift limits
+  overnightShiftTypeIds: Set<number>;
+  // Duty types whose shifts don't count as worked time
+  unworkedDutyTypeIds: Set<number>;
+  staffLoads: Record<number, StaffLoad>;
+  staffDutyPatterns: Record<number, DutyPattern>;
+  weeklySchedules: Record<string, Record<number, number>>;
+  weeklyHours: Record<string, Record<number, number>>;
+  shiftHours: Record<number, number>;
+  shiftTypesById: Record<number, ShiftType>;
+  // Whether new assignments bump the per-shift-type pattern counters
+  trackShiftCounts: boolean;
+  // Whether skipped quick returns are recorded as conflicts or skipped silently
+  reportRestViolations: boolean;
+  schedules: InsertSchedule[];
+  conflicts: ScheduleConflict[];
+}
+
+export interface SchedulingContextOptions {
+  trackShiftCounts: boolean;
+  reportRestViolations: boolean;
+}
+
+export function getStaffName(staffMember: PublicStaffWithUser): string {
+  return `${staffMember.user.firstName} ${staffMember.user.lastName}`;
+}
+
+// Build the tracking state and fold in any existing schedules for the range
+export function createSchedulingContext(
+  {
+    staff,
+    shiftTypes,
+    dutyTypes,
+    startDate,
+    endDate,
+    unit = "",
+    existingSchedules = [],
+    rules = DEFAULT_LABOUR_RULES,
+    coverageRequirements = [],
+    skillMixRules = [],
+    dutyCycles = [],
+    staffRotations = []
+  }: ScheduleInput,
+  options: SchedulingContextOptions
+): SchedulingContext {
+  const dutyTypeIds = resolveDutyTypeIds(dutyTypes, getDutyCycleFor(dutyCycles, unit));
+  const shiftTypeIds = resolveShiftTypeIds(shiftTypes);
+  const overnightShiftTypeIds = new Set(shiftTypes.filter(st => st.isOvernight).map(st => st.id));
+  const unworkedDutyTypeIds = getUnworkedDutyTypeIds(dutyTypes);
+
+  const context: SchedulingContext = {
+    staff,
+    unit,
+    rules,
+    coverageRequirements,
+    skillMixRules,
+    existingSchedules,
+    staffRotations,
+    dates: getDatesInRange(startDate, endDate),
+    dutyTypeIds,
+    shiftTypeIds,
+    overnightShiftTypeIds,
+    unworkedDutyTypeIds,
+    staffLoads: {},
+    staffDutyPatterns: {},
+    weeklySchedules: {},
+    weeklyHours: {},
+    shiftHours: Object.fromEntries(shiftTypes.map(st => [st.id, st.duration])),
+    shiftTypesById: Object.fromEntries(shiftTypes.map(st => [st.id, st])),
+    trackShiftCounts: options.trackShiftCounts,
+    reportRestViolations: options.reportRestViolations,
+    schedules: [],
+    conflicts: [],
+  };
+
+  staff.forEach(s => {
+    context.staffDutyPatterns[s.id] = {
+      preDuty: 0,
+      duty: 0,
+      postDuty: 0,
+      dayShift: 0,
+      eveningShift: 0,
+      nightShift: 0
+    };
+    context.staffLoads[s.id] = {
+      consecutiveShifts: 0,
+      totalShifts: 0,
+      nightShifts: 0,
+      shiftsByDate: {},
+      restDays: 0,
+      specialization: s.specialization,
+      workedDates: [],
+      nightDates: []
+    };
+  });
+
+  // Process existing schedules in date order to understand current staff workload and patterns
+  const sortedExisting = [...existingSchedules].sort((a, b) => a.date.localeCompare(b.date));
+  for (const schedule of sortedExisting) {
+    const load = context.staffLoads[schedule.staffId];
+    const pattern = context.staffDutyPatterns[schedule.staffId];
+    if (!load) continue; // Skip if staff no longer exists
+    const weekKey = getWeekKey(schedule.date);
+
+    if (schedule.shiftTypeId && isWorkedSchedule(schedule, unworkedDutyTypeIds)) {
+      load.totalShifts++;
+      load.shiftsByDate[schedule.date] = schedule.shiftTypeId;
+      load.workedDates.push(schedule.date);
+      addWeeklyHours(context, weekKey, schedule.staffId, schedule.shiftTypeId);
+
+      if (overnightShiftTypeIds.has(schedule.shiftTypeId)) {
+        load.nightShifts++;
+        load.nightDates.push(schedule.date);
+      }
+
+      if (schedule.shiftTypeId === shiftTypeIds.night) {
+        pattern.nightShift++;
+      } else if (schedule.shiftTypeId === shiftTypeIds.day) {
+        pattern.dayShift++;
+      } else if (schedule.shiftTypeId === shiftTypeIds.evening) {
+        pattern.eveningShift++;
+      }
+    }
+
+    if (schedule.dutyTypeId === dutyTypeIds.duty) {
+      pattern.duty++;
+    } else if (schedule.dutyTypeId === dutyTypeIds.preDuty) {
+      pattern.preDuty++;
+    } else if (schedule.dutyTypeId === dutyTypeIds.postDuty) {
+      pattern.postDuty++;
+    }
+
+    context.weeklySchedules[weekKey] ??= {};
+    context.weeklySchedules[weekKey][schedule.staffId] = (context.weeklySchedules[weekKey][schedule.staffId] || 0) + 1;
+  }
+
+  context.dates.forEach(date => {
+    context.weeklySchedules[getWeekKey(date)] ??= {};
+  });
+
+  return context;
+}
+
+function addWeeklyHours(context: SchedulingContext, weekKey: string, staffId: number, shiftTypeId: number) {
+  context.weeklyHours[weekKey] ??= {};
+  context.weeklyHours[weekKey][staffId] = (context.weeklyHours[weekKey][staffId] || 0) + (context.shiftHours[shiftTypeId] || 0);
+}
+
+export function getWeeklyShiftCount(context: SchedulingContext, staffId: number, date: string): number {
+  return context.weeklySchedules[getWeekKey(date)][staffId] || 0;
+}
+
+// Staff not marked unavailable on the given date
+export function getAvailableStaff(context: SchedulingContext, availabilities: ScheduleInput["availabilities"], date: string) {
+  const unavailableStaffIds = availabilities
+    .filter(a => a.date === date && !a.isAvailable)
+    .map(a => a.staffId);
+
+  // A locked schedule is fixed input: its staff member keeps it and isn't assigned anything else
+  const lockedStaffIds = context.existingSchedules
+    .filter(s => s.locked && s.date === date)
+    .map(s => s.staffId);
+
+  return context.staff.filter(s =>
+    !unavailableStaffIds.includes(s.id) &&
+    !lockedStaffIds.includes(s.id) &&
+    // So is a rotation day, whether or not it has been rolled out yet
+    !isOnRotation(context.staffRotations, s.id, date)
+  );
+}
+
+// Default ordering: overall fairness first, then duty/shift balance, rest and specialization
+export function compareByWorkload(context: SchedulingContext, date: string) {
+  const weekKey = getWeekKey(date);
+
+  return (a: PublicStaffWithUser, b: PublicStaffWithUser) => {
+    const aLoad = context.staffLoads[a.id];
+    const bLoad = context.staffLoads[b.id];
+    const aPattern = context.staffDutyPatterns[a.id];
+    const bPattern = context.staffDutyPatterns[b.id];
+
+    if (aLoad.totalShifts !== bLoad.totalShifts) {
+      return aLoad.totalShifts - bLoad.totalShifts;
+    }
+
+    const aWeeklyShifts = context.weeklySchedules[weekKey][a.id] || 0;
+    const bWeeklyShifts = context.weeklySchedules[weekKey][b.id] || 0;
+    if (aWeeklyShifts !== bWeeklyShifts) {
+      return aWeeklyShifts - bWeeklyShifts;
+    }
+
+    const aDutyTotal = aPattern.duty + aPattern.preDuty + aPattern.postDuty;
+    const bDutyTotal = bPattern.duty + bPattern.preDuty + bPattern.postDuty;
+    if (aDutyTotal !== bDutyTotal) {
+      return aDutyTotal - bDutyTotal;
+    }
+
+    const aShiftTotal = aPattern.dayShift + aPattern.eveningShift + aPattern.nightShift;
+    const bShiftTotal = bPattern.dayShift + bPattern.eveningShift + bPattern.nightShift;
+    if (aShiftTotal !== bShiftTotal) {
+      return aShiftTotal - bShiftTotal;
+    }
+
+    if (aPattern.dayShift !== bPattern.dayShift) {
+      return aPattern.dayShift - bPattern.dayShift;
+    }
+
+    if (aPattern.eveningShift !== bPattern.eveningShift) {
+      return aPattern.eveningShift - bPattern.eveningShift;
+    }
+
+    // Night shifts are typically the most disruptive
+    if (aPattern.nightShift !== bPattern.nightShift) {
+      return aPattern.nightShift - bPattern.nightShift;
+    }
+
+    if (aLoad.restDays !== bLoad.restDays) {
+      return bLoad.restDays - aLoad.restDays;
+    }
+
+    if (context.unit) {
+      const aSpecMatch = aLoad.specialization === context.unit;
+      const bSpecMatch = bLoad.specialization === context.unit;
+      if (aSpecMatch !== bSpecMatch) {
+        return aSpecMatch ? -1 : 1;
+      }
+    }
+
+    // Staff ID as a tiebreaker for predictable results
+    return a.id - b.id;
+  };
+}
+
+// Staff working the shift on the date, from existing and newly generated schedules
+export function getStaffOnShift(context: SchedulingContext, date: string, shiftTypeId: number): PublicStaffWithUser[] {
+  const existing = context.existingSchedules.filter(s => !context.unit || s.unit === context.unit);
+  const staffIds = new Set(
+    [...existing, ...context.schedules]
+      .filter(s => s.date === date && s.shiftTypeId === shiftTypeId && isWorkedSchedule(s, context.unworkedDutyTypeIds))
+      .map(s => s.staffId)
+  );
+
+  return context.staff.filter(s => staffIds.has(s.id));
+}
+
+export function pushConflict(
+  context: SchedulingContext,
+  staffMember: PublicStaffWithUser,
+  date: string,
+  type: ConflictType,
+  message: string,
+  severity: ScheduleConflict["severity"]
+) {
+  context.conflicts.push({
+    type,
+    staffId: staffMember.id,
+    date,
+    message,
+    severity,
+    staffName: getStaffName(staffMember)
+  });
+}
+
+// Record a working assignment and update the staff member's load tracking
+export function recordAssignment(
+  context: SchedulingContext,
+  staffMember: PublicStaffWithUser,
+  date: string,
+  shiftTypeId: number | undefined,
+  dutyKind: DutyKind
+) {
+  context.schedules.push({
+    staffId: staffMember.id,
+    date,
+    shiftTypeId,
+    dutyTypeId: context.dutyTypeIds[dutyKind],
+    unit: context.unit
+  });
+
+  const load = context.staffLoads[staffMember.id];
+  load.consecutiveShifts++;
+  load.totalShifts++;
+  load.shiftsByDate[date] = shiftTypeId ?? null;
+  load.restDays = 0;
+
+  const pattern = context.staffDutyPatterns[staffMember.id];
+  pattern[dutyKind] += 1;
+
+  const { day, evening, night } = context.shiftTypeIds;
+  if (shiftTypeId !== undefined) {
+    load.workedDates.push(date);
+    addWeeklyHours(context, getWeekKey(date), staffMember.id, shiftTypeId);
+  }
+  if (shiftTypeId !== undefined && context.overnightShiftTypeIds.has(shiftTypeId)) {
+    load.nightShifts++;
+    load.nightDates.push(date);
+  }
+  if (context.trackShiftCounts) {
+    if (shiftTypeId === day) pattern.dayShift += 1;
+    else if (shiftTypeId === evening) pattern.eveningShift += 1;
+    else if (shiftTypeId === night) pattern.nightShift += 1;
+  }
+
+  const weekKey = getWeekKey(date);
+  context.weeklySchedules[weekKey][staffMember.id] = (context.weeklySchedules[weekKey][staffMember.id] || 0) + 1;
+}
+
+// Record a non-working duty day (no shift) that resets the consecutive count
+export function recordRestDay(
+  context: SchedulingContext,
+  staffMember: PublicStaffWithUser,
+  date: string,
+  dutyKind: DutyKind
+) {
+  context.schedules.push({
+    staffId: staffMember.id,
+    date,
+    shiftTypeId: null,
+    dutyTypeId: context.dutyTypeIds[dutyKind],
+    unit: context.unit
+  });
+
+  const load = context.staffLoads[staffMember.id];
+  load.consecutiveShifts = 0;
+  load.restDays++;
+  delete load.shiftsByDate[date];
+
+  context.staffDutyPatterns[staffMember.id][dutyKind] += 1;
+}
+
+// Record a warning for every labour rule the assignment would break
+export function checkLabourRules(
+  context: SchedulingContext,
+  staffMember: PublicStaffWithUser,
+  date: string,
+  shiftTypeId: number | undefined
+) {
+  const { rules } = context;
+  const load = context.staffLoads[staffMember.id];
+
+  if (load.consecutiveShifts >= rules.maxConsecutiveShifts) {
+    pushConflict(context, staffMember, date, ConflictType.CONSECUTIVE_SHIFTS, `Exceeds maximum consecutive shifts (${rules.maxConsecutiveShifts})`, "warning");
+  }
+
+  if (getWeeklyShiftCount(context, staffMember.id, date) >= rules.maxShiftsPerWeek) {
+    pushConflict(context, staffMember, date, ConflictType.EXCEEDS_WEEKLY_SHIFTS, `Exceeds maximum weekly shifts (${rules.maxShiftsPerWeek})`, "warning");
+  }
+
+  const weeklyHours = context.weeklyHours[getWeekKey(date)]?.[staffMember.id] || 0;
+  const shiftHours = shiftTypeId !== undefined ? context.shiftHours[shiftTypeId] || 0 : 0;
+  if (weeklyHours + shiftHours > rules.maxHoursPerWeek) {
+    pushConflict(context, staffMember, date, ConflictType.EXCEEDS_WEEKLY_HOURS, `Exceeds maximum weekly hours (${rules.maxHoursPerWeek}h)`, "warning");
+  }
+
+  if (shiftTypeId !== undefined && context.overnightShiftTypeIds.has(shiftTypeId)) {
+    const nightsInPeriod = load.nightDates.filter(d => {
+      const diff = daysBetween(d, date);
+      return diff >= 0 && diff < rules.nightShiftPeriodDays;
+    }).length;
+    if (nightsInPeriod >= rules.maxNightShiftsPerPeriod) {
+      pushConflict(context, staffMember, date, ConflictType.NIGHT_SHIFT_LIMIT, `Exceeds maximum night shifts (${rules.maxNightShiftsPerPeriod} per ${rules.nightShiftPeriodDays} days)`, "warning");
+    }
+  }
+
+  // Working this date must still leave the minimum days off in the fortnight ending on it
+  const workedInFortnight = load.workedDates.filter(d => {
+    const diff = daysBetween(d, date);
+    return diff > 0 && diff < 14;
+  }).length;
+  if (workedInFortnight + 1 > 14 - rules.minDaysOffPerFortnight) {
+    pushConflict(context, staffMember, date, ConflictType.INSUFFICIENT_DAYS_OFF, `Fewer than ${rules.minDaysOffPerFortnight} days off in 14 days`, "warning");
+  }
+}
+
+// Hours off between this shift and the staff member's shift on the day before or the day
+// after, whichever is shorter; null when neither neighbouring day has a shift
+export function getRestAroundShift(
+  context: SchedulingContext,
+  staffId: number,
+  date: string,
+  shiftTypeId: number | undefined
+): number | null {
+  const shift = shiftTypeId !== undefined ? context.shiftTypesById[shiftTypeId] : undefined;
+  if (!shift) return null;
+
+  const { shiftsByDate } = context.staffLoads[staffId];
+  const shiftOn = (day: string) => {
+    const id = shiftsByDate[day];
+    return id != null ? context.shiftTypesById[id] : undefined;
+  };
+
+  const interval = getShiftInterval(date, shift);
+  const previousDay = getPreviousDay(date);
+  const nextDay = getNextDay(date);
+  const before = shiftOn(previousDay);
+  const after = shiftOn(nextDay);
+  const rests = [
+    ...(before ? [getRestHours(getShiftInterval(previousDay, before), interval)] : []),
+    ...(after ? [getRestHours(interval, getShiftInterval(nextDay, after))] : []),
+  ];
+
+  return rests.length > 0 ? Math.min(...rests) : null;
+}
+
+export interface FillShiftOptions {
+  shiftTypeId: number | undefined;
+  count: number;
+  // Reject staff who already hold an existing assignment on the date
+  checkExistingAssignment?: boolean;
+}
+
+// Preference penalty for giving a staff member this shift, counting the nights
+// they already have that month
+export function getAssignmentPreferencePenalty(
+  context: SchedulingContext,
+  staffMember: PublicStaffWithUser,
+  date: string,
+  shiftTypeId: number
+): number {
+  let penalty = getShiftPreferencePenalty(staffMember, shiftTypeId, getWeekday(date));
+
+  const { maxNightsPerMonth } = staffMember;
+  if (maxNightsPerMonth !== null && context.overnightShiftTypeIds.has(shiftTypeId)) {
+    const month = getMonthKey(date);
+    const nights = context.staffLoads[staffMember.id].nightDates.filter(d => getMonthKey(d) === month).length;
+    if (nights >= maxNightsPerMonth) {
+      penalty += PREFERENCE_WEIGHTS.nightOverMonthlyLimit;
+    }
+  }
+
+  return penalty;
+}
+
+// Walk the candidates in order and assign the shift to up to `count` of them.
+// Staff whose preferences the shift breaks go after those it suits; the sort is
+// stable, so the caller's ordering still decides within each group.
+// Limit breaches are recorded as warnings; only error-severity checks block assignment.
+export function fillShift(
+  context: SchedulingContext,
+  candidates: PublicStaffWithUser[],
+  date: string,
+  assigned: Set<number>,
+  { shiftTypeId, count, checkExistingAssignment }: FillShiftOptions
+): number {
+  let assignedCount = 0;
+
+  const penalties = new Map(candidates.map(s => [
+    s.id,
+    shiftTypeId === undefined ? 0 : getAssignmentPreferencePenalty(context, s, date, shiftTypeId),
+  ]));
+  const ordered = [...candidates].sort((a, b) => penalties.get(a.id)! - penalties.get(b.id)!);
+
+  for (const staffMember of ordered) {
+    if (assignedCount >= count) break;
+
+    let blocked = false;
+
+    if (checkExistingAssignment && context.existingSchedules.some(s => s.staffId === staffMember.id && s.date === date)) {
+      pushConflict(context, staffMember, date, ConflictType.EXISTING_ASSIGNMENT, `Staff already has an assignment on ${date}`, "error");
+      blocked = true;
+    }
+
+    checkLabourRules(context, staffMember, date, shiftTypeId);
+
+    // Quick returns either side of the shift are a hard constraint
+    const restHours = getRestAroundShift(context, staffMember.id, date, shiftTypeId);
+    if (restHours !== null && restHours < context.rules.minRestHours) {
+      if (context.reportRestViolations) {
+        pushConflict(context, staffMember, date, ConflictType.REST_PERIOD_VIOLATION, `Insufficient rest period (${Math.round(restHours)}h < ${context.rules.minRestHours}h)`, "error");
+      }
+      continue;
+    }
+
+    if (blocked) continue;
+
+    recordAssignment(context, staffMember, date, shiftTypeId, "duty");
+    assigned.add(staffMember.id);
+    assignedCount++;
+  }
+
+  return assignedCount;
+}
@@ -0,0 +1,168 @@
+import { CoverageRequirement, PublicStaffWithUser, SkillMixRule } from "@shared/schema";
+import { ConflictType } from "./types";
+import { FillShiftOptions, SchedulingContext, fillShift, getStaffOnShift } from "./context";
+import { getWeekday } from "./dates";
+import {
+  describeSkillMixShortfall,
+  findSkillMixShortfalls,
+  getSkillMixRulesFor,
+  matchesSkillMixRule
+} from "./skill-mix";
+
+// Date rows replace the weekday rows for that day
+function forDay(requirements: CoverageRequirement[], date: string): CoverageRequirement[] {
+  const dateRows = requirements.filter(r => r.date === date);
+  if (dateRows.length > 0) return dateRows;
+
+  const weekday = getWeekday(date);
+  return requirements.filter(r => r.date === null && r.weekday === weekday);
+}
+
+// Requirements in force for one shift on one date; a unit's own rows replace the generic ones
+export function getCoverageRequirementsFor(
+  requirements: CoverageRequirement[],
+  date: string,
+  shiftTypeId: number,
+  unit?: string | null
+): CoverageRequirement[] {
+  const forShift = requirements.filter(r => r.shiftTypeId === shiftTypeId);
+
+  if (unit) {
+    const unitRows = forDay(forShift.filter(r => r.unit === unit), date);
+    if (unitRows.length > 0) return unitRows;
+  }
+
+  return forDay(forShift.filter(r => r.unit === null), date);
+}
+
+// Staff on the shift, optionally only those with the given role
+export function countCoverage(
+  context: SchedulingContext,
+  date: string,
+  shiftTypeId: number,
+  role: string | null
+): number {
+  return getStaffOnShift(context, date, shiftTypeId).filter(s => !role || s.role === role).length;
+}
+
+// Shift types with a coverage requirement or skill mix in force on this date
+export function getCoveredShifts(context: SchedulingContext, date: string): number[] {
+  const shiftTypeIds = new Set([
+    ...context.coverageRequirements.map(r => r.shiftTypeId),
+    ...context.skillMixRules.map(r => r.shiftTypeId),
+  ]);
+
+  return Array.from(shiftTypeIds).filter(id =>
+    getCoverageRequirementsFor(context.coverageRequirements, date, id, context.unit).length > 0 ||
+    getSkillMixRulesFor(context.skillMixRules, id, context.unit).length > 0
+  );
+}
+
+// Covered shift types other than the standard day/evening/night, which strategies fill themselves
+export function getAdditionalCoveredShifts(context: SchedulingContext, date: string): number[] {
+  const { day, evening, night } = context.shiftTypeIds;
+  return getCoveredShifts(context, date).filter(id => id !== day && id !== evening && id !== night);
+}
+
+// Seat every shift's skill mix for the date before any shift is filled, so an
+// earlier shift can't use up the staff a later shift's mix depends on. Rules
+// with the fewest matching staff pick first.
+export function seatSkillMix(
+  context: SchedulingContext,
+  candidates: PublicStaffWithUser[],
+  date: string,
+  assigned: Set<number>
+) {
+  const shiftTypeIds = Array.from(new Set(context.skillMixRules.map(r => r.shiftTypeId)));
+  const rules = shiftTypeIds.flatMap(id => getSkillMixRulesFor(context.skillMixRules, id, context.unit));
+  const poolFor = (rule: SkillMixRule) =>
+    candidates.filter(s => !assigned.has(s.id) && matchesSkillMixRule(s, rule));
+  const ordered = [...rules].sort((a, b) => poolFor(a).length - poolFor(b).length);
+
+  for (const rule of ordered) {
+    const onShift = getStaffOnShift(context, date, rule.shiftTypeId);
+    const needed = rule.minCount - onShift.filter(s => matchesSkillMixRule(s, rule)).length;
+    if (needed > 0) {
+      fillShift(context, poolFor(rule), date, assigned, {
+        shiftTypeId: rule.shiftTypeId,
+        count: needed,
+        checkExistingAssignment: true,
+      });
+    }
+  }
+}
+
+// Report any coverage requirement or skill-mix rule the finished shift falls short of
+export function checkCoverage(context: SchedulingContext, date: string, shiftTypeId: number) {
+  const shiftName = context.shiftTypesById[shiftTypeId]?.name ?? "Shift";
+
+  getCoverageRequirementsFor(context.coverageRequirements, date, shiftTypeId, context.unit).forEach(requirement => {
+    const covered = countCoverage(context, date, shiftTypeId, requirement.role);
+    if (covered >= requirement.targetStaff) return;
+
+    const belowMinimum = covered < requirement.minStaff;
+    const staffLabel = requirement.role ? `${requirement.role} staff` : "staff";
+    context.conflicts.push({
+      type: ConflictType.UNDERSTAFFED,
+      date,
+      message: belowMinimum
+        ? `${shiftName} has ${covered} ${staffLabel}, below the minimum of ${requirement.minStaff}`
+        : `${shiftName} has ${covered} ${staffLabel}, below the target of ${requirement.targetStaff}`,
+      severity: belowMinimum ? "error" : "warning",
+    });
+  });
+
+  const rules = getSkillMixRulesFor(context.skillMixRules, shiftTypeId, context.unit);
+  findSkillMixShortfalls(rules, getStaffOnShift(context, date, shiftTypeId)).forEach(shortfall => {
+    context.conflicts.push({
+      type: ConflictType.SKILL_MIX_VIOLATION,
+      date,
+      message: describeSkillMixShortfall(shiftName, shortfall),
+      severity: "error",
+    });
+  });
+}
+
+// Staff a shift to its coverage targets, reporting any shortfall in headcount or
+// skill mix. Without coverage requirements for the shift this falls back to
+// `count`, the strategy's own sizing, which includes anyone seated by seatSkillMix.
+export function coverShift(
+  context: SchedulingContext,
+  candidates: PublicStaffWithUser[],
+  date: string,
+  assigned: Set<number>,
+  options: FillShiftOptions
+): number {
+  const { shiftTypeId } = options;
+  if (shiftTypeId === undefined) {
+    return fillShift(context, candidates, date, assigned, options);
+  }
+
+  const remaining = candidates.filter(s => !assigned.has(s.id));
+  const requirements = getCoverageRequirementsFor(context.coverageRequirements, date, shiftTypeId, context.unit);
+  let assignedCount = 0;
+
+  if (requirements.length === 0) {
+    const seated = context.schedules.filter(s => s.date === date && s.shiftTypeId === shiftTypeId).length;
+    assignedCount = fillShift(context, remaining, date, assigned, {
+      ...options,
+      count: Math.max(0, options.count - seated),
+    });
+  } else {
+    // Role-specific requirements first, so an any-role requirement counts them too
+    const ordered = [...requirements].sort((a, b) => (a.role ? 0 : 1) - (b.role ? 0 : 1));
+
+    for (const requirement of ordered) {
+      const needed = requirement.targetStaff - countCoverage(context, date, shiftTypeId, requirement.role);
+      if (needed > 0) {
+        const pool = remaining.filter(s =>
+          !assigned.has(s.id) && (!requirement.role || s.role === requirement.role)
+        );
+        assignedCount += fillShift(context, pool, date, assigned, { ...options, count: needed });
+      }
+    }
+  }
+
+  checkCoverage(context, date, shiftTypeId);
+  return assignedCount;
+}
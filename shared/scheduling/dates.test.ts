@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { getRestHours, getShiftInterval } from "./dates";
+
+const HOUR = 1000 * 60 * 60;
+
+const day = { startTime: "07:00", endTime: "19:00" };
+const night = { startTime: "19:00", endTime: "07:00" };
+const late = { startTime: "14:00", endTime: "22:00" };
+
+describe("getShiftInterval", () => {
+  it("keeps a day shift on its own date", () => {
+    const { start, end } = getShiftInterval("2025-03-03", day);
+
+    expect(new Date(start).toISOString()).toBe("2025-03-03T07:00:00.000Z");
+    expect(new Date(end).toISOString()).toBe("2025-03-03T19:00:00.000Z");
+  });
+
+  it("ends a shift that crosses midnight on the following morning", () => {
+    const { start, end } = getShiftInterval("2025-03-03", night);
+
+    expect(new Date(start).toISOString()).toBe("2025-03-03T19:00:00.000Z");
+    expect(new Date(end).toISOString()).toBe("2025-03-04T07:00:00.000Z");
+  });
+
+  it("treats a shift ending at its start time as a full day", () => {
+    const { start, end } = getShiftInterval("2025-03-03", { startTime: "08:00", endTime: "08:00" });
+
+    expect(end - start).toBe(24 * HOUR);
+  });
+});
+
+describe("getRestHours", () => {
+  it("finds no rest between a night shift and a day shift the next morning", () => {
+    expect(getRestHours(getShiftInterval("2025-03-03", night), getShiftInterval("2025-03-04", day))).toBe(0);
+  });
+
+  it("counts rest from the morning a night shift ends", () => {
+    expect(getRestHours(getShiftInterval("2025-03-03", night), getShiftInterval("2025-03-04", late))).toBe(7);
+    expect(getRestHours(getShiftInterval("2025-03-03", night), getShiftInterval("2025-03-04", night))).toBe(12);
+  });
+
+  it("is negative when the shifts overlap", () => {
+    expect(getRestHours(getShiftInterval("2025-03-03", night), getShiftInterval("2025-03-04", { startTime: "06:00", endTime: "14:00" }))).toBe(-1);
+  });
+
+  describe("across daylight saving changes", () => {
+    const originalTimeZone = process.env.TZ;
+
+    afterEach(() => {
+      if (originalTimeZone === undefined) delete process.env.TZ;
+      else process.env.TZ = originalTimeZone;
+    });
+
+    // Clocks go forward overnight on 2025-03-09 in New York and on 2025-03-30 in London,
+    // and back on 2025-11-02 and 2025-10-26
+    it.each([
+      ["America/New_York", "2025-03-08"],
+      ["America/New_York", "2025-11-01"],
+      ["Europe/London", "2025-03-29"],
+      ["Europe/London", "2025-10-25"],
+    ])("uses wall-clock hours in %s for a night starting %s", (timeZone, date) => {
+      process.env.TZ = timeZone;
+      const nightShift = getShiftInterval(date, night);
+      const nextDate = new Date(nightShift.end).toISOString().split("T")[0];
+
+      expect(nightShift.end - nightShift.start).toBe(12 * HOUR);
+      expect(getRestHours(nightShift, getShiftInterval(nextDate, day))).toBe(0);
+      expect(getRestHours(nightShift, getShiftInterval(nextDate, late))).toBe(7);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { ShiftType } from "@shared/schema";
+
+// All calendar arithmetic is done in UTC on YYYY-MM-DD strings so results don't
+// depend on the server/browser time zone or shift by an hour across DST changes.
+// Shift times are wall-clock times, so intervals are modelled on the same UTC
+// timeline: a 19:00–07:00 shift is always 12 hours, whatever the local offset.
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+const MS_PER_DAY = MS_PER_HOUR * 24;
+
+function parseDate(dateString: string): number {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+export function addDays(dateString: string, days: number): string {
+  return formatDate(parseDate(dateString) + days * MS_PER_DAY);
+}
+
+export function getPreviousDay(dateString: string): string {
+  return addDays(dateString, -1);
+}
+
+export function getNextDay(dateString: string): string {
+  return addDays(dateString, 1);
+}
+
+// Whole days from `from` to `to` (negative when `to` is earlier)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to) - parseDate(from)) / MS_PER_DAY);
+}
+
+export function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = getNextDay(date)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Day of the week, 0 (Sunday) to 6 (Saturday)
+export function getWeekday(dateString: string): number {
+  return new Date(parseDate(dateString)).getUTCDay();
+}
+
+// Week start (Sunday) for any date, used to bucket weekly shift counts
+export function getWeekKey(dateString: string): string {
+  return addDays(dateString, -getWeekday(dateString));
+}
+
+// Calendar month of a date, e.g. "2024-03", used to bucket monthly night counts
+export function getMonthKey(dateString: string): string {
+  return dateString.slice(0, 7);
+}
+
+export interface ShiftInterval {
+  start: number;
+  end: number;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Interval worked for a shift starting on `date`; shifts ending at or before
+// their start time finish on the following day
+export function getShiftInterval(
+  date: string,
+  shift: Pick<ShiftType, "startTime" | "endTime">
+): ShiftInterval {
+  const dayStart = parseDate(date);
+  const startMinutes = minutesOf(shift.startTime);
+  let endMinutes = minutesOf(shift.endTime);
+  if (endMinutes <= startMinutes) {
+    endMinutes += 24 * 60;
+  }
+
+  return {
+    start: dayStart + startMinutes * 60 * 1000,
+    end: dayStart + endMinutes * 60 * 1000,
+  };
+}
+
+export function isOvernightShift(shift: Pick<ShiftType, "startTime" | "endTime">): boolean {
+  return minutesOf(shift.endTime) <= minutesOf(shift.startTime);
+}
+
+// Hours off between the end of `earlier` and the start of `later`; negative when they overlap
+export function getRestHours(earlier: ShiftInterval, later: ShiftInterval): number {
+  return (later.start - earlier.end) / MS_PER_HOUR;
+}
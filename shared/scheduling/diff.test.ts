@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { ScheduleDiffRow, diffSchedules } from "./diff";
+
+const DAY = 1;
+const NIGHT = 2;
+const DUTY = 2;
+const LEAVE = 4;
+
+function row(staffId: number, date: string, shiftTypeId: number | null, dutyTypeId = DUTY, unit: string | null = "ICU"): ScheduleDiffRow {
+  return { staffId, date, shiftTypeId, dutyTypeId, unit };
+}
+
+describe("diffSchedules", () => {
+  it("finds nothing between identical snapshots", () => {
+    const rows = [row(1, "2025-03-03", DAY), row(2, "2025-03-03", NIGHT)];
+
+    expect(diffSchedules(rows, rows.map(r => ({ ...r })))).toEqual({ added: 0, removed: 0, changed: 0, staff: [] });
+  });
+
+  it("matches assignments by staff member and date, whatever order they come in", () => {
+    const before = [row(1, "2025-03-03", DAY), row(1, "2025-03-04", DAY)];
+    const after = [row(1, "2025-03-04", DAY), row(1, "2025-03-03", DAY)];
+
+    expect(diffSchedules(before, after).staff).toEqual([]);
+  });
+
+  it("reports added, removed and changed assignments", () => {
+    const diff = diffSchedules(
+      [row(1, "2025-03-03", DAY), row(1, "2025-03-04", DAY)],
+      [row(1, "2025-03-04", NIGHT), row(1, "2025-03-05", DAY)]
+    );
+
+    expect(diff).toMatchObject({ added: 1, removed: 1, changed: 1 });
+    expect(diff.staff).toEqual([{
+      staffId: 1,
+      changes: [
+        { type: "removed", staffId: 1, date: "2025-03-03", before: row(1, "2025-03-03", DAY), after: null, fields: [] },
+        { type: "changed", staffId: 1, date: "2025-03-04", before: row(1, "2025-03-04", DAY), after: row(1, "2025-03-04", NIGHT), fields: ["shiftTypeId"] },
+        { type: "added", staffId: 1, date: "2025-03-05", before: null, after: row(1, "2025-03-05", DAY), fields: [] },
+      ],
+    }]);
+  });
+
+  it("lists every field that changed", () => {
+    const diff = diffSchedules([row(1, "2025-03-03", DAY)], [row(1, "2025-03-03", null, LEAVE, "Ward 2")]);
+
+    expect(diff.staff[0].changes[0].fields).toEqual(["shiftTypeId", "dutyTypeId", "unit"]);
+  });
+
+  it("groups changes by staff member in date order", () => {
+    const diff = diffSchedules([], [
+      row(2, "2025-03-04", DAY),
+      row(1, "2025-03-05", DAY),
+      row(2, "2025-03-03", DAY),
+    ]);
+
+    expect(diff.staff.map(s => [s.staffId, s.changes.map(c => c.date)])).toEqual([
+      [1, ["2025-03-05"]],
+      [2, ["2025-03-03", "2025-03-04"]],
+    ]);
+  });
+
+  it("treats a missing unit the same as no unit", () => {
+    const before = [{ staffId: 1, date: "2025-03-03", shiftTypeId: DAY, dutyTypeId: DUTY } as ScheduleDiffRow];
+
+    expect(diffSchedules(before, [row(1, "2025-03-03", DAY, DUTY, null)]).changed).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+import { Schedule } from "@shared/schema";
+
+// The parts of an assignment a diff compares; row ids differ between snapshots
+export type ScheduleDiffRow = Pick<Schedule, "staffId" | "date" | "shiftTypeId" | "dutyTypeId" | "unit">;
+
+export type ScheduleDiffField = "shiftTypeId" | "dutyTypeId" | "unit";
+
+export const SCHEDULE_DIFF_FIELDS: ScheduleDiffField[] = ["shiftTypeId", "dutyTypeId", "unit"];
+
+export interface ScheduleChange {
+  type: "added" | "removed" | "changed";
+  staffId: number;
+  date: string;
+  before: ScheduleDiffRow | null;
+  after: ScheduleDiffRow | null;
+  // Fields that differ; empty for added and removed assignments
+  fields: ScheduleDiffField[];
+}
+
+export interface StaffScheduleDiff {
+  staffId: number;
+  changes: ScheduleChange[];
+}
+
+export interface ScheduleDiff {
+  added: number;
+  removed: number;
+  changed: number;
+  // Staff with at least one change, each with their changes in date order
+  staff: StaffScheduleDiff[];
+}
+
+function toDiffRow({ staffId, date, shiftTypeId, dutyTypeId, unit }: ScheduleDiffRow): ScheduleDiffRow {
+  return { staffId, date, shiftTypeId: shiftTypeId ?? null, dutyTypeId, unit: unit ?? null };
+}
+
+const keyOf = (row: ScheduleDiffRow) => `${row.staffId}|${row.date}`;
+
+// Compare two snapshots, matching assignments by staff member and date
+export function diffSchedules(before: ScheduleDiffRow[], after: ScheduleDiffRow[]): ScheduleDiff {
+  const beforeByKey = new Map(before.map(row => [keyOf(row), toDiffRow(row)]));
+  const afterByKey = new Map(after.map(row => [keyOf(row), toDiffRow(row)]));
+  const changes: ScheduleChange[] = [];
+
+  afterByKey.forEach((next, key) => {
+    const previous = beforeByKey.get(key);
+    if (!previous) {
+      changes.push({ type: "added", staffId: next.staffId, date: next.date, before: null, after: next, fields: [] });
+      return;
+    }
+    const fields = SCHEDULE_DIFF_FIELDS.filter(field => previous[field] !== next[field]);
+    if (fields.length > 0) {
+      changes.push({ type: "changed", staffId: next.staffId, date: next.date, before: previous, after: next, fields });
+    }
+  });
+
+  beforeByKey.forEach((previous, key) => {
+    if (!afterByKey.has(key)) {
+      changes.push({ type: "removed", staffId: previous.staffId, date: previous.date, before: previous, after: null, fields: [] });
+    }
+  });
+
+  const byStaff = new Map<number, ScheduleChange[]>();
+  for (const change of changes.sort((a, b) => a.staffId - b.staffId || a.date.localeCompare(b.date))) {
+    byStaff.set(change.staffId, [...(byStaff.get(change.staffId) ?? []), change]);
+  }
+
+  return {
+    added: changes.filter(c => c.type === "added").length,
+    removed: changes.filter(c => c.type === "removed").length,
+    changed: changes.filter(c => c.type === "changed").length,
+    staff: Array.from(byStaff, ([staffId, staffChanges]) => ({ staffId, changes: staffChanges })),
+  };
+}
@@ -0,0 +1,57 @@
+import { DutyCycle, DutyType, ShiftType } from "@shared/schema";
+import type { DutyKind } from "./context";
+
+// The cycle in force: a unit's own cycle replaces the generic one
+export function getDutyCycleFor(cycles: DutyCycle[], unit?: string | null): DutyCycle | undefined {
+  const sorted = [...cycles].sort((a, b) => a.id - b.id);
+  return (unit ? sorted.find(c => c.unit === unit) : undefined) ?? sorted.find(c => c.unit === null);
+}
+
+// Duty types the generator uses for a working day and the days either side of it.
+// With a cycle these are its duty step (the first in the duty category, else the first
+// that counts as worked) and the steps just before and after; without one, the first
+// duty type in each category. Missing parts are 0.
+export function resolveDutyTypeIds(dutyTypes: DutyType[], cycle?: DutyCycle): Record<DutyKind, number> {
+  const byCategory = {
+    preDuty: dutyTypes.find(dt => dt.category === "pre_duty")?.id ?? 0,
+    duty: dutyTypes.find(dt => dt.category === "duty")?.id ?? 0,
+    postDuty: dutyTypes.find(dt => dt.category === "post_duty")?.id ?? 0,
+  };
+  if (!cycle) return byCategory;
+
+  const dutyTypesById = new Map(dutyTypes.map(dt => [dt.id, dt]));
+  const steps = cycle.steps.filter(id => dutyTypesById.has(id));
+  const categoryIndex = steps.findIndex(id => dutyTypesById.get(id)!.category === "duty");
+  const dutyIndex = categoryIndex !== -1
+    ? categoryIndex
+    : steps.findIndex(id => dutyTypesById.get(id)!.countsAsWorked);
+  if (dutyIndex === -1) return byCategory;
+
+  return {
+    preDuty: steps[dutyIndex - 1] ?? byCategory.preDuty,
+    duty: steps[dutyIndex],
+    postDuty: steps[dutyIndex + 1] ?? byCategory.postDuty,
+  };
+}
+
+// First shift type in each category, for strategies that staff day, evening and night in turn
+export function resolveShiftTypeIds(shiftTypes: ShiftType[]): { day?: number; evening?: number; night?: number } {
+  return {
+    day: shiftTypes.find(st => st.category === "day")?.id,
+    evening: shiftTypes.find(st => st.category === "evening")?.id,
+    night: shiftTypes.find(st => st.category === "night")?.id,
+  };
+}
+
+// Ids of duty types whose shifts don't count toward hours, shift counts or rest
+export function getUnworkedDutyTypeIds(dutyTypes: DutyType[]): Set<number> {
+  return new Set(dutyTypes.filter(dt => !dt.countsAsWorked).map(dt => dt.id));
+}
+
+// A schedule row with a shift under a duty type that counts as worked time
+export function isWorkedSchedule(
+  schedule: { shiftTypeId?: number | null; dutyTypeId: number },
+  unworkedDutyTypeIds: Set<number>
+): boolean {
+  return !!schedule.shiftTypeId && !unworkedDutyTypeIds.has(schedule.dutyTypeId);
+}
@@ -0,0 +1,33 @@
+import { ScheduleInput, ScheduleResult } from "./types";
+import { DEFAULT_STRATEGY, getSchedulingStrategy } from "./registry";
+import { getStaffSatisfaction } from "./preferences";
+
+export * from "./types";
+export * from "./rules";
+export * from "./dates";
+export { getCoverageRequirementsFor } from "./coverage";
+export * from "./skill-mix";
+export * from "./preferences";
+export * from "./duty-cycles";
+export * from "./rotations";
+export * from "./diff";
+export * from "./workload";
+export { OBJECTIVE_WEIGHTS, createScheduleScorer } from "./objective";
+export { DEFAULT_MAX_ITERATIONS, DEFAULT_TIME_BUDGET_MS, optimizeSchedule } from "./optimizer";
+export { detectScheduleConflicts, hasShiftConflict, suggestAlternativeStaff } from "./conflicts";
+export {
+  DEFAULT_STRATEGY,
+  getSchedulingStrategy,
+  listSchedulingStrategies,
+  registerSchedulingStrategy
+} from "./registry";
+
+// Generate with the named strategy (the default when none is given)
+export function generateSchedule(input: ScheduleInput, strategyName: string = DEFAULT_STRATEGY): ScheduleResult {
+  const strategy = getSchedulingStrategy(strategyName);
+  if (!strategy) {
+    throw new Error(`Unknown scheduling strategy "${strategyName}"`);
+  }
+  const result = strategy.generate(input);
+  return { ...result, satisfaction: getStaffSatisfaction(input, result.schedules) };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { CoverageRequirement, DutyType, PublicStaffWithUser, Schedule, ShiftType, SkillMixRule } from "@shared/schema";
+import { OBJECTIVE_WEIGHTS, createScheduleScorer } from "./objective";
+import { ScheduleInput } from "./types";
+
+function staffMember(id: number, qualifications: string[] = []): PublicStaffWithUser {
+  return {
+    id,
+    userId: id,
+    role: "Nurse",
+    specialization: null,
+    qualifications,
+    contactInfo: null,
+    isActive: true,
+    preferredShiftTypeIds: [],
+    avoidedShiftTypeIds: [],
+    preferredDaysOff: [],
+    maxNightsPerMonth: null,
+    user: { id, username: `nurse${id}`, firstName: "Nurse", lastName: String(id), role: "staff", isActive: true },
+  };
+}
+
+const DAY = 1;
+const NIGHT = 2;
+const DUTY = 2;
+const POST_DUTY = 3;
+
+const shiftTypes: ShiftType[] = [
+  { id: DAY, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false },
+  { id: NIGHT, name: "Night", startTime: "19:00", endTime: "07:00", duration: 12, category: "night", isOvernight: true },
+];
+
+const dutyTypes: DutyType[] = [
+  { id: 1, name: "Pre-Duty", category: "pre_duty", countsAsWorked: true },
+  { id: DUTY, name: "Duty", category: "duty", countsAsWorked: true },
+  { id: POST_DUTY, name: "Post-Duty", category: "post_duty", countsAsWorked: false },
+];
+
+function input(overrides: Partial<ScheduleInput> = {}): ScheduleInput {
+  return {
+    staff: [staffMember(1), staffMember(2)],
+    shiftTypes,
+    dutyTypes,
+    availabilities: [],
+    startDate: "2025-03-03",
+    endDate: "2025-03-09",
+    ...overrides,
+  };
+}
+
+function shift(staffId: number, date: string, shiftTypeId: number | null, dutyTypeId = DUTY) {
+  return { staffId, date, shiftTypeId, dutyTypeId, unit: "" };
+}
+
+describe("createScheduleScorer", () => {
+  it("scores an even schedule with no penalties as zero", () => {
+    const score = createScheduleScorer(input());
+
+    expect(score([shift(1, "2025-03-03", DAY), shift(2, "2025-03-03", DAY)])).toEqual({
+      total: 0, coverage: 0, fairness: 0, preferences: 0, rest: 0, hardViolations: 0,
+    });
+  });
+
+  it("counts a quick return as a hard violation", () => {
+    const score = createScheduleScorer(input());
+
+    const result = score([shift(1, "2025-03-03", NIGHT), shift(1, "2025-03-04", DAY)]);
+
+    expect(result.hardViolations).toBe(1);
+    expect(result.rest).toBe(20);
+    // A night the day after a day shift starts a full day later
+    expect(score([shift(1, "2025-03-03", DAY), shift(1, "2025-03-04", NIGHT)]).hardViolations).toBe(0);
+  });
+
+  it("counts each missing skill-mix seat as a hard violation", () => {
+    const rule: SkillMixRule = { id: 1, shiftTypeId: NIGHT, unit: null, role: null, qualification: "Charge Nurse", minCount: 2 };
+    const score = createScheduleScorer(input({
+      staff: [staffMember(1, ["Charge Nurse"]), staffMember(2)],
+      endDate: "2025-03-03",
+      skillMixRules: [rule],
+    }));
+
+    const result = score([shift(1, "2025-03-03", NIGHT), shift(2, "2025-03-03", NIGHT)]);
+
+    expect(result.hardViolations).toBe(1);
+    expect(result.coverage).toBe(20);
+  });
+
+  it("weighs headcount below the minimum more heavily than below the target", () => {
+    const requirement: CoverageRequirement = {
+      id: 1, shiftTypeId: DAY, unit: null, role: null, weekday: null, date: "2025-03-03", minStaff: 1, targetStaff: 2,
+    };
+    const score = createScheduleScorer(input({ coverageRequirements: [requirement] }));
+
+    expect(score([]).coverage).toBe(2 + 3);
+    expect(score([shift(1, "2025-03-03", DAY)]).coverage).toBe(1);
+    expect(score([shift(1, "2025-03-03", DAY)]).total).toBe(OBJECTIVE_WEIGHTS.coverage + OBJECTIVE_WEIGHTS.fairness * 0.5);
+  });
+
+  it("penalizes an uneven spread of shifts and nights", () => {
+    const score = createScheduleScorer(input());
+
+    // Counts of 2 and 0 around a mean of 1, for both total and night shifts
+    expect(score([shift(1, "2025-03-03", NIGHT), shift(1, "2025-03-05", NIGHT)]).fairness).toBe(4);
+  });
+
+  it("leaves out rows whose duty doesn't count as worked", () => {
+    const score = createScheduleScorer(input());
+
+    expect(score([shift(1, "2025-03-03", DAY, POST_DUTY)]).fairness).toBe(0);
+  });
+
+  it("counts existing schedules the result doesn't replace", () => {
+    const existing: Schedule = { id: 1, locked: true, ...shift(1, "2025-03-02", NIGHT) };
+    const score = createScheduleScorer(input({ existingSchedules: [existing] }));
+
+    expect(score([shift(1, "2025-03-03", DAY)]).hardViolations).toBe(1);
+    expect(score([shift(1, "2025-03-03", DAY), shift(1, "2025-03-02", null)]).hardViolations).toBe(0);
+  });
+});
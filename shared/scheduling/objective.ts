@@ -0,0 +1,231 @@
+import { InsertSchedule, PublicStaffWithUser } from "@shared/schema";
+import { ScheduleInput, ScheduleScore } from "./types";
+import { DEFAULT_LABOUR_RULES } from "./rules";
+import {
+  daysBetween,
+  getDatesInRange,
+  getMonthKey,
+  getShiftInterval,
+  getWeekKey,
+  getWeekday
+} from "./dates";
+import { getCoverageRequirementsFor } from "./coverage";
+import { findSkillMixShortfalls, getSkillMixRulesFor } from "./skill-mix";
+import { getPreferencePenalty } from "./preferences";
+import { getUnworkedDutyTypeIds, isWorkedSchedule } from "./duty-cycles";
+
+// Relative weight of each penalty in the total score
+export const OBJECTIVE_WEIGHTS = {
+  coverage: 10,
+  fairness: 1,
+  preferences: 5,
+  rest: 5,
+};
+
+// Penalty per quick return or missing skill-mix seat, on top of counting it as a hard violation
+const HARD_VIOLATION_PENALTY = 20;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+type ScoredSchedule = Pick<InsertSchedule, "staffId" | "date" | "shiftTypeId" | "dutyTypeId" | "unit">;
+
+function sumSquaredDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Runs grow quadratically past two days, with a steep step past the consecutive-shift limit
+function runPenalty(run: number, maxConsecutiveShifts: number): number {
+  return Math.max(0, run - 2) ** 2 + 10 * Math.max(0, run - maxConsecutiveShifts);
+}
+
+// Build a scorer for one generator input. Existing schedules the result doesn't
+// replace are counted alongside it, as they would be once the result is saved.
+export function createScheduleScorer(input: ScheduleInput): (schedules: ScoredSchedule[]) => ScheduleScore {
+  const rules = input.rules ?? DEFAULT_LABOUR_RULES;
+  const unit = input.unit;
+  const dates = getDatesInRange(input.startDate, input.endDate);
+  const staffById = new Map<number, PublicStaffWithUser>(input.staff.map(s => [s.id, s]));
+  const unworkedDutyTypeIds = getUnworkedDutyTypeIds(input.dutyTypes);
+  const existing = (input.existingSchedules ?? []).filter(s => isWorkedSchedule(s, unworkedDutyTypeIds));
+
+  const coverageRequirements = input.coverageRequirements ?? [];
+  const skillMixRules = input.skillMixRules ?? [];
+  const ruledShiftTypeIds = Array.from(new Set([
+    ...coverageRequirements.map(r => r.shiftTypeId),
+    ...skillMixRules.map(r => r.shiftTypeId),
+  ]));
+  const coveredShifts = dates
+    .flatMap(date => ruledShiftTypeIds.map(shiftTypeId => ({
+      key: `${date}:${shiftTypeId}`,
+      requirements: getCoverageRequirementsFor(coverageRequirements, date, shiftTypeId, unit),
+      mixRules: getSkillMixRulesFor(skillMixRules, shiftTypeId, unit),
+    })))
+    .filter(shift => shift.requirements.length > 0 || shift.mixRules.length > 0);
+
+  // Scoring runs thousands of times per optimization, so date and shift arithmetic is
+  // done once up front: days as offsets from the start date, shifts as hour offsets
+  // from the start of their day
+  const dayStart = getShiftInterval(input.startDate, { startTime: "00:00", endTime: "00:00" }).start;
+  const startWeekday = getWeekday(input.startDate);
+  const shiftInfo = new Map(input.shiftTypes.map(shift => {
+    const interval = getShiftInterval(input.startDate, shift);
+    return [shift.id, {
+      duration: shift.duration,
+      overnight: shift.isOvernight,
+      startHour: (interval.start - dayStart) / MS_PER_HOUR,
+      endHour: (interval.end - dayStart) / MS_PER_HOUR,
+    }];
+  }));
+  const dayNumbers = new Map<string, number>();
+  const weekKeys = new Map<string, string>();
+  const getDayNumber = (date: string) => {
+    let day = dayNumbers.get(date);
+    if (day === undefined) {
+      day = daysBetween(input.startDate, date);
+      dayNumbers.set(date, day);
+    }
+    return day;
+  };
+  const getCachedWeekKey = (date: string) => {
+    let weekKey = weekKeys.get(date);
+    if (weekKey === undefined) {
+      weekKey = getWeekKey(date);
+      weekKeys.set(date, weekKey);
+    }
+    return weekKey;
+  };
+
+  return schedules => {
+    const worked: ScoredSchedule[] = schedules.filter(s => isWorkedSchedule(s, unworkedDutyTypeIds));
+    if (existing.length > 0) {
+      const generatedKeys = new Set(schedules.map(s => `${s.staffId}:${s.date}`));
+      worked.push(...existing.filter(s => !generatedKeys.has(`${s.staffId}:${s.date}`)));
+    }
+
+    let coverage = 0;
+    let preferences = 0;
+    let rest = 0;
+    let hardViolations = 0;
+
+    // Coverage: headcount short of each requirement, weighted up below the minimum
+    const staffByShift = new Map<string, PublicStaffWithUser[]>();
+    worked.forEach(s => {
+      if (coveredShifts.length === 0) return;
+      const staffMember = staffById.get(s.staffId);
+      if (!staffMember || (unit && s.unit !== unit)) return;
+      const key = `${s.date}:${s.shiftTypeId}`;
+      const onShift = staffByShift.get(key);
+      if (onShift) onShift.push(staffMember);
+      else staffByShift.set(key, [staffMember]);
+    });
+
+    coveredShifts.forEach(({ key, requirements, mixRules }) => {
+      const onShift = staffByShift.get(key) ?? [];
+      requirements.forEach(requirement => {
+        const covered = onShift.filter(s => !requirement.role || s.role === requirement.role).length;
+        coverage += Math.max(0, requirement.targetStaff - covered) + 3 * Math.max(0, requirement.minStaff - covered);
+      });
+      findSkillMixShortfalls(mixRules, onShift).forEach(({ rule, count }) => {
+        coverage += HARD_VIOLATION_PENALTY * (rule.minCount - count);
+        hardViolations += rule.minCount - count;
+      });
+    });
+
+    // Fairness: spread of total and night shifts across staff
+    const shiftCounts = new Map<number, number>(input.staff.map(s => [s.id, 0]));
+    const nightCounts = new Map<number, number>(input.staff.map(s => [s.id, 0]));
+    const workedByStaff = new Map<number, ScoredSchedule[]>();
+    worked.forEach(s => {
+      if (!shiftCounts.has(s.staffId)) return;
+      shiftCounts.set(s.staffId, shiftCounts.get(s.staffId)! + 1);
+      if (shiftInfo.get(s.shiftTypeId!)?.overnight) {
+        nightCounts.set(s.staffId, nightCounts.get(s.staffId)! + 1);
+      }
+      const staffSchedules = workedByStaff.get(s.staffId);
+      if (staffSchedules) staffSchedules.push(s);
+      else workedByStaff.set(s.staffId, [s]);
+    });
+    const fairness = sumSquaredDeviation(Array.from(shiftCounts.values())) +
+      sumSquaredDeviation(Array.from(nightCounts.values()));
+
+    // Preferences: shifts in a unit that doesn't match the staff member's specialization,
+    // plus each staff member's own shift preferences
+    schedules.forEach(s => {
+      const specialization = staffById.get(s.staffId)?.specialization;
+      if (s.shiftTypeId && s.unit && specialization && s.unit !== specialization) {
+        preferences++;
+      }
+    });
+
+    // Rest: long runs, quick returns and weekly hours over the limit. The same pass
+    // adds each staff member's preference penalty.
+    workedByStaff.forEach((staffSchedules, staffId) => {
+      const sorted = staffSchedules
+        .map(schedule => ({
+          day: getDayNumber(schedule.date),
+          date: schedule.date,
+          shiftTypeId: schedule.shiftTypeId!,
+          shift: shiftInfo.get(schedule.shiftTypeId!),
+        }))
+        .sort((a, b) => a.day - b.day);
+
+      preferences += getPreferencePenalty(staffById.get(staffId)!, sorted.map(({ day, date, shiftTypeId, shift }) => ({
+        shiftTypeId,
+        weekday: (((startWeekday + day) % 7) + 7) % 7,
+        monthKey: getMonthKey(date),
+        overnight: shift?.overnight ?? false,
+      })));
+      const weeklyHours = new Map<string, number>();
+      let run = 1;
+
+      sorted.forEach(({ day, date, shift }, index) => {
+        const weekKey = getCachedWeekKey(date);
+        weeklyHours.set(weekKey, (weeklyHours.get(weekKey) ?? 0) + (shift?.duration ?? 0));
+
+        if (index === 0) return;
+        const previous = sorted[index - 1];
+        const gap = day - previous.day;
+
+        if (gap <= 1 && shift && previous.shift) {
+          const restHours = (day * 24 + shift.startHour) - (previous.day * 24 + previous.shift.endHour);
+          if (restHours < rules.minRestHours) {
+            rest += HARD_VIOLATION_PENALTY;
+            hardViolations++;
+          }
+        }
+
+        if (gap === 1) {
+          run++;
+        } else if (gap > 1) {
+          rest += runPenalty(run, rules.maxConsecutiveShifts);
+          run = 1;
+        }
+      });
+      rest += runPenalty(run, rules.maxConsecutiveShifts);
+
+      weeklyHours.forEach(hours => {
+        rest += Math.max(0, hours - rules.maxHoursPerWeek) / 4;
+      });
+    });
+
+    return {
+      total: round(
+        OBJECTIVE_WEIGHTS.coverage * coverage +
+        OBJECTIVE_WEIGHTS.fairness * fairness +
+        OBJECTIVE_WEIGHTS.preferences * preferences +
+        OBJECTIVE_WEIGHTS.rest * rest
+      ),
+      coverage: round(coverage),
+      fairness: round(fairness),
+      preferences: round(preferences),
+      rest: round(rest),
+      hardViolations,
+    };
+  };
+}
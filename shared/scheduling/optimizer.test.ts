@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { Availability, DutyType, InsertSchedule, PublicStaffWithUser, ShiftType, SkillMixRule } from "@shared/schema";
+import { optimizeSchedule } from "./optimizer";
+import { createScheduleScorer } from "./objective";
+import { balancedStrategy } from "./strategies/balanced";
+import { ScheduleInput } from "./types";
+
+function staffMember(id: number, qualifications: string[] = []): PublicStaffWithUser {
+  return {
+    id,
+    userId: id,
+    role: "Nurse",
+    specialization: null,
+    qualifications,
+    contactInfo: null,
+    isActive: true,
+    preferredShiftTypeIds: [],
+    avoidedShiftTypeIds: [],
+    preferredDaysOff: [],
+    maxNightsPerMonth: null,
+    user: { id, username: `nurse${id}`, firstName: "Nurse", lastName: String(id), role: "staff", isActive: true },
+  };
+}
+
+const DAY = 1;
+const NIGHT = 2;
+const DUTY = 2;
+
+const shiftTypes: ShiftType[] = [
+  { id: DAY, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false },
+  { id: NIGHT, name: "Night", startTime: "19:00", endTime: "07:00", duration: 12, category: "night", isOvernight: true },
+];
+
+const dutyTypes: DutyType[] = [
+  { id: 1, name: "Pre-Duty", category: "pre_duty", countsAsWorked: true },
+  { id: DUTY, name: "Duty", category: "duty", countsAsWorked: true },
+  { id: 3, name: "Post-Duty", category: "post_duty", countsAsWorked: true },
+];
+
+// One charge nurse must be on every night shift
+const chargeNurseOnNights: SkillMixRule = {
+  id: 1, shiftTypeId: NIGHT, unit: null, role: null, qualification: "Charge Nurse", minCount: 1,
+};
+
+function unavailable(id: number, staffId: number, date: string): Availability {
+  return { id, staffId, date, isAvailable: false, reason: null };
+}
+
+function input(overrides: Partial<ScheduleInput> = {}): ScheduleInput {
+  return {
+    staff: [1, 2, 3, 4, 5, 6, 7, 8].map(id => staffMember(id, id <= 3 ? ["Charge Nurse"] : [])),
+    shiftTypes,
+    dutyTypes,
+    availabilities: [],
+    startDate: "2025-03-03",
+    endDate: "2025-03-16",
+    skillMixRules: [chargeNurseOnNights],
+    ...overrides,
+  };
+}
+
+function shiftCounts(schedules: InsertSchedule[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  schedules.forEach(s => {
+    const key = `${s.date}:${s.shiftTypeId}:${s.dutyTypeId}`;
+    counts[key] = (counts[key] ?? 0) + 1;
+  });
+  return counts;
+}
+
+describe("optimizeSchedule", () => {
+  const options = { seed: 42, maxIterations: 400, timeBudgetMs: 60_000 };
+
+  it("gives the same result for the same seed", () => {
+    const scheduleInput = input();
+    const { schedules } = balancedStrategy.generate(scheduleInput);
+
+    const first = optimizeSchedule(scheduleInput, schedules, options);
+    const second = optimizeSchedule(scheduleInput, schedules, options);
+
+    expect(second.schedules).toEqual(first.schedules);
+    expect(second.report).toMatchObject({ seed: 42, iterations: 400, acceptedMoves: first.report.acceptedMoves, after: first.report.after });
+  });
+
+  it("never ends with more hard violations than it started with", () => {
+    const scheduleInput = input();
+    const { schedules } = balancedStrategy.generate(scheduleInput);
+    const score = createScheduleScorer(scheduleInput);
+
+    [1, 2, 3, 4, 5].forEach(seed => {
+      const result = optimizeSchedule(scheduleInput, schedules, { ...options, seed });
+
+      expect(result.report.before).toEqual(score(schedules));
+      expect(result.report.after).toEqual(score(result.schedules));
+      expect(result.report.after.hardViolations).toBeLessThanOrEqual(result.report.before.hardViolations);
+      expect(result.report.after.total).toBeLessThanOrEqual(result.report.before.total);
+    });
+  });
+
+  it("keeps each shift's headcount and one row per staff member per day", () => {
+    const scheduleInput = input();
+    const { schedules } = balancedStrategy.generate(scheduleInput);
+
+    const result = optimizeSchedule(scheduleInput, schedules, options);
+    const keys = result.schedules.map(s => `${s.staffId}:${s.date}`);
+
+    expect(shiftCounts(result.schedules)).toEqual(shiftCounts(schedules));
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("doesn't hand rows to unavailable staff or staff on a rotation", () => {
+    const scheduleInput = input({
+      availabilities: [unavailable(1, 4, "2025-03-05")],
+      staffRotations: [{ id: 1, staffId: 5, templateId: 1, startDate: "2025-03-10", endDate: null, startOffset: 0, unit: null }],
+    });
+    const { schedules } = balancedStrategy.generate(scheduleInput);
+
+    [1, 2, 3].forEach(seed => {
+      const result = optimizeSchedule(scheduleInput, schedules, { ...options, seed });
+
+      expect(result.schedules.filter(s => s.staffId === 4 && s.date === "2025-03-05")).toEqual([]);
+      expect(result.schedules.filter(s => s.staffId === 5 && s.date >= "2025-03-10")).toEqual([]);
+    });
+  });
+
+  it("returns the schedule unchanged when there is nothing to move", () => {
+    const result = optimizeSchedule(input(), [], options);
+
+    expect(result.schedules).toEqual([]);
+    expect(result.report.iterations).toBe(0);
+  });
+});
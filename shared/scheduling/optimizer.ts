@@ -0,0 +1,201 @@
+import { InsertSchedule } from "@shared/schema";
+import {
+  ConflictType,
+  OptimizationOptions,
+  OptimizationReport,
+  ScheduleConflict,
+  ScheduleInput,
+  ScheduleScore
+} from "./types";
+import {
+  DutyKind,
+  SchedulingContextOptions,
+  checkLabourRules,
+  createSchedulingContext,
+  getRestAroundShift,
+  pushConflict,
+  recordAssignment,
+  recordRestDay
+} from "./context";
+import { checkCoverage, getCoveredShifts } from "./coverage";
+import { createScheduleScorer } from "./objective";
+import { isOnRotation } from "./rotations";
+
+export const DEFAULT_TIME_BUDGET_MS = 2000;
+export const DEFAULT_MAX_ITERATIONS = 5000;
+
+// The annealing temperature falls geometrically between these over the iterations.
+// It ignores elapsed time so a seed and iteration count always replay the same search.
+const START_TEMPERATURE = 5;
+const END_TEMPERATURE = 0.05;
+
+// mulberry32: small and fast, and enough to make a run repeatable from its seed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function isBetter(a: ScheduleScore, b: ScheduleScore): boolean {
+  return a.hardViolations < b.hardViolations ||
+    (a.hardViolations === b.hardViolations && a.total < b.total);
+}
+
+// Improve a schedule by simulated annealing. Every move keeps each shift's headcount
+// and one row per staff member per day: two staff on the same date trade rows, or a
+// working row passes to someone available who has nothing that day. Moves that add
+// a hard violation are never accepted.
+export function optimizeSchedule(
+  input: ScheduleInput,
+  schedules: InsertSchedule[],
+  options: OptimizationOptions = {}
+): { schedules: InsertSchedule[]; report: OptimizationReport } {
+  const timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const score = createScheduleScorer(input);
+
+  const current = schedules.map(s => ({ ...s }));
+  const rowsByDate = new Map<string, number[]>();
+  current.forEach((s, index) => rowsByDate.set(s.date, [...(rowsByDate.get(s.date) ?? []), index]));
+  const dates = Array.from(rowsByDate.keys());
+
+  // Staff marked unavailable, already holding an existing assignment or on a rotation
+  // can't take a row
+  const blocked = new Set([
+    ...input.availabilities.filter(a => !a.isAvailable).map(a => `${a.staffId}:${a.date}`),
+    ...(input.existingSchedules ?? []).map(s => `${s.staffId}:${s.date}`),
+    ...dates.flatMap(date => input.staff
+      .filter(s => isOnRotation(input.staffRotations ?? [], s.id, date))
+      .map(s => `${s.id}:${date}`)),
+  ]);
+
+  const startedAt = Date.now();
+  const before = score(current);
+  let currentScore = before;
+  let best = current.map(s => ({ ...s }));
+  let bestScore = before;
+  let iterations = 0;
+  let acceptedMoves = 0;
+
+  while (dates.length > 0 && iterations < maxIterations) {
+    if (Date.now() - startedAt >= timeBudgetMs) break;
+    iterations++;
+
+    const temperature = START_TEMPERATURE * (END_TEMPERATURE / START_TEMPERATURE) ** (iterations / maxIterations);
+
+    const date = pick(dates);
+    const rows = rowsByDate.get(date)!;
+    const working = rows.filter(i => current[i].shiftTypeId);
+    if (working.length === 0) continue;
+
+    const row = pick(working);
+    const previousStaffId = current[row].staffId;
+    let undo: () => void;
+
+    if (random() < 0.5) {
+      const other = pick(rows);
+      if (current[other].shiftTypeId === current[row].shiftTypeId) continue;
+
+      current[row].staffId = current[other].staffId;
+      current[other].staffId = previousStaffId;
+      undo = () => {
+        current[other].staffId = current[row].staffId;
+        current[row].staffId = previousStaffId;
+      };
+    } else {
+      const onDate = new Set(rows.map(i => current[i].staffId));
+      const pool = input.staff.filter(s => !onDate.has(s.id) && !blocked.has(`${s.id}:${date}`));
+      if (pool.length === 0) continue;
+
+      current[row].staffId = pick(pool).id;
+      undo = () => {
+        current[row].staffId = previousStaffId;
+      };
+    }
+
+    const candidateScore = score(current);
+    const delta = candidateScore.total - currentScore.total;
+    if (
+      candidateScore.hardViolations > currentScore.hardViolations ||
+      (delta > 0 && random() >= Math.exp(-delta / temperature))
+    ) {
+      undo();
+      continue;
+    }
+
+    currentScore = candidateScore;
+    acceptedMoves++;
+    if (isBetter(candidateScore, bestScore)) {
+      best = current.map(s => ({ ...s }));
+      bestScore = candidateScore;
+    }
+  }
+
+  return {
+    schedules: best,
+    report: {
+      seed,
+      iterations,
+      acceptedMoves,
+      elapsedMs: Date.now() - startedAt,
+      before,
+      after: bestScore,
+    },
+  };
+}
+
+// Conflicts in a finished schedule, found by replaying it day by day through a
+// scheduling context so they match what a strategy would have reported
+export function replayConflicts(
+  input: ScheduleInput,
+  schedules: InsertSchedule[],
+  contextOptions: SchedulingContextOptions
+): ScheduleConflict[] {
+  const context = createSchedulingContext(input, { ...contextOptions, reportRestViolations: true });
+  const staffById = new Map(context.staff.map(s => [s.id, s]));
+  const { dutyTypeIds } = context;
+  const getDutyKind = (dutyTypeId: number): DutyKind =>
+    dutyTypeId === dutyTypeIds.preDuty ? "preDuty" : dutyTypeId === dutyTypeIds.postDuty ? "postDuty" : "duty";
+
+  context.dates.forEach(date => {
+    const scheduled = new Set<number>();
+
+    schedules.filter(s => s.date === date).forEach(schedule => {
+      const staffMember = staffById.get(schedule.staffId);
+      if (!staffMember) return;
+      scheduled.add(staffMember.id);
+
+      const dutyKind = getDutyKind(schedule.dutyTypeId);
+      if (!schedule.shiftTypeId) {
+        recordRestDay(context, staffMember, date, dutyKind);
+        return;
+      }
+
+      checkLabourRules(context, staffMember, date, schedule.shiftTypeId);
+      const restHours = getRestAroundShift(context, staffMember.id, date, schedule.shiftTypeId);
+      if (restHours !== null && restHours < context.rules.minRestHours) {
+        pushConflict(context, staffMember, date, ConflictType.REST_PERIOD_VIOLATION, `Insufficient rest period (${Math.round(restHours)}h < ${context.rules.minRestHours}h)`, "error");
+      }
+      recordAssignment(context, staffMember, date, schedule.shiftTypeId, dutyKind);
+    });
+
+    // Anyone without a row is off, which ends their run
+    context.staff.forEach(s => {
+      if (!scheduled.has(s.id)) {
+        context.staffLoads[s.id].consecutiveShifts = 0;
+      }
+    });
+
+    getCoveredShifts(context, date).forEach(shiftTypeId => checkCoverage(context, date, shiftTypeId));
+  });
+
+  return context.conflicts;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { DutyType, InsertSchedule, PublicStaffWithUser, Schedule, ShiftType } from "@shared/schema";
+import { PREFERENCE_WEIGHTS, PreferenceShift, getPreferencePenalty, getStaffSatisfaction } from "./preferences";
+import { ScheduleInput } from "./types";
+
+function staffMember(id: number, preferences: Partial<PublicStaffWithUser> = {}): PublicStaffWithUser {
+  return {
+    id,
+    userId: id,
+    role: "Nurse",
+    specialization: null,
+    qualifications: [],
+    contactInfo: null,
+    isActive: true,
+    preferredShiftTypeIds: [],
+    avoidedShiftTypeIds: [],
+    preferredDaysOff: [],
+    maxNightsPerMonth: null,
+    user: { id, username: `nurse${id}`, firstName: "Nurse", lastName: String(id), role: "staff", isActive: true },
+    ...preferences,
+  };
+}
+
+const DAY = 1;
+const NIGHT = 2;
+const LATE = 3;
+const DUTY = 2;
+const POST_DUTY = 3;
+
+const shiftTypes: ShiftType[] = [
+  { id: DAY, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false },
+  { id: NIGHT, name: "Night", startTime: "19:00", endTime: "07:00", duration: 12, category: "night", isOvernight: true },
+  { id: LATE, name: "Late", startTime: "14:00", endTime: "22:00", duration: 8, category: "evening", isOvernight: false },
+];
+
+const dutyTypes: DutyType[] = [
+  { id: 1, name: "Pre-Duty", category: "pre_duty", countsAsWorked: true },
+  { id: DUTY, name: "Duty", category: "duty", countsAsWorked: true },
+  { id: POST_DUTY, name: "Post-Duty", category: "post_duty", countsAsWorked: false },
+];
+
+function night(monthKey: string, weekday = 1): PreferenceShift {
+  return { shiftTypeId: NIGHT, weekday, monthKey, overnight: true };
+}
+
+function shift(staffId: number, date: string, shiftTypeId: number | null, dutyTypeId = DUTY): InsertSchedule {
+  return { staffId, date, shiftTypeId, dutyTypeId, unit: "" };
+}
+
+describe("getPreferencePenalty", () => {
+  it("counts avoided shifts in full and unpreferred ones at half", () => {
+    const staff = staffMember(1, { preferredShiftTypeIds: [DAY], avoidedShiftTypeIds: [NIGHT] });
+
+    expect(getPreferencePenalty(staff, [{ shiftTypeId: DAY, weekday: 1, monthKey: "2025-03", overnight: false }])).toBe(0);
+    expect(getPreferencePenalty(staff, [{ shiftTypeId: LATE, weekday: 1, monthKey: "2025-03", overnight: false }]))
+      .toBe(PREFERENCE_WEIGHTS.unpreferredShift);
+    // Avoiding a shift doesn't also count it as unpreferred
+    expect(getPreferencePenalty(staff, [night("2025-03")])).toBe(PREFERENCE_WEIGHTS.avoidedShift);
+  });
+
+  it("adds a penalty for working a preferred day off", () => {
+    const staff = staffMember(1, { preferredDaysOff: [0, 6] });
+
+    expect(getPreferencePenalty(staff, [night("2025-03", 6), night("2025-03", 1)])).toBe(PREFERENCE_WEIGHTS.preferredDayOff);
+  });
+
+  it("counts nights past the monthly limit separately for each month", () => {
+    const staff = staffMember(1, { maxNightsPerMonth: 1 });
+
+    expect(getPreferencePenalty(staff, [night("2025-03"), night("2025-03"), night("2025-03"), night("2025-04")]))
+      .toBe(2 * PREFERENCE_WEIGHTS.nightOverMonthlyLimit);
+    expect(getPreferencePenalty(staffMember(1, { maxNightsPerMonth: 0 }), [night("2025-03")])).toBe(PREFERENCE_WEIGHTS.nightOverMonthlyLimit);
+    expect(getPreferencePenalty(staffMember(1), [night("2025-03"), night("2025-03")])).toBe(0);
+  });
+});
+
+describe("getStaffSatisfaction", () => {
+  function input(overrides: Partial<ScheduleInput> = {}): ScheduleInput {
+    return {
+      staff: [staffMember(1, { avoidedShiftTypeIds: [NIGHT] }), staffMember(2)],
+      shiftTypes,
+      dutyTypes,
+      availabilities: [],
+      startDate: "2025-03-03",
+      endDate: "2025-03-09",
+      ...overrides,
+    };
+  }
+
+  it("scores each staff member by their penalty as a share of the shifts they work", () => {
+    const satisfaction = getStaffSatisfaction(input(), [
+      shift(1, "2025-03-03", NIGHT),
+      shift(1, "2025-03-04", DAY),
+      shift(1, "2025-03-05", DAY),
+      shift(1, "2025-03-06", DAY),
+    ]);
+
+    expect(satisfaction).toEqual([
+      { staffId: 1, staffName: "Nurse 1", shifts: 4, penalty: 1, score: 75 },
+      // Nobody is unhappy about shifts they don't work
+      { staffId: 2, staffName: "Nurse 2", shifts: 0, penalty: 0, score: 100 },
+    ]);
+  });
+
+  it("never scores below zero", () => {
+    const staff = staffMember(1, { avoidedShiftTypeIds: [NIGHT], preferredDaysOff: [1] });
+
+    const [satisfaction] = getStaffSatisfaction(input({ staff: [staff] }), [shift(1, "2025-03-03", NIGHT)]);
+
+    expect(satisfaction).toMatchObject({ penalty: 2, score: 0 });
+  });
+
+  it("leaves out rest days and duties that don't count as worked", () => {
+    const [satisfaction] = getStaffSatisfaction(input(), [
+      shift(1, "2025-03-03", null),
+      shift(1, "2025-03-04", NIGHT, POST_DUTY),
+    ]);
+
+    expect(satisfaction).toMatchObject({ shifts: 0, penalty: 0, score: 100 });
+  });
+
+  it("counts existing schedules the generated ones don't replace", () => {
+    const existing: Schedule[] = [
+      { id: 1, locked: true, ...shift(1, "2025-03-03", NIGHT) },
+      { id: 2, locked: false, ...shift(1, "2025-03-04", NIGHT) },
+    ];
+
+    const [satisfaction] = getStaffSatisfaction(input({ existingSchedules: existing }), [shift(1, "2025-03-04", DAY)]);
+
+    expect(satisfaction).toMatchObject({ shifts: 2, penalty: 1, score: 50 });
+  });
+});
@@ -0,0 +1,101 @@
+import { InsertSchedule, Staff } from "@shared/schema";
+import { ScheduleInput, StaffSatisfaction } from "./types";
+import { getMonthKey, getWeekday } from "./dates";
+import { getUnworkedDutyTypeIds, isWorkedSchedule } from "./duty-cycles";
+
+type PreferringStaff = Pick<Staff, "preferredShiftTypeIds" | "avoidedShiftTypeIds" | "preferredDaysOff" | "maxNightsPerMonth">;
+
+// How much each broken preference counts against a working shift
+export const PREFERENCE_WEIGHTS = {
+  avoidedShift: 1,
+  unpreferredShift: 0.5,
+  preferredDayOff: 1,
+  nightOverMonthlyLimit: 1,
+};
+
+// A working shift as the preference checks see it
+export interface PreferenceShift {
+  shiftTypeId: number;
+  weekday: number;
+  monthKey: string;
+  overnight: boolean;
+}
+
+// Penalty for working one shift, not counting the monthly night limit
+export function getShiftPreferencePenalty(staffMember: PreferringStaff, shiftTypeId: number, weekday: number): number {
+  let penalty = 0;
+
+  if (staffMember.avoidedShiftTypeIds.includes(shiftTypeId)) {
+    penalty += PREFERENCE_WEIGHTS.avoidedShift;
+  } else if (staffMember.preferredShiftTypeIds.length > 0 && !staffMember.preferredShiftTypeIds.includes(shiftTypeId)) {
+    penalty += PREFERENCE_WEIGHTS.unpreferredShift;
+  }
+
+  if (staffMember.preferredDaysOff.includes(weekday)) {
+    penalty += PREFERENCE_WEIGHTS.preferredDayOff;
+  }
+
+  return penalty;
+}
+
+// Penalty over a staff member's working shifts, including nights past their monthly limit
+export function getPreferencePenalty(staffMember: PreferringStaff, shifts: PreferenceShift[]): number {
+  const nightsByMonth = new Map<string, number>();
+  let penalty = 0;
+
+  shifts.forEach(shift => {
+    penalty += getShiftPreferencePenalty(staffMember, shift.shiftTypeId, shift.weekday);
+
+    if (shift.overnight && staffMember.maxNightsPerMonth !== null) {
+      const nights = (nightsByMonth.get(shift.monthKey) ?? 0) + 1;
+      nightsByMonth.set(shift.monthKey, nights);
+      if (nights > staffMember.maxNightsPerMonth) {
+        penalty += PREFERENCE_WEIGHTS.nightOverMonthlyLimit;
+      }
+    }
+  });
+
+  return penalty;
+}
+
+// 100 when every shift worked honours the staff member's preferences, falling by
+// the penalty as a share of the shifts worked
+export function getSatisfactionScore(penalty: number, shiftCount: number): number {
+  if (shiftCount === 0) return 100;
+  return Math.round(100 * Math.max(0, 1 - penalty / shiftCount));
+}
+
+// Satisfaction per staff member over a generated schedule, counting existing
+// schedules in the range that it doesn't replace
+export function getStaffSatisfaction(input: ScheduleInput, schedules: InsertSchedule[]): StaffSatisfaction[] {
+  const shiftTypesById = new Map(input.shiftTypes.map(s => [s.id, s]));
+  const unworkedDutyTypeIds = getUnworkedDutyTypeIds(input.dutyTypes);
+  const generatedKeys = new Set(schedules.map(s => `${s.staffId}:${s.date}`));
+  const worked = [
+    ...schedules,
+    ...(input.existingSchedules ?? []).filter(s => !generatedKeys.has(`${s.staffId}:${s.date}`)),
+  ];
+
+  return input.staff.map(staffMember => {
+    const shifts: PreferenceShift[] = worked
+      .filter(s => s.staffId === staffMember.id && isWorkedSchedule(s, unworkedDutyTypeIds))
+      .map(s => {
+        const shiftType = shiftTypesById.get(s.shiftTypeId!);
+        return {
+          shiftTypeId: s.shiftTypeId!,
+          weekday: getWeekday(s.date),
+          monthKey: getMonthKey(s.date),
+          overnight: shiftType?.isOvernight ?? false,
+        };
+      });
+    const penalty = getPreferencePenalty(staffMember, shifts);
+
+    return {
+      staffId: staffMember.id,
+      staffName: `${staffMember.user.firstName} ${staffMember.user.lastName}`,
+      shifts: shifts.length,
+      penalty,
+      score: getSatisfactionScore(penalty, shifts.length),
+    };
+  });
+}
@@ -0,0 +1,27 @@
+import { SchedulingStrategy, SchedulingStrategyInfo } from "./types";
+import { balancedStrategy } from "./strategies/balanced";
+import { enhancedStrategy } from "./strategies/enhanced";
+import { optimizedStrategy } from "./strategies/optimized";
+
+export const DEFAULT_STRATEGY = "enhanced";
+
+const strategies = new Map<string, SchedulingStrategy>();
+
+export function registerSchedulingStrategy(strategy: SchedulingStrategy) {
+  if (strategies.has(strategy.name)) {
+    throw new Error(`Scheduling strategy "${strategy.name}" is already registered`);
+  }
+  strategies.set(strategy.name, strategy);
+}
+
+export function getSchedulingStrategy(name: string = DEFAULT_STRATEGY): SchedulingStrategy | undefined {
+  return strategies.get(name);
+}
+
+export function listSchedulingStrategies(): SchedulingStrategyInfo[] {
+  return Array.from(strategies.values()).map(({ name, label, description }) => ({ name, label, description }));
+}
+
+registerSchedulingStrategy(balancedStrategy);
+registerSchedulingStrategy(enhancedStrategy);
+registerSchedulingStrategy(optimizedStrategy);
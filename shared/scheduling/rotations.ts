@@ -0,0 +1,80 @@
+import {
+  DutyType,
+  InsertSchedule,
+  RotationStep,
+  RotationTemplate,
+  ShiftType,
+  StaffRotation
+} from "@shared/schema";
+import { daysBetween, getDatesInRange } from "./dates";
+
+// What a rotation has a staff member doing on one date; a null step is a day off
+export interface ExpectedRotationDay {
+  rotation: StaffRotation;
+  template: RotationTemplate;
+  step: RotationStep | null;
+}
+
+export function isRotationActiveOn(rotation: StaffRotation, date: string): boolean {
+  return date >= rotation.startDate && (!rotation.endDate || date <= rotation.endDate);
+}
+
+// Whether any of the staff member's rotation assignments covers the date
+export function isOnRotation(rotations: StaffRotation[], staffId: number, date: string): boolean {
+  return rotations.some(r => r.staffId === staffId && isRotationActiveOn(r, date));
+}
+
+// 0-based day of the cycle the staff member is on for a date
+export function getRotationDay(rotation: StaffRotation, template: RotationTemplate, date: string): number {
+  const day = (rotation.startOffset + daysBetween(rotation.startDate, date)) % template.cycleLength;
+  return (day + template.cycleLength) % template.cycleLength;
+}
+
+// The staff member's rotation day for a date. When assignments overlap, the one
+// that started last wins.
+export function getExpectedRotationDay(
+  templates: RotationTemplate[],
+  rotations: StaffRotation[],
+  staffId: number,
+  date: string
+): ExpectedRotationDay | undefined {
+  const rotation = rotations
+    .filter(r => r.staffId === staffId && isRotationActiveOn(r, date))
+    .sort((a, b) => b.startDate.localeCompare(a.startDate) || b.id - a.id)[0];
+  const template = rotation && templates.find(t => t.id === rotation.templateId);
+  if (!rotation || !template) return undefined;
+
+  const day = getRotationDay(rotation, template, date);
+  return { rotation, template, step: template.steps.find(s => s.day === day) ?? null };
+}
+
+// Schedules a rotation produces over a date range, clipped to the assignment's own
+// dates. Days off produce no row.
+export function expandRotation(
+  rotation: StaffRotation,
+  template: RotationTemplate,
+  startDate: string,
+  endDate: string
+): InsertSchedule[] {
+  return getDatesInRange(startDate, endDate)
+    .filter(date => isRotationActiveOn(rotation, date))
+    .flatMap(date => {
+      const day = getRotationDay(rotation, template, date);
+      const step = template.steps.find(s => s.day === day);
+      return step
+        ? [{ staffId: rotation.staffId, date, shiftTypeId: step.shiftTypeId, dutyTypeId: step.dutyTypeId, unit: rotation.unit }]
+        : [];
+    });
+}
+
+// e.g. "Day Shift (Duty)", "Post-Duty" or "a day off"
+export function describeRotationStep(
+  step: RotationStep | null,
+  shiftTypes: ShiftType[],
+  dutyTypes: DutyType[]
+): string {
+  if (!step) return "a day off";
+  const dutyName = dutyTypes.find(dt => dt.id === step.dutyTypeId)?.name ?? "Unknown duty";
+  const shiftName = step.shiftTypeId ? shiftTypes.find(st => st.id === step.shiftTypeId)?.name : undefined;
+  return shiftName ? `${shiftName} (${dutyName})` : dutyName;
+}
@@ -0,0 +1,46 @@
+import { LabourRules } from "@shared/schema";
+
+export type LabourRuleKey =
+  | "maxConsecutiveShifts"
+  | "maxShiftsPerWeek"
+  | "minRestHours"
+  | "maxHoursPerWeek"
+  | "maxNightShiftsPerPeriod"
+  | "nightShiftPeriodDays"
+  | "minDaysOffPerFortnight";
+
+// Fully resolved limits the scheduler and conflict checks work with
+export type EffectiveLabourRules = Record<LabourRuleKey, number>;
+
+// Used when no organization default has been saved yet
+export const DEFAULT_LABOUR_RULES: EffectiveLabourRules = {
+  maxConsecutiveShifts: 5,
+  maxShiftsPerWeek: 5,
+  minRestHours: 12,
+  maxHoursPerWeek: 60,
+  maxNightShiftsPerPeriod: 8,
+  nightShiftPeriodDays: 28,
+  minDaysOffPerFortnight: 4,
+};
+
+export const LABOUR_RULE_KEYS = Object.keys(DEFAULT_LABOUR_RULES) as LabourRuleKey[];
+
+// Replace any limits the record sets, keeping the rest
+export function applyLabourRuleOverrides(
+  rules: EffectiveLabourRules,
+  record?: Partial<Record<LabourRuleKey, number | null>>
+): EffectiveLabourRules {
+  const result = { ...rules };
+  for (const key of LABOUR_RULE_KEYS) {
+    result[key] = record?.[key] ?? rules[key];
+  }
+  return result;
+}
+
+// Layer the unit override over the organization default over the built-in defaults
+export function resolveLabourRules(records: LabourRules[], unit?: string | null): EffectiveLabourRules {
+  const organization = records.find(r => r.unit === null);
+  const override = unit ? records.find(r => r.unit === unit) : undefined;
+
+  return applyLabourRuleOverrides(applyLabourRuleOverrides(DEFAULT_LABOUR_RULES, organization), override);
+}
@@ -0,0 +1,48 @@
+import { SkillMixRule, Staff } from "@shared/schema";
+
+type SkilledStaff = Pick<Staff, "role" | "qualifications">;
+
+export interface SkillMixShortfall {
+  rule: SkillMixRule;
+  count: number;
+}
+
+// Rules in force for a shift; a unit's own rules replace the generic ones
+export function getSkillMixRulesFor(
+  rules: SkillMixRule[],
+  shiftTypeId: number,
+  unit?: string | null
+): SkillMixRule[] {
+  const forShift = rules.filter(r => r.shiftTypeId === shiftTypeId);
+
+  if (unit) {
+    const unitRules = forShift.filter(r => r.unit === unit);
+    if (unitRules.length > 0) return unitRules;
+  }
+
+  return forShift.filter(r => r.unit === null);
+}
+
+export function matchesSkillMixRule(staffMember: SkilledStaff, rule: SkillMixRule): boolean {
+  return (!rule.role || staffMember.role === rule.role) &&
+    (!rule.qualification || (staffMember.qualifications ?? []).includes(rule.qualification));
+}
+
+// e.g. "2 Nurse", "1 Charge Nurse", "1 Nurse (Charge Nurse)"
+export function describeSkillMixRule(rule: SkillMixRule): string {
+  const who = rule.role && rule.qualification
+    ? `${rule.role} (${rule.qualification})`
+    : rule.role ?? rule.qualification;
+  return `${rule.minCount} ${who}`;
+}
+
+// Rules the staff on a shift fall short of, with how many matching staff there are
+export function findSkillMixShortfalls(rules: SkillMixRule[], staffOnShift: SkilledStaff[]): SkillMixShortfall[] {
+  return rules
+    .map(rule => ({ rule, count: staffOnShift.filter(s => matchesSkillMixRule(s, rule)).length }))
+    .filter(shortfall => shortfall.count < shortfall.rule.minCount);
+}
+
+export function describeSkillMixShortfall(shiftName: string, { rule, count }: SkillMixShortfall): string {
+  return `${shiftName} needs at least ${describeSkillMixRule(rule)} but has ${count}`;
+}
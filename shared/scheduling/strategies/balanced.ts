@@ -0,0 +1,95 @@
+import { SchedulingStrategy } from "../types";
+import {
+  compareByWorkload,
+  createSchedulingContext,
+  getAvailableStaff,
+  recordRestDay
+} from "../context";
+import { coverShift, getAdditionalCoveredShifts, seatSkillMix } from "../coverage";
+import { getPreviousDay } from "../dates";
+
+// Original engine: day/evening/night duty shifts, with everyone left over split
+// between Pre-Duty and Post-Duty rest days.
+export const balancedStrategy: SchedulingStrategy = {
+  name: "balanced",
+  label: "Balanced",
+  description: "Spreads duty shifts evenly and gives all remaining staff a pre- or post-duty rest day.",
+
+  generate(input) {
+    const context = createSchedulingContext(input, {
+      trackShiftCounts: false,
+      reportRestViolations: true,
+    });
+    const { staffLoads, staffDutyPatterns, shiftTypeIds } = context;
+
+    context.dates.forEach(date => {
+      const assigned = new Set<number>();
+      const availableStaff = getAvailableStaff(context, input.availabilities, date);
+      availableStaff.sort(compareByWorkload(context, date));
+      seatSkillMix(context, availableStaff, date, assigned);
+
+      // Day shifts
+      coverShift(context, availableStaff, date, assigned, {
+        shiftTypeId: shiftTypeIds.day,
+        count: Math.max(1, Math.ceil(availableStaff.length / 3)),
+        checkExistingAssignment: true,
+      });
+
+      // Evening shifts
+      const remainingAfterDay = availableStaff.filter(s => !assigned.has(s.id));
+      coverShift(context, remainingAfterDay, date, assigned, {
+        shiftTypeId: shiftTypeIds.evening,
+        count: Math.max(1, Math.ceil(remainingAfterDay.length / 2)),
+      });
+
+      // Night shifts, preferring staff with the fewest nights so far
+      const remainingAfterEvening = availableStaff.filter(s => !assigned.has(s.id));
+      remainingAfterEvening.sort((a, b) => {
+        const aLoad = staffLoads[a.id];
+        const bLoad = staffLoads[b.id];
+        if (aLoad.nightShifts !== bLoad.nightShifts) {
+          return aLoad.nightShifts - bLoad.nightShifts;
+        }
+        return aLoad.totalShifts - bLoad.totalShifts;
+      });
+      coverShift(context, remainingAfterEvening, date, assigned, {
+        shiftTypeId: shiftTypeIds.night,
+        count: Math.max(1, Math.ceil(remainingAfterEvening.length / 3)),
+      });
+
+      // Any other shift types with coverage requirements on this date
+      getAdditionalCoveredShifts(context, date).forEach(shiftTypeId => {
+        coverShift(context, availableStaff.filter(s => !assigned.has(s.id)), date, assigned, {
+          shiftTypeId,
+          count: 0,
+        });
+      });
+
+      // Split the rest between Pre-Duty and Post-Duty, balancing pre-duty counts. Staff
+      // who worked yesterday sort last, so they take the step after duty in the cycle.
+      const previousDay = getPreviousDay(date);
+      const workedYesterday = (staffId: number) => previousDay in staffLoads[staffId].shiftsByDate ? 1 : 0;
+      const unassignedStaff = availableStaff.filter(s => !assigned.has(s.id));
+      unassignedStaff.sort((a, b) =>
+        workedYesterday(a.id) - workedYesterday(b.id) ||
+        staffDutyPatterns[a.id].preDuty - staffDutyPatterns[b.id].preDuty
+      );
+
+      const preDutyCount = Math.floor(unassignedStaff.length / 2);
+      unassignedStaff.forEach((staffMember, index) => {
+        recordRestDay(context, staffMember, date, index < preDutyCount ? "preDuty" : "postDuty");
+        assigned.add(staffMember.id);
+      });
+
+      // Staff with nothing on this date get a rest day
+      context.staff.forEach(s => {
+        if (!assigned.has(s.id)) {
+          staffLoads[s.id].consecutiveShifts = 0;
+          staffLoads[s.id].restDays++;
+        }
+      });
+    });
+
+    return { schedules: context.schedules, conflicts: context.conflicts };
+  },
+};
@@ -0,0 +1,144 @@
+import { PublicStaffWithUser } from "@shared/schema";
+import { ConflictType, SchedulingStrategy } from "../types";
+import {
+  DutyKind,
+  SchedulingContext,
+  SchedulingContextOptions,
+  compareByWorkload,
+  createSchedulingContext,
+  getAvailableStaff,
+  getRestAroundShift,
+  getWeeklyShiftCount,
+  pushConflict,
+  recordAssignment
+} from "../context";
+import { coverShift, getAdditionalCoveredShifts, seatSkillMix } from "../coverage";
+import { getNextDay, getPreviousDay } from "../dates";
+
+export const enhancedContextOptions: SchedulingContextOptions = {
+  trackShiftCounts: true,
+  reportRestViolations: false,
+};
+
+// Give one staff member a Pre-/Post-Duty day shift, preferring the fewest of that duty.
+// Skipped when the duty cycle has no such step or the step doesn't count as worked.
+function assignDutyDayShift(
+  context: SchedulingContext,
+  candidates: PublicStaffWithUser[],
+  date: string,
+  assigned: Set<number>,
+  dutyKind: DutyKind
+) {
+  const dutyTypeId = context.dutyTypeIds[dutyKind];
+  if (!dutyTypeId || context.unworkedDutyTypeIds.has(dutyTypeId)) return;
+
+  const { staffLoads, staffDutyPatterns } = context;
+  candidates.sort((a, b) => {
+    const aPattern = staffDutyPatterns[a.id];
+    const bPattern = staffDutyPatterns[b.id];
+    if (aPattern[dutyKind] !== bPattern[dutyKind]) {
+      return aPattern[dutyKind] - bPattern[dutyKind];
+    }
+    return staffLoads[a.id].totalShifts - staffLoads[b.id].totalShifts;
+  });
+
+  const staffMember = candidates[0];
+  if (!staffMember) return;
+
+  const { maxShiftsPerWeek } = context.rules;
+  if (getWeeklyShiftCount(context, staffMember.id, date) >= maxShiftsPerWeek) {
+    pushConflict(context, staffMember, date, ConflictType.EXCEEDS_WEEKLY_SHIFTS, `Exceeds maximum weekly shifts (${maxShiftsPerWeek})`, "warning");
+    return;
+  }
+
+  // Don't work too close to a shift the day before or after
+  const restHours = getRestAroundShift(context, staffMember.id, date, context.shiftTypeIds.day);
+  if (restHours !== null && restHours < context.rules.minRestHours) {
+    return;
+  }
+
+  recordAssignment(context, staffMember, date, context.shiftTypeIds.day, dutyKind);
+  assigned.add(staffMember.id);
+}
+
+// Tracks per-shift-type counts so day/evening/night rotate evenly, and staffs
+// Pre-Duty and Post-Duty as working day shifts around each duty day.
+export const enhancedStrategy: SchedulingStrategy = {
+  name: "enhanced",
+  label: "Enhanced",
+  description: "Rotates day, evening and night shifts evenly and staffs pre- and post-duty as day shifts.",
+
+  generate(input) {
+    const context = createSchedulingContext(input, enhancedContextOptions);
+    const { staffLoads, staffDutyPatterns, shiftTypeIds } = context;
+
+    context.dates.forEach(date => {
+      const assigned = new Set<number>();
+      const availableStaff = getAvailableStaff(context, input.availabilities, date);
+      availableStaff.sort(compareByWorkload(context, date));
+      seatSkillMix(context, availableStaff, date, assigned);
+
+      // Day shifts
+      coverShift(context, availableStaff, date, assigned, {
+        shiftTypeId: shiftTypeIds.day,
+        count: Math.max(1, Math.ceil(availableStaff.length / 3)),
+        checkExistingAssignment: true,
+      });
+
+      // Evening shifts, preferring staff with the fewest evenings so far
+      const remainingAfterDay = availableStaff.filter(s => !assigned.has(s.id));
+      remainingAfterDay.sort((a, b) => {
+        const aPattern = staffDutyPatterns[a.id];
+        const bPattern = staffDutyPatterns[b.id];
+        if (aPattern.eveningShift !== bPattern.eveningShift) {
+          return aPattern.eveningShift - bPattern.eveningShift;
+        }
+        return staffLoads[a.id].totalShifts - staffLoads[b.id].totalShifts;
+      });
+      coverShift(context, remainingAfterDay, date, assigned, {
+        shiftTypeId: shiftTypeIds.evening,
+        count: Math.max(1, Math.ceil(remainingAfterDay.length / 2)),
+      });
+
+      // Night shifts, preferring staff with the fewest nights so far
+      const remainingAfterEvening = availableStaff.filter(s => !assigned.has(s.id));
+      remainingAfterEvening.sort((a, b) => {
+        const aLoad = staffLoads[a.id];
+        const bLoad = staffLoads[b.id];
+        const aPattern = staffDutyPatterns[a.id];
+        const bPattern = staffDutyPatterns[b.id];
+        if (aPattern.nightShift !== bPattern.nightShift) {
+          return aPattern.nightShift - bPattern.nightShift;
+        }
+        if (aLoad.nightShifts !== bLoad.nightShifts) {
+          return aLoad.nightShifts - bLoad.nightShifts;
+        }
+        return aLoad.totalShifts - bLoad.totalShifts;
+      });
+      coverShift(context, remainingAfterEvening, date, assigned, {
+        shiftTypeId: shiftTypeIds.night,
+        count: Math.max(1, Math.ceil(remainingAfterEvening.length / 3)),
+      });
+
+      // Any other shift types with coverage requirements on this date
+      getAdditionalCoveredShifts(context, date).forEach(shiftTypeId => {
+        coverShift(context, availableStaff.filter(s => !assigned.has(s.id)), date, assigned, {
+          shiftTypeId,
+          count: 0,
+        });
+      });
+
+      // Pre-duty only when the next day is within the range
+      if (context.dates.includes(getNextDay(date))) {
+        assignDutyDayShift(context, availableStaff.filter(s => !assigned.has(s.id)), date, assigned, "preDuty");
+      }
+
+      // Post-duty only when the previous day is within the range
+      if (context.dates.includes(getPreviousDay(date))) {
+        assignDutyDayShift(context, availableStaff.filter(s => !assigned.has(s.id)), date, assigned, "postDuty");
+      }
+    });
+
+    return { schedules: context.schedules, conflicts: context.conflicts };
+  },
+};
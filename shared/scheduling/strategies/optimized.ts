@@ -0,0 +1,24 @@
+import { ConflictType, SchedulingStrategy } from "../types";
+import { optimizeSchedule, replayConflicts } from "../optimizer";
+import { enhancedContextOptions, enhancedStrategy } from "./enhanced";
+
+// Enhanced greedy pass, then simulated annealing against the weighted objective
+export const optimizedStrategy: SchedulingStrategy = {
+  name: "optimized",
+  label: "Optimized",
+  description: "Starts from the Enhanced schedule and improves coverage, fairness, preferences and rest by local search.",
+
+  generate(input) {
+    const greedy = enhancedStrategy.generate(input);
+    const { schedules, report } = optimizeSchedule(input, greedy.schedules, input.optimization);
+
+    // Staff blocked by an existing assignment never reach the schedule, so replaying it can't find these
+    const existingAssignments = greedy.conflicts.filter(c => c.type === ConflictType.EXISTING_ASSIGNMENT);
+
+    return {
+      schedules,
+      conflicts: [...existingAssignments, ...replayConflicts(input, schedules, enhancedContextOptions)],
+      optimization: report,
+    };
+  },
+};
@@ -0,0 +1,119 @@
+import {
+  InsertSchedule,
+  PublicStaffWithUser,
+  ShiftType,
+  DutyType,
+  Availability,
+  Schedule,
+  CoverageRequirement,
+  SkillMixRule,
+  DutyCycle,
+  StaffRotation
+} from "@shared/schema";
+import { EffectiveLabourRules } from "./rules";
+
+export interface ScheduleInput {
+  staff: PublicStaffWithUser[];
+  shiftTypes: ShiftType[];
+  dutyTypes: DutyType[];
+  availabilities: Availability[];
+  startDate: string;
+  endDate: string;
+  unit?: string;
+  existingSchedules?: Schedule[];
+  // Limits to enforce; defaults to DEFAULT_LABOUR_RULES
+  rules?: EffectiveLabourRules;
+  // Headcount to staff each shift to; without any, shifts are sized from who is available
+  coverageRequirements?: CoverageRequirement[];
+  // Roles and qualifications every instance of a shift must include; enforced as hard constraints
+  skillMixRules?: SkillMixRule[];
+  // Order duty types follow around a working day; without one, duty types are matched by category
+  dutyCycles?: DutyCycle[];
+  // Staff keep their rotation, working days and days off alike, on every date it's active;
+  // the generator leaves them and their rows on those dates alone
+  staffRotations?: StaffRotation[];
+  // Search settings for strategies that optimize after the greedy pass
+  optimization?: OptimizationOptions;
+}
+
+export interface OptimizationOptions {
+  timeBudgetMs?: number;
+  maxIterations?: number;
+  // Same seed and input give the same result, provided the time budget isn't what stops the search
+  seed?: number;
+}
+
+// Weighted penalties for a schedule; lower is better
+export interface ScheduleScore {
+  total: number;
+  coverage: number;
+  fairness: number;
+  preferences: number;
+  rest: number;
+  // Quick returns and unmet skill mix; the optimizer never accepts a move that adds one
+  hardViolations: number;
+}
+
+// How well a generated schedule honours one staff member's preferences
+export interface StaffSatisfaction {
+  staffId: number;
+  staffName: string;
+  // 0 to 100; 100 when every shift worked suits their preferences
+  score: number;
+  shifts: number;
+  penalty: number;
+}
+
+export interface OptimizationReport {
+  seed: number;
+  iterations: number;
+  acceptedMoves: number;
+  elapsedMs: number;
+  before: ScheduleScore;
+  after: ScheduleScore;
+}
+
+// Schedule conflict types
+export enum ConflictType {
+  CONSECUTIVE_SHIFTS = "consecutive_shifts",
+  EXCEEDS_WEEKLY_HOURS = "exceeds_weekly_hours",
+  EXCEEDS_WEEKLY_SHIFTS = "exceeds_weekly_shifts",
+  REST_PERIOD_VIOLATION = "rest_period_violation",
+  UNAVAILABLE_STAFF = "unavailable_staff",
+  EXISTING_ASSIGNMENT = "existing_assignment",
+  SPECIALIZATION_MISMATCH = "specialization_mismatch",
+  NIGHT_SHIFT_LIMIT = "night_shift_limit",
+  INSUFFICIENT_DAYS_OFF = "insufficient_days_off",
+  UNDERSTAFFED = "understaffed",
+  SKILL_MIX_VIOLATION = "skill_mix_violation",
+  ROTATION_DEVIATION = "rotation_deviation"
+}
+
+export interface ScheduleConflict {
+  type: ConflictType;
+  staffId?: number; // absent for shift-level conflicts such as UNDERSTAFFED
+  date: string;
+  message: string;
+  severity: "warning" | "error";
+  staffName?: string;
+}
+
+export interface ScheduleResult {
+  schedules: InsertSchedule[];
+  conflicts: ScheduleConflict[];
+  // Present when the strategy optimized the schedule
+  optimization?: OptimizationReport;
+  // Per staff member; filled in by generateSchedule for every strategy
+  satisfaction?: StaffSatisfaction[];
+}
+
+// A named schedule generator that can be selected at generation time
+export interface SchedulingStrategy {
+  name: string;
+  label: string;
+  description: string;
+  generate(input: ScheduleInput): ScheduleResult;
+}
+
+// Strategy metadata safe to send to the client
+export type SchedulingStrategyInfo = Pick<SchedulingStrategy, "name" | "label" | "description">;
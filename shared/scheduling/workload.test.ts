@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { DutyType, ShiftType } from "@shared/schema";
+import { WorkloadInput, summarizeWorkload } from "./workload";
+
+const DAY = 1;
+const NIGHT = 2;
+const LATE = 3;
+const DUTY = 2;
+const LEAVE = 4;
+
+const shiftTypes: ShiftType[] = [
+  { id: DAY, name: "Day", startTime: "07:00", endTime: "19:00", duration: 12, category: "day", isOvernight: false },
+  { id: NIGHT, name: "Night", startTime: "19:00", endTime: "07:00", duration: 12, category: "night", isOvernight: true },
+  { id: LATE, name: "Late", startTime: "14:00", endTime: "22:30", duration: 8, category: "evening", isOvernight: false },
+];
+
+const dutyTypes: DutyType[] = [
+  { id: DUTY, name: "Duty", category: "duty", countsAsWorked: true },
+  { id: LEAVE, name: "Annual Leave", category: "leave", countsAsWorked: false },
+];
+
+function shift(staffId: number, date: string, shiftTypeId: number | null, dutyTypeId = DUTY) {
+  return { staffId, date, shiftTypeId, dutyTypeId };
+}
+
+function input(schedules: WorkloadInput["schedules"], overrides: Partial<WorkloadInput> = {}): WorkloadInput {
+  return { schedules, staffIds: [1, 2], shiftTypes, dutyTypes, holidayDates: [], ...overrides };
+}
+
+describe("summarizeWorkload", () => {
+  it("totals each staff member's worked shifts", () => {
+    // 2025-03-08 is a Saturday
+    const { staff } = summarizeWorkload(input([
+      shift(1, "2025-03-07", NIGHT),
+      shift(1, "2025-03-08", DAY),
+      shift(1, "2025-03-10", LATE),
+    ], { holidayDates: ["2025-03-10"] }));
+
+    expect(staff[0]).toEqual({
+      staffId: 1,
+      totals: { shifts: 3, hours: 32.5, nights: 1, weekends: 1, holidays: 1 },
+      dutyTypes: { [DUTY]: 3 },
+    });
+  });
+
+  it("counts unworked assignments by duty type only", () => {
+    const { staff } = summarizeWorkload(input([
+      shift(1, "2025-03-03", null, LEAVE),
+      shift(1, "2025-03-04", DAY, LEAVE),
+      shift(1, "2025-03-05", null),
+    ]));
+
+    expect(staff[0].totals).toEqual({ shifts: 0, hours: 0, nights: 0, weekends: 0, holidays: 0 });
+    expect(staff[0].dutyTypes).toEqual({ [DUTY]: 1, [LEAVE]: 2 });
+  });
+
+  it("reports on the requested staff only, counting those with nothing assigned as zero", () => {
+    const { staff, fairness } = summarizeWorkload(input([
+      shift(1, "2025-03-03", DAY),
+      shift(1, "2025-03-04", DAY),
+      shift(3, "2025-03-03", DAY),
+    ]));
+
+    expect(staff.map(w => [w.staffId, w.totals.shifts])).toEqual([[1, 2], [2, 0]]);
+    expect(fairness.shifts).toEqual({ mean: 1, standardDeviation: 1, min: 0, max: 2, spread: 2 });
+  });
+
+  it("rounds the fairness indicators to two decimal places", () => {
+    const { fairness } = summarizeWorkload(input([
+      shift(1, "2025-03-03", DAY),
+      shift(2, "2025-03-03", DAY),
+      shift(2, "2025-03-04", DAY),
+    ], { staffIds: [1, 2, 3] }));
+
+    expect(fairness.shifts).toEqual({ mean: 1, standardDeviation: 0.82, min: 0, max: 2, spread: 2 });
+  });
+
+  it("gives zeroed indicators when there are no staff", () => {
+    const { staff, fairness } = summarizeWorkload(input([shift(1, "2025-03-03", DAY)], { staffIds: [] }));
+
+    expect(staff).toEqual([]);
+    expect(fairness.hours).toEqual({ mean: 0, standardDeviation: 0, min: 0, max: 0, spread: 0 });
+  });
+});
@@ -0,0 +1,99 @@
+import { DutyType, Schedule, ShiftType } from "@shared/schema";
+import { getShiftInterval, getWeekday } from "./dates";
+
+export const WORKLOAD_METRICS = ["shifts", "hours", "nights", "weekends", "holidays"] as const;
+
+export type WorkloadMetric = typeof WORKLOAD_METRICS[number];
+
+export interface StaffWorkload {
+  staffId: number;
+  // Worked shifts only: hours, nights, weekends and holidays are subsets of shifts
+  totals: Record<WorkloadMetric, number>;
+  // Assignments per duty type id, worked or not (leave, days off)
+  dutyTypes: Record<number, number>;
+}
+
+// How evenly a metric is shared across the staff in a summary
+export interface FairnessIndicator {
+  mean: number;
+  // Population standard deviation
+  standardDeviation: number;
+  min: number;
+  max: number;
+  // max - min
+  spread: number;
+}
+
+export interface WorkloadSummary {
+  staff: StaffWorkload[];
+  fairness: Record<WorkloadMetric, FairnessIndicator>;
+}
+
+export interface WorkloadInput {
+  schedules: Pick<Schedule, "staffId" | "date" | "shiftTypeId" | "dutyTypeId">[];
+  // Staff to report on; assignments of anyone else are ignored
+  staffIds: number[];
+  shiftTypes: ShiftType[];
+  dutyTypes: DutyType[];
+  holidayDates: string[];
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function getFairness(values: number[]): FairnessIndicator {
+  if (values.length === 0) {
+    return { mean: 0, standardDeviation: 0, min: 0, max: 0, spread: 0 };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return {
+    mean: round(mean),
+    standardDeviation: round(Math.sqrt(variance)),
+    min: round(min),
+    max: round(max),
+    spread: round(max - min),
+  };
+}
+
+// Per-staff totals and how evenly each is spread; staff with nothing assigned count as zero
+export function summarizeWorkload({ schedules, staffIds, shiftTypes, dutyTypes, holidayDates }: WorkloadInput): WorkloadSummary {
+  const holidays = new Set(holidayDates);
+  const workloads = new Map<number, StaffWorkload>(
+    staffIds.map(staffId => [
+      staffId,
+      { staffId, totals: { shifts: 0, hours: 0, nights: 0, weekends: 0, holidays: 0 }, dutyTypes: {} },
+    ])
+  );
+
+  for (const schedule of schedules) {
+    const workload = workloads.get(schedule.staffId);
+    if (!workload) continue;
+    workload.dutyTypes[schedule.dutyTypeId] = (workload.dutyTypes[schedule.dutyTypeId] ?? 0) + 1;
+
+    const dutyType = dutyTypes.find(dt => dt.id === schedule.dutyTypeId);
+    const shiftType = shiftTypes.find(st => st.id === schedule.shiftTypeId);
+    if (!shiftType || !dutyType?.countsAsWorked) continue;
+
+    const interval = getShiftInterval(schedule.date, shiftType);
+    const weekday = getWeekday(schedule.date);
+    const { totals } = workload;
+    totals.shifts++;
+    totals.hours += (interval.end - interval.start) / MS_PER_HOUR;
+    if (shiftType.isOvernight) totals.nights++;
+    if (weekday === 0 || weekday === 6) totals.weekends++;
+    if (holidays.has(schedule.date)) totals.holidays++;
+  }
+
+  const staff = Array.from(workloads.values())
+    .map(w => ({ ...w, totals: { ...w.totals, hours: round(w.totals.hours) } }));
+
+  const fairness = Object.fromEntries(
+    WORKLOAD_METRICS.map(metric => [metric, getFairness(staff.map(w => w.totals[metric]))])
+  ) as Record<WorkloadMetric, FairnessIndicator>;
+
+  return { staff, fairness };
+}
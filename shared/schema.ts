@@ -28,18 +28,45 @@ export const staff = pgTable("staff", {
   userId: integer("user_id").references(() => users.id).notNull(),
   role: text("role").notNull(), // e.g., Doctor, Nurse, Technician
   specialization: text("specialization"), // e.g., Cardiologist, Emergency, General
+  qualifications: text("qualifications").array().notNull().default([]), // e.g., Charge Nurse, ACLS
   contactInfo: text("contact_info"), 
   isActive: boolean("is_active").default(true).notNull(),
+  // Scheduling preferences, weighed by the generator as soft constraints
+  preferredShiftTypeIds: integer("preferred_shift_type_ids").array().notNull().default([]),
+  avoidedShiftTypeIds: integer("avoided_shift_type_ids").array().notNull().default([]),
+  preferredDaysOff: integer("preferred_days_off").array().notNull().default([]), // weekdays, 0 (Sunday) to 6 (Saturday)
+  maxNightsPerMonth: integer("max_nights_per_month"), // null for no personal limit
 });
 
 export const insertStaffSchema = createInsertSchema(staff).pick({
   userId: true,
   role: true,
   specialization: true,
+  qualifications: true,
   contactInfo: true,
   isActive: true,
+  preferredShiftTypeIds: true,
+  avoidedShiftTypeIds: true,
+  preferredDaysOff: true,
+  maxNightsPerMonth: true,
 });
 
+// Validated shape for staff editing their own preferences
+export const staffPreferencesSchema = z.object({
+  preferredShiftTypeIds: z.array(z.number().int()).default([]),
+  avoidedShiftTypeIds: z.array(z.number().int()).default([]),
+  preferredDaysOff: z.array(z.number().int().min(0).max(6)).default([]),
+  maxNightsPerMonth: z.number().int().min(0).max(31).nullable().default(null),
+})
+  .refine(p => !p.preferredShiftTypeIds.some(id => p.avoidedShiftTypeIds.includes(id)), {
+    message: "A shift type can't be both preferred and avoided",
+    path: ["avoidedShiftTypeIds"],
+  });
+
+// What the generator treats a shift or duty type as, independent of its display name
+export const SHIFT_CATEGORIES = ["day", "evening", "night", "other"] as const;
+export const DUTY_CATEGORIES = ["pre_duty", "duty", "post_duty", "other"] as const;
+
 // Shift types table
 export const shiftTypes = pgTable("shift_types", {
   id: serial("id").primaryKey(),
@@ -47,6 +74,8 @@ export const shiftTypes = pgTable("shift_types", {
   startTime: text("start_time").notNull(), // stored as string like "07:00"
   endTime: text("end_time").notNull(), // stored as string like "15:00"
   duration: integer("duration").notNull(), // in hours
+  category: text("category").notNull().default("other"), // one of SHIFT_CATEGORIES
+  isOvernight: boolean("is_overnight").default(false).notNull(), // counts toward night-shift limits
 });
 
 export const insertShiftTypeSchema = createInsertSchema(shiftTypes).pick({
@@ -54,18 +83,124 @@ export const insertShiftTypeSchema = createInsertSchema(shiftTypes).pick({
   startTime: true,
   endTime: true,
   duration: true,
+  category: true,
+  isOvernight: true,
+}).extend({
+  category: z.enum(SHIFT_CATEGORIES).default("other"),
 });
 
 // Duty types table
 export const dutyTypes = pgTable("duty_types", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(), // e.g., Pre-Duty, Duty, Post-Duty
+  category: text("category").notNull().default("other"), // one of DUTY_CATEGORIES
+  countsAsWorked: boolean("counts_as_worked").default(true).notNull(), // shifts under it count toward hours and limits
 });
 
 export const insertDutyTypeSchema = createInsertSchema(dutyTypes).pick({
   name: true,
+  category: true,
+  countsAsWorked: true,
+}).extend({
+  category: z.enum(DUTY_CATEGORIES).default("other"),
+});
+
+// Duty cycles table: the order duty types follow day by day around a worked
+// duty, e.g. Pre-Duty, Duty, Post-Duty
+export const dutyCycles = pgTable("duty_cycles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  unit: text("unit"), // null applies to any unit without its own cycle
+  steps: integer("steps").array().notNull(), // duty type ids, one per day
+});
+
+export const insertDutyCycleSchema = createInsertSchema(dutyCycles).pick({
+  name: true,
+  unit: true,
+  steps: true,
+});
+
+// Validated shape for the API; step ids are checked against the duty types by the route
+export const dutyCycleSchema = z.object({
+  name: z.string().min(1),
+  unit: z.string().min(1).nullable().default(null),
+  steps: z.array(z.number().int()).min(1, "A cycle needs at least one step"),
+});
+
+// One scheduled day of a rotation; days of the cycle without a step are off
+export const rotationStepSchema = z.object({
+  day: z.number().int().min(0), // 0-based day of the cycle
+  shiftTypeId: z.number().int().nullable().default(null), // null for a duty day without a shift
+  dutyTypeId: z.number().int(),
+});
+
+// Rotation templates table: a fixed pattern such as 4-on/4-off, DuPont or 2-2-3
+// that repeats every cycleLength days
+export const rotationTemplates = pgTable("rotation_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  cycleLength: integer("cycle_length").notNull(), // days
+  steps: json("steps").$type<RotationStep[]>().notNull(),
 });
 
+export const insertRotationTemplateSchema = createInsertSchema(rotationTemplates).pick({
+  name: true,
+  cycleLength: true,
+  steps: true,
+}).extend({
+  steps: z.array(rotationStepSchema),
+});
+
+// Validated shape for the API; shift and duty ids are checked by the route
+export const rotationTemplateSchema = z.object({
+  name: z.string().min(1),
+  cycleLength: z.number().int().min(1).max(366),
+  steps: z.array(rotationStepSchema).min(1, "A rotation needs at least one working day"),
+})
+  .refine(t => t.steps.every(step => step.day < t.cycleLength), {
+    message: "Every step must fall within the cycle",
+    path: ["steps"],
+  })
+  .refine(t => new Set(t.steps.map(step => step.day)).size === t.steps.length, {
+    message: "Each day of the cycle can only have one step",
+    path: ["steps"],
+  });
+
+// Staff rotations table: a template assigned to a staff member. On startDate they
+// are on day startOffset of the cycle.
+export const staffRotations = pgTable("staff_rotations", {
+  id: serial("id").primaryKey(),
+  staffId: integer("staff_id").references(() => staff.id).notNull(),
+  templateId: integer("template_id").references(() => rotationTemplates.id).notNull(),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD
+  endDate: text("end_date"), // YYYY-MM-DD; null for open-ended
+  startOffset: integer("start_offset").notNull().default(0),
+  unit: text("unit"), // unit given to rolled-out schedules
+});
+
+export const insertStaffRotationSchema = createInsertSchema(staffRotations).pick({
+  staffId: true,
+  templateId: true,
+  startDate: true,
+  endDate: true,
+  startOffset: true,
+  unit: true,
+});
+
+// Validated shape for the API; the offset is checked against the template by the route
+export const staffRotationSchema = z.object({
+  staffId: z.number().int(),
+  templateId: z.number().int(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().default(null),
+  startOffset: z.number().int().min(0).default(0),
+  unit: z.string().min(1).nullable().default(null),
+})
+  .refine(r => r.endDate === null || r.startDate <= r.endDate, {
+    message: "End date must not be before the start date",
+    path: ["endDate"],
+  });
+
 // Schedules table
 export const schedules = pgTable("schedules", {
   id: serial("id").primaryKey(),
@@ -74,6 +209,7 @@ export const schedules = pgTable("schedules", {
   shiftTypeId: integer("shift_type_id").references(() => shiftTypes.id),
   dutyTypeId: integer("duty_type_id").references(() => dutyTypes.id).notNull(),
   unit: text("unit"), // e.g., Cardiology, Emergency Room
+  locked: boolean("locked").default(false).notNull(), // pinned; generation and batch writes leave it as is
 });
 
 export const insertScheduleSchema = createInsertSchema(schedules).pick({
@@ -82,6 +218,102 @@ export const insertScheduleSchema = createInsertSchema(schedules).pick({
   shiftTypeId: true,
   dutyTypeId: true,
   unit: true,
+  locked: true,
+});
+
+export const SCHEDULE_PERIOD_STATUSES = ["draft", "published", "archived"] as const;
+
+// Schedule periods table: a date range that is edited as a draft and published as a
+// whole. Live schedule rows are the draft; staff only see the latest published version.
+export const schedulePeriods = pgTable("schedule_periods", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD
+  endDate: text("end_date").notNull(), // YYYY-MM-DD
+  status: text("status").notNull().default("draft"), // one of SCHEDULE_PERIOD_STATUSES
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  publishedAt: timestamp("published_at"), // latest publish; null until first published
+});
+
+export const insertSchedulePeriodSchema = createInsertSchema(schedulePeriods).pick({
+  name: true,
+  startDate: true,
+  endDate: true,
+  status: true,
+  publishedAt: true,
+}).extend({
+  status: z.enum(SCHEDULE_PERIOD_STATUSES).optional(),
+});
+
+// Validated shape for the API; status only changes by publishing or archiving
+export const schedulePeriodSchema = z.object({
+  name: z.string().min(1),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+})
+  .refine(p => p.startDate <= p.endDate, {
+    message: "End date must not be before the start date",
+    path: ["endDate"],
+  });
+
+// Schedule versions table: an immutable snapshot of a period's rows, one per publish
+export const scheduleVersions = pgTable("schedule_versions", {
+  id: serial("id").primaryKey(),
+  periodId: integer("period_id").references(() => schedulePeriods.id).notNull(),
+  version: integer("version").notNull(), // 1 for the first publish of the period
+  rows: json("rows").$type<Schedule[]>().notNull(),
+  publishedByUserId: integer("published_by_user_id").references(() => users.id),
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+});
+
+export const insertScheduleVersionSchema = createInsertSchema(scheduleVersions).pick({
+  periodId: true,
+  version: true,
+  rows: true,
+  publishedByUserId: true,
+}).extend({
+  rows: z.array(z.custom<Schedule>()),
+});
+
+// Holidays table: public holidays, reported separately from other days worked
+export const holidays = pgTable("holidays", {
+  id: serial("id").primaryKey(),
+  date: text("date").notNull().unique(), // YYYY-MM-DD
+  name: text("name").notNull(), // e.g., New Year's Day
+});
+
+export const insertHolidaySchema = createInsertSchema(holidays).pick({
+  date: true,
+  name: true,
+}).extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+// Organization settings table: a single row, written on the first save
+export const organizationSettings = pgTable("organization_settings", {
+  id: serial("id").primaryKey(),
+  hospitalName: text("hospital_name").notNull(), // shown on printed rosters
+  address: text("address").notNull(),
+  contactNumber: text("contact_number").notNull(),
+  defaultUnit: text("default_unit"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Validated shape for the API
+export const organizationSettingsSchema = z.object({
+  hospitalName: z.string().min(2, "Hospital name must be at least 2 characters"),
+  address: z.string().min(5, "Address must be at least 5 characters"),
+  contactNumber: z.string().min(5, "Contact number must be at least 5 characters"),
+  defaultUnit: z.string().optional(),
+});
+
+// Calendar feeds table: the secret token in a staff member's iCalendar subscription URL
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  staffId: integer("staff_id").references(() => staff.id).notNull().unique(),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(), // when the token was last rotated
 });
 
 // Availability table
@@ -119,16 +351,48 @@ export const insertSwapRequestSchema = createInsertSchema(swapRequests).pick({
   status: true,
 });
 
-// Change history table
+// What the requesting staff member can still change on their own pending request
+export const swapRequestStaffUpdateSchema = insertSwapRequestSchema.pick({ shiftTypeId: true }).partial().strict();
+
+export const SCHEDULE_OPERATION_STATUSES = ["applied", "undone"] as const;
+
+// Schedule operations table: one row per user action that writes schedules (an edit, a
+// batch, a generation, a clear). Its change history rows are undone and redone together.
+export const scheduleOperations = pgTable("schedule_operations", {
+  id: serial("id").primaryKey(),
+  label: text("label").notNull(), // the reason recorded with its changes
+  status: text("status").notNull().default("applied"), // one of SCHEDULE_OPERATION_STATUSES
+  userId: integer("user_id").references(() => users.id), // null for system changes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  undoneAt: timestamp("undone_at"), // set while undone
+});
+
+export const insertScheduleOperationSchema = createInsertSchema(scheduleOperations).pick({
+  label: true,
+  status: true,
+  userId: true,
+}).extend({
+  status: z.enum(SCHEDULE_OPERATION_STATUSES).optional(),
+});
+
+export const CHANGE_ACTIONS = ["create", "update", "delete"] as const;
+
+// Change history table: one row per schedule write. Rows outlive the schedule they
+// describe, so scheduleId is not a foreign key.
 export const changeHistory = pgTable("change_history", {
   id: serial("id").primaryKey(),
-  scheduleId: integer("schedule_id").references(() => schedules.id).notNull(),
+  scheduleId: integer("schedule_id").notNull(),
   staffId: integer("staff_id").references(() => staff.id).notNull(),
   date: text("date").notNull(), // stored as YYYY-MM-DD
+  action: text("action").notNull().default("update"), // one of CHANGE_ACTIONS
   oldShiftTypeId: integer("old_shift_type_id").references(() => shiftTypes.id),
   newShiftTypeId: integer("new_shift_type_id").references(() => shiftTypes.id),
+  before: json("before").$type<Schedule | null>(), // the row before the change; null when created
+  after: json("after").$type<Schedule | null>(), // the row after the change; null when deleted
   reason: text("reason"),
-  changedByStaffId: integer("changed_by_staff_id").references(() => staff.id).notNull(),
+  changedByUserId: integer("changed_by_user_id").references(() => users.id), // null for system changes
+  changedByStaffId: integer("changed_by_staff_id").references(() => staff.id), // null when the user has no staff profile
+  operationId: integer("operation_id").references(() => scheduleOperations.id), // null for undo and redo replays
   changeTimestamp: timestamp("change_timestamp").defaultNow().notNull(),
 });
 
@@ -136,10 +400,19 @@ export const insertChangeHistorySchema = createInsertSchema(changeHistory).pick(
   scheduleId: true,
   staffId: true,
   date: true,
+  action: true,
   oldShiftTypeId: true,
   newShiftTypeId: true,
+  before: true,
+  after: true,
   reason: true,
+  changedByUserId: true,
   changedByStaffId: true,
+  operationId: true,
+}).extend({
+  action: z.enum(CHANGE_ACTIONS).default("update"),
+  before: z.custom<Schedule>().nullable().optional(),
+  after: z.custom<Schedule>().nullable().optional(),
 });
 
 // Notifications table
@@ -159,12 +432,135 @@ export const insertNotificationSchema = createInsertSchema(notifications).pick({
   isRead: true,
 });
 
+// Labour rules table: the row without a unit is the organization default,
+// unit rows override individual limits (null means inherit the default)
+export const labourRules = pgTable("labour_rules", {
+  id: serial("id").primaryKey(),
+  unit: text("unit").unique(), // null for the organization default
+  maxConsecutiveShifts: integer("max_consecutive_shifts"),
+  maxShiftsPerWeek: integer("max_shifts_per_week"),
+  minRestHours: integer("min_rest_hours"),
+  maxHoursPerWeek: integer("max_hours_per_week"),
+  maxNightShiftsPerPeriod: integer("max_night_shifts_per_period"),
+  nightShiftPeriodDays: integer("night_shift_period_days"),
+  minDaysOffPerFortnight: integer("min_days_off_per_fortnight"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertLabourRulesSchema = createInsertSchema(labourRules).pick({
+  unit: true,
+  maxConsecutiveShifts: true,
+  maxShiftsPerWeek: true,
+  minRestHours: true,
+  maxHoursPerWeek: true,
+  maxNightShiftsPerPeriod: true,
+  nightShiftPeriodDays: true,
+  minDaysOffPerFortnight: true,
+});
+
+// Labour rule limits as entered for the organization default
+export const labourRuleLimitsSchema = z.object({
+  maxConsecutiveShifts: z.number().int().min(1),
+  maxShiftsPerWeek: z.number().int().min(1).max(7),
+  minRestHours: z.number().int().min(0).max(48),
+  maxHoursPerWeek: z.number().int().min(1).max(168),
+  maxNightShiftsPerPeriod: z.number().int().min(0),
+  nightShiftPeriodDays: z.number().int().min(1).max(366),
+  minDaysOffPerFortnight: z.number().int().min(0).max(14),
+});
+
+// Unit overrides: a null limit inherits the organization default
+export const labourRuleOverridesSchema = z.object({
+  maxConsecutiveShifts: labourRuleLimitsSchema.shape.maxConsecutiveShifts.nullable(),
+  maxShiftsPerWeek: labourRuleLimitsSchema.shape.maxShiftsPerWeek.nullable(),
+  minRestHours: labourRuleLimitsSchema.shape.minRestHours.nullable(),
+  maxHoursPerWeek: labourRuleLimitsSchema.shape.maxHoursPerWeek.nullable(),
+  maxNightShiftsPerPeriod: labourRuleLimitsSchema.shape.maxNightShiftsPerPeriod.nullable(),
+  nightShiftPeriodDays: labourRuleLimitsSchema.shape.nightShiftPeriodDays.nullable(),
+  minDaysOffPerFortnight: labourRuleLimitsSchema.shape.minDaysOffPerFortnight.nullable(),
+});
+
+// Coverage requirements table: headcount needed per shift type, per weekday or
+// for a specific date (date rows replace the weekday rows for that day)
+export const coverageRequirements = pgTable("coverage_requirements", {
+  id: serial("id").primaryKey(),
+  shiftTypeId: integer("shift_type_id").references(() => shiftTypes.id).notNull(),
+  unit: text("unit"), // null applies to any unit without its own requirement
+  role: text("role"), // staff role, e.g. Nurse; null counts any role
+  weekday: integer("weekday"), // 0 (Sunday) to 6 (Saturday); null for date overrides
+  date: text("date"), // YYYY-MM-DD override; null for weekday rows
+  minStaff: integer("min_staff").notNull(),
+  targetStaff: integer("target_staff").notNull(),
+});
+
+export const insertCoverageRequirementSchema = createInsertSchema(coverageRequirements).pick({
+  shiftTypeId: true,
+  unit: true,
+  role: true,
+  weekday: true,
+  date: true,
+  minStaff: true,
+  targetStaff: true,
+});
+
+// Validated shape for the API: a weekday or a date (not both), target at least the minimum
+export const coverageRequirementSchema = z.object({
+  shiftTypeId: z.number().int(),
+  unit: z.string().min(1).nullable().default(null),
+  role: z.string().min(1).nullable().default(null),
+  weekday: z.number().int().min(0).max(6).nullable().default(null),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().default(null),
+  minStaff: z.number().int().min(0),
+  targetStaff: z.number().int().min(0),
+})
+  .refine(r => (r.weekday === null) !== (r.date === null), {
+    message: "Set either a weekday or a date",
+    path: ["weekday"],
+  })
+  .refine(r => r.targetStaff >= r.minStaff, {
+    message: "Target must be at least the minimum",
+    path: ["targetStaff"],
+  });
+
+// Skill-mix rules table: who must be on every instance of a shift, e.g. at least
+// one Doctor, two Nurses and one Charge Nurse on nights
+export const skillMixRules = pgTable("skill_mix_rules", {
+  id: serial("id").primaryKey(),
+  shiftTypeId: integer("shift_type_id").references(() => shiftTypes.id).notNull(),
+  unit: text("unit"), // null applies to any unit without its own rules
+  role: text("role"), // staff role; null matches any role
+  qualification: text("qualification"), // required qualification; null matches anyone
+  minCount: integer("min_count").notNull(),
+});
+
+export const insertSkillMixRuleSchema = createInsertSchema(skillMixRules).pick({
+  shiftTypeId: true,
+  unit: true,
+  role: true,
+  qualification: true,
+  minCount: true,
+});
+
+// Validated shape for the API: a rule must name a role, a qualification or both
+export const skillMixRuleSchema = z.object({
+  shiftTypeId: z.number().int(),
+  unit: z.string().min(1).nullable().default(null),
+  role: z.string().min(1).nullable().default(null),
+  qualification: z.string().min(1).nullable().default(null),
+  minCount: z.number().int().min(1),
+})
+  .refine(r => r.role !== null || r.qualification !== null, {
+    message: "Set a role, a qualification or both",
+    path: ["role"],
+  });
+
 // Types for TypeScript
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Staff = typeof staff.$inferSelect;
 export type InsertStaff = z.infer<typeof insertStaffSchema>;
+export type StaffPreferences = z.infer<typeof staffPreferencesSchema>;
 
 export type ShiftType = typeof shiftTypes.$inferSelect;
 export type InsertShiftType = z.infer<typeof insertShiftTypeSchema>;
@@ -172,9 +568,37 @@ export type InsertShiftType = z.infer<typeof insertShiftTypeSchema>;
 export type DutyType = typeof dutyTypes.$inferSelect;
 export type InsertDutyType = z.infer<typeof insertDutyTypeSchema>;
 
+export type ShiftCategory = typeof SHIFT_CATEGORIES[number];
+export type DutyCategory = typeof DUTY_CATEGORIES[number];
+
+export type DutyCycle = typeof dutyCycles.$inferSelect;
+export type InsertDutyCycle = z.infer<typeof insertDutyCycleSchema>;
+
+export type RotationStep = z.infer<typeof rotationStepSchema>;
+export type RotationTemplate = typeof rotationTemplates.$inferSelect;
+export type InsertRotationTemplate = z.infer<typeof insertRotationTemplateSchema>;
+
+export type StaffRotation = typeof staffRotations.$inferSelect;
+export type InsertStaffRotation = z.infer<typeof insertStaffRotationSchema>;
+
 export type Schedule = typeof schedules.$inferSelect;
 export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
 
+export type SchedulePeriodStatus = typeof SCHEDULE_PERIOD_STATUSES[number];
+export type SchedulePeriod = typeof schedulePeriods.$inferSelect;
+export type InsertSchedulePeriod = z.infer<typeof insertSchedulePeriodSchema>;
+
+export type ScheduleVersion = typeof scheduleVersions.$inferSelect;
+export type InsertScheduleVersion = z.infer<typeof insertScheduleVersionSchema>;
+
+export type Holiday = typeof holidays.$inferSelect;
+export type InsertHoliday = z.infer<typeof insertHolidaySchema>;
+
+export type OrganizationSettings = typeof organizationSettings.$inferSelect;
+export type InsertOrganizationSettings = z.infer<typeof organizationSettingsSchema>;
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+
 export type Availability = typeof availability.$inferSelect;
 export type InsertAvailability = z.infer<typeof insertAvailabilitySchema>;
 
@@ -183,10 +607,24 @@ export type InsertSwapRequest = z.infer<typeof insertSwapRequestSchema>;
 
 export type ChangeHistory = typeof changeHistory.$inferSelect;
 export type InsertChangeHistory = z.infer<typeof insertChangeHistorySchema>;
+export type ChangeAction = typeof CHANGE_ACTIONS[number];
+
+export type ScheduleOperationStatus = typeof SCHEDULE_OPERATION_STATUSES[number];
+export type ScheduleOperation = typeof scheduleOperations.$inferSelect;
+export type InsertScheduleOperation = z.infer<typeof insertScheduleOperationSchema>;
 
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
+export type LabourRules = typeof labourRules.$inferSelect;
+export type InsertLabourRules = z.infer<typeof insertLabourRulesSchema>;
+
+export type CoverageRequirement = typeof coverageRequirements.$inferSelect;
+export type InsertCoverageRequirement = z.infer<typeof insertCoverageRequirementSchema>;
+
+export type SkillMixRule = typeof skillMixRules.$inferSelect;
+export type InsertSkillMixRule = z.infer<typeof insertSkillMixRuleSchema>;
+
 // Extended types for frontend use
 export type StaffWithUser = Staff & {
   user: User;
@@ -203,3 +641,19 @@ export type SwapRequestWithDetails = SwapRequest & {
   requestedStaff: StaffWithUser;
   shiftType: ShiftType;
 };
+
+// Response types with credentials stripped, safe to send to clients
+export type PublicUser = Omit<User, "password">;
+
+export type PublicStaffWithUser = Staff & {
+  user: PublicUser;
+};
+
+export type PublicScheduleWithDetails = Omit<ScheduleWithDetails, "staff"> & {
+  staff: PublicStaffWithUser;
+};
+
+export type PublicSwapRequestWithDetails = Omit<SwapRequestWithDetails, "requestingStaff" | "requestedStaff"> & {
+  requestingStaff: PublicStaffWithUser;
+  requestedStaff: PublicStaffWithUser;
+};